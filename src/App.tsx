@@ -1,20 +1,23 @@
-import React, { useState, useEffect, createContext, useContext, useCallback } from 'react';
+import React, { useState, useEffect, createContext, useContext, useCallback, useRef, useMemo } from 'react';
 import { initializeApp, type FirebaseApp } from 'firebase/app';
 import { getAuth, signInAnonymously, signInWithCustomToken, onAuthStateChanged, signOut, createUserWithEmailAndPassword, signInWithEmailAndPassword, type Auth as FirebaseAuthType, User } from 'firebase/auth';
-import { getFirestore, collection, addDoc, updateDoc, onSnapshot, query, orderBy, doc, deleteDoc, setDoc, type Firestore, Timestamp } from 'firebase/firestore';
-import { Line, Pie } from 'react-chartjs-2';
+import { getFirestore, collection, addDoc, updateDoc, onSnapshot, query, orderBy, doc, deleteDoc, setDoc, type Firestore, type DocumentData, type UpdateData, Timestamp } from 'firebase/firestore';
+import { getStorage, ref as storageRef, uploadBytes, getBlob, deleteObject, type FirebaseStorage } from 'firebase/storage';
+import { Bar, Line, Pie } from 'react-chartjs-2';
 // Correct Chart.js imports for types are already here, but if the environment
 // still reports "Cannot find name", defining minimal types within the file
 // is a workaround for module resolution issues in constrained environments.
-import { Chart as ChartJS, CategoryScale, LinearScale, PointElement, LineElement, Title, Tooltip, Legend, ArcElement } from 'chart.js'; // Removed ChartOptions, TooltipItem from here to redefine locally if needed
+import { addDays, adjustToBusinessDay, applySpendingRunRates, DEFAULT_BASELINE_HISTORY_DAYS, estimateSpendingBaseline, getBaselineAmount, getBaselineEvents, getMonthlyRunRate, describeSpendingPattern, goalPriorityOrder, planGoalContributions, planDebtPayoff, bundledHolidayYears, describePaySchedule, getBundledHolidays, getClampedDate, getDefaultPaySchedule, describeExtraPayDate, getExtraPayGrossAmount, getExtraPayments, getTaxableExtraPayAmounts, getHolidayDataSource, getHolidays, getHolidaySet, getLatenessByPayer, getLatenessSamples, getLowestPoint, normalizePayer, agingBuckets, buildAgingReport, sumReceivedPayments, parseStatementAmount, detectDecimalSeparator, summarizePaymentHistory, DEFAULT_SIMULATION_RUNS, getPaydays, getSpendingVariation, getProjectionEndDate, getSalaryPerPayday, getScheduleFrequency, getWorkingDaysInMonth, parseDateInput, projectCashFlow, monthNames, simulateCashFlow, startOfDay, toDateInputValue, toDateKey, weekdayNames, type BusinessDayRule, type ExtraPayBasis, type ExtraPayComponent, type ForecastEvent, type Holiday, type HolidayCalendarEdits, type HolidaySet, type HolidayType, type PaySchedule, type PayScheduleType, type PaymentRecord, type GoalContributionPlan, type GoalPriority, type DebtPayoffPlan, type PayoffDebt, type PayoffStrategy, type SpendingRecord, type SpendingRunRate, type UncertainIncome, type SimulationOptions, type SimulationResult, type CategoryBaseline, type AgingBucket, type DecimalSeparator } from './forecast';
+import { Chart as ChartJS, CategoryScale, LinearScale, PointElement, LineElement, Title, Tooltip, Legend, ArcElement, Filler, BarElement } from 'chart.js'; // Removed ChartOptions, TooltipItem from here to redefine locally if needed
 
 // Register Chart.js components
-ChartJS.register(CategoryScale, LinearScale, PointElement, LineElement, Title, Tooltip, Legend, ArcElement);
+ChartJS.register(CategoryScale, LinearScale, PointElement, LineElement, Title, Tooltip, Legend, ArcElement, Filler, BarElement);
 
 // Declare global variables provided by the Canvas environment for TypeScript
 declare const __app_id: string | undefined;
 declare const __firebase_config: string | undefined;
 declare const __initial_auth_token: string | null | undefined;
+declare const __storage_backend: string | undefined;
 
 // Global variables provided by the Canvas environment
 const appId = typeof __app_id !== 'undefined' ? __app_id : 'default-cashflow-app';
@@ -24,6 +27,7 @@ const initialAuthToken = typeof __initial_auth_token !== 'undefined' ? __initial
 let app: FirebaseApp | undefined;
 let auth: FirebaseAuthType | undefined;
 let db: Firestore | undefined;
+let firebaseStorage: FirebaseStorage | undefined; // Only when the config names a storage bucket
 let firebaseInitialized = false;
 
 // Initialize Firebase once
@@ -33,6 +37,7 @@ try {
         app = initializeApp(parsedFirebaseConfig);
         auth = getAuth(app);
         db = getFirestore(app);
+        if (parsedFirebaseConfig.storageBucket) firebaseStorage = getStorage(app);
         firebaseInitialized = true;
         console.log("Firebase initialized successfully.");
     } else {
@@ -42,6 +47,15 @@ try {
     console.error("Failed to parse Firebase config or initialize Firebase:", (e as Error).message);
 }
 
+// Select the storage backend once at startup: an explicit `__storage_backend` global wins, then a
+// `spenditure:storageBackend` localStorage setting, otherwise Firestore when configured and offline storage when not.
+type StorageBackend = 'firestore' | 'local';
+const LOCAL_USER_ID = 'local-user';
+const requestedStorageBackend = typeof __storage_backend !== 'undefined' ? __storage_backend : localStorage.getItem('spenditure:storageBackend');
+const storageBackend: StorageBackend = requestedStorageBackend === 'firestore' || requestedStorageBackend === 'local'
+    ? requestedStorageBackend
+    : (firebaseInitialized ? 'firestore' : 'local');
+
 // --- Type Definitions (Consolidated) ---
 // These are defined here to ensure they are available within this single consolidated file,
 // especially if external @types packages are not correctly resolved by the environment.
@@ -56,6 +70,7 @@ interface ModalProps {
     onClose: () => void;
     onConfirm?: () => void;
     showConfirmButton?: boolean;
+    confirmLabel?: string;
     children?: React.ReactNode;
 }
 
@@ -67,18 +82,156 @@ interface AuthContextType {
 interface NavbarProps {
     userId: string | null;
     userName: string | null;
-    onLogout: () => void;
+    onLogout?: () => void; // Omitted in offline mode, where there is no account to sign out of
     currentPage: string;
     setCurrentPage: (page: string) => void;
 }
 
+// One edited field, with values formatted as text so the log stays readable after schema changes
+interface RecordChange {
+    field: string;
+    from: string;
+    to: string;
+}
+
+interface RecordHistoryEntry {
+    changedAt: Date;
+    changes: RecordChange[];
+}
+
+type AccountType = 'cash' | 'bank' | 'e-wallet' | 'credit-card';
+
+interface AccountItem {
+    id: string;
+    name: string;
+    type: AccountType;
+    openingBalance: number; // Negative for a credit card that already carries a balance
+    openingDate: Date; // Records dated before this are assumed to be included in openingBalance
+    archived: boolean; // Archived accounts keep their history but are hidden from pickers
+    createdAt: Date;
+    currency?: string; // Balance is kept in this currency; PHP when unset
+    // Credit cards only. With both days set, purchases roll up into a statement that closes on statementClosingDay
+    // and is paid in full on paymentDueDay (clamped to the month's last day).
+    statementClosingDay?: number;
+    paymentDueDay?: number;
+    creditLimit?: number;
+    minimumPaymentPercent?: number; // Minimum due is this share of the statement balance...
+    minimumPaymentFloor?: number; // ...but never less than this amount, unless the whole balance is smaller
+    paymentAccountId?: string; // Account statements are paid from; the default account when unset
+}
+
+// Money moved between two of the user's own accounts. Changes both balances but is neither income nor expense.
+interface TransferItem {
+    id: string;
+    fromAccountId: string;
+    toAccountId: string;
+    amount: number;
+    date: Date;
+    description: string;
+    createdAt: Date;
+    currency?: string; // The source account's currency; the destination receives the converted amount
+}
+
+// One billing cycle of a credit card. Amounts are in the card's currency.
+interface CardStatement {
+    accountId: string;
+    closingDate: Date;
+    dueDate: Date;
+    statementBalance: number; // Owed when the statement closed
+    amountDue: number; // Statement balance less payments made since it closed
+    minimumPayment: number;
+}
+
+// Which accounts a forecast covers. With no selected account the projection is consolidated cash.
+interface ForecastAccountContext {
+    accounts: AccountItem[];
+    transfers: TransferItem[];
+    defaultAccountId: string | null;
+    selectedAccountId: string | null;
+}
+
+// 1 unit of `currency` is worth `rate` units of `base`, from `date` until a newer rate for the same pair
+interface ExchangeRate {
+    base: string;
+    currency: string;
+    rate: number;
+    date: Date;
+}
+
+interface AccountBalance {
+    account: AccountItem;
+    balance: number;
+}
+
+// 'paid' marks the income Paid; drafts and sent invoices are Outstanding
+type InvoiceStatus = 'draft' | 'sent' | 'paid';
+
+// VAT or percentage tax, charged on the subtotal and added to the amount due
+type InvoiceTaxType = 'none' | 'vat' | 'percentage';
+
+interface InvoiceLineItem {
+    id: string;
+    description: string;
+    quantity: number;
+    unitPrice: number;
+}
+
+// The invoice behind an income. The income's amount, due date and status follow it.
+interface InvoiceDetails {
+    number: string;
+    issueDate: Date;
+    paymentTermsDays: number; // Due this many days after the issue date; 0 is due on receipt
+    lineItems: InvoiceLineItem[];
+    taxType: InvoiceTaxType;
+    taxRate: number; // Percent
+    status: InvoiceStatus;
+    clientAddress: string;
+    clientEmail: string;
+    clientTaxId: string;
+    notes: string;
+}
+
+// A client in the directory. Incomes and retainers whose client name matches are linked to it.
+interface ClientItem {
+    id: string;
+    name: string;
+    contactName: string;
+    email: string;
+    phone: string;
+    address: string;
+    taxId: string;
+    defaultPaymentTermsDays: number | null; // New invoices use the invoice settings' default when null
+    createdAt: Date;
+}
+
 interface IncomeItem {
     id: string;
     client: string;
+    clientId?: string | null; // The directory client this income is linked to; unset or null when there is none
     amount: number;
     dueDate: Date;
     status: 'Outstanding' | 'Paid';
+    paidDate?: Date | null; // When the payment arrived; unset on records paid before it was captured
     createdAt: Date;
+    currency?: string; // ISO 4217 code; records saved before currencies were supported are PHP
+    accountId?: string; // Unset on records from before accounts existed; those belong to the default account
+    recurringIncomeId?: string; // Set when materialized from a RecurringIncomeItem
+    businessDayRule?: BusinessDayRule; // When a due date on a weekend or holiday is expected to be paid; no shift when unset
+    history?: RecordHistoryEntry[]; // Audit trail of edits, oldest first
+    invoice?: InvoiceDetails;
+}
+
+// The income fields an invoice does not decide
+type InvoiceIncomeFields = Pick<IncomeItem, 'client' | 'currency' | 'accountId'>;
+
+// A photo or PDF of a receipt. The file itself is kept in the blob store under `storageKey`.
+interface ReceiptAttachment {
+    id: string;
+    fileName: string;
+    contentType: string;
+    size: number; // Bytes
+    storageKey: string;
+    thumbnail?: string; // Small JPEG data URL of a photo, so it shows without loading the file
 }
 
 interface ExpenseItem {
@@ -89,6 +242,47 @@ interface ExpenseItem {
     date: Date;
     description: string;
     createdAt: Date;
+    currency?: string; // ISO 4217 code; records saved before currencies were supported are PHP
+    accountId?: string; // Unset on records from before accounts existed; those belong to the default account
+    history?: RecordHistoryEntry[]; // Audit trail of edits, oldest first
+    attachments?: ReceiptAttachment[];
+}
+
+type RecurrenceFrequency = 'daily' | 'weekly' | 'monthly' | 'quarterly' | 'annually';
+
+// How monthly/quarterly/annual schedules pick the day within a month.
+// 'fixed-day' is clamped to the month's last day (e.g. 31 -> Feb 28).
+type DayOfMonthRule = 'start-date' | 'fixed-day' | 'last-day';
+
+interface RecurrenceSchedule {
+    frequency: RecurrenceFrequency;
+    startDate: Date;
+    endDate: Date | null;
+    dayOfMonthRule: DayOfMonthRule;
+    dayOfMonth: number;
+}
+
+interface RecurringExpenseItem extends RecurrenceSchedule {
+    id: string;
+    vendor: string;
+    amount: number;
+    category: string;
+    description: string;
+    createdAt: Date;
+    currency?: string;
+    accountId?: string;
+}
+
+interface RecurringIncomeItem extends RecurrenceSchedule {
+    id: string;
+    client: string;
+    amount: number;
+    lastGeneratedDate: Date | null; // Due date of the latest occurrence already written to incomes
+    createdAt: Date;
+    clientId?: string | null; // Copied to every income generated from this template
+    currency?: string;
+    accountId?: string; // Copied to every income generated from this template
+    businessDayRule?: BusinessDayRule; // Copied to every income generated from this template
 }
 
 interface DeductionItem {
@@ -96,42 +290,385 @@ interface DeductionItem {
     amount: number;
 }
 
+type EmploymentSector = 'private' | 'government'; // Private employees contribute to SSS, government employees to GSIS
+
+type StatutoryDeductionName = 'SSS' | 'GSIS' | 'Philhealth' | 'Pag-Ibig Fund' | 'Withholding Tax';
+
+interface StatutoryDeductionSettings {
+    enabled: boolean;
+    year: number; // Which contribution and tax tables to apply
+    sector: EmploymentSector;
+    overrides: Partial<Record<StatutoryDeductionName, number>>; // Manual amounts that replace the computed ones
+}
+
+interface StatutoryDeductionLine {
+    name: StatutoryDeductionName;
+    computed: number;
+    amount: number; // The override when set, otherwise the computed amount
+    overridden: boolean;
+}
+
+// One extra pay component's yearly payment after withholding tax
+interface ExtraPayLine {
+    component: ExtraPayComponent;
+    grossAmount: number;
+    taxableAmount: number; // All of a taxable component; a non-taxable one's share of pay beyond the yearly exemption
+    withholdingTax: number;
+    netAmount: number;
+}
+
+// Employee shares only. Annual withholding tax = base + rate * (taxable income - over).
+interface StatutoryContributionTable {
+    sss: { employeeRate: number; minCredit: number; maxCredit: number; creditStep: number };
+    philhealth: { employeeRate: number; floor: number; ceiling: number };
+    pagIbig: { lowRate: number; lowThreshold: number; rate: number; maxCompensation: number };
+    gsis: { employeeRate: number };
+    withholdingBrackets: { over: number; base: number; rate: number }[];
+}
+
+// 'fixed' charges add-on interest on the original principal every period (typical of salary loans);
+// 'diminishing' charges interest on the remaining balance (standard amortization).
+type LoanInterestMethod = 'fixed' | 'diminishing';
+
 interface LoanItem {
     id: string;
     loanName: string;
-    amount: number;
+    amount: number; // Periodic payment; derived from the terms below for amortized loans
     paymentFrequency: 'monthly' | 'quarterly' | 'annually';
     nextPaymentDate: Date;
+    // Amortized loans only. Loans without a principal repeat `amount` from nextPaymentDate with no end.
+    principal?: number;
+    annualInterestRate?: number; // Percent
+    interestMethod?: LoanInterestMethod;
+    termPayments?: number;
+    startDate?: Date; // Due date of the first payment
+    businessDayRule?: BusinessDayRule; // Moves payments due on weekends and holidays; no shift when unset
+}
+
+interface AmortizationRow {
+    paymentNumber: number;
+    date: Date;
+    payment: number;
+    interest: number;
+    principal: number;
+    balance: number; // Remaining principal after this payment
+}
+
+interface ExpenseCategory {
+    id: string;
+    name: string; // Stored on ExpenseItem.category, so names are unique across all levels
+    parentId: string | null; // Only top-level categories can have subcategories
+    color: string;
+    icon: string;
+}
+
+// What happens to a category's unused budget at the end of a month.
+// 'unused' carries leftovers forward only; 'unused-and-overspend' also carries overspending as a negative amount.
+type BudgetRollover = 'none' | 'unused' | 'unused-and-overspend';
+
+interface CategoryBudget {
+    category: string;
+    monthlyLimit: number;
+    rollover: BudgetRollover;
+    startMonth: string; // 'YYYY-MM'; rollover is accumulated from this month onwards
+}
+
+interface BudgetStatus {
+    category: string;
+    monthlyLimit: number;
+    carriedOver: number;
+    available: number; // monthlyLimit + carriedOver
+    spent: number;
+    remaining: number;
+    percentUsed: number;
+    alertThreshold: number | null; // Highest configured threshold crossed this month, if any
+}
+
+// A hypothetical change a what-if scenario layers on top of the real data
+type ScenarioChangeType = 'one-off-expense' | 'one-off-income' | 'new-loan' | 'salary-change' | 'drop-recurring-expense';
+
+interface ScenarioChange {
+    id: string;
+    type: ScenarioChangeType;
+    label: string;
+    date: Date; // The purchase or income date, the first loan payment, or when the salary change or cancellation starts
+    amount?: number; // One-off amounts and loan principals, in the base currency
+    percent?: number; // Salary changes, e.g. 10 for a 10% raise or -5 for a cut
+    annualInterestRate?: number; // New loans; percent, on the diminishing balance
+    termPayments?: number; // New loans; number of monthly payments
+    recurringExpenseId?: string; // The recurring expense a cancellation stops
+}
+
+interface ForecastScenario {
+    id: string;
+    name: string;
+    changes: ScenarioChange[];
+}
+
+// Money being put aside for something, e.g. PHP 60,000 for tuition by June. Amounts are in the base currency.
+interface SavingsGoal {
+    id: string;
+    name: string;
+    targetAmount: number;
+    targetDate: Date;
+    savedAmount: number; // Contributions recorded so far
+    accountId?: string; // Where the savings are kept; contributions leave the salary account when unset too
+    priority: GoalPriority;
+    createdAt: Date;
+}
+
+// The sender's details on invoices, how they are numbered and what new invoices start with
+interface InvoiceSettings {
+    businessName: string; // The profile name when empty
+    businessAddress: string;
+    taxId: string;
+    numberPrefix: string;
+    nextNumber: number;
+    defaultPaymentTermsDays: number;
+    defaultTaxType: InvoiceTaxType;
+    defaultTaxRate: number;
+}
+
+// The debt payoff plan the user chose. Only monthly loans with principal and term details take part; when the plan is
+// applied, the forecast pays those loans as the plan says instead of on their own schedules.
+interface DebtPayoffSettings {
+    strategy: PayoffStrategy;
+    extraMonthlyPayment: number; // On top of the loans' own payments, in the base currency
+    customOrder: string[]; // Loan ids, for the 'custom' strategy
+    applyToForecast: boolean;
 }
 
 interface UserProfile {
-    currentBalance: number;
+    currentBalance: number; // Manually entered; replaced by account balances once accounts are set up
+    defaultAccountId?: string; // Account used for records without one, and for loan payments
+    salaryAccountId?: string; // Account the salary is paid into; the default account when unset
+    // Totals are reported in the base currency, and salary, deductions, loans and budgets are entered in it. PHP when unset.
+    baseCurrency?: string;
+    exchangeRates?: ExchangeRate[];
     salaryIncome: number; // This is Gross Salary
     salaryFrequency: 'weekly' | 'fortnightly' | 'monthly';
+    paySchedule?: PaySchedule; // When salary is paid; derived from salaryFrequency when unset
+    extraPay?: ExtraPayComponent[]; // 13th-month pay, bonuses and allowances paid on top of the salary
     lastUpdated: Date;
     name: string;
-    numberOfDaysOffPerMonth?: number;
+    numberOfDaysOffPerMonth?: number; // No longer used; working days come from restDays and the holiday calendar
+    restDays?: number[]; // Weekdays not worked, 0 (Sunday) to 6; Saturday and Sunday when unset
+    holidayCalendar?: HolidayCalendarEdits; // Changes to the bundled Philippine holiday calendar
     deductions: DeductionItem[];
     loans: LoanItem[];
+    expenseCategories?: ExpenseCategory[];
+    statutoryDeductions?: StatutoryDeductionSettings;
+    budgets?: CategoryBudget[];
+    budgetAlertThresholds?: number[]; // Percentages of the available budget, e.g. [80, 100]
+    scenarios?: ForecastScenario[]; // What-if scenarios compared against the forecast on the dashboard
+    spendingRunRates?: SpendingRunRate[]; // Monthly amounts the forecast uses instead of a category's estimated typical spending
+    savingsGoals?: SavingsGoal[];
+    debtPayoffPlan?: DebtPayoffSettings;
+    invoiceSettings?: InvoiceSettings;
 }
 
 interface IncomeComponentProps {
+    userProfile: UserProfile | null;
+    updateUserProfile: (profile: Partial<UserProfile>) => Promise<void>;
+    clients: ClientItem[];
     addIncome: (item: Omit<IncomeItem, 'id' | 'createdAt'>) => Promise<void>;
+    saveInvoice: (invoice: InvoiceDetails, fields: InvoiceIncomeFields, incomeId?: string) => Promise<void>;
     incomes: IncomeItem[];
+    accounts: AccountItem[];
+    defaultAccountId: string | null;
     updateIncomeStatus: (id: string, status: 'Paid') => Promise<void>;
+    updateIncome: (id: string, changes: Partial<Omit<IncomeItem, 'id' | 'createdAt' | 'history'>>) => Promise<void>;
     deleteIncome: (id: string) => Promise<void>;
+    baseCurrency: string;
+    currencyOptions: string[];
+    recurringIncomes: RecurringIncomeItem[];
+    addRecurringIncome: (item: Omit<RecurringIncomeItem, 'id' | 'createdAt' | 'lastGeneratedDate'>) => Promise<void>;
+    deleteRecurringIncome: (id: string) => Promise<void>;
+}
+
+interface InvoiceEditorProps {
+    income: IncomeItem | null; // Null for a new invoice
+    userProfile: UserProfile | null;
+    clients: ClientItem[];
+    accounts: AccountItem[];
+    defaultAccountId: string | null;
+    baseCurrency: string;
+    currencyOptions: string[];
+    saveInvoice: (invoice: InvoiceDetails, fields: InvoiceIncomeFields, incomeId?: string) => Promise<void>;
+    onSaved: (message: string) => void;
+    onClose: () => void;
+}
+
+interface InvoiceSettingsEditorProps {
+    userProfile: UserProfile | null;
+    updateUserProfile: (profile: Partial<UserProfile>) => Promise<void>;
 }
 
 interface ExpenseComponentProps {
     addExpense: (item: Omit<ExpenseItem, 'id' | 'createdAt'>) => Promise<void>;
     expenses: ExpenseItem[];
+    accounts: AccountItem[];
+    defaultAccountId: string | null;
+    updateExpense: (id: string, changes: Partial<Omit<ExpenseItem, 'id' | 'createdAt' | 'history'>>) => Promise<void>;
     deleteExpense: (id: string) => Promise<void>;
+    addExpenseAttachments: (expenseId: string, files: File[]) => Promise<void>;
+    removeExpenseAttachment: (expenseId: string, attachmentId: string) => Promise<void>;
+    getExpenseAttachment: (attachment: ReceiptAttachment) => Promise<Blob | null>;
+    baseCurrency: string;
+    currencyOptions: string[];
+    recurringExpenses: RecurringExpenseItem[];
+    addRecurringExpense: (item: Omit<RecurringExpenseItem, 'id' | 'createdAt'>) => Promise<void>;
+    deleteRecurringExpense: (id: string) => Promise<void>;
+    expenseCategories: ExpenseCategory[];
+    saveExpenseCategories: (categories: ExpenseCategory[]) => Promise<void>;
+    updateExpenseCategory: (categoryId: string, changes: Omit<ExpenseCategory, 'id'>) => Promise<void>;
+    mergeExpenseCategories: (sourceId: string, targetId: string) => Promise<void>;
+}
+
+interface RecordHistoryProps {
+    history?: RecordHistoryEntry[];
+}
+
+interface ExpenseCategoryOptionsProps {
+    categories: ExpenseCategory[];
+}
+
+interface CurrencyOptionsProps {
+    currencies: string[];
+}
+interface AccountOptionsProps {
+    accounts: AccountItem[];
+    selectedId?: string; // Kept in the list even when archived, so existing records still show their account
+}
+
+interface ClientNameListProps {
+    id: string;
+    clients: ClientItem[];
+}
+
+interface ExpenseCategoryManagerProps {
+    expenseCategories: ExpenseCategory[];
+    expenses: ExpenseItem[];
+    recurringExpenses: RecurringExpenseItem[];
+    saveExpenseCategories: (categories: ExpenseCategory[]) => Promise<void>;
+    updateExpenseCategory: (categoryId: string, changes: Omit<ExpenseCategory, 'id'>) => Promise<void>;
+    mergeExpenseCategories: (sourceId: string, targetId: string) => Promise<void>;
 }
 
+interface CsvImportRow {
+    key: number;
+    date: Date | null;
+    description: string;
+    amount: number; // Always positive; type carries the direction
+    type: 'expense' | 'income';
+    category: string;
+    include: boolean;
+    duplicate: boolean;
+    error: string | null;
+}
+
+interface CsvImportComponentProps {
+    baseCurrency: string;
+    incomes: IncomeItem[];
+    expenses: ExpenseItem[];
+    addIncome: (item: Omit<IncomeItem, 'id' | 'createdAt'>) => Promise<void>;
+    addExpense: (item: Omit<ExpenseItem, 'id' | 'createdAt'>) => Promise<void>;
+    expenseCategories: ExpenseCategory[];
+    accounts: AccountItem[];
+    defaultAccountId: string | null;
+}
+
+interface DataBackupComponentProps {
+    userProfile: UserProfile | null;
+    clients: ClientItem[];
+    incomes: IncomeItem[];
+    expenses: ExpenseItem[];
+    recurringExpenses: RecurringExpenseItem[];
+    recurringIncomes: RecurringIncomeItem[];
+    accounts: AccountItem[];
+    transfers: TransferItem[];
+    restoreData: (backup: BackupData, mode: 'merge' | 'replace') => Promise<void>;
+    getExpenseAttachment: (attachment: ReceiptAttachment) => Promise<Blob | null>;
+}
+
+interface CurrencySettingsComponentProps {
+    userProfile: UserProfile | null;
+    updateUserProfile: (profile: Partial<UserProfile>) => Promise<void>;
+}
+
+interface HolidayCalendarSettingsComponentProps {
+    userProfile: UserProfile | null;
+    updateUserProfile: (profile: Partial<UserProfile>) => Promise<void>;
+}
+
+type DataManagementComponentProps = CsvImportComponentProps & DataBackupComponentProps & CurrencySettingsComponentProps & HolidayCalendarSettingsComponentProps;
+
 interface DashboardComponentProps {
     incomes: IncomeItem[];
     expenses: ExpenseItem[];
+    recurringExpenses: RecurringExpenseItem[];
+    recurringIncomes: RecurringIncomeItem[];
+    accounts: AccountItem[];
+    transfers: TransferItem[];
+    userProfile: UserProfile | null;
+    updateUserProfile: (profile: Partial<UserProfile>) => Promise<void>;
+}
+
+interface DebtPayoffPlannerProps {
+    userProfile: UserProfile | null;
+    updateUserProfile: (profile: Partial<UserProfile>) => Promise<void>;
+}
+
+interface SpendingBaselineEditorProps {
+    userProfile: UserProfile | null;
+    updateUserProfile: (profile: Partial<UserProfile>) => Promise<void>;
+    spendingBaseline: CategoryBaseline[]; // Estimated from the spending history, before the user's run-rates
+    expenseCategories: ExpenseCategory[];
+}
+
+interface ScenarioPlannerComponentProps {
+    userProfile: UserProfile | null;
+    updateUserProfile: (profile: Partial<UserProfile>) => Promise<void>;
+    recurringExpenses: RecurringExpenseItem[];
+}
+
+interface AccountsComponentProps {
+    accounts: AccountItem[];
+    transfers: TransferItem[];
+    incomes: IncomeItem[];
+    expenses: ExpenseItem[];
+    recurringExpenses: RecurringExpenseItem[];
+    recurringIncomes: RecurringIncomeItem[];
+    userProfile: UserProfile | null;
+    addAccount: (item: Omit<AccountItem, 'id' | 'createdAt' | 'archived'>) => Promise<void>;
+    updateAccount: (id: string, changes: Partial<Omit<AccountItem, 'id' | 'createdAt'>>) => Promise<void>;
+    deleteAccount: (id: string) => Promise<void>;
+    addTransfer: (item: Omit<TransferItem, 'id' | 'createdAt'>) => Promise<void>;
+    deleteTransfer: (id: string) => Promise<void>;
+    updateUserProfile: (profile: Partial<UserProfile>) => Promise<void>;
+}
+
+interface ClientsComponentProps {
+    clients: ClientItem[];
+    incomes: IncomeItem[];
+    recurringIncomes: RecurringIncomeItem[];
+    userProfile: UserProfile | null;
+    addClient: (item: Omit<ClientItem, 'id' | 'createdAt'>) => Promise<void>;
+    updateClient: (id: string, changes: Partial<Omit<ClientItem, 'id' | 'createdAt'>>) => Promise<void>;
+    deleteClient: (id: string) => Promise<void>;
+    mergeClientNames: (clientId: string, names: string[]) => Promise<void>;
+}
+
+interface BudgetsComponentProps {
+    userProfile: UserProfile | null;
+    updateUserProfile: (profile: Partial<UserProfile>) => Promise<void>;
+    expenses: ExpenseItem[];
+}
+
+interface SavingsGoalsComponentProps {
     userProfile: UserProfile | null;
+    updateUserProfile: (profile: Partial<UserProfile>) => Promise<void>;
+    accounts: AccountItem[];
 }
 
 interface ProfileComponentProps {
@@ -139,6 +676,10 @@ interface ProfileComponentProps {
     updateUserProfile: (profile: Partial<UserProfile>) => Promise<void>;
     incomes: IncomeItem[];
     expenses: ExpenseItem[];
+    recurringExpenses: RecurringExpenseItem[];
+    recurringIncomes: RecurringIncomeItem[];
+    accounts: AccountItem[];
+    transfers: TransferItem[];
 }
 
 
@@ -154,6 +695,254 @@ const useAuth = () => {
     return context;
 };
 
+// --- Storage Adapters (Consolidated) ---
+// useFirebaseData talks to a StorageAdapter instead of Firestore directly, so the app can run against
+// Firestore or entirely offline in the browser. Adapters hand back plain objects with Date fields already revived.
+type StorageCollection = 'incomes' | 'expenses' | 'recurringExpenses' | 'recurringIncomes' | 'accounts' | 'transfers' | 'clients';
+type StorageRecord = { id: string } & Record<string, unknown>;
+type StorageData = Record<string, unknown>;
+
+interface StorageAdapter {
+    subscribeCollection: (name: StorageCollection, onData: (items: StorageRecord[]) => void, onError: (error: Error) => void) => () => void;
+    addItem: (name: StorageCollection, data: StorageData) => Promise<string>;
+    setItem: (name: StorageCollection, id: string, data: StorageData) => Promise<void>; // Creates or overwrites a record with a known id
+    updateItem: (name: StorageCollection, id: string, changes: StorageData) => Promise<void>;
+    deleteItem: (name: StorageCollection, id: string) => Promise<void>;
+    subscribeProfile: (onData: (profile: StorageData | null) => void, onError: (error: Error) => void) => () => void;
+    saveProfile: (changes: StorageData) => Promise<void>; // Merges into the existing profile
+    replaceProfile: (profile: StorageData) => Promise<void>;
+}
+
+// Firestore stores Dates as Timestamps; convert them back anywhere in a document (e.g. inside profile.loans).
+const reviveFirestoreValue = (value: unknown): unknown => {
+    if (value instanceof Timestamp) return value.toDate();
+    if (Array.isArray(value)) return value.map(reviveFirestoreValue);
+    if (value && typeof value === 'object') {
+        return Object.fromEntries(Object.entries(value).map(([key, nested]) => [key, reviveFirestoreValue(nested)]));
+    }
+    return value;
+};
+
+const createFirestoreStorageAdapter = (firestore: Firestore, userId: string): StorageAdapter => {
+    const basePath = `artifacts/${appId}/users/${userId}`;
+    return {
+        subscribeCollection: (name, onData, onError) =>
+            onSnapshot(query(collection(firestore, `${basePath}/${name}`), orderBy('createdAt', 'desc')), (snapshot) => {
+                onData(snapshot.docs.map(docSnap => ({ id: docSnap.id, ...(reviveFirestoreValue(docSnap.data()) as StorageData) })));
+            }, onError),
+        addItem: async (name, data) => (await addDoc(collection(firestore, `${basePath}/${name}`), data)).id,
+        setItem: async (name, id, data) => {
+            await setDoc(doc(firestore, `${basePath}/${name}`, id), data);
+        },
+        updateItem: async (name, id, changes) => {
+            await updateDoc(doc(firestore, `${basePath}/${name}`, id), changes as UpdateData<DocumentData>);
+        },
+        deleteItem: async (name, id) => {
+            await deleteDoc(doc(firestore, `${basePath}/${name}`, id));
+        },
+        subscribeProfile: (onData, onError) =>
+            onSnapshot(doc(firestore, `${basePath}/profile`, 'current'), (docSnap) => {
+                onData(docSnap.exists() ? reviveFirestoreValue(docSnap.data()) as StorageData : null);
+            }, onError),
+        saveProfile: async (changes) => {
+            await setDoc(doc(firestore, `${basePath}/profile`, 'current'), changes, { merge: true });
+        },
+        replaceProfile: async (profile) => {
+            await setDoc(doc(firestore, `${basePath}/profile`, 'current'), profile);
+        },
+    };
+};
+
+// Offline adapter backed by localStorage. Dates are tagged on write so they round-trip as Date objects.
+const localStorageListeners = new Map<string, Set<() => void>>();
+
+const createLocalStorageAdapter = (userId: string): StorageAdapter => {
+    const keyFor = (name: StorageCollection | 'profile') => `spenditure:${appId}:${userId}:${name}`;
+
+    const serialize = (value: unknown) => JSON.stringify(value, function (this: Record<string, unknown>, key: string, serializedValue: unknown) {
+        const rawValue = this[key];
+        return rawValue instanceof Date ? { __date: rawValue.toISOString() } : serializedValue;
+    });
+    const deserialize = <T,>(raw: string | null, fallback: T): T => {
+        if (!raw) return fallback;
+        return JSON.parse(raw, (_key, value) =>
+            value && typeof value === 'object' && typeof value.__date === 'string' ? new Date(value.__date) : value
+        ) as T;
+    };
+
+    const readItems = (name: StorageCollection) => deserialize<StorageRecord[]>(localStorage.getItem(keyFor(name)), []);
+    const writeItems = (name: StorageCollection, items: StorageRecord[]) => {
+        localStorage.setItem(keyFor(name), serialize(items));
+        localStorageListeners.get(keyFor(name))?.forEach(listener => listener());
+    };
+    const listen = (key: string, listener: () => void) => {
+        if (!localStorageListeners.has(key)) localStorageListeners.set(key, new Set());
+        localStorageListeners.get(key)!.add(listener);
+        return () => { localStorageListeners.get(key)?.delete(listener); };
+    };
+    const createdAtTime = (item: StorageRecord) => (item.createdAt instanceof Date ? item.createdAt.getTime() : 0);
+
+    return {
+        subscribeCollection: (name, onData, onError) => {
+            const emit = () => {
+                try {
+                    onData(readItems(name).sort((a, b) => createdAtTime(b) - createdAtTime(a)));
+                } catch (error: unknown) {
+                    onError(error as Error);
+                }
+            };
+            queueMicrotask(emit); // Mirror onSnapshot, which never emits synchronously
+            return listen(keyFor(name), emit);
+        },
+        addItem: async (name, data) => {
+            const id = crypto.randomUUID();
+            writeItems(name, [...readItems(name), { ...data, id }]);
+            return id;
+        },
+        setItem: async (name, id, data) => {
+            writeItems(name, [...readItems(name).filter(item => item.id !== id), { ...data, id }]);
+        },
+        updateItem: async (name, id, changes) => {
+            const items = readItems(name);
+            if (!items.some(item => item.id === id)) throw new Error(`No ${name} record found with id ${id}.`);
+            writeItems(name, items.map(item => (item.id === id ? { ...item, ...changes, id } : item)));
+        },
+        deleteItem: async (name, id) => {
+            writeItems(name, readItems(name).filter(item => item.id !== id));
+        },
+        subscribeProfile: (onData, onError) => {
+            const emit = () => {
+                try {
+                    onData(deserialize<StorageData | null>(localStorage.getItem(keyFor('profile')), null));
+                } catch (error: unknown) {
+                    onError(error as Error);
+                }
+            };
+            queueMicrotask(emit);
+            return listen(keyFor('profile'), emit);
+        },
+        saveProfile: async (changes) => {
+            const existing = deserialize<StorageData>(localStorage.getItem(keyFor('profile')), {});
+            localStorage.setItem(keyFor('profile'), serialize({ ...existing, ...changes }));
+            localStorageListeners.get(keyFor('profile'))?.forEach(listener => listener());
+        },
+        replaceProfile: async (profile) => {
+            localStorage.setItem(keyFor('profile'), serialize(profile));
+            localStorageListeners.get(keyFor('profile'))?.forEach(listener => listener());
+        },
+    };
+};
+
+const createStorageAdapter = (userId: string): StorageAdapter | null => {
+    if (storageBackend === 'local') return createLocalStorageAdapter(userId);
+    return firebaseInitialized && db ? createFirestoreStorageAdapter(db, userId) : null;
+};
+
+// --- Blob Stores (Consolidated) ---
+// Receipt files are too large for records, so they live in a BlobStore and expenses keep only their keys.
+// Firebase Storage is used alongside Firestore when the config names a storage bucket; otherwise the files
+// stay on this device in IndexedDB.
+interface BlobStore {
+    put: (key: string, blob: Blob) => Promise<void>;
+    get: (key: string) => Promise<Blob | null>; // Null when there is no file under the key
+    remove: (key: string) => Promise<void>; // Succeeds when there is no file under the key
+}
+
+const createFirebaseBlobStore = (storage: FirebaseStorage, userId: string): BlobStore => {
+    const refFor = (key: string) => storageRef(storage, `artifacts/${appId}/users/${userId}/${key}`);
+    const isNotFound = (error: unknown) => (error as { code?: string }).code === 'storage/object-not-found';
+    return {
+        put: async (key, blob) => {
+            await uploadBytes(refFor(key), blob, { contentType: blob.type });
+        },
+        get: async (key) => {
+            try {
+                return await getBlob(refFor(key));
+            } catch (error: unknown) {
+                if (isNotFound(error)) return null;
+                throw error;
+            }
+        },
+        remove: async (key) => {
+            try {
+                await deleteObject(refFor(key));
+            } catch (error: unknown) {
+                if (!isNotFound(error)) throw error;
+            }
+        },
+    };
+};
+
+// One database per app, shared by every user on the device; keys are prefixed with the user id
+const openBlobDatabase = (): Promise<IDBDatabase> => new Promise((resolve, reject) => {
+    const request = indexedDB.open(`spenditure:${appId}:blobs`, 1);
+    request.onupgradeneeded = () => request.result.createObjectStore('blobs');
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+});
+
+const createIndexedDbBlobStore = (userId: string): BlobStore => {
+    const keyFor = (key: string) => `${userId}/${key}`;
+    const run = async <T,>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest): Promise<T> => {
+        const database = await openBlobDatabase();
+        try {
+            return await new Promise<T>((resolve, reject) => {
+                const request = action(database.transaction('blobs', mode).objectStore('blobs'));
+                request.onsuccess = () => resolve(request.result as T);
+                request.onerror = () => reject(request.error);
+            });
+        } finally {
+            database.close();
+        }
+    };
+    return {
+        put: async (key, blob) => {
+            await run('readwrite', store => store.put(blob, keyFor(key)));
+        },
+        get: async (key) => (await run<Blob | undefined>('readonly', store => store.get(keyFor(key)))) || null,
+        remove: async (key) => {
+            await run('readwrite', store => store.delete(keyFor(key)));
+        },
+    };
+};
+
+const createBlobStore = (userId: string): BlobStore =>
+    storageBackend === 'firestore' && firebaseStorage ? createFirebaseBlobStore(firebaseStorage, userId) : createIndexedDbBlobStore(userId);
+
+const MAX_RECEIPT_BYTES = 10 * 1024 * 1024;
+const RECEIPT_THUMBNAIL_SIZE = 160; // Longest side, in pixels
+
+const isReceiptFileType = (contentType: string): boolean => contentType.startsWith('image/') || contentType === 'application/pdf';
+
+// A small JPEG of a photo as a data URL; null for PDFs and for images the browser cannot decode (e.g. HEIC)
+const createReceiptThumbnail = async (file: Blob): Promise<string | null> => {
+    if (!file.type.startsWith('image/')) return null;
+    try {
+        const bitmap = await createImageBitmap(file);
+        const scale = Math.min(RECEIPT_THUMBNAIL_SIZE / bitmap.width, RECEIPT_THUMBNAIL_SIZE / bitmap.height, 1);
+        const canvas = document.createElement('canvas');
+        canvas.width = Math.max(Math.round(bitmap.width * scale), 1);
+        canvas.height = Math.max(Math.round(bitmap.height * scale), 1);
+        canvas.getContext('2d')?.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+        bitmap.close();
+        return canvas.toDataURL('image/jpeg', 0.7);
+    } catch {
+        return null;
+    }
+};
+
+const blobToDataUrl = (blob: Blob): Promise<string> => new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+});
+
+const dataUrlToBlob = async (dataUrl: string): Promise<Blob> => (await fetch(dataUrl)).blob();
+
+const formatFileSize = (bytes: number): string =>
+    bytes < 1024 * 1024 ? `${Math.max(Math.round(bytes / 1024), 1)} KB` : `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+
 // --- useFirebaseData Custom Hook (Consolidated) ---
 const useFirebaseData = () => {
     const [userId, setUserId] = useState<string | null>(null);
@@ -161,19 +950,36 @@ const useFirebaseData = () => {
     const [isAuthReady, setIsAuthReady] = useState<boolean>(false);
     const [incomes, setIncomes] = useState<IncomeItem[]>([]);
     const [expenses, setExpenses] = useState<ExpenseItem[]>([]);
+    const [recurringExpenses, setRecurringExpenses] = useState<RecurringExpenseItem[]>([]);
+    const [recurringIncomes, setRecurringIncomes] = useState<RecurringIncomeItem[]>([]);
+    const [accounts, setAccounts] = useState<AccountItem[]>([]);
+    const [transfers, setTransfers] = useState<TransferItem[]>([]);
+    const [clients, setClients] = useState<ClientItem[]>([]);
     const [userProfile, setUserProfile] = useState<UserProfile | null>(null);
     const [modalInfo, setModalInfo] = useState<{ isOpen: boolean; title: string; message: string }>({ isOpen: false, title: '', message: '' });
 
     const openModal = (title: string, message: string) => setModalInfo({ isOpen: true, title, message });
     const closeModal = () => setModalInfo({ isOpen: false, title: '', message: '' });
 
+    // The adapter is scoped to the signed-in user; every read and write below goes through it
+    const storage = useMemo(() => (userId ? createStorageAdapter(userId) : null), [userId]);
+    const blobStore = useMemo(() => (userId ? createBlobStore(userId) : null), [userId]);
+
     // 1. Firebase Authentication & User State Management
     useEffect(() => {
-        if (!firebaseInitialized || !auth) {
+        if (storageBackend === 'local') {
+            // Offline mode has no accounts: all data belongs to a single on-device user
+            setUserId(LOCAL_USER_ID);
+            setIsAuthReady(true);
+            return;
+        }
+
+        if (!firebaseInitialized || !auth) {
             openModal("Firebase Not Configured",
                 "To use Spenditure, you need to provide your Firebase configuration. " +
                 "Please add a Firebase project, get its configuration, and set " +
-                "the `__firebase_config` global variable in the Canvas environment."
+                "the `__firebase_config` global variable in the Canvas environment. " +
+                "To use Spenditure offline instead, set `__storage_backend` to 'local'."
             );
             return;
         }
@@ -205,59 +1011,84 @@ const useFirebaseData = () => {
         return () => unsubscribe();
     }, []); // Empty dependency array means this runs once on mount
 
-    // 2. Firestore Data Listeners (Incomes, Expenses, User Profile)
+    // 2. Data Listeners (Incomes, Expenses, Recurring Expenses, Recurring Incomes, Accounts, Transfers, Clients, User Profile)
     useEffect(() => {
-        if (!userId || !isAuthReady || !firebaseInitialized || !db) return;
+        if (!userId || !isAuthReady || !storage) return;
 
         // Income listener
-        const incomesQuery = query(collection(db, `artifacts/${appId}/users/${userId}/incomes`), orderBy('createdAt', 'desc'));
-        const unsubscribeIncomes = onSnapshot(incomesQuery, (snapshot) => {
-            const fetchedIncomes = snapshot.docs.map(doc => ({
-                id: doc.id,
-                ...doc.data(),
-                dueDate: (doc.data().dueDate instanceof Timestamp) ? doc.data().dueDate.toDate() : doc.data().dueDate,
-                createdAt: (doc.data().createdAt instanceof Timestamp) ? doc.data().createdAt.toDate() : doc.data().createdAt,
-            })) as IncomeItem[];
-            setIncomes(fetchedIncomes);
+        const unsubscribeIncomes = storage.subscribeCollection('incomes', (items) => {
+            setIncomes(items as unknown as IncomeItem[]);
         }, (error: unknown) => {
             console.error("Error fetching incomes:", (error as Error).message);
             openModal("Data Error", `Failed to load income data: ${(error as Error).message}`);
         });
 
         // Expenses listener
-        const expensesQuery = query(collection(db, `artifacts/${appId}/users/${userId}/expenses`), orderBy('createdAt', 'desc'));
-        const unsubscribeExpenses = onSnapshot(expensesQuery, (snapshot) => {
-            const fetchedExpenses = snapshot.docs.map(doc => ({
-                id: doc.id,
-                ...doc.data(),
-                date: (doc.data().date instanceof Timestamp) ? doc.data().date.toDate() : doc.data().date,
-                createdAt: (doc.data().createdAt instanceof Timestamp) ? doc.data().createdAt.toDate() : doc.data().createdAt,
-            })) as ExpenseItem[];
-            setExpenses(fetchedExpenses);
+        const unsubscribeExpenses = storage.subscribeCollection('expenses', (items) => {
+            setExpenses(items as unknown as ExpenseItem[]);
         }, (error: unknown) => {
             console.error("Error fetching expenses:", (error as Error).message);
             openModal("Data Error", `Failed to load expense data: ${(error as Error).message}`);
         });
 
+        // Recurring expense schedules listener (stored alongside the expenses collection)
+        const unsubscribeRecurringExpenses = storage.subscribeCollection('recurringExpenses', (items) => {
+            setRecurringExpenses(items.map(item => ({ ...item, endDate: item.endDate || null })) as unknown as RecurringExpenseItem[]);
+        }, (error: unknown) => {
+            console.error("Error fetching recurring expenses:", (error as Error).message);
+            openModal("Data Error", `Failed to load recurring expense data: ${(error as Error).message}`);
+        });
+
+        // Recurring income (retainer) templates listener
+        const unsubscribeRecurringIncomes = storage.subscribeCollection('recurringIncomes', (items) => {
+            setRecurringIncomes(items.map(item => ({
+                ...item,
+                endDate: item.endDate || null,
+                lastGeneratedDate: item.lastGeneratedDate || null,
+            })) as unknown as RecurringIncomeItem[]);
+        }, (error: unknown) => {
+            console.error("Error fetching recurring incomes:", (error as Error).message);
+            openModal("Data Error", `Failed to load recurring income data: ${(error as Error).message}`);
+        });
+
+        // Accounts and wallets listener
+        const unsubscribeAccounts = storage.subscribeCollection('accounts', (items) => {
+            setAccounts(items.map(item => ({ ...item, archived: item.archived || false })) as unknown as AccountItem[]);
+        }, (error: unknown) => {
+            console.error("Error fetching accounts:", (error as Error).message);
+            openModal("Data Error", `Failed to load account data: ${(error as Error).message}`);
+        });
+
+        // Transfers between accounts listener
+        const unsubscribeTransfers = storage.subscribeCollection('transfers', (items) => {
+            setTransfers(items as unknown as TransferItem[]);
+        }, (error: unknown) => {
+            console.error("Error fetching transfers:", (error as Error).message);
+            openModal("Data Error", `Failed to load transfer data: ${(error as Error).message}`);
+        });
+
+        // Client directory listener
+        const unsubscribeClients = storage.subscribeCollection('clients', (items) => {
+            setClients(items.map(item => ({ ...item, defaultPaymentTermsDays: item.defaultPaymentTermsDays ?? null })) as unknown as ClientItem[]);
+        }, (error: unknown) => {
+            console.error("Error fetching clients:", (error as Error).message);
+            openModal("Data Error", `Failed to load client data: ${(error as Error).message}`);
+        });
+
         // User Profile listener
-        const userProfileDocRef = doc(db, `artifacts/${appId}/users/${userId}/profile`, 'current');
-        const unsubscribeProfile = onSnapshot(userProfileDocRef, (docSnap) => {
-            if (docSnap.exists()) {
-                const profileData = docSnap.data();
+        const unsubscribeProfile = storage.subscribeProfile((profileData) => {
+            if (profileData) {
                 setUserProfile({
+                    ...profileData,
                     currentBalance: profileData.currentBalance || 0,
                     salaryIncome: profileData.salaryIncome || 0,
                     salaryFrequency: profileData.salaryFrequency || 'monthly',
-                    lastUpdated: (profileData.lastUpdated instanceof Timestamp) ? profileData.lastUpdated.toDate() : new Date(),
+                    lastUpdated: profileData.lastUpdated instanceof Date ? profileData.lastUpdated : new Date(),
                     name: profileData.name || '',
-                    numberOfDaysOffPerMonth: profileData.numberOfDaysOffPerMonth || 0,
                     deductions: profileData.deductions || [],
-                    loans: profileData.loans ? profileData.loans.map((loan: any) => ({
-                        ...loan,
-                        nextPaymentDate: (loan.nextPaymentDate instanceof Timestamp) ? loan.nextPaymentDate.toDate() : loan.nextPaymentDate
-                    })) : [],
+                    loans: profileData.loans || [],
                 } as UserProfile);
-                setUserName(profileData.name || '');
+                setUserName((profileData.name as string) || '');
             } else {
                 // If profile doesn't exist, create a default one
                 setUserProfile({
@@ -266,7 +1097,6 @@ const useFirebaseData = () => {
                     salaryFrequency: 'monthly',
                     lastUpdated: new Date(),
                     name: '',
-                    numberOfDaysOffPerMonth: 0,
                     deductions: [],
                     loans: [],
                 });
@@ -280,9 +1110,14 @@ const useFirebaseData = () => {
         return () => {
             unsubscribeIncomes();
             unsubscribeExpenses();
+            unsubscribeRecurringExpenses();
+            unsubscribeRecurringIncomes();
+            unsubscribeAccounts();
+            unsubscribeTransfers();
+            unsubscribeClients();
             unsubscribeProfile();
         };
-    }, [userId, isAuthReady]); // Re-run when userId or auth readiness changes
+    }, [userId, isAuthReady, storage]); // Re-run when userId, auth readiness or the storage adapter changes
 
     // 3. Authentication Actions
     const login = useCallback(async (email: string, password: string) => {
@@ -294,13 +1129,12 @@ const useFirebaseData = () => {
         if (!firebaseInitialized || !auth || !db) throw new Error("Firebase not initialized or auth/db not available.");
         const userCredential = await createUserWithEmailAndPassword(auth, email, password);
         if (userCredential.user) {
-            await setDoc(doc(db, `artifacts/${appId}/users/${userCredential.user.uid}/profile`, 'current'), {
+            await createFirestoreStorageAdapter(db, userCredential.user.uid).saveProfile({
                 currentBalance: 0,
                 salaryIncome: 0,
                 salaryFrequency: 'monthly',
                 lastUpdated: new Date(),
                 name: name,
-                numberOfDaysOffPerMonth: 0,
                 deductions: [],
                 loans: [],
             });
@@ -316,6 +1150,11 @@ const useFirebaseData = () => {
             setUserName(null);
             setIncomes([]);
             setExpenses([]);
+            setRecurringExpenses([]);
+            setRecurringIncomes([]);
+            setAccounts([]);
+            setTransfers([]);
+            setClients([]);
             setUserProfile(null);
         } catch (error: unknown) {
             console.error("Logout error:", (error as Error).message);
@@ -323,46 +1162,443 @@ const useFirebaseData = () => {
         }
     }, [firebaseInitialized, auth]);
 
-    // 4. Firestore Data CRUD Operations
+    // 4. Data CRUD Operations
     const addIncome = useCallback(async (incomeData: Omit<IncomeItem, 'id' | 'createdAt'>) => {
-        if (!userId || !firebaseInitialized || !db) throw new Error("User not authenticated or Firebase/Firestore not initialized.");
-        await addDoc(collection(db, `artifacts/${appId}/users/${userId}/incomes`), { ...incomeData, createdAt: Timestamp.now() });
-    }, [userId, firebaseInitialized, db]);
+        if (!storage) throw new Error("User not authenticated or storage not initialized.");
+        await storage.addItem('incomes', { ...incomeData, ...getClientLink(clients, incomeData.client), createdAt: new Date() });
+    }, [storage, clients]);
+
+    // Saves edits to an income and appends the before/after value of each changed field to its history
+    const updateIncome = useCallback(async (id: string, changes: Partial<Omit<IncomeItem, 'id' | 'createdAt' | 'history'>>) => {
+        if (!storage) throw new Error("User not authenticated or storage not initialized.");
+        const current = incomes.find(inc => inc.id === id);
+        if (!current) throw new Error("Income record not found.");
+        const linkedChanges = changes.client !== undefined ? { ...changes, ...getClientLink(clients, changes.client, current.clientId) } : changes;
+        const recordChanges = nameAccountChanges(getRecordChanges(current, linkedChanges), accounts);
+        if (recordChanges.length === 0) return;
+        // An invoiced income and its invoice are paid together; reopening one sends the invoice back to Sent
+        const invoice = current.invoice && changes.status && changes.status !== current.status
+            ? { ...current.invoice, status: changes.status === 'Paid' ? 'paid' as const : 'sent' as const }
+            : null;
+        // The client's name is logged; the link to the directory follows it
+        const historyChanges = recordChanges.filter(change => change.field !== 'clientId');
+        await storage.updateItem('incomes', id, {
+            ...linkedChanges,
+            ...(invoice ? { invoice } : {}),
+            ...(historyChanges.length > 0 ? { history: [...(current.history || []), { changedAt: new Date(), changes: historyChanges }] } : {}),
+        });
+    }, [storage, incomes, accounts, clients]);
+
+    // Creates an invoiced income, or saves the invoice of an existing one. The income's amount, due date and status
+    // follow the invoice. Taking the number the invoice settings suggest moves them on to the next one.
+    const saveInvoice = useCallback(async (invoice: InvoiceDetails, fields: InvoiceIncomeFields, incomeId?: string) => {
+        if (!storage) throw new Error("User not authenticated or storage not initialized.");
+        const number = invoice.number.trim();
+        if (!number) throw new Error("The invoice needs a number.");
+        if (incomes.some(income => income.id !== incomeId && income.invoice?.number === number)) {
+            throw new Error(`Invoice ${number} already exists.`);
+        }
+        const current = incomeId ? incomes.find(income => income.id === incomeId) : undefined;
+        if (incomeId && !current) throw new Error("Income record not found.");
+
+        const savedInvoice: InvoiceDetails = { ...invoice, number };
+        const changes = { ...fields, ...getClientLink(clients, fields.client, current?.clientId), ...getInvoiceIncomeFields(savedInvoice, current) };
+        if (current) {
+            const recordChanges = nameAccountChanges(getRecordChanges(current, changes), accounts).filter(change => change.field !== 'clientId');
+            if (describeInvoice(current.invoice) !== describeInvoice(savedInvoice)) {
+                recordChanges.push({ field: 'invoice', from: describeInvoice(current.invoice), to: describeInvoice(savedInvoice) });
+            }
+            await storage.updateItem('incomes', current.id, {
+                ...changes,
+                invoice: savedInvoice,
+                ...(recordChanges.length > 0 ? { history: [...(current.history || []), { changedAt: new Date(), changes: recordChanges }] } : {}),
+            });
+        } else {
+            await storage.addItem('incomes', { ...changes, invoice: savedInvoice, createdAt: new Date() });
+        }
+
+        const settings = getInvoiceSettings(userProfile);
+        if (!current?.invoice && number === formatInvoiceNumber(settings, settings.nextNumber)) {
+            await storage.saveProfile({ invoiceSettings: { ...settings, nextNumber: settings.nextNumber + 1 }, lastUpdated: new Date() });
+        }
+    }, [storage, incomes, accounts, clients, userProfile]);
 
     const updateIncomeStatus = useCallback(async (id: string, newStatus: 'Paid') => {
-        if (!userId || !firebaseInitialized || !db) throw new Error("User not authenticated or Firebase/Firestore not initialized.");
-        await updateDoc(doc(db, `artifacts/${appId}/users/${userId}/incomes`, id), { status: newStatus });
-    }, [userId, firebaseInitialized, db]);
+        await updateIncome(id, { status: newStatus, paidDate: startOfDay(new Date()) });
+    }, [updateIncome]);
 
     const deleteIncome = useCallback(async (id: string) => {
-        if (!userId || !firebaseInitialized || !db) throw new Error("User not authenticated or Firebase/Firestore not initialized.");
-        await deleteDoc(doc(db, `artifacts/${appId}/users/${userId}/incomes`, id));
-    }, [userId, firebaseInitialized, db]);
+        if (!storage) throw new Error("User not authenticated or storage not initialized.");
+        await storage.deleteItem('incomes', id);
+    }, [storage]);
 
     const addExpense = useCallback(async (expenseData: Omit<ExpenseItem, 'id' | 'createdAt'>) => {
-        if (!userId || !firebaseInitialized || !db) throw new Error("User not authenticated or Firebase/Firestore not initialized.");
-        await addDoc(collection(db, `artifacts/${appId}/users/${userId}/expenses`), { ...expenseData, createdAt: Timestamp.now() });
-    }, [userId, firebaseInitialized, db]);
+        if (!storage) throw new Error("User not authenticated or storage not initialized.");
+        await storage.addItem('expenses', { ...expenseData, createdAt: new Date() });
+    }, [storage]);
+
+    // Saves edits to an expense and appends the before/after value of each changed field to its history
+    const updateExpense = useCallback(async (id: string, changes: Partial<Omit<ExpenseItem, 'id' | 'createdAt' | 'history'>>) => {
+        if (!storage) throw new Error("User not authenticated or storage not initialized.");
+        const current = expenses.find(exp => exp.id === id);
+        if (!current) throw new Error("Expense record not found.");
+        const recordChanges = nameAccountChanges(getRecordChanges(current, changes), accounts);
+        if (recordChanges.length === 0) return;
+        await storage.updateItem('expenses', id, {
+            ...changes,
+            history: [...(current.history || []), { changedAt: new Date(), changes: recordChanges }],
+        });
+    }, [storage, expenses, accounts]);
+
+    // Receipt files go only after their record, so a failure never leaves an expense pointing at a missing file
+    const removeAttachmentFiles = useCallback(async (attachments: ReceiptAttachment[]) => {
+        if (!blobStore) throw new Error("User not authenticated or storage not initialized.");
+        for (const attachment of attachments) {
+            await blobStore.remove(attachment.storageKey);
+        }
+    }, [blobStore]);
 
     const deleteExpense = useCallback(async (id: string) => {
-        if (!userId || !firebaseInitialized || !db) throw new Error("User not authenticated or Firebase/Firestore not initialized.");
-        await deleteDoc(doc(db, `artifacts/${appId}/users/${userId}/expenses`, id));
-    }, [userId, firebaseInitialized, db]);
+        if (!storage) throw new Error("User not authenticated or storage not initialized.");
+        const expense = expenses.find(exp => exp.id === id);
+        await storage.deleteItem('expenses', id);
+        await removeAttachmentFiles(expense?.attachments || []);
+    }, [storage, expenses, removeAttachmentFiles]);
+
+    // Files are saved before the record lists them, for the same reason
+    const addExpenseAttachments = useCallback(async (expenseId: string, files: File[]) => {
+        if (!storage || !blobStore) throw new Error("User not authenticated or storage not initialized.");
+        const expense = expenses.find(exp => exp.id === expenseId);
+        if (!expense) throw new Error("Expense record not found.");
+        const unsupported = files.find(file => !isReceiptFileType(file.type));
+        if (unsupported) throw new Error(`${unsupported.name} is not a photo or a PDF.`);
+        const tooLarge = files.find(file => file.size > MAX_RECEIPT_BYTES);
+        if (tooLarge) throw new Error(`${tooLarge.name} is larger than ${formatFileSize(MAX_RECEIPT_BYTES)}.`);
+
+        const attachments: ReceiptAttachment[] = [];
+        for (const file of files) {
+            const id = crypto.randomUUID();
+            const storageKey = `receipts/${expenseId}/${id}`;
+            await blobStore.put(storageKey, file);
+            const thumbnail = await createReceiptThumbnail(file);
+            attachments.push({ id, fileName: file.name, contentType: file.type, size: file.size, storageKey, ...(thumbnail ? { thumbnail } : {}) });
+        }
+        await storage.updateItem('expenses', expenseId, { attachments: [...(expense.attachments || []), ...attachments] });
+    }, [storage, blobStore, expenses]);
+
+    const removeExpenseAttachment = useCallback(async (expenseId: string, attachmentId: string) => {
+        if (!storage) throw new Error("User not authenticated or storage not initialized.");
+        const expense = expenses.find(exp => exp.id === expenseId);
+        const attachment = expense?.attachments?.find(item => item.id === attachmentId);
+        if (!expense || !attachment) throw new Error("Receipt not found.");
+        await storage.updateItem('expenses', expenseId, { attachments: (expense.attachments || []).filter(item => item.id !== attachmentId) });
+        await removeAttachmentFiles([attachment]);
+    }, [storage, expenses, removeAttachmentFiles]);
+
+    const getExpenseAttachment = useCallback(async (attachment: ReceiptAttachment) => {
+        if (!blobStore) throw new Error("User not authenticated or storage not initialized.");
+        return blobStore.get(attachment.storageKey);
+    }, [blobStore]);
+
+    const addRecurringExpense = useCallback(async (recurringData: Omit<RecurringExpenseItem, 'id' | 'createdAt'>) => {
+        if (!storage) throw new Error("User not authenticated or storage not initialized.");
+        await storage.addItem('recurringExpenses', { ...recurringData, createdAt: new Date() });
+    }, [storage]);
+
+    const deleteRecurringExpense = useCallback(async (id: string) => {
+        if (!storage) throw new Error("User not authenticated or storage not initialized.");
+        await storage.deleteItem('recurringExpenses', id);
+    }, [storage]);
+
+    const addRecurringIncome = useCallback(async (recurringData: Omit<RecurringIncomeItem, 'id' | 'createdAt' | 'lastGeneratedDate'>) => {
+        if (!storage) throw new Error("User not authenticated or storage not initialized.");
+        await storage.addItem('recurringIncomes', { ...recurringData, ...getClientLink(clients, recurringData.client), lastGeneratedDate: null, createdAt: new Date() });
+    }, [storage, clients]);
+
+    const deleteRecurringIncome = useCallback(async (id: string) => {
+        if (!storage) throw new Error("User not authenticated or storage not initialized.");
+        await storage.deleteItem('recurringIncomes', id);
+    }, [storage]);
+
+    // The first account becomes the default, so records saved before accounts existed land in it
+    const addAccount = useCallback(async (accountData: Omit<AccountItem, 'id' | 'createdAt' | 'archived'>) => {
+        if (!storage) throw new Error("User not authenticated or storage not initialized.");
+        const name = accountData.name.trim();
+        if (accounts.some(account => account.name.toLowerCase() === name.toLowerCase())) {
+            throw new Error(`An account named "${name}" already exists.`);
+        }
+        if (accountData.paymentAccountId && !accounts.some(account => account.id === accountData.paymentAccountId)) {
+            throw new Error("Choose an existing account to pay the card's statements from.");
+        }
+        const id = await storage.addItem('accounts', { ...accountData, name, archived: false, createdAt: new Date() });
+        if (!getDefaultAccountId(userProfile, accounts)) {
+            await storage.saveProfile({ defaultAccountId: id, lastUpdated: new Date() });
+        }
+    }, [storage, accounts, userProfile]);
+
+    const updateAccount = useCallback(async (id: string, changes: Partial<Omit<AccountItem, 'id' | 'createdAt'>>) => {
+        if (!storage) throw new Error("User not authenticated or storage not initialized.");
+        const name = changes.name?.trim();
+        if (name !== undefined && accounts.some(account => account.id !== id && account.name.toLowerCase() === name.toLowerCase())) {
+            throw new Error(`An account named "${name}" already exists.`);
+        }
+        if (changes.paymentAccountId === id) throw new Error("A card's statements must be paid from another account.");
+        if (changes.archived && id === getDefaultAccountId(userProfile, accounts)) {
+            throw new Error("The default account cannot be archived. Choose another default account first.");
+        }
+        await storage.updateItem('accounts', id, name !== undefined ? { ...changes, name } : changes);
+    }, [storage, accounts, userProfile]);
+
+    // Only unused accounts can be deleted; archive an account instead to keep its history
+    const deleteAccount = useCallback(async (id: string) => {
+        if (!storage) throw new Error("User not authenticated or storage not initialized.");
+        const defaultAccountId = getDefaultAccountId(userProfile, accounts);
+        if (id === defaultAccountId && accounts.length > 1) {
+            throw new Error("The default account cannot be deleted. Choose another default account first.");
+        }
+        const isUsed = [...incomes, ...expenses, ...recurringExpenses, ...recurringIncomes].some(record => (record.accountId || defaultAccountId) === id) ||
+            transfers.some(transfer => transfer.fromAccountId === id || transfer.toAccountId === id) ||
+            accounts.some(account => account.paymentAccountId === id) ||
+            userProfile?.salaryAccountId === id ||
+            (userProfile?.savingsGoals || []).some(goal => goal.accountId === id);
+        if (isUsed) throw new Error("This account has transactions, transfers, a salary, card payments or savings goals assigned to it. Archive it instead.");
+        await storage.deleteItem('accounts', id);
+    }, [storage, accounts, userProfile, incomes, expenses, recurringExpenses, recurringIncomes, transfers]);
+
+    const addTransfer = useCallback(async (transferData: Omit<TransferItem, 'id' | 'createdAt'>) => {
+        if (!storage) throw new Error("User not authenticated or storage not initialized.");
+        if (transferData.fromAccountId === transferData.toAccountId) throw new Error("Choose two different accounts for a transfer.");
+        const fromAccount = accounts.find(account => account.id === transferData.fromAccountId);
+        await storage.addItem('transfers', { ...transferData, currency: getRecordCurrency(fromAccount || {}), createdAt: new Date() });
+    }, [storage, accounts]);
+
+    const deleteTransfer = useCallback(async (id: string) => {
+        if (!storage) throw new Error("User not authenticated or storage not initialized.");
+        await storage.deleteItem('transfers', id);
+    }, [storage]);
+
+    // Links the incomes and retainers that `matches` picks to a client, renaming them to the client's name.
+    // Renamed incomes log the change in their history.
+    const linkRecordsToClient = useCallback(async (client: Pick<ClientItem, 'id' | 'name'>, matches: (record: { client: string; clientId?: string | null }) => boolean) => {
+        if (!storage) throw new Error("User not authenticated or storage not initialized.");
+        for (const income of incomes.filter(matches)) {
+            if (income.clientId === client.id && income.client === client.name) continue;
+            const recordChanges = getRecordChanges(income, { client: client.name });
+            await storage.updateItem('incomes', income.id, {
+                client: client.name,
+                clientId: client.id,
+                ...(recordChanges.length > 0 ? { history: [...(income.history || []), { changedAt: new Date(), changes: recordChanges }] } : {}),
+            });
+        }
+        for (const template of recurringIncomes.filter(matches)) {
+            if (template.clientId === client.id && template.client === client.name) continue;
+            await storage.updateItem('recurringIncomes', template.id, { client: client.name, clientId: client.id });
+        }
+    }, [storage, incomes, recurringIncomes]);
+
+    // Records already saved under the new client's name are linked to it
+    const addClient = useCallback(async (clientData: Omit<ClientItem, 'id' | 'createdAt'>) => {
+        if (!storage) throw new Error("User not authenticated or storage not initialized.");
+        const name = clientData.name.trim();
+        if (!name) throw new Error("The client needs a name.");
+        if (findClientByName(clients, name)) throw new Error(`A client named "${name}" already exists.`);
+        const id = await storage.addItem('clients', { ...clientData, name, createdAt: new Date() });
+        await linkRecordsToClient({ id, name }, record => !record.clientId && normalizePayer(record.client) === normalizePayer(name));
+    }, [storage, clients, linkRecordsToClient]);
+
+    // Renaming a client renames its linked records too
+    const updateClient = useCallback(async (id: string, changes: Partial<Omit<ClientItem, 'id' | 'createdAt'>>) => {
+        if (!storage) throw new Error("User not authenticated or storage not initialized.");
+        const name = changes.name?.trim();
+        if (name !== undefined && !name) throw new Error("The client needs a name.");
+        if (name !== undefined && clients.some(client => client.id !== id && normalizePayer(client.name) === normalizePayer(name))) {
+            throw new Error(`A client named "${name}" already exists.`);
+        }
+        await storage.updateItem('clients', id, name !== undefined ? { ...changes, name } : changes);
+        if (name !== undefined) {
+            await linkRecordsToClient({ id, name }, record => record.clientId === id || (!record.clientId && normalizePayer(record.client) === normalizePayer(name)));
+        }
+    }, [storage, clients, linkRecordsToClient]);
+
+    // Linked records keep the client's name; only the link to the directory goes
+    const deleteClient = useCallback(async (id: string) => {
+        if (!storage) throw new Error("User not authenticated or storage not initialized.");
+        await storage.deleteItem('clients', id);
+        for (const income of incomes.filter(inc => inc.clientId === id)) {
+            await storage.updateItem('incomes', income.id, { clientId: null });
+        }
+        for (const template of recurringIncomes.filter(rec => rec.clientId === id)) {
+            await storage.updateItem('recurringIncomes', template.id, { clientId: null });
+        }
+    }, [storage, incomes, recurringIncomes]);
+
+    // Folds other spellings of a client's name into the client
+    const mergeClientNames = useCallback(async (clientId: string, names: string[]) => {
+        const client = clients.find(item => item.id === clientId);
+        if (!client) throw new Error("Client not found.");
+        const keys = new Set(names.map(normalizePayer));
+        await linkRecordsToClient(client, record => !record.clientId && keys.has(normalizePayer(record.client)));
+    }, [clients, linkRecordsToClient]);
 
     const updateUserProfile = useCallback(async (profile: Partial<UserProfile>) => {
-        if (!userId || !firebaseInitialized || !db) throw new Error("User not authenticated or Firebase/Firestore not initialized.");
+        if (!storage) throw new Error("User not authenticated or storage not initialized.");
+        await storage.saveProfile({ ...profile, lastUpdated: new Date() });
+    }, [storage]);
+
+    const saveExpenseCategories = useCallback(async (categories: ExpenseCategory[]) => {
+        if (!storage) throw new Error("User not authenticated or storage not initialized.");
+        await storage.saveProfile({ expenseCategories: categories, lastUpdated: new Date() });
+    }, [storage]);
+
+    // Points every expense and recurring schedule filed under `fromName` at `toName`.
+    const reassignExpenseCategory = useCallback(async (fromName: string, toName: string) => {
+        if (!storage) throw new Error("User not authenticated or storage not initialized.");
+        for (const expense of expenses.filter(exp => exp.category === fromName)) {
+            await storage.updateItem('expenses', expense.id, { category: toName });
+        }
+        for (const schedule of recurringExpenses.filter(rec => rec.category === fromName)) {
+            await storage.updateItem('recurringExpenses', schedule.id, { category: toName });
+        }
+    }, [storage, expenses, recurringExpenses]);
+
+    // Updates a category's details. A rename is also applied to existing expenses, schedules and budgets.
+    const updateExpenseCategory = useCallback(async (categoryId: string, changes: Omit<ExpenseCategory, 'id'>) => {
+        if (!storage) throw new Error("User not authenticated or storage not initialized.");
+        const categories = getExpenseCategories(userProfile, expenses);
+        const category = categories.find(c => c.id === categoryId);
+        if (!category) throw new Error("Category not found.");
+
+        const name = changes.name.trim();
+        if (!name) throw new Error("Category name cannot be empty.");
+        if (categories.some(c => c.id !== categoryId && c.name.toLowerCase() === name.toLowerCase())) {
+            throw new Error(`A category named "${name}" already exists. Merge the two categories instead.`);
+        }
+        if (changes.parentId !== null) {
+            const parent = categories.find(c => c.id === changes.parentId);
+            if (!parent || parent.id === categoryId || parent.parentId !== null) throw new Error("Subcategories can only be placed under a top-level category.");
+            if (categories.some(c => c.parentId === categoryId)) throw new Error(`${category.name} has subcategories, so it must stay a top-level category.`);
+        }
 
-        // Convert Date objects in loans to Firestore Timestamps before saving
-        const profileToSave = { ...profile };
-        if (profileToSave.loans) {
-            profileToSave.loans = profileToSave.loans.map(loan => ({
-                ...loan,
-                nextPaymentDate: Timestamp.fromDate(loan.nextPaymentDate)
-            }));
+        if (name !== category.name) await reassignExpenseCategory(category.name, name);
+        await storage.saveProfile({
+            expenseCategories: categories.map(c => c.id === categoryId ? { ...changes, id: categoryId, name } : c),
+            budgets: (userProfile?.budgets || []).map(budget => budget.category === category.name ? { ...budget, category: name } : budget),
+            spendingRunRates: (userProfile?.spendingRunRates || []).map(rate => rate.category === category.name ? { ...rate, category: name } : rate),
+            lastUpdated: new Date(),
+        });
+    }, [storage, userProfile, expenses, reassignExpenseCategory]);
+
+    // Moves everything filed under the source category into the target and removes the source.
+    // The source's subcategories move under the target (or the target's parent, if the target is itself a subcategory).
+    const mergeExpenseCategories = useCallback(async (sourceId: string, targetId: string) => {
+        if (!storage) throw new Error("User not authenticated or storage not initialized.");
+        const categories = getExpenseCategories(userProfile, expenses);
+        const source = categories.find(c => c.id === sourceId);
+        const target = categories.find(c => c.id === targetId);
+        if (!source || !target) throw new Error("Category not found.");
+        if (source.id === target.id) throw new Error("Choose two different categories to merge.");
+        if (target.parentId === source.id) throw new Error(`${target.name} is a subcategory of ${source.name}. Move it to another parent before merging.`);
+
+        await reassignExpenseCategory(source.name, target.name);
+        const budgets = userProfile?.budgets || [];
+        const targetHasBudget = budgets.some(budget => budget.category === target.name);
+        const runRates = userProfile?.spendingRunRates || [];
+        const targetHasRunRate = runRates.some(rate => rate.category === target.name);
+        await storage.saveProfile({
+            expenseCategories: categories
+                .filter(c => c.id !== source.id)
+                .map(c => c.parentId === source.id ? { ...c, parentId: target.parentId ?? target.id } : c),
+            // Keep the target's own budget and run-rate if it has them; otherwise the source's carry over
+            budgets: targetHasBudget
+                ? budgets.filter(budget => budget.category !== source.name)
+                : budgets.map(budget => budget.category === source.name ? { ...budget, category: target.name } : budget),
+            spendingRunRates: targetHasRunRate
+                ? runRates.filter(rate => rate.category !== source.name)
+                : runRates.map(rate => rate.category === source.name ? { ...rate, category: target.name } : rate),
+            lastUpdated: new Date(),
+        });
+    }, [storage, userProfile, expenses, reassignExpenseCategory]);
+
+    // Writes a validated backup. 'merge' upserts backup records by id and keeps everything else;
+    // 'replace' deletes records that are not in the backup and overwrites the profile.
+    const restoreData = useCallback(async (backup: BackupData, mode: 'merge' | 'replace') => {
+        if (!storage || !blobStore) throw new Error("User not authenticated or storage not initialized.");
+        const existingRecords: Record<StorageCollection, { id: string; attachments?: ReceiptAttachment[] }[]> = { incomes, expenses, recurringExpenses, recurringIncomes, accounts, transfers, clients };
+
+        // Receipt files first, so restored expenses never point at files that are not there yet
+        for (const [storageKey, dataUrl] of Object.entries(backup.attachments)) {
+            await blobStore.put(storageKey, await dataUrlToBlob(dataUrl));
+        }
+
+        for (const name of backupCollectionNames) {
+            const backupIds = new Set(backup.collections[name].map(record => record.id));
+            if (mode === 'replace') {
+                for (const existing of existingRecords[name].filter(record => !backupIds.has(record.id))) {
+                    await storage.deleteItem(name, existing.id);
+                    await removeAttachmentFiles(existing.attachments || []);
+                }
+            }
+            for (const { id, ...data } of backup.collections[name]) {
+                await storage.setItem(name, id, data);
+            }
+        }
+
+        if (backup.profile) {
+            if (mode === 'replace') {
+                await storage.replaceProfile({ ...backup.profile });
+            } else {
+                await storage.saveProfile({ ...backup.profile });
+            }
         }
+    }, [storage, blobStore, removeAttachmentFiles, incomes, expenses, recurringExpenses, recurringIncomes, accounts, transfers, clients]);
+
+    // 5. Recurring Income Materialization
+    // Every occurrence of a retainer template that has come due is written to incomes as an Outstanding record.
+    // lastGeneratedDate on the template marks progress after each one, and each occurrence has a fixed id made from the
+    // template and its due date, so a retry, reload or second tab rewrites the same record instead of adding another.
+    const materializingTemplateIds = useRef<Set<string>>(new Set());
+    useEffect(() => {
+        if (!storage) return;
+        const today = new Date();
+        today.setHours(0, 0, 0, 0);
+
+        recurringIncomes.forEach(async (template) => {
+            if (materializingTemplateIds.current.has(template.id)) return;
+
+            const from = new Date(template.startDate);
+            if (template.lastGeneratedDate) {
+                from.setTime(template.lastGeneratedDate.getTime());
+                from.setHours(0, 0, 0, 0);
+                from.setDate(from.getDate() + 1);
+            }
+            const dueOccurrences = getRecurringOccurrences(template, from, today);
+            if (dueOccurrences.length === 0) return;
 
-        await setDoc(doc(db, `artifacts/${appId}/users/${userId}/profile`, 'current'), { ...profileToSave, lastUpdated: Timestamp.now() }, { merge: true });
-    }, [userId, firebaseInitialized, db]);
+            materializingTemplateIds.current.add(template.id);
+            try {
+                for (const dueDate of dueOccurrences) {
+                    await storage.setItem('incomes', `${template.id}-${toDateKey(dueDate)}`, {
+                        client: template.client,
+                        ...(template.clientId ? { clientId: template.clientId } : {}),
+                        amount: template.amount,
+                        dueDate,
+                        status: 'Outstanding',
+                        ...(template.currency ? { currency: template.currency } : {}),
+                        ...(template.accountId ? { accountId: template.accountId } : {}),
+                        ...(template.businessDayRule ? { businessDayRule: template.businessDayRule } : {}),
+                        recurringIncomeId: template.id,
+                        createdAt: new Date(),
+                    });
+                    await storage.updateItem('recurringIncomes', template.id, { lastGeneratedDate: dueDate });
+                }
+            } catch (error: unknown) {
+                console.error("Error generating recurring incomes:", (error as Error).message);
+                openModal("Data Error", `Failed to generate retainer income for ${template.client}: ${(error as Error).message}`);
+            } finally {
+                materializingTemplateIds.current.delete(template.id);
+            }
+        });
+    }, [storage, recurringIncomes]);
 
     return {
         userId,
@@ -370,2020 +1606,9703 @@ const useFirebaseData = () => {
         isAuthReady,
         incomes,
         expenses,
+        recurringExpenses,
+        recurringIncomes,
+        accounts,
+        transfers,
+        clients,
         userProfile,
         login,
         signup,
         logout,
         addIncome,
         updateIncomeStatus,
+        updateIncome,
+        saveInvoice,
         deleteIncome,
         addExpense,
+        updateExpense,
         deleteExpense,
+        addExpenseAttachments,
+        removeExpenseAttachment,
+        getExpenseAttachment,
+        addRecurringExpense,
+        deleteRecurringExpense,
+        addRecurringIncome,
+        deleteRecurringIncome,
+        addAccount,
+        updateAccount,
+        deleteAccount,
+        addTransfer,
+        deleteTransfer,
+        addClient,
+        updateClient,
+        deleteClient,
+        mergeClientNames,
         updateUserProfile,
+        saveExpenseCategories,
+        updateExpenseCategory,
+        mergeExpenseCategories,
+        restoreData,
         modalInfo,
         closeModal,
-        firebaseInitialized // Export this flag
+        firebaseInitialized, // Export this flag
+        storageBackend
     };
 };
 
-// --- Utility Function: generateMockForecast (Consolidated) ---
-const generateMockForecast = (currentBalance: number, incomes: IncomeItem[], expenses: ExpenseItem[], userProfile: UserProfile | null) => {
-    const today = new Date();
-    today.setHours(0, 0, 0, 0); // Normalize to start of day
+// --- Utility Function: getRecurringOccurrences (Consolidated) ---
+// Returns every occurrence of a schedule that falls within [rangeStart, rangeEnd], normalized to start of day.
+const getRecurringOccurrences = (
+    schedule: RecurrenceSchedule,
+    rangeStart: Date,
+    rangeEnd: Date
+): Date[] => {
+    const start = new Date(schedule.startDate);
+    start.setHours(0, 0, 0, 0);
+    const from = new Date(rangeStart);
+    from.setHours(0, 0, 0, 0);
+    const until = new Date(rangeEnd);
+    until.setHours(0, 0, 0, 0);
+    if (schedule.endDate) {
+        const end = new Date(schedule.endDate);
+        end.setHours(0, 0, 0, 0);
+        if (end.getTime() < until.getTime()) until.setTime(end.getTime());
+    }
 
-    let maxRelevantDate = new Date(today); // Start with today
+    const occurrences: Date[] = [];
+    if (until.getTime() < start.getTime() || until.getTime() < from.getTime()) return occurrences;
+
+    if (schedule.frequency === 'daily' || schedule.frequency === 'weekly') {
+        const stepDays = schedule.frequency === 'daily' ? 1 : 7;
+        const next = new Date(start);
+        // Jump straight to the first occurrence on or after the range start
+        if (next.getTime() < from.getTime()) {
+            const daysBehind = Math.round((from.getTime() - next.getTime()) / (24 * 60 * 60 * 1000));
+            next.setDate(next.getDate() + Math.floor(daysBehind / stepDays) * stepDays);
+            if (next.getTime() < from.getTime()) next.setDate(next.getDate() + stepDays);
+        }
+        while (next.getTime() <= until.getTime()) {
+            occurrences.push(new Date(next));
+            next.setDate(next.getDate() + stepDays);
+        }
+        return occurrences;
+    }
 
-    // Find the latest future date from outstanding incomes
-    incomes.forEach(inc => {
-        // Only consider outstanding incomes that are due today or in the future
-        if (inc.status === 'Outstanding' && inc.dueDate.getTime() >= today.getTime()) {
-            if (inc.dueDate.getTime() > maxRelevantDate.getTime()) {
-                maxRelevantDate = inc.dueDate;
-            }
+    const monthStep = schedule.frequency === 'monthly' ? 1 : schedule.frequency === 'quarterly' ? 3 : 12;
+    const targetDay = schedule.dayOfMonthRule === 'fixed-day' ? schedule.dayOfMonth : start.getDate();
+
+    for (let i = 0; i < 1200; i++) { // Safety break: 100 years of monthly occurrences
+        const year = start.getFullYear();
+        const month = start.getMonth() + i * monthStep;
+        const daysInMonth = new Date(year, month + 1, 0).getDate();
+        const day = schedule.dayOfMonthRule === 'last-day' ? daysInMonth : Math.min(targetDay, daysInMonth);
+        const occurrence = new Date(year, month, day);
+
+        if (occurrence.getTime() > until.getTime()) break;
+        if (occurrence.getTime() >= from.getTime() && occurrence.getTime() >= start.getTime()) {
+            occurrences.push(occurrence);
         }
-    });
+    }
+    return occurrences;
+};
 
-    // Find the latest future date from expenses
-    expenses.forEach(exp => {
-        // Only consider expenses that are today or in the future
-        if (exp.date.getTime() >= today.getTime()) {
-            if (exp.date.getTime() > maxRelevantDate.getTime()) {
-                maxRelevantDate = exp.date;
-            }
+// Expands recurring schedules into projected ExpenseItems so they can be listed next to real expenses.
+const getUpcomingRecurringExpenses = (recurringExpenses: RecurringExpenseItem[], rangeStart: Date, rangeEnd: Date): ExpenseItem[] =>
+    recurringExpenses.flatMap(schedule =>
+        getRecurringOccurrences(schedule, rangeStart, rangeEnd).map(occurrence => ({
+            id: `recurring-${schedule.id}-${occurrence.getTime()}`,
+            vendor: schedule.vendor,
+            amount: schedule.amount,
+            category: schedule.category,
+            date: occurrence,
+            description: schedule.description || `Recurring ${schedule.frequency} expense`,
+            createdAt: schedule.createdAt,
+            currency: schedule.currency,
+            accountId: schedule.accountId,
+        }))
+    );
+
+// Expands retainer templates into projected IncomeItems for occurrences not yet materialized into the incomes collection.
+const getUpcomingRecurringIncomes = (recurringIncomes: RecurringIncomeItem[], rangeStart: Date, rangeEnd: Date): IncomeItem[] =>
+    recurringIncomes.flatMap(template => {
+        const from = new Date(rangeStart);
+        if (template.lastGeneratedDate) {
+            const afterLastGenerated = new Date(template.lastGeneratedDate);
+            afterLastGenerated.setHours(0, 0, 0, 0);
+            afterLastGenerated.setDate(afterLastGenerated.getDate() + 1);
+            if (afterLastGenerated.getTime() > from.getTime()) from.setTime(afterLastGenerated.getTime());
         }
+        return getRecurringOccurrences(template, from, rangeEnd).map(occurrence => ({
+            id: `recurring-income-${template.id}-${occurrence.getTime()}`,
+            client: `${template.client} (Retainer)`,
+            clientId: template.clientId,
+            amount: template.amount,
+            dueDate: occurrence,
+            status: 'Outstanding' as const,
+            createdAt: template.createdAt,
+            currency: template.currency,
+            accountId: template.accountId,
+            recurringIncomeId: template.id,
+            businessDayRule: template.businessDayRule,
+        }));
     });
 
-    const oneDayInMillis = 24 * 60 * 60 * 1000;
-    // Calculate number of full days from today to maxRelevantDate
-    // If maxRelevantDate is today, daysToProject will be 0.
-    const daysToProject = Math.floor((maxRelevantDate.getTime() - today.getTime()) / oneDayInMillis);
+// --- Utility Functions: Philippine Statutory Deductions (Consolidated) ---
+// TRAIN law (RA 10963) annual withholding brackets; the second schedule took effect on January 1, 2023.
+const trainWithholdingBrackets2018 = [
+    { over: 0, base: 0, rate: 0 },
+    { over: 250000, base: 0, rate: 0.20 },
+    { over: 400000, base: 30000, rate: 0.25 },
+    { over: 800000, base: 130000, rate: 0.30 },
+    { over: 2000000, base: 490000, rate: 0.32 },
+    { over: 8000000, base: 2410000, rate: 0.35 },
+];
+
+const trainWithholdingBrackets2023 = [
+    { over: 0, base: 0, rate: 0 },
+    { over: 250000, base: 0, rate: 0.15 },
+    { over: 400000, base: 22500, rate: 0.20 },
+    { over: 800000, base: 102500, rate: 0.25 },
+    { over: 2000000, base: 402500, rate: 0.30 },
+    { over: 8000000, base: 2202500, rate: 0.35 },
+];
+
+// Keyed by the year a table took effect; a year uses the latest table on or before it.
+const statutoryContributionTables: Record<number, StatutoryContributionTable> = {
+    2022: {
+        sss: { employeeRate: 0.045, minCredit: 3000, maxCredit: 25000, creditStep: 500 },
+        philhealth: { employeeRate: 0.02, floor: 10000, ceiling: 80000 },
+        pagIbig: { lowRate: 0.01, lowThreshold: 1500, rate: 0.02, maxCompensation: 5000 },
+        gsis: { employeeRate: 0.09 },
+        withholdingBrackets: trainWithholdingBrackets2018,
+    },
+    2023: {
+        sss: { employeeRate: 0.045, minCredit: 4000, maxCredit: 30000, creditStep: 500 },
+        philhealth: { employeeRate: 0.02, floor: 10000, ceiling: 80000 },
+        pagIbig: { lowRate: 0.01, lowThreshold: 1500, rate: 0.02, maxCompensation: 5000 },
+        gsis: { employeeRate: 0.09 },
+        withholdingBrackets: trainWithholdingBrackets2023,
+    },
+    2024: {
+        sss: { employeeRate: 0.045, minCredit: 4000, maxCredit: 30000, creditStep: 500 },
+        philhealth: { employeeRate: 0.025, floor: 10000, ceiling: 100000 },
+        pagIbig: { lowRate: 0.01, lowThreshold: 1500, rate: 0.02, maxCompensation: 10000 },
+        gsis: { employeeRate: 0.09 },
+        withholdingBrackets: trainWithholdingBrackets2023,
+    },
+    2025: {
+        sss: { employeeRate: 0.05, minCredit: 5000, maxCredit: 35000, creditStep: 500 },
+        philhealth: { employeeRate: 0.025, floor: 10000, ceiling: 100000 },
+        pagIbig: { lowRate: 0.01, lowThreshold: 1500, rate: 0.02, maxCompensation: 10000 },
+        gsis: { employeeRate: 0.09 },
+        withholdingBrackets: trainWithholdingBrackets2023,
+    },
+};
 
-    // Ensure projection extends at least 30 days even if no future data, for graph visibility
-    const effectiveProjectionDays = Math.max(daysToProject, 30);
-    const chartEndDate = new Date(today);
-    chartEndDate.setDate(today.getDate() + effectiveProjectionDays);
+const statutoryTableYears = Object.keys(statutoryContributionTables).map(Number).sort((a, b) => a - b);
 
-    let currentProjectedBalance = currentBalance;
-    let potentialShortfallDate: Date | null = null;
-    let hasShortfall = false;
+const statutoryDeductionNames: StatutoryDeductionName[] = ['SSS', 'GSIS', 'Philhealth', 'Pag-Ibig Fund', 'Withholding Tax'];
 
-    // Map to aggregate all financial events on specific days
-    const transactionsByDay = new Map<string, number>(); // date string (YYYY-MM-DD) -> net amount
+const getStatutoryContributionTable = (year: number): StatutoryContributionTable => {
+    const applicableYears = statutoryTableYears.filter(tableYear => tableYear <= year);
+    return statutoryContributionTables[applicableYears.length > 0 ? applicableYears[applicableYears.length - 1] : statutoryTableYears[0]];
+};
 
-    // Add existing incomes to the map
-    incomes.forEach(inc => {
-        if (inc.status === 'Outstanding' && inc.dueDate.getTime() >= today.getTime()) {
-            const dateKey = inc.dueDate.toISOString().split('T')[0];
-            transactionsByDay.set(dateKey, (transactionsByDay.get(dateKey) || 0) + inc.amount);
-        }
-    });
+const getDefaultStatutoryDeductionSettings = (): StatutoryDeductionSettings => ({
+    enabled: false,
+    year: Math.min(new Date().getFullYear(), statutoryTableYears[statutoryTableYears.length - 1]),
+    sector: 'private',
+    overrides: {},
+});
 
-    // Add existing expenses to the map
-    expenses.forEach(exp => {
-        if (exp.date.getTime() >= today.getTime()) {
-            const dateKey = exp.date.toISOString().split('T')[0];
-            transactionsByDay.set(dateKey, (transactionsByDay.get(dateKey) || 0) - exp.amount);
-        }
-    });
+const getAnnualWithholdingTax = (annualTaxableIncome: number, brackets: StatutoryContributionTable['withholdingBrackets']): number => {
+    const bracket = [...brackets].reverse().find(b => annualTaxableIncome > b.over);
+    return bracket ? bracket.base + bracket.rate * (annualTaxableIncome - bracket.over) : 0;
+};
 
-    const projectedSalaryPayments: IncomeItem[] = []; // Changed to const
+// Monthly employee contributions and withholding tax for a gross monthly salary. Contributions
+// (after any overrides) are excluded from taxable compensation before the TRAIN brackets are applied.
+const calculateStatutoryDeductions = (grossMonthlySalary: number, settings: StatutoryDeductionSettings): StatutoryDeductionLine[] => {
+    const table = getStatutoryContributionTable(settings.year);
+    const gross = Math.max(grossMonthlySalary, 0);
+    const toLine = (name: StatutoryDeductionName, computed: number): StatutoryDeductionLine => {
+        const override = settings.overrides[name];
+        const roundedComputed = Math.round(computed * 100) / 100;
+        return { name, computed: roundedComputed, amount: override ?? roundedComputed, overridden: override !== undefined };
+    };
 
-    // Calculate paydays and add net salary to transactionsByDay
-    if (userProfile && userProfile.salaryIncome > 0) {
-        const grossMonthlySalary = userProfile.salaryIncome;
-        const totalMonthlyDeductions = userProfile.deductions.reduce((sum: number, ded: DeductionItem) => sum + ded.amount, 0); // Explicitly typed
-        const netMonthlySalary = grossMonthlySalary - totalMonthlyDeductions;
+    const monthlySalaryCredit = Math.min(table.sss.maxCredit, Math.max(table.sss.minCredit, Math.round(gross / table.sss.creditStep) * table.sss.creditStep));
+    const contributions = [
+        settings.sector === 'private'
+            ? toLine('SSS', gross > 0 ? monthlySalaryCredit * table.sss.employeeRate : 0)
+            : toLine('GSIS', gross * table.gsis.employeeRate),
+        toLine('Philhealth', gross > 0 ? Math.min(table.philhealth.ceiling, Math.max(table.philhealth.floor, gross)) * table.philhealth.employeeRate : 0),
+        toLine('Pag-Ibig Fund', gross <= table.pagIbig.lowThreshold ? gross * table.pagIbig.lowRate : Math.min(gross, table.pagIbig.maxCompensation) * table.pagIbig.rate),
+    ];
 
-        let numPayrollsPerMonth = 0;
-        if (userProfile.salaryFrequency === 'monthly') numPayrollsPerMonth = 1;
-        else if (userProfile.salaryFrequency === 'fortnightly') numPayrollsPerMonth = 2; // Approx
-        else if (userProfile.salaryFrequency === 'weekly') numPayrollsPerMonth = 4; // Approx
+    const monthlyTaxable = Math.max(0, gross - contributions.reduce((sum: number, line: StatutoryDeductionLine) => sum + line.amount, 0));
+    const withholdingTax = toLine('Withholding Tax', getAnnualWithholdingTax(monthlyTaxable * 12, table.withholdingBrackets) / 12);
+    return [...contributions, withholdingTax];
+};
 
-        const salaryPerPayPeriod = netMonthlySalary / numPayrollsPerMonth;
+// Take-home pay per month. With automatic statutory deductions enabled, the computed lines replace any
+// stored SSS/GSIS/PhilHealth/Pag-IBIG/tax amounts and only the remaining deductions are taken as entered.
+const getNetMonthlySalary = (userProfile: UserProfile): number => {
+    const settings = userProfile.statutoryDeductions;
+    const sumDeductions = (deductions: DeductionItem[]) => deductions.reduce((sum: number, ded: DeductionItem) => sum + ded.amount, 0);
+    if (!settings?.enabled) return userProfile.salaryIncome - sumDeductions(userProfile.deductions);
 
-        const getNextPayday = (currentDate: Date, frequency: 'weekly' | 'fortnightly' | 'monthly'): Date | null => {
-            let nextPay = new Date(currentDate);
-            nextPay.setHours(0,0,0,0); // Normalize to start of day
+    const statutoryTotal = calculateStatutoryDeductions(userProfile.salaryIncome, settings).reduce((sum: number, line: StatutoryDeductionLine) => sum + line.amount, 0);
+    const otherDeductions = userProfile.deductions.filter(ded => !(statutoryDeductionNames as string[]).includes(ded.name));
+    return userProfile.salaryIncome - statutoryTotal - sumDeductions(otherDeductions);
+};
 
-            if (frequency === 'monthly') {
-                // Aim for the 15th, or adjust if it's already passed or month is short
-                nextPay.setDate(15);
-                if (nextPay.getTime() < currentDate.getTime()) {
-                    nextPay.setMonth(nextPay.getMonth() + 1);
-                    nextPay.setDate(15);
-                }
-                // Handle months with less than 15 days, or if the 15th falls before today after advancing month
-                if (nextPay.getDate() < currentDate.getDate() && nextPay.getMonth() === currentDate.getMonth()) {
-                     nextPay.setMonth(nextPay.getMonth() + 1); // Move to next month
-                }
-                // Correct if setting day pushed it to next month
-                if (nextPay.getMonth() !== ((currentDate.getMonth() + (nextPay.getTime() < currentDate.getTime() ? 1 : 0)) % 12)) {
-                    nextPay = new Date(nextPay.getFullYear(), nextPay.getMonth(), 0); // Last day of previous month (i.e. correct end of month)
-                }
+const contributionNames: StatutoryDeductionName[] = ['SSS', 'GSIS', 'Philhealth', 'Pag-Ibig Fund'];
 
-            } else if (frequency === 'fortnightly') {
-                const day = currentDate.getDate();
-                if (day <= 1) { // If today is 1st or earlier, next payday is 1st
-                    nextPay.setDate(1);
-                } else if (day <= 15) { // If today is between 2nd and 15th, next payday is 15th
-                    nextPay.setDate(15);
-                } else { // If today is after 15th, next payday is 1st of next month
-                    nextPay.setMonth(nextPay.getMonth() + 1);
-                    nextPay.setDate(1);
-                }
-                // If the computed nextPayday is still before current date after initial adjustment, advance it
-                if (nextPay.getTime() < currentDate.getTime()) {
-                     nextPay.setDate(nextPay.getDate() + 14); // Try next fortnight
-                }
+// Monthly SSS/GSIS, PhilHealth and Pag-IBIG contributions, computed or as entered
+const getMonthlyContributions = (userProfile: UserProfile): number => {
+    const settings = userProfile.statutoryDeductions;
+    const lines: DeductionItem[] = settings?.enabled ? calculateStatutoryDeductions(userProfile.salaryIncome, settings) : userProfile.deductions;
+    return lines.filter(line => (contributionNames as string[]).includes(line.name)).reduce((sum: number, line: DeductionItem) => sum + line.amount, 0);
+};
 
-            } else if (frequency === 'weekly') {
-                // Find next Monday
-                const dayOfWeek = nextPay.getDay(); // 0 (Sunday) to 6 (Saturday)
-                let daysUntilNextMonday = 0;
-                if (dayOfWeek === 0) { // Sunday
-                    daysUntilNextMonday = 1;
-                } else if (dayOfWeek === 1) { // Monday
-                    daysUntilNextMonday = 7; // Next Monday
-                } else {
-                    daysUntilNextMonday = 8 - dayOfWeek;
-                }
-                nextPay.setDate(nextPay.getDate() + daysUntilNextMonday);
+// Gross, withholding tax and net pay for each extra pay component. Non-taxable components (the 13th-month pay and
+// other benefits) are tax-free up to PHP 90,000 a year combined. The taxable amounts, including anything beyond that,
+// are taxed at the TRAIN brackets on top of the year's regular taxable salary, and that extra tax is shared among them
+// by taxable amount. No contributions are taken from extra pay.
+const calculateExtraPay = (components: ExtraPayComponent[], grossMonthlySalary: number, monthlyContributions: number, taxYear: number): ExtraPayLine[] => {
+    const brackets = getStatutoryContributionTable(taxYear).withholdingBrackets;
+    const taxableAmounts = getTaxableExtraPayAmounts(components, grossMonthlySalary);
+    const taxableTotal = taxableAmounts.reduce((sum: number, amount: number) => sum + amount, 0);
+    const regularTaxable = Math.max(0, grossMonthlySalary - monthlyContributions) * 12;
+    const extraTax = getAnnualWithholdingTax(regularTaxable + taxableTotal, brackets) - getAnnualWithholdingTax(regularTaxable, brackets);
+    return components.map((component, index) => {
+        const grossAmount = getExtraPayGrossAmount(component, grossMonthlySalary);
+        const taxableAmount = taxableAmounts[index];
+        const withholdingTax = taxableTotal > 0 ? Math.round(extraTax * taxableAmount / taxableTotal * 100) / 100 : 0;
+        return { component, grossAmount, taxableAmount, withholdingTax, netAmount: Math.round((grossAmount - withholdingTax) * 100) / 100 };
+    });
+};
 
-                // If the nextPay is still before currentDate, advance it by 7 days (to account for edge cases)
-                if (nextPay.getTime() < currentDate.getTime()) {
-                    nextPay.setDate(nextPay.getDate() + 7);
-                }
-            } else {
-                return null;
-            }
-            nextPay.setHours(0,0,0,0); // Ensure consistency
-            return nextPay;
-        };
+const getExtraPayLines = (userProfile: UserProfile): ExtraPayLine[] =>
+    calculateExtraPay(userProfile.extraPay || [], userProfile.salaryIncome, getMonthlyContributions(userProfile),
+        userProfile.statutoryDeductions?.year || getDefaultStatutoryDeductionSettings().year);
 
-        let tempDate = new Date(today);
-        const projectionLimitDate = new Date(chartEndDate);
-        projectionLimitDate.setDate(projectionLimitDate.getDate() + 1); // Go one day beyond for loop
 
-        let loopCount = 0;
-        while (tempDate.getTime() <= projectionLimitDate.getTime() && loopCount < 100) { // Safety break for infinite loops
-            const nextPay = getNextPayday(tempDate, userProfile.salaryFrequency);
+// --- Utility Functions: Holidays & Business Days (Consolidated) ---
+// What each scheduled item does when it falls on a weekend or holiday
+const businessDayRuleLabels: Record<BusinessDayRule, string> = {
+    previous: 'Move earlier',
+    next: 'Move later',
+    none: 'No shift',
+};
 
-            if (nextPay && nextPay.getTime() <= projectionLimitDate.getTime()) {
-                const dateKey = nextPay.toISOString().split('T')[0];
-                transactionsByDay.set(dateKey, (transactionsByDay.get(dateKey) || 0) + salaryPerPayPeriod);
+const holidayTypeLabels: Record<HolidayType, string> = {
+    'regular': 'Regular holiday',
+    'special-non-working': 'Special non-working day',
+};
 
-                // Add to projectedSalaryPayments for detailed display
-                projectedSalaryPayments.push({
-                    id: `salary-${dateKey}-${loopCount}`, // Unique ID for each payment
-                    client: `Salary Payment (${userProfile.salaryFrequency})`, // More descriptive
-                    amount: salaryPerPayPeriod,
-                    dueDate: nextPay,
-                    status: 'Outstanding',
-                    createdAt: new Date(),
-                });
+const defaultRestDays = [0, 6];
 
-                tempDate = new Date(nextPay);
-                tempDate.setDate(tempDate.getDate() + 1); // Advance by one day to search for the *next* distinct payday
-            } else {
-                break; // No more paydays in range
-            }
-            loopCount++;
-        }
-    }
+// Holiday dates between `from` and `to`: the bundled Philippine calendar with the user's additions and removals
+const getProfileHolidaySet = (userProfile: UserProfile | null, from: Date, to: Date): HolidaySet =>
+    getHolidaySet(from, to, userProfile?.holidayCalendar);
 
-    // Project Loan Payments
-    if (userProfile && userProfile.loans && userProfile.loans.length > 0) {
-        userProfile.loans.forEach(loan => {
-            let nextLoanPayment = new Date(loan.nextPaymentDate);
-            nextLoanPayment.setHours(0, 0, 0, 0);
-
-            // Project payments within the forecast period (effectiveProjectionDays)
-            for (let i = 0; i <= effectiveProjectionDays; i++) {
-                const currentIterationDate = new Date(today);
-                currentIterationDate.setDate(currentIterationDate.getDate() + i);
-                currentIterationDate.setHours(0, 0, 0, 0);
-
-                // Check if currentIterationDate is a payment date for this loan
-                if (currentIterationDate.getTime() === nextLoanPayment.getTime()) {
-                    const dateKey = currentIterationDate.toISOString().split('T')[0];
-                    transactionsByDay.set(dateKey, (transactionsByDay.get(dateKey) || 0) - loan.amount); // Deduct loan amount
-
-                    // Calculate next payment date based on frequency
-                    if (loan.paymentFrequency === 'monthly') {
-                        nextLoanPayment.setMonth(nextLoanPayment.getMonth() + 1);
-                    } else if (loan.paymentFrequency === 'quarterly') {
-                        nextLoanPayment.setMonth(nextLoanPayment.getMonth() + 3);
-                    } else if (loan.paymentFrequency === 'annually') {
-                        nextLoanPayment.setFullYear(nextLoanPayment.getFullYear() + 1);
-                    }
-                    nextLoanPayment.setHours(0, 0, 0, 0); // Normalize after adjustment
-                }
-            }
+// Working days in the month containing `date`, leaving out the user's rest days and holidays
+const getMonthlyWorkingDays = (userProfile: UserProfile | null, date: Date): number => {
+    const firstDay = new Date(date.getFullYear(), date.getMonth(), 1);
+    return getWorkingDaysInMonth(firstDay.getFullYear(), firstDay.getMonth(), getProfileHolidaySet(userProfile, firstDay, firstDay), userProfile?.restDays || defaultRestDays);
+};
+
+// --- Utility Functions: Loan Amortization (Consolidated) ---
+const monthsPerLoanPeriod: Record<LoanItem['paymentFrequency'], number> = { monthly: 1, quarterly: 3, annually: 12 };
+
+const roundToCents = (value: number): number => Math.round(value * 100) / 100;
+
+// The date `count` payment periods after `date`, clamped to the month's last day (Jan 31 -> Feb 28).
+const addLoanPeriods = (date: Date, frequency: LoanItem['paymentFrequency'], count: number): Date => {
+    const target = new Date(date.getFullYear(), date.getMonth() + monthsPerLoanPeriod[frequency] * count, 1);
+    const lastDay = new Date(target.getFullYear(), target.getMonth() + 1, 0).getDate();
+    target.setDate(Math.min(date.getDate(), lastDay));
+    return target;
+};
+
+const isAmortizedLoan = (loan: LoanItem): boolean => !!(loan.principal && loan.termPayments && loan.startDate);
+
+const getLoanPeriodicPayment = (loan: LoanItem): number => {
+    if (!isAmortizedLoan(loan)) return loan.amount;
+    const principal = loan.principal as number;
+    const termPayments = loan.termPayments as number;
+    const periodRate = (loan.annualInterestRate || 0) / 100 / (12 / monthsPerLoanPeriod[loan.paymentFrequency]);
+    if (loan.interestMethod === 'fixed') return roundToCents(principal / termPayments + principal * periodRate);
+    if (periodRate === 0) return roundToCents(principal / termPayments);
+    return roundToCents((principal * periodRate) / (1 - Math.pow(1 + periodRate, -termPayments)));
+};
+
+// Full payment schedule of an amortized loan; empty for loans without principal/term details.
+// The final payment absorbs rounding so the balance ends at exactly zero.
+const getAmortizationSchedule = (loan: LoanItem): AmortizationRow[] => {
+    if (!isAmortizedLoan(loan)) return [];
+    const termPayments = loan.termPayments as number;
+    const periodRate = (loan.annualInterestRate || 0) / 100 / (12 / monthsPerLoanPeriod[loan.paymentFrequency]);
+    const payment = getLoanPeriodicPayment(loan);
+    const firstPaymentDate = new Date(loan.startDate as Date);
+    firstPaymentDate.setHours(0, 0, 0, 0);
+
+    const rows: AmortizationRow[] = [];
+    let balance = loan.principal as number;
+    for (let i = 0; i < termPayments; i++) {
+        const interest = roundToCents(loan.interestMethod === 'fixed' ? (loan.principal as number) * periodRate : balance * periodRate);
+        const principalPaid = i === termPayments - 1 ? balance : Math.min(balance, roundToCents(payment - interest));
+        balance = roundToCents(balance - principalPaid);
+        rows.push({
+            paymentNumber: i + 1,
+            date: addLoanPeriods(firstPaymentDate, loan.paymentFrequency, i),
+            payment: roundToCents(principalPaid + interest),
+            interest,
+            principal: principalPaid,
+            balance,
         });
     }
+    return rows;
+};
 
-    // Initialize forecast data with today's balance
-    const forecastData: { date: Date; balance: number }[] = [{ date: new Date(today), balance: currentProjectedBalance }];
-    let currentIterationDate = new Date(today);
-    currentIterationDate.setHours(0,0,0,0);
+// Principal still owed after every payment due before `asOf`. Null for loans without principal details.
+const getLoanBalance = (loan: LoanItem, asOf: Date): number | null => {
+    if (!isAmortizedLoan(loan)) return null;
+    const paidRows = getAmortizationSchedule(loan).filter(row => row.date.getTime() < asOf.getTime());
+    return paidRows.length > 0 ? paidRows[paidRows.length - 1].balance : (loan.principal as number);
+};
 
-    // Loop through each day from today up to the effectiveProjectionDays
-    for (let i = 0; i <= effectiveProjectionDays; i++) {
-        const dateKey = currentIterationDate.toISOString().split('T')[0];
-        const dailyNetChange = transactionsByDay.get(dateKey) || 0; // Get net change for this specific day, 0 if none
+const getLoanPayoffDate = (loan: LoanItem): Date | null => {
+    const schedule = getAmortizationSchedule(loan);
+    return schedule.length > 0 ? schedule[schedule.length - 1].date : null;
+};
 
-        currentProjectedBalance += dailyNetChange;
-        forecastData.push({ date: new Date(currentIterationDate), balance: currentProjectedBalance });
+// Loan payments due within [from, to] as expense-shaped items. Amortized loans stop at payoff;
+// other loans repeat their fixed amount, rolling a past nextPaymentDate forward into the range.
+// Payments due on a weekend or one of `holidays` move as the loan's business-day rule says.
+// Loans are entered in the base currency, which is passed in so the payments can be labelled with it
+const getUpcomingLoanPayments = (loans: LoanItem[], from: Date, to: Date, currency: string, holidays: HolidaySet = new Set()): ExpenseItem[] => {
+    const rangeStart = startOfDay(from);
+    const payments: ExpenseItem[] = [];
+    const isInRange = (date: Date) => date.getTime() >= rangeStart.getTime() && date.getTime() <= to.getTime();
+
+    loans.forEach(loan => {
+        const toPaymentDate = (dueDate: Date) => adjustToBusinessDay(dueDate, loan.businessDayRule || 'none', holidays);
+        if (isAmortizedLoan(loan)) {
+            getAmortizationSchedule(loan)
+                .map(row => ({ ...row, date: toPaymentDate(row.date) }))
+                .filter(row => isInRange(row.date))
+                .forEach(row => payments.push({
+                    id: `loan-${loan.id}-${row.date.getTime()}`,
+                    vendor: loan.loanName,
+                    amount: row.payment,
+                    category: 'Loan Payment',
+                    date: row.date,
+                    description: `Loan payment ${row.paymentNumber} of ${loan.termPayments} for ${loan.loanName}`,
+                    createdAt: new Date(),
+                    currency,
+                }));
+            return;
+        }
 
-        if (currentProjectedBalance < 0 && !hasShortfall) {
-            potentialShortfallDate = new Date(currentIterationDate);
-            hasShortfall = true;
+        const firstPaymentDate = startOfDay(loan.nextPaymentDate);
+        // A payment due shortly after the range can move back into it
+        for (let i = 0; addLoanPeriods(firstPaymentDate, loan.paymentFrequency, i).getTime() <= addDays(to, 7).getTime(); i++) {
+            const date = toPaymentDate(addLoanPeriods(firstPaymentDate, loan.paymentFrequency, i));
+            if (!isInRange(date)) continue;
+            payments.push({
+                id: `loan-${loan.id}-${date.getTime()}`,
+                vendor: loan.loanName,
+                amount: loan.amount,
+                category: 'Loan Payment',
+                date,
+                description: `Loan payment for ${loan.loanName} (${loan.paymentFrequency})`,
+                createdAt: new Date(),
+                currency,
+            });
         }
+    });
+    return payments;
+};
+
+// Monthly amortized loans still owed on `today`, as debts for the payoff planner. The balance is what the loan's
+// schedule leaves after the payments due before today. Loans paid quarterly or annually, or without principal and
+// term details, keep to their own schedules.
+const getPayoffDebts = (loans: LoanItem[], today: Date): PayoffDebt[] => loans.flatMap(loan => {
+    if (!isAmortizedLoan(loan) || loan.paymentFrequency !== 'monthly') return [];
+    const nextRow = getAmortizationSchedule(loan).find(row => row.date.getTime() >= startOfDay(today).getTime());
+    const balance = getLoanBalance(loan, today) || 0;
+    if (!nextRow || balance <= 0) return [];
+    const annualInterestRate = loan.annualInterestRate || 0;
+    return [{
+        id: loan.id,
+        name: loan.loanName,
+        balance,
+        annualInterestRate,
+        ...(loan.interestMethod === 'fixed' ? { fixedMonthlyInterest: roundToCents((loan.principal as number) * annualInterestRate / 1200) } : {}),
+        minimumPayment: getLoanPeriodicPayment(loan),
+        nextPaymentDate: nextRow.date,
+    }];
+});
+
+// The saved payoff plan, run from `today`, with the debts it covers. Null when there is no plan or nothing to plan.
+const getSavedDebtPayoffPlan = (userProfile: UserProfile | null, today: Date): { debts: PayoffDebt[]; plan: DebtPayoffPlan } | null => {
+    const settings = userProfile?.debtPayoffPlan;
+    const debts = getPayoffDebts(userProfile?.loans || [], today);
+    if (!settings || debts.length === 0) return null;
+    return { debts, plan: planDebtPayoff(debts, settings.strategy, settings.extraMonthlyPayment, settings.customOrder) };
+};
+
+// Loan payments within [from, to] as the forecast projects them: the loans in an applied payoff plan are paid as the
+// plan says, every other loan as getUpcomingLoanPayments schedules it
+const getForecastLoanPayments = (userProfile: UserProfile | null, from: Date, to: Date, currency: string, holidays: HolidaySet = new Set()): ExpenseItem[] => {
+    const loans = userProfile?.loans || [];
+    const saved = userProfile?.debtPayoffPlan?.applyToForecast ? getSavedDebtPayoffPlan(userProfile, from) : null;
+    if (!saved) return getUpcomingLoanPayments(loans, from, to, currency, holidays);
+
+    const rangeStart = startOfDay(from);
+    const plannedPayments = saved.plan.months.flatMap(month => saved.debts.flatMap((debt, index) => {
+        const loan = loans.find(item => item.id === debt.id) as LoanItem;
+        const date = adjustToBusinessDay(month.paymentDates[index], loan.businessDayRule || 'none', holidays);
+        if (month.payments[index] <= 0 || date.getTime() < rangeStart.getTime() || date.getTime() > to.getTime()) return [];
+        return [{
+            id: `loan-${loan.id}-${date.getTime()}`,
+            vendor: loan.loanName,
+            amount: month.payments[index],
+            category: 'Loan Payment',
+            date,
+            description: `Planned payment for ${loan.loanName} (debt payoff plan)`,
+            createdAt: new Date(),
+            currency,
+        }];
+    }));
+    const unplannedLoans = loans.filter(loan => !saved.debts.some(debt => debt.id === loan.id));
+    return [...getUpcomingLoanPayments(unplannedLoans, from, to, currency, holidays), ...plannedPayments];
+};
+
+
+// --- Utility Functions: Currencies & Exchange Rates (Consolidated) ---
+// Records saved before currencies were supported carry no code and are in pesos
+const LEGACY_CURRENCY = 'PHP';
+
+const commonCurrencies = ['PHP', 'USD', 'EUR', 'GBP', 'JPY', 'SGD', 'AUD', 'CAD', 'HKD', 'CNY', 'KRW', 'AED', 'SAR'];
+
+const getBaseCurrency = (userProfile: UserProfile | null): string => userProfile?.baseCurrency || LEGACY_CURRENCY;
 
-        currentIterationDate.setDate(currentIterationDate.getDate() + 1);
+const getRecordCurrency = (record: { currency?: string }): string => record.currency || LEGACY_CURRENCY;
+
+// Currencies offered in pickers: the base currency first, then any with stored rates, then the common ones
+const getCurrencyOptions = (userProfile: UserProfile | null): string[] => Array.from(new Set([
+    getBaseCurrency(userProfile),
+    ...(userProfile?.exchangeRates || []).flatMap(rate => [rate.currency, rate.base]),
+    ...commonCurrencies,
+]));
+
+// The rate in effect on `date` for one stored pair (or its inverse): the latest entry on or before the date,
+// otherwise the earliest entry, so records dated before the first stored rate still convert.
+const getStoredRate = (rates: ExchangeRate[], from: string, to: string, date: Date): number | null => {
+    const entries = rates
+        .filter(rate => rate.rate > 0 && ((rate.currency === from && rate.base === to) || (rate.currency === to && rate.base === from)))
+        .sort((a, b) => a.date.getTime() - b.date.getTime());
+    if (entries.length === 0) return null;
+    const entry = [...entries].reverse().find(rate => rate.date.getTime() <= date.getTime()) || entries[0];
+    return entry.currency === from ? entry.rate : 1 / entry.rate;
+};
+
+// Looks for a direct rate first, then a path through one other currency (e.g. USD -> PHP -> JPY)
+const getExchangeRate = (rates: ExchangeRate[], from: string, to: string, date: Date): number | null => {
+    if (from === to) return 1;
+    const direct = getStoredRate(rates, from, to, date);
+    if (direct !== null) return direct;
+    const intermediates = Array.from(new Set(rates.flatMap(rate => [rate.currency, rate.base]))).filter(code => code !== from && code !== to);
+    for (const intermediate of intermediates) {
+        const first = getStoredRate(rates, from, intermediate, date);
+        const second = getStoredRate(rates, intermediate, to, date);
+        if (first !== null && second !== null) return first * second;
     }
+    return null;
+};
 
-    return { forecastData, potentialShortfallDate, projectedSalaryPayments };
+// Amounts in a currency without a usable rate are taken at face value; see getMissingRateCurrencies
+const convertAmount = (amount: number, from: string, to: string, date: Date, rates: ExchangeRate[]): number => {
+    const rate = getExchangeRate(rates, from, to, date);
+    return rate === null ? amount : roundToCents(amount * rate);
 };
 
+const toBaseAmount = (amount: number, currency: string | undefined, date: Date, userProfile: UserProfile | null): number =>
+    convertAmount(amount, currency || LEGACY_CURRENCY, getBaseCurrency(userProfile), date, userProfile?.exchangeRates || []);
 
-// --- Component: Modal (Consolidated) ---
-const Modal: React.FC<ModalProps> = ({ isOpen, title, message, onClose, onConfirm, showConfirmButton = false, children }) => {
-    if (!isOpen) return null;
+const getMissingRateCurrencies = (records: { currency?: string }[], userProfile: UserProfile | null): string[] => {
+    const baseCurrency = getBaseCurrency(userProfile);
+    return Array.from(new Set(records.map(getRecordCurrency)))
+        .filter(currency => getExchangeRate(userProfile?.exchangeRates || [], currency, baseCurrency, new Date()) === null)
+        .sort();
+};
 
-    return (
-        <div className="fixed inset-0 bg-gray-600 bg-opacity-75 flex items-center justify-center z-50 p-4" onClick={onClose}>
-            <div className="bg-white rounded-lg shadow-xl p-6 w-full max-w-lg md:max-w-xl lg:max-w-2xl transform transition-all duration-300 scale-100" onClick={(e) => e.stopPropagation()}>
-                <h3 className="text-xl font-semibold text-gray-900 mb-4 border-b pb-2">{title}</h3>
-                {message && <p className="text-sm text-gray-700 mb-6">{message}</p>}
-                {children}
-                <div className="flex justify-end space-x-3 mt-6">
-                    <button
-                        onClick={onClose}
-                        className="px-4 py-2 bg-gray-200 text-gray-800 rounded-md hover:bg-gray-300 transition duration-200"
-                    >
-                        {showConfirmButton ? 'Cancel' : 'Close'}
-                    </button>
-                    {showConfirmButton && onConfirm && (
-                        <button
-                            onClick={onConfirm}
-                            className="px-4 py-2 bg-orange-600 text-white rounded-md hover:bg-orange-700 transition duration-200"
-                        >
-                            Confirm
-                        </button>
-                    )}
-                </div>
-            </div>
-        </div>
-    );
+const isCurrencyCode = (value: string) => /^[A-Z]{3}$/.test(value);
+
+// Reads a rate table with a header row naming Date, Currency and Rate columns, plus an optional Base column
+// (defaults to `baseCurrency`). Throws an Error naming the first invalid row.
+const parseExchangeRatesCsv = (text: string, baseCurrency: string): ExchangeRate[] => {
+    const [header, ...rows] = parseCsv(text).filter(row => row.some(cell => cell.trim() !== ''));
+    if (!header) throw new Error("The file is empty.");
+    const columns = header.map(cell => cell.trim().toLowerCase());
+    const dateIndex = columns.indexOf('date');
+    const currencyIndex = columns.indexOf('currency');
+    const rateIndex = columns.indexOf('rate');
+    const baseIndex = columns.indexOf('base');
+    if (dateIndex < 0 || currencyIndex < 0 || rateIndex < 0) throw new Error("The header row must name Date, Currency and Rate columns.");
+
+    return rows.map((row, index) => {
+        const line = index + 2;
+        const currency = (row[currencyIndex] || '').trim().toUpperCase();
+        const base = baseIndex >= 0 && row[baseIndex]?.trim() ? row[baseIndex].trim().toUpperCase() : baseCurrency;
+        const rate = parseStatementAmount(row[rateIndex] || '');
+        const date = parseStatementDate((row[dateIndex] || '').trim(), 'YYYY-MM-DD');
+        if (!isCurrencyCode(currency) || !isCurrencyCode(base) || currency === base) throw new Error(`Row ${line}: enter two different three-letter currency codes.`);
+        if (rate === null || rate <= 0) throw new Error(`Row ${line}: the rate must be a positive number.`);
+        if (!date) throw new Error(`Row ${line}: the date must be in YYYY-MM-DD format.`);
+        return { base, currency, rate, date };
+    });
 };
 
-// --- Component: LoadingSpinner (Consolidated) ---
-const LoadingSpinner: React.FC = () => (
-    <div className="min-h-screen flex items-center justify-center bg-gray-100">
-        <div className="border-4 border-gray-200 border-t-4 border-t-gray-800 rounded-full w-12 h-12 animate-spin"></div>
-    </div>
-);
+// Adds rates to a table, replacing any existing entry for the same pair and day
+const mergeExchangeRates = (existing: ExchangeRate[], added: ExchangeRate[]): ExchangeRate[] => {
+    const keyOf = (rate: ExchangeRate) => `${rate.base}:${rate.currency}:${toDateKey(rate.date)}`;
+    const addedKeys = new Set(added.map(keyOf));
+    return [...existing.filter(rate => !addedKeys.has(keyOf(rate))), ...added]
+        .sort((a, b) => a.currency.localeCompare(b.currency) || b.date.getTime() - a.date.getTime());
+};
 
 
-// --- Component: Auth (Consolidated) ---
-const Auth: React.FC = () => {
-    const { login, signup } = useAuth();
-    const [isLogin, setIsLogin] = useState(true);
-    const [email, setEmail] = useState('');
-    const [password, setPassword] = useState('');
-    const [name, setName] = useState('');
-    const [error, setError] = useState('');
-    const [isLoading, setIsLoading] = useState(false);
-    const [isModalOpen, setIsModalOpen] = useState(false);
-    const [modalTitle, setModalTitle] = useState('');
-    const [modalMessage, setModalMessage] = useState('');
+// --- Utility Functions: Clients (Consolidated) ---
+// Client names are matched like payers: ignoring case and surrounding spaces
+const findClientByName = (clients: ClientItem[], name: string): ClientItem | undefined =>
+    clients.find(client => normalizePayer(client.name) === normalizePayer(name));
 
-    const handleSubmit = async (e: React.FormEvent) => {
-        e.preventDefault();
-        setError('');
-        setIsLoading(true);
-        try {
-            if (isLogin) {
-                await login(email, password);
-            } else {
-                if (!name) {
-                    setModalTitle("Input Error");
-                    setModalMessage("Please enter your name for signup.");
-                    setIsModalOpen(true);
-                    return;
-                }
-                await signup(email, password, name);
-            }
-        } catch (err: unknown) {
-            setError((err as Error).message || 'An unknown error occurred.');
-        } finally {
-            setIsLoading(false);
-        }
-    };
+// Links a record to the directory client its name matches, taking the client's spelling. A record that was linked
+// and no longer matches is unlinked.
+const getClientLink = (clients: ClientItem[], name: string, linkedClientId?: string | null): { client: string; clientId?: string | null } => {
+    const match = findClientByName(clients, name);
+    if (match) return { client: match.name, clientId: match.id };
+    return linkedClientId ? { client: name, clientId: null } : { client: name };
+};
 
-    return (
-        <div className="min-h-screen flex items-center justify-center bg-gray-100 p-4">
-            <div className="bg-white rounded-lg shadow-xl p-8 w-full max-w-md">
-                <div className="flex justify-center mb-6">
-                    <span className="text-gray-900 text-4xl font-bold">Spenditure</span>
-                </div>
-                {error && (
-                    <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded-md relative mb-4" role="alert">
-                        <span className="block sm:inline">{error}</span>
-                    </div>
-                )}
-                <form onSubmit={handleSubmit}>
-                    {!isLogin && (
-                        <div className="mb-4">
-                            <label className="block text-gray-700 text-sm font-bold mb-2" htmlFor="name">
-                                Name
-                            </label>
-                            <input
-                                type="text"
-                                id="name"
-                                value={name}
-                                onChange={(e: React.ChangeEvent<HTMLInputElement>) => setName(e.target.value)}
-                                className="shadow appearance-none border rounded-md w-full py-2 px-3 text-gray-700 leading-tight focus:outline-none focus:shadow-outline focus:ring-2 focus:ring-orange-500 focus:border-transparent"
-                                placeholder="Your Name"
-                                required
-                            />
-                        </div>
-                    )}
-                    <div className="mb-4">
-                        <label className="block text-gray-700 text-sm font-bold mb-2" htmlFor="email">
-                            Email
-                        </label>
-                        <input
-                            type="email"
-                            id="email"
-                            value={email}
-                            onChange={(e: React.ChangeEvent<HTMLInputElement>) => setEmail(e.target.value)}
-                            className="shadow appearance-none border rounded-md w-full py-2 px-3 text-gray-700 leading-tight focus:outline-none focus:shadow-outline focus:ring-2 focus:ring-orange-500 focus:border-transparent"
-                            placeholder="Your email"
-                            required
-                        />
-                    </div>
-                    <div className="mb-6">
-                        <label className="block text-gray-700 text-sm font-bold mb-2" htmlFor="password">
-                            Password
-                        </label>
-                        <input
-                            type="password"
-                            id="password"
-                            value={password}
-                            onChange={(e: React.ChangeEvent<HTMLInputElement>) => setPassword(e.target.value)}
-                            className="shadow appearance-none border rounded-md w-full py-2 px-3 text-gray-700 leading-tight focus:outline-none focus:shadow-outline focus:ring-2 focus:ring-orange-500 focus:border-transparent"
-                            placeholder="********"
-                            required
-                        />
-                    </div>
-                    <div className="flex items-center justify-between">
-                        <button
-                            type="submit"
-                            className="bg-orange-500 hover:bg-orange-600 text-white font-bold py-2 px-4 rounded-md focus:outline-none focus:shadow-outline w-full disabled:opacity-70 disabled:cursor-not-allowed"
-                            disabled={isLoading}
-                        >
-                            {isLoading ? 'Loading...' : (isLogin ? 'Login' : 'Sign Up')}
-                        </button>
-                    </div>
-                </form>
-                <div className="text-center mt-4">
-                    <button
-                        onClick={() => setIsLogin(!isLogin)}
-                        className="inline-block align-baseline font-bold text-sm text-orange-600 hover:text-orange-800"
-                    >
-                        {isLogin ? 'Need an account? Sign Up' : 'Already have an account? Login'}
-                    </button>
-                </div>
-            </div>
-            <Modal
-                isOpen={isModalOpen}
-                title={modalTitle}
-                message={modalMessage}
-                onClose={() => setIsModalOpen(false)}
-            />
-        </div>
-    );
+// Linked records are grouped by client, so every spelling counts as the same payer; others by name
+const getPayerKey = (record: { client: string; clientId?: string | null }): string => record.clientId || record.client;
+
+const agingBucketLabels: Record<AgingBucket, string> = { 'current': 'Current', '1-30': '1–30 Days', '31-60': '31–60 Days', '61-90': '61–90 Days', '90+': '90+ Days' };
+
+
+// --- Utility Functions: Accounts (Consolidated) ---
+const accountTypeLabels: Record<AccountType, string> = {
+    cash: 'Cash',
+    bank: 'Bank Account',
+    'e-wallet': 'E-Wallet (GCash, Maya)',
+    'credit-card': 'Credit Card',
 };
 
+// The profile's choice when it still exists, otherwise the oldest account
+const getDefaultAccountId = (userProfile: UserProfile | null, accounts: AccountItem[]): string | null => {
+    if (accounts.some(account => account.id === userProfile?.defaultAccountId)) return userProfile?.defaultAccountId || null;
+    const oldest = [...accounts].sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime())[0];
+    return oldest?.id || null;
+};
 
-// --- Component: Navbar (Consolidated) ---
-const Navbar: React.FC<NavbarProps> = ({ userId, userName, onLogout, currentPage, setCurrentPage }) => {
-    const navItemClass = (pageName: string) =>
-        `px-3 py-2 rounded-md text-sm font-medium transition duration-200 text-gray-300 hover:bg-orange-600 cursor-pointer ${currentPage === pageName ? 'bg-orange-500 text-white shadow-md' : ''}`;
+const getAccountName = (accounts: AccountItem[], accountId: string | undefined, defaultAccountId: string | null): string =>
+    accounts.find(account => account.id === (accountId || defaultAccountId))?.name || '';
+
+// Balance, in the account's own currency, derived from the opening balance plus paid incomes, expenses and transfers dated
+// from the opening date up to (but not including) `asOf`. Incomes count once they are Paid, on the day they were paid;
+// Outstanding invoices are left to the forecast. Records in other currencies are converted at the rate on their own date.
+const getAccountBalance = (
+    account: AccountItem,
+    defaultAccountId: string | null,
+    incomes: IncomeItem[],
+    expenses: ExpenseItem[],
+    transfers: TransferItem[],
+    asOf: Date,
+    exchangeRates: ExchangeRate[] = []
+): number => {
+    const isInPeriod = (date: Date) => date.getTime() >= account.openingDate.getTime() && date.getTime() < asOf.getTime();
+    const isOwnRecord = (accountId?: string) => (accountId || defaultAccountId) === account.id;
+    const inAccountCurrency = (record: { amount: number; currency?: string }, date: Date) =>
+        convertAmount(record.amount, getRecordCurrency(record), getRecordCurrency(account), date, exchangeRates);
+
+    const paidIn = sumReceivedPayments(incomes.filter(inc => inc.status === 'Paid' && isOwnRecord(inc.accountId)),
+        getIncomePaidDate, account.openingDate, asOf, inAccountCurrency);
+    const spent = expenses
+        .filter(exp => isOwnRecord(exp.accountId) && isInPeriod(exp.date))
+        .reduce((sum, exp) => sum + inAccountCurrency(exp, exp.date), 0);
+    const transferredIn = transfers
+        .filter(transfer => transfer.toAccountId === account.id && isInPeriod(transfer.date))
+        .reduce((sum, transfer) => sum + inAccountCurrency(transfer, transfer.date), 0);
+    const transferredOut = transfers
+        .filter(transfer => transfer.fromAccountId === account.id && isInPeriod(transfer.date))
+        .reduce((sum, transfer) => sum + inAccountCurrency(transfer, transfer.date), 0);
+
+    return roundToCents(account.openingBalance + paidIn - spent + transferredIn - transferredOut);
+};
 
-    return (
-        <nav className="bg-zinc-900 p-4 shadow-lg sticky top-0 z-40">
-            <div className="w-full px-[20px] flex flex-wrap items-center justify-between">
-                <div className="flex items-center">
-                    {/* Placeholder for the Monie Logo (if you have an SVG or image, replace this) */}
-                    {/* For example, if you have public/monies.svg: <img src="/monies.svg" alt="Monie Logo" className="h-8 w-auto" /> */}
-                    {/* Using an inline SVG for demonstration (similar to previous version but simplified) */}
-                    <svg width="32" height="32" viewBox="0 0 24 24" fill="none" xmlns="http://www.w3.org/2000/svg" className="mr-2">
-                        <path d="M12 2C6.477 2 2 6.477 2 12s4.477 10 10 10 10-4.477 10-10S17.523 2 12 2zM12 11.5a.5.5 0 01.5.5v2a.5.5 0 01-1 0v-2a.5.5 0 01.5-.5zM12 7a.5.5 0 01.5.5v.5a.5.5 0 01-1 0V7.5a.5.5 0 01.5-.5z" fill="#F97316"/>
-                        <circle cx="12" cy="12" r="10" stroke="#F97316" strokeWidth="1.5"/>
-                        <path d="M10 8h4a1 1 0 011 1v4a1 1 0 01-1 1h-4a1 1 0 01-1-1V9a1 1 0 011-1z" stroke="#F97316" strokeWidth="1.5" strokeLinecap="round" strokeLinejoin="round"/>
-                        <text x="12" y="15" fontSize="10" fontWeight="bold" textAnchor="middle" fill="#FFFFFF">$</text>
-                    </svg>
-                    <span className="text-white text-2xl font-bold">Spenditure</span>
-                </div>
+const getAccountBalances = (accounts: AccountItem[], userProfile: UserProfile | null, incomes: IncomeItem[], expenses: ExpenseItem[], transfers: TransferItem[], asOf: Date): AccountBalance[] => {
+    const defaultAccountId = getDefaultAccountId(userProfile, accounts);
+    return accounts.map(account => ({
+        account,
+        balance: getAccountBalance(account, defaultAccountId, incomes, expenses, transfers, asOf, userProfile?.exchangeRates || []),
+    }));
+};
 
-                {/* Navigation Buttons */}
-                <div className="flex space-x-4 mt-2 md:mt-0">
-                    <button
-                        onClick={() => setCurrentPage('dashboard')}
-                        className={navItemClass('dashboard')}
-                    >
-                        Dashboard
-                    </button>
-                    <button
-                        onClick={() => setCurrentPage('income')}
-                        className={navItemClass('income')}
-                    >
-                        Income
-                    </button>
-                    <button
-                        onClick={() => setCurrentPage('expenses')}
-                        className={navItemClass('expenses')}
-                    >
-                        Expenses
-                    </button>
-                    <button
-                        onClick={() => setCurrentPage('profile')}
-                        className={navItemClass('profile')}
-                    >
-                        Profile
-                    </button>
-                </div>
+// A card with a billing cycle; its purchases are paid for when the statement falls due rather than when they are made
+const isStatementCard = (account: AccountItem): boolean =>
+    account.type === 'credit-card' && !!account.statementClosingDay && !!account.paymentDueDay;
+
+// Statements of a card that fall due between `from` and `to`. Each statement's balance is what the card owed when it
+// closed, after assuming that earlier statements in the range are paid in full on their due dates; transfers into the
+// card after closing count as payments toward it. `expenses` should include projected recurring occurrences.
+const getCardStatements = (
+    card: AccountItem,
+    defaultAccountId: string | null,
+    incomes: IncomeItem[],
+    expenses: ExpenseItem[],
+    transfers: TransferItem[],
+    from: Date,
+    to: Date,
+    exchangeRates: ExchangeRate[] = []
+): CardStatement[] => {
+    if (!isStatementCard(card)) return [];
+    const closingDay = card.statementClosingDay as number;
+    const dueDay = card.paymentDueDay as number;
+    const statements: CardStatement[] = [];
+    let assumedPayments = 0;
+
+    // Start a few cycles back so a statement that closed earlier but is not yet due is included
+    for (let offset = -2; ; offset++) {
+        const closingDate = getClampedDate(from.getFullYear(), from.getMonth() + offset, closingDay);
+        const dueDate = getClampedDate(closingDate.getFullYear(), closingDate.getMonth() + (dueDay > closingDay ? 0 : 1), dueDay);
+        if (dueDate.getTime() > to.getTime()) break;
+        if (dueDate.getTime() < startOfDay(from).getTime()) continue;
+
+        const dayAfterClosing = addDays(closingDate, 1);
+        const dayAfterDue = addDays(dueDate, 1);
+        const owed = -getAccountBalance(card, defaultAccountId, incomes, expenses, transfers, dayAfterClosing, exchangeRates) - assumedPayments;
+        const statementBalance = roundToCents(Math.max(0, owed));
+        const paidSinceClosing = transfers
+            .filter(transfer => transfer.toAccountId === card.id && transfer.date.getTime() >= dayAfterClosing.getTime() && transfer.date.getTime() < dayAfterDue.getTime())
+            .reduce((sum, transfer) => sum + convertAmount(transfer.amount, getRecordCurrency(transfer), getRecordCurrency(card), transfer.date, exchangeRates), 0);
+        const amountDue = roundToCents(Math.max(0, statementBalance - paidSinceClosing));
+        const minimumPayment = card.minimumPaymentPercent || card.minimumPaymentFloor
+            ? Math.min(amountDue, Math.max(roundToCents(statementBalance * (card.minimumPaymentPercent || 0) / 100), card.minimumPaymentFloor || 0))
+            : amountDue;
+
+        statements.push({ accountId: card.id, closingDate, dueDate, statementBalance, amountDue, minimumPayment });
+        assumedPayments += amountDue;
+    }
+    return statements;
+};
 
-                {/* User Info and Logout Button */}
-                <div className="flex items-center space-x-4 mt-2 md:mt-0 ml-auto">
-                    <span className="text-gray-300 text-sm italic hidden sm:block">
-                        {userName ? `Welcome, ${userName}!` : 'Welcome!'}
-                    </span>
-                    <button
-                        onClick={onLogout}
-                        className="px-4 py-2 bg-orange-500 text-white rounded-md transition duration-200 hover:bg-orange-600 focus:outline-none focus:ring-2 focus:ring-orange-500 focus:ring-opacity-50 text-sm"
-                    >
-                        Logout
-                    </button>
-                </div>
-            </div>
-        </nav>
-    );
+// Share of the credit limit in use, as a percentage; null when the card has no limit set
+const getCardUtilization = (card: AccountItem, balance: number): number | null =>
+    card.creditLimit ? Math.max(0, -balance) / card.creditLimit * 100 : null;
+
+// Cash at the start of today across all accounts, or in one account when `accountId` is given, in the base currency.
+// The consolidated figure leaves out statement cards, whose balance is paid off through the forecast instead.
+// Null until accounts are set up, in which case callers fall back to the profile's manually entered balance.
+const getCurrentCashBalance = (accounts: AccountItem[], userProfile: UserProfile | null, incomes: IncomeItem[], expenses: ExpenseItem[], transfers: TransferItem[], accountId: string | null = null): number | null => {
+    if (accounts.length === 0) return null;
+    const today = new Date();
+    today.setHours(0, 0, 0, 0);
+    return getAccountBalances(accounts, userProfile, incomes, expenses, transfers, today)
+        .filter(({ account }) => accountId ? account.id === accountId : !isStatementCard(account))
+        .reduce((sum, { account, balance }) => sum + toBaseAmount(balance, account.currency, today, userProfile), 0);
 };
 
 
-// --- Component: Income (Consolidated) ---
-const Income: React.FC<IncomeComponentProps> = ({ addIncome, incomes, updateIncomeStatus, deleteIncome }) => {
-    const [client, setClient] = useState<string>('');
-    const [amount, setAmount] = useState<string>('');
-    const [dueDate, setDueDate] = useState<string>('');
-    const [isModalOpen, setIsModalOpen] = useState<boolean>(false);
-    const [modalMessage, setModalMessage] = useState<string>('');
-    const [modalTitle, setModalTitle] = useState<string>('');
-    const [isConfirmModalOpen, setIsConfirmModalOpen] = useState<boolean>(false);
-    const [itemToDelete, setItemToDelete] = useState<string | null>(null);
+// --- Utility Function: generateMockForecast (Consolidated) ---
+const getPaySchedule = (userProfile: UserProfile | null): PaySchedule =>
+    userProfile?.paySchedule || getDefaultPaySchedule(userProfile?.salaryFrequency || 'monthly');
+
+// Net salary for each payday from `from` through `to`, and net extra pay on its own dates, as Outstanding incomes in
+// the base currency. Paydays on weekends and holidays move as the pay schedule says. Shared by the dashboard forecast
+// and the profile summary so both agree on when salary arrives.
+const getProjectedSalaryPayments = (userProfile: UserProfile | null, from: Date, to: Date): IncomeItem[] => {
+    if (!userProfile) return [];
+    const schedule = getPaySchedule(userProfile);
+    const holidays = getProfileHolidaySet(userProfile, from, to);
+    const currency = getBaseCurrency(userProfile);
+    const salaryPerPayday = getSalaryPerPayday(getNetMonthlySalary(userProfile), schedule);
+    const salaryPayments: IncomeItem[] = userProfile.salaryIncome <= 0 ? [] : getPaydays(schedule, from, to, holidays).map(payday => ({
+        id: `salary-${toDateKey(payday)}`,
+        client: `Salary Payment (${describePaySchedule(schedule)})`,
+        amount: salaryPerPayday,
+        dueDate: payday,
+        status: 'Outstanding',
+        createdAt: new Date(),
+        currency,
+    }));
+    const netExtraPay = new Map(getExtraPayLines(userProfile).map(line => [line.component.id, line.netAmount]));
+    const extraPayments: IncomeItem[] = getExtraPayments(userProfile.extraPay || [], userProfile.salaryIncome, from, to, holidays).map(payment => ({
+        id: `extra-pay-${payment.component.id}-${toDateKey(payment.date)}`,
+        client: payment.component.name,
+        amount: netExtraPay.get(payment.component.id) ?? payment.grossAmount,
+        dueDate: payment.date,
+        status: 'Outstanding',
+        createdAt: new Date(),
+        currency,
+    }));
+    return [...salaryPayments, ...extraPayments].sort((a, b) => a.dueDate.getTime() - b.dueDate.getTime());
+};
 
-    const handleSubmit = async (e: React.FormEvent) => {
-        e.preventDefault();
-        if (!client || !amount || !dueDate) {
-            setModalTitle("Input Error");
-            setModalMessage("Please fill in all fields (Client, Amount, Due Date).");
-            setIsModalOpen(true);
-            return;
-        }
-        if (isNaN(parseFloat(amount)) || parseFloat(amount) <= 0) {
-            setModalTitle("Input Error");
-            setModalMessage("Amount must be a positive number.");
-            setIsModalOpen(true);
-            return;
-        }
+// Each savings goal with its contribution plan, set aside on the salary schedule's paydays. With a salary, all
+// contributions together stay within the net pay per payday.
+const getSavingsGoalPlans = (userProfile: UserProfile | null, today: Date): { goal: SavingsGoal; plan: GoalContributionPlan }[] => {
+    const goals = userProfile?.savingsGoals || [];
+    if (!userProfile || goals.length === 0) return [];
+    const schedule = getPaySchedule(userProfile);
+    const lastTargetDate = goals.reduce((latest, goal) => (goal.targetDate.getTime() > latest.getTime() ? goal.targetDate : latest), today);
+    const paydays = getPaydays(schedule, today, lastTargetDate, getProfileHolidaySet(userProfile, today, lastTargetDate));
+    const availablePerPayday = userProfile.salaryIncome > 0 ? getSalaryPerPayday(getNetMonthlySalary(userProfile), schedule) : Infinity;
+    const plans = planGoalContributions(goals, paydays, today, availablePerPayday);
+    return goals.map((goal, index) => ({ goal, plan: plans[index] }));
+};
 
-        try {
-            await addIncome({
-                client,
-                amount: parseFloat(amount),
-                dueDate: new Date(dueDate),
-                status: 'Outstanding',
-            });
-            setClient('');
-            setAmount('');
-            setDueDate('');
-            setModalTitle("Success!");
-            setModalMessage("Income record added successfully.");
-            setIsModalOpen(true);
-        } catch (error: unknown) {
-            setModalTitle("Error");
-            setModalMessage(`Failed to add income: ${(error as Error).message}`);
-            setIsModalOpen(true);
-        }
+// When a paid income's money arrived: its recorded paid date, or for records paid before that was captured, when its
+// status was last changed to Paid. Null when neither is known, e.g. incomes imported as already paid.
+const getIncomePaidDate = (income: IncomeItem): Date | null => {
+    if (income.status !== 'Paid') return null;
+    if (income.paidDate) return income.paidDate;
+    const paidEntry = [...(income.history || [])].reverse()
+        .find(entry => entry.changes.some(change => change.field === 'status' && change.to === 'Paid'));
+    return paidEntry ? startOfDay(paidEntry.changedAt) : null;
+};
+
+// What generateMockForecast hands to simulateForecast
+interface ForecastSimulationInput {
+    certainEvents: ForecastEvent[];
+    uncertainIncomes: UncertainIncome[];
+    options: SimulationOptions;
+}
+
+// Every paid income with a known paid date, as the payment history the forecast learns client lateness from
+const getIncomePaymentRecords = (incomes: IncomeItem[]): PaymentRecord[] => incomes.flatMap(income => {
+    const paidDate = getIncomePaidDate(income);
+    return paidDate ? [{ payer: getPayerKey(income), dueDate: income.dueDate, paidDate }] : [];
+});
+
+// Select an account in `accountContext` to project it alone: only its own records count, transfers move money in and
+// out of it, salary is included only for the salary account and loan payments only for the default account.
+// Otherwise the projection is consolidated cash: statement cards are left out, except that each statement is paid on
+// its due date, and only transfers between a card and a cash account change the total.
+const generateMockForecast = (
+    currentBalance: number,
+    allIncomes: IncomeItem[],
+    allExpenses: ExpenseItem[],
+    userProfile: UserProfile | null,
+    allRecurringExpenses: RecurringExpenseItem[] = [],
+    allRecurringIncomes: RecurringIncomeItem[] = [],
+    accountContext: ForecastAccountContext | null = null,
+    certainIncomes: IncomeItem[] = [], // Arrive on their dates, like salary; see applyForecastScenario
+    now: Date = new Date()
+) => {
+    const today = startOfDay(now);
+
+    // Every amount is projected in the base currency, converted at the rate for its own date
+    const baseCurrency = getBaseCurrency(userProfile);
+    const toBase = (item: { amount: number; currency?: string }, date: Date) => toBaseAmount(item.amount, item.currency, date, userProfile);
+
+    const selectedAccountId = accountContext?.selectedAccountId || null;
+    const defaultAccountId = accountContext?.defaultAccountId || null;
+    const statementCards = (accountContext?.accounts || []).filter(isStatementCard);
+    const isInForecast = (accountId?: string) => selectedAccountId
+        ? (accountId || defaultAccountId) === selectedAccountId
+        : !statementCards.some(card => card.id === (accountId || defaultAccountId));
+    const isUpcoming = (date: Date) => date.getTime() >= today.getTime();
+    const incomes = allIncomes.filter(inc => isInForecast(inc.accountId) && inc.status === 'Outstanding' && isUpcoming(inc.dueDate));
+    const scheduledIncomes = certainIncomes.filter(inc => isInForecast(inc.accountId) && isUpcoming(inc.dueDate));
+    const expenses = allExpenses.filter(exp => isInForecast(exp.accountId) && isUpcoming(exp.date));
+    const recurringExpenses = allRecurringExpenses.filter(rec => isInForecast(rec.accountId));
+    const recurringIncomes = allRecurringIncomes.filter(rec => isInForecast(rec.accountId));
+
+    // Project through the last outstanding income or expense, and at least 30 days for graph visibility
+    const chartEndDate = getProjectionEndDate(today, incomes.concat(scheduledIncomes).map(inc => inc.dueDate).concat(expenses.map(exp => exp.date)));
+
+    // Incomes are expected on the business day their rule picks, but never before today
+    const holidays = getProfileHolidaySet(userProfile, today, chartEndDate);
+    const getExpectedDate = (inc: IncomeItem) => {
+        const expected = adjustToBusinessDay(inc.dueDate, inc.businessDayRule || 'none', holidays);
+        return expected.getTime() < today.getTime() ? today : expected;
     };
 
-    const handleMarkAsPaid = async (id: string) => {
-        try {
-            await updateIncomeStatus(id, 'Paid');
-            setModalTitle("Success!");
-            setModalMessage("Invoice marked as paid.");
-            setIsModalOpen(true);
-        } catch (error: unknown) {
-            setModalTitle("Error");
-            setModalMessage(`Failed to update status: ${(error as Error).message}`);
-            setIsModalOpen(true);
-        }
+    // Client payments may arrive late (or early): the simulation moves them by each client's own payment history
+    const events: ForecastEvent[] = [];
+    const latenessByPayer = getLatenessByPayer(getIncomePaymentRecords(allIncomes));
+    const uncertainIncomes: UncertainIncome[] = [];
+    const addIncomeEvent = (inc: IncomeItem) => {
+        const event: ForecastEvent = { kind: 'income', date: getExpectedDate(inc), amount: toBase(inc, inc.dueDate), label: inc.client };
+        events.push(event);
+        uncertainIncomes.push({ event, latenessSamples: getLatenessSamples(latenessByPayer, getPayerKey(inc)) });
     };
+    incomes.forEach(addIncomeEvent);
+    scheduledIncomes.forEach(inc => events.push({ kind: 'income', date: getExpectedDate(inc), amount: toBase(inc, inc.dueDate), label: inc.client }));
+    expenses.forEach(exp => events.push({ kind: 'expense', date: exp.date, amount: -toBase(exp, exp.date), label: exp.description }));
+
+    // Add every projected occurrence of recurring expenses within the chart window
+    const upcomingRecurringExpenses = getUpcomingRecurringExpenses(recurringExpenses, today, chartEndDate);
+    upcomingRecurringExpenses.forEach(occurrence => {
+        events.push({ kind: 'expense', date: occurrence.date, amount: -toBase(occurrence, occurrence.date), label: occurrence.description });
+    });
 
-    const handleDeleteClick = (id: string) => {
-        setItemToDelete(id);
-        setIsConfirmModalOpen(true);
-        setModalTitle("Confirm Deletion");
-        setModalMessage("Are you sure you want to delete this income record? This action cannot be undone.");
+    // Everyday spending that is never entered ahead of time (groceries, transport) is projected from its recent
+    // pattern per category, or from the run-rate the user set. Scheduled expenses count towards it.
+    const toSpendingRecord = (exp: ExpenseItem): SpendingRecord => ({ category: exp.category, date: exp.date, amount: toBase(exp, exp.date) });
+    const pastExpenses = allExpenses.filter(exp => isInForecast(exp.accountId) && exp.date.getTime() < today.getTime());
+    const spendingBaseline = estimateSpendingBaseline(pastExpenses.map(toSpendingRecord), today);
+    const forecastBaseline = applySpendingRunRates(spendingBaseline, userProfile?.spendingRunRates || []);
+    const projectedBaselineSpending = getBaselineEvents(forecastBaseline, today, chartEndDate, expenses.concat(upcomingRecurringExpenses).map(toSpendingRecord));
+    projectedBaselineSpending.forEach(event => events.push(event));
+
+    // Add retainer occurrences that have not been materialized as Outstanding incomes yet
+    const projectedRecurringIncomes = getUpcomingRecurringIncomes(recurringIncomes, today, chartEndDate);
+    projectedRecurringIncomes.forEach(addIncomeEvent);
+
+    // Transfers between two accounts in the projection cancel out
+    const transfers = accountContext?.transfers || [];
+    transfers.filter(transfer => isUpcoming(transfer.date)).forEach(transfer => {
+        const amount = (isInForecast(transfer.toAccountId) ? 1 : 0) - (isInForecast(transfer.fromAccountId) ? 1 : 0);
+        if (amount !== 0) events.push({ kind: 'transfer', date: transfer.date, amount: amount * toBase(transfer, transfer.date), label: transfer.description || 'Transfer' });
+    });
+
+    // Card statements are paid in full on their due dates: money leaves the paying account and reaches the card
+    const projectedCardStatements: CardStatement[] = [];
+    statementCards.forEach(card => {
+        const payingAccountId = card.paymentAccountId || defaultAccountId;
+        const direction = !selectedAccountId || selectedAccountId === payingAccountId ? -1 : selectedAccountId === card.id ? 1 : 0;
+        if (direction === 0) return;
+        const cardRecurringExpenses = allRecurringExpenses.filter(rec => (rec.accountId || defaultAccountId) === card.id);
+        const cardExpenses = allExpenses.concat(getUpcomingRecurringExpenses(cardRecurringExpenses, today, chartEndDate));
+        getCardStatements(card, defaultAccountId, allIncomes, cardExpenses, transfers, today, chartEndDate, userProfile?.exchangeRates || [])
+            .filter(statement => statement.amountDue > 0)
+            .forEach(statement => {
+                const amount = direction * toBase({ amount: statement.amountDue, currency: card.currency }, statement.dueDate);
+                events.push({ kind: 'card-statement', date: statement.dueDate, amount, label: `${card.name} statement` });
+                projectedCardStatements.push(statement);
+            });
+    });
+
+    // Salary is paid on every payday in the window, into the salary account
+    const projectedSalaryPayments = isInForecast(userProfile?.salaryAccountId) ? getProjectedSalaryPayments(userProfile, today, chartEndDate) : [];
+    projectedSalaryPayments.forEach(payment => {
+        events.push({ kind: 'salary', date: payment.dueDate, amount: payment.amount, label: payment.client });
+    });
+
+    // Project loan payments; amortized loans stop after their final payment, or earlier under an applied payoff plan
+    (isInForecast(undefined) ? getForecastLoanPayments(userProfile, today, chartEndDate, baseCurrency, holidays) : []).forEach(payment => {
+        events.push({ kind: 'loan', date: payment.date, amount: -payment.amount, label: payment.description });
+    });
+
+    // Savings goal contributions are reserved on each payday, so the consolidated balance is money free to spend.
+    // For a single account they leave the salary account and reach the goal's account.
+    const projectedGoalContributions: { goal: SavingsGoal; date: Date; amount: number }[] = [];
+    const salaryAccountId = userProfile?.salaryAccountId || defaultAccountId;
+    getSavingsGoalPlans(userProfile, today).forEach(({ goal, plan }) => {
+        const direction = !selectedAccountId || selectedAccountId === salaryAccountId ? -1 : selectedAccountId === goal.accountId ? 1 : 0;
+        if (direction === 0 || plan.plannedPerPayday <= 0) return;
+        plan.paydays.filter(payday => payday.getTime() <= chartEndDate.getTime()).forEach(payday => {
+            events.push({ kind: 'savings', date: payday, amount: direction * plan.plannedPerPayday, label: `Savings: ${goal.name}` });
+            projectedGoalContributions.push({ goal, date: payday, amount: direction * plan.plannedPerPayday });
+        });
+    });
+
+    const { points: forecastData, shortfallDate: potentialShortfallDate } = projectCashFlow(events, { today, openingBalance: currentBalance, endDate: chartEndDate });
+
+    // How far each recent day's spending strayed from its baseline, over the history the baseline was estimated from.
+    // Without enough history for a baseline the bands only reflect payment timing.
+    const firstExpenseDate = pastExpenses.reduce<Date | null>((first, exp) => (!first || exp.date.getTime() < first.getTime() ? startOfDay(exp.date) : first), null);
+    const historyStart = firstExpenseDate && firstExpenseDate.getTime() > addDays(today, -DEFAULT_BASELINE_HISTORY_DAYS).getTime()
+        ? firstExpenseDate
+        : addDays(today, -DEFAULT_BASELINE_HISTORY_DAYS);
+    const spendingByDay = new Map<string, number>();
+    pastExpenses.filter(exp => exp.date.getTime() >= historyStart.getTime()).forEach(exp => {
+        spendingByDay.set(toDateKey(exp.date), (spendingByDay.get(toDateKey(exp.date)) || 0) + toBase(exp, exp.date));
+    });
+    const spendingAboveBaseline: number[] = [];
+    for (let date = historyStart; spendingBaseline.length > 0 && date.getTime() < today.getTime(); date = addDays(date, 1)) {
+        const expected = spendingBaseline.reduce((sum, baseline) => sum + getBaselineAmount(baseline, date), 0);
+        spendingAboveBaseline.push((spendingByDay.get(toDateKey(date)) || 0) - expected);
+    }
+
+    // The simulation places client payments itself; everything else lands on its date
+    const uncertainEvents = new Set(uncertainIncomes.map(income => income.event));
+    const simulationInput: ForecastSimulationInput = {
+        certainEvents: events.filter(event => !uncertainEvents.has(event)),
+        uncertainIncomes,
+        options: { today, openingBalance: currentBalance, endDate: chartEndDate, dailySpendingVariation: getSpendingVariation(spendingAboveBaseline) },
     };
 
-    const confirmDelete = async () => {
-        if (!itemToDelete) return;
-        try {
-            await deleteIncome(itemToDelete);
-            setModalTitle("Success!");
-            setModalMessage("Income record deleted successfully.");
-            setIsModalOpen(true);
-        } catch (error: unknown) {
-            setModalTitle("Error");
-            setModalMessage(`Failed to delete: ${(error as Error).message}`);
-            setIsModalOpen(true);
-        } finally {
-            setIsConfirmModalOpen(false);
-            setItemToDelete(null);
-        }
+    return { forecastData, potentialShortfallDate, simulationInput, spendingBaseline, projectedSalaryPayments, projectedRecurringIncomes, projectedCardStatements, projectedGoalContributions, projectedBaselineSpending };
+};
+
+// The Monte Carlo run behind a forecast's bands and shortfall odds. It takes far longer than the projection itself,
+// so it is run separately, only where its result is shown.
+const simulateForecast = ({ certainEvents, uncertainIncomes, options }: ForecastSimulationInput): SimulationResult =>
+    simulateCashFlow(certainEvents, uncertainIncomes, options);
+
+
+// --- Utility Functions: What-If Scenarios (Consolidated) ---
+interface ScenarioForecastInputs {
+    incomes: IncomeItem[];
+    certainIncomes: IncomeItem[]; // The scenario's own incomes, which are not paid late like a client's
+    expenses: ExpenseItem[];
+    recurringExpenses: RecurringExpenseItem[];
+    userProfile: UserProfile | null;
+}
+
+const scenarioChangeTypeLabels: Record<ScenarioChangeType, string> = {
+    'one-off-expense': 'One-off purchase',
+    'one-off-income': 'One-off income',
+    'new-loan': 'New loan',
+    'salary-change': 'Salary change',
+    'drop-recurring-expense': 'Cancel a recurring expense',
+};
+
+const scenarioColors = ['#2563EB', '#059669', '#7C3AED', '#DB2777', '#0891B2', '#65A30D'];
+
+// A loan taken out in a scenario: monthly payments on the diminishing balance, the first on the change's date
+const getScenarioLoan = (change: ScenarioChange): LoanItem => {
+    const loan: LoanItem = {
+        id: `scenario-${change.id}`,
+        loanName: change.label,
+        amount: 0,
+        paymentFrequency: 'monthly',
+        nextPaymentDate: change.date,
+        principal: change.amount || 0,
+        annualInterestRate: change.annualInterestRate || 0,
+        interestMethod: 'diminishing',
+        termPayments: change.termPayments || 1,
+        startDate: change.date,
+        businessDayRule: 'next',
     };
+    return { ...loan, amount: getLoanPeriodicPayment(loan) };
+};
 
-    return (
-        <div className="max-w-6xl mx-auto p-4 md:p-8">
-            <h1 className="text-3xl font-bold text-gray-800 mb-6">Income Management</h1>
+const describeScenarioChange = (change: ScenarioChange, baseCurrency: string, recurringExpenses: RecurringExpenseItem[]): string => {
+    const money = (amount: number) => `${baseCurrency} ${amount.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+    const date = change.date.toLocaleDateString();
+    switch (change.type) {
+        case 'one-off-expense':
+            return `Spend ${money(change.amount || 0)} on ${date}`;
+        case 'one-off-income':
+            return `Receive ${money(change.amount || 0)} on ${date}`;
+        case 'new-loan':
+            return `Borrow ${money(change.amount || 0)} at ${change.annualInterestRate || 0}% over ${change.termPayments} months: ${money(getScenarioLoan(change).amount)} a month from ${date}`;
+        case 'salary-change':
+            return `${(change.percent || 0) > 0 ? '+' : ''}${change.percent}% gross salary from ${date}`;
+        case 'drop-recurring-expense': {
+            const recurring = recurringExpenses.find(rec => rec.id === change.recurringExpenseId);
+            return recurring ? `Stop ${recurring.vendor} (${money(recurring.amount)} ${recurring.frequency}) from ${date}` : `Stop a recurring expense that no longer exists, from ${date}`;
+        }
+    }
+};
 
-            <div className="bg-white rounded-lg shadow-md p-6 mb-8">
-                <h2 className="text-xl font-semibold text-gray-700 mb-4">Add New Income</h2>
-                <form onSubmit={handleSubmit} className="grid grid-cols-1 gap-4 md:grid-cols-3">
-                    <div>
-                        <label htmlFor="client" className="block text-gray-700 text-sm font-bold mb-2">Client Name</label>
-                        <input
-                            type="text"
-                            id="client"
-                            value={client}
-                            onChange={(e: React.ChangeEvent<HTMLInputElement>) => setClient(e.target.value)}
-                            className="shadow appearance-none border rounded-md w-full py-2 px-3 text-gray-700 leading-tight focus:outline-none focus:shadow-outline focus:ring-2 focus:ring-orange-500 focus:border-transparent"
-                            placeholder="e.g., ABC Corp."
-                            required
-                        />
-                    </div>
-                    <div>
-                        <label htmlFor="amount" className="block text-gray-700 text-sm font-bold mb-2">Amount (PHP)</label>
-                        <input
-                            type="number"
-                            id="amount"
-                            value={amount}
-                            onChange={(e: React.ChangeEvent<HTMLInputElement>) => setAmount(e.target.value)}
-                            className="shadow appearance-none border rounded-md w-full py-2 px-3 text-gray-700 leading-tight focus:outline-none focus:shadow-outline focus:ring-2 focus:ring-orange-500 focus:border-transparent"
-                            placeholder="e.g., 50000"
-                            step="0.01"
-                            required
-                        />
-                    </div>
-                    <div>
-                        <label htmlFor="dueDate" className="block text-gray-700 text-sm font-bold mb-2">Due Date</label>
-                        <input
-                            type="date"
-                            id="dueDate"
-                            value={dueDate}
-                            onChange={(e: React.ChangeEvent<HTMLInputElement>) => setDueDate(e.target.value)}
-                            className="shadow appearance-none border rounded-md w-full py-2 px-3 text-gray-700 leading-tight focus:outline-none focus:shadow-outline focus:ring-2 focus:ring-orange-500 focus:border-transparent"
-                            required
-                        />
-                    </div>
-                    <div className="col-span-full flex justify-end">
-                        <button
-                            type="submit"
-                            className="bg-orange-500 hover:bg-orange-600 text-white font-bold py-2 px-4 rounded-md transition duration-200 shadow-sm cursor-pointer"
-                        >
-                            Add Income
-                        </button>
-                    </div>
-                </form>
-            </div>
+// The real data with a scenario's changes layered on top; nothing here is saved. One-off items and loans get
+// scenario-only ids, a cancelled recurring expense ends the day before its change's date, and a salary change adds
+// the difference in take-home pay on each payday from its date as income (negative for a cut). Salary differences are
+// projected through `endDate`, or the latest one-off date when that is later. One-off incomes and salary differences
+// are certain incomes: the forecast's simulation does not move them by the clients' payment history.
+const applyForecastScenario = (scenario: ForecastScenario, inputs: ScenarioForecastInputs, endDate: Date): ScenarioForecastInputs => {
+    let { certainIncomes, expenses, recurringExpenses, userProfile } = inputs;
+    const currency = getBaseCurrency(userProfile);
+    const horizon = scenario.changes.reduce((latest: Date, change: ScenarioChange) =>
+        (change.type === 'one-off-expense' || change.type === 'one-off-income') && change.date.getTime() > latest.getTime() ? change.date : latest, endDate);
+
+    scenario.changes.forEach(change => {
+        const id = `scenario-${change.id}`;
+        switch (change.type) {
+            case 'one-off-expense':
+                expenses = [...expenses, { id, vendor: change.label, amount: change.amount || 0, category: 'Other', date: change.date, description: change.label, createdAt: change.date, currency }];
+                break;
+            case 'one-off-income':
+                certainIncomes = [...certainIncomes, { id, client: change.label, amount: change.amount || 0, dueDate: change.date, status: 'Outstanding', createdAt: change.date, currency }];
+                break;
+            case 'new-loan':
+                if (userProfile) userProfile = { ...userProfile, loans: [...userProfile.loans, getScenarioLoan(change)] };
+                break;
+            case 'drop-recurring-expense': {
+                const lastDay = addDays(change.date, -1);
+                recurringExpenses = recurringExpenses.map(rec => rec.id === change.recurringExpenseId && (!rec.endDate || rec.endDate.getTime() > lastDay.getTime())
+                    ? { ...rec, endDate: lastDay }
+                    : rec);
+                break;
+            }
+            case 'salary-change': {
+                if (!userProfile) break;
+                const factor = 1 + (change.percent || 0) / 100;
+                const paySchedule = getPaySchedule(userProfile);
+                const changedProfile: UserProfile = {
+                    ...userProfile,
+                    salaryIncome: roundToCents(userProfile.salaryIncome * factor),
+                    // An exact amount per payday moves with the salary too
+                    paySchedule: paySchedule.netPayPerPayday != null ? { ...paySchedule, netPayPerPayday: roundToCents(paySchedule.netPayPerPayday * factor) } : paySchedule,
+                };
+                const currentPayments = new Map(getProjectedSalaryPayments(userProfile, change.date, horizon).map(payment => [payment.id, payment.amount]));
+                const differences: IncomeItem[] = getProjectedSalaryPayments(changedProfile, change.date, horizon)
+                    .map(payment => ({
+                        ...payment,
+                        id: `${id}-${payment.id}`,
+                        client: `${change.label} (${payment.client})`,
+                        amount: roundToCents(payment.amount - (currentPayments.get(payment.id) || 0)),
+                        accountId: userProfile?.salaryAccountId,
+                    }))
+                    .filter(payment => payment.amount !== 0);
+                certainIncomes = [...certainIncomes, ...differences];
+                break;
+            }
+        }
+    });
+    return { incomes: inputs.incomes, certainIncomes, expenses, recurringExpenses, userProfile };
+};
 
-            <div className="bg-white rounded-lg shadow-md p-6">
-                <h2 className="text-xl font-semibold text-gray-700 mb-4">Your Income Records</h2>
-                {incomes.length === 0 ? (
-                    <p className="text-gray-600">No income records yet. Add one above!</p>
-                ) : (
-                    <div className="overflow-x-auto">
-                        <table className="min-w-full divide-y divide-gray-200">
-                            <thead>
-                                <tr className="bg-gray-50">
-                                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider rounded-tl-lg">Client</th>
-                                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Amount</th>
-                                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Due Date</th>
-                                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
-                                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider rounded-tr-lg">Actions</th>
-                                </tr>
-                            </thead>
-                            <tbody className="bg-white divide-y divide-gray-200">
-                                {incomes.map((income: IncomeItem) => (
-                                    <tr key={income.id}>
-                                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{income.client}</td>
-                                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">PHP {income.amount.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</td>
-                                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
-                                            {income.dueDate.toLocaleDateString()}
-                                        </td>
-                                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
-                                            <span className={`inline-flex px-2 py-0.5 text-xs leading-5 font-semibold rounded-full ${income.status === 'Paid' ? 'bg-green-100 text-green-800' : 'bg-amber-100 text-amber-800'}`}>
-                                                {income.status}
-                                            </span>
-                                        </td>
-                                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900 flex items-center space-x-2">
-                                            {income.status === 'Outstanding' && (
-                                                <button
-                                                    onClick={() => handleMarkAsPaid(income.id)}
-                                                    className="px-2 py-1 text-sm font-medium text-green-700 hover:text-green-900 transition duration-200"
-                                                    title="Mark as Paid"
-                                                >
-                                                    Mark Paid
-                                                </button>
-                                            )}
-                                            <button
-                                                onClick={() => handleDeleteClick(income.id)}
-                                                className="px-2 py-1 text-sm font-medium text-orange-700 hover:text-orange-900 transition duration-200"
-                                                title="Delete"
-                                            >
-                                                Delete
-                                            </button>
-                                        </td>
-                                    </tr>
-                                ))}
-                            </tbody>
-                        </table>
-                    </div>
-                )}
-            </div>
 
-            {/* Modals for alerts and confirmations */}
-            <Modal
-                isOpen={isModalOpen}
-                title={modalTitle}
-                message={modalMessage}
-                onClose={() => setIsModalOpen(false)}
-            />
-            <Modal
-                isOpen={isConfirmModalOpen}
-                title={modalTitle}
-                message={modalMessage}
-                onClose={() => setIsConfirmModalOpen(false)}
-                onConfirm={confirmDelete}
-                showConfirmButton={true}
-            />
+// --- Utility Functions: Record Validation & History (Consolidated) ---
+// Shared by the add and edit forms. Each returns the first problem found, or null when the values can be saved.
+const validateIncomeForm = (client: string, amount: string, dueDate: string): string | null => {
+    if (!client || !amount || !dueDate) return "Please fill in all fields (Client, Amount, Due Date).";
+    if (isNaN(parseFloat(amount)) || parseFloat(amount) <= 0) return "Amount must be a positive number.";
+    return null;
+};
+
+const validateExpenseForm = (vendor: string, amount: string, category: string, date: string): string | null => {
+    if (!vendor || !amount || !category || !date) return "Please fill in all required fields (Vendor, Amount, Category, Date).";
+    if (isNaN(parseFloat(amount)) || parseFloat(amount) <= 0) return "Amount must be a positive number.";
+    return null;
+};
+
+const recordFieldLabels: { [key: string]: string } = {
+    client: 'Client', vendor: 'Vendor', amount: 'Amount', dueDate: 'Due Date', date: 'Date',
+    status: 'Status', category: 'Category', description: 'Description', accountId: 'Account', currency: 'Currency',
+    businessDayRule: 'Weekends & Holidays', paidDate: 'Paid On', invoice: 'Invoice',
+};
+
+const formatHistoryValue = (value: unknown): string => {
+    if (value instanceof Date) return toDateKey(value);
+    return value === null || value === undefined ? '' : String(value);
+};
+
+// Lists the fields in `changes` whose value differs from the saved record.
+const getRecordChanges = <T extends object>(record: T, changes: Partial<T>): RecordChange[] => {
+    const before = record as Record<string, unknown>;
+    return Object.entries(changes)
+        .filter(([field, value]) => formatHistoryValue(before[field]) !== formatHistoryValue(value))
+        .map(([field, value]) => ({ field, from: formatHistoryValue(before[field]), to: formatHistoryValue(value) }));
+};
+
+// Account changes are logged by name rather than id
+const nameAccountChanges = (changes: RecordChange[], accounts: AccountItem[]): RecordChange[] =>
+    changes.map(change => change.field !== 'accountId' ? change : {
+        ...change,
+        from: accounts.find(account => account.id === change.from)?.name || change.from,
+        to: accounts.find(account => account.id === change.to)?.name || change.to,
+    });
+
+
+// --- Utility Functions: Invoices (Consolidated) ---
+const invoiceStatusLabels: Record<InvoiceStatus, string> = { draft: 'Draft', sent: 'Sent', paid: 'Paid' };
+const invoiceTaxLabels: Record<InvoiceTaxType, string> = { none: 'No Tax', vat: 'VAT', percentage: 'Percentage Tax' };
+// Philippine rates: 12% VAT, or 3% percentage tax for businesses that are not VAT-registered
+const defaultInvoiceTaxRates: Record<InvoiceTaxType, number> = { none: 0, vat: 12, percentage: 3 };
+
+const defaultInvoiceSettings: InvoiceSettings = {
+    businessName: '',
+    businessAddress: '',
+    taxId: '',
+    numberPrefix: 'INV-',
+    nextNumber: 1,
+    defaultPaymentTermsDays: 30,
+    defaultTaxType: 'none',
+    defaultTaxRate: 0,
+};
+
+const getInvoiceSettings = (userProfile: UserProfile | null): InvoiceSettings => ({ ...defaultInvoiceSettings, ...userProfile?.invoiceSettings });
+
+const formatInvoiceNumber = (settings: InvoiceSettings, sequence: number): string => `${settings.numberPrefix}${String(sequence).padStart(4, '0')}`;
+
+const describePaymentTerms = (days: number): string => (days === 0 ? 'Due on receipt' : `Net ${days}`);
+
+const getInvoiceLineAmount = (line: InvoiceLineItem): number => roundToCents(line.quantity * line.unitPrice);
+
+const getInvoiceTotals = (invoice: Pick<InvoiceDetails, 'lineItems' | 'taxType' | 'taxRate'>): { subtotal: number; tax: number; total: number } => {
+    const subtotal = roundToCents(invoice.lineItems.reduce((sum, line) => sum + getInvoiceLineAmount(line), 0));
+    const tax = invoice.taxType === 'none' ? 0 : roundToCents(subtotal * invoice.taxRate / 100);
+    return { subtotal, tax, total: roundToCents(subtotal + tax) };
+};
+
+const getInvoiceDueDate = (invoice: InvoiceDetails): Date => addDays(startOfDay(invoice.issueDate), invoice.paymentTermsDays);
+
+// The income fields an invoice decides. A paid invoice keeps the income's paid date, or is paid today.
+const getInvoiceIncomeFields = (invoice: InvoiceDetails, current?: IncomeItem): Pick<IncomeItem, 'amount' | 'dueDate' | 'status' | 'paidDate'> => ({
+    amount: getInvoiceTotals(invoice).total,
+    dueDate: getInvoiceDueDate(invoice),
+    status: invoice.status === 'paid' ? 'Paid' : 'Outstanding',
+    paidDate: invoice.status !== 'paid' ? null : (current?.status === 'Paid' && current.paidDate) || startOfDay(new Date()),
+});
+
+// How an invoice appears in an income's change history
+const describeInvoice = (invoice: InvoiceDetails | undefined): string => (invoice ? `${invoice.number} (${invoiceStatusLabels[invoice.status]})` : '');
+
+const escapeHtml = (value: string): string =>
+    value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/'/g, '&#39;');
+
+// A standalone printable page for an invoiced income; the browser's print dialog saves it as a PDF
+const buildInvoiceHtml = (income: IncomeItem, userProfile: UserProfile | null): string => {
+    const invoice = income.invoice as InvoiceDetails;
+    const settings = getInvoiceSettings(userProfile);
+    const currency = getRecordCurrency(income);
+    const money = (amount: number) => `${currency} ${amount.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+    const lines = (text: string) => escapeHtml(text).replace(/\n/g, '<br>');
+    const { subtotal, tax, total } = getInvoiceTotals(invoice);
+    const sender = settings.businessName || userProfile?.name || '';
+    return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>Invoice ${escapeHtml(invoice.number)}</title>
+<style>
+    body { font-family: Helvetica, Arial, sans-serif; color: #1F2937; margin: 40px; font-size: 14px; }
+    h1 { color: #F97316; margin: 0 0 4px; }
+    table { width: 100%; border-collapse: collapse; margin-top: 24px; }
+    th { text-align: left; border-bottom: 2px solid #E5E7EB; padding: 8px; font-size: 12px; text-transform: uppercase; color: #6B7280; }
+    td { border-bottom: 1px solid #E5E7EB; padding: 8px; }
+    .amount { text-align: right; white-space: nowrap; }
+    .parties { display: flex; justify-content: space-between; margin-top: 32px; gap: 32px; }
+    .muted { color: #6B7280; }
+    .totals td { border: none; padding: 4px 8px; }
+    .total td { font-weight: bold; font-size: 16px; border-top: 2px solid #1F2937; }
+    .paid { color: #059669; border: 2px solid #059669; display: inline-block; padding: 4px 12px; font-weight: bold; margin-top: 8px; }
+</style>
+</head>
+<body>
+    <h1>Invoice</h1>
+    <div class="muted">No. ${escapeHtml(invoice.number)}</div>
+    ${invoice.status === 'paid' ? '<div class="paid">PAID</div>' : ''}
+    <div class="parties">
+        <div>
+            <div class="muted">From</div>
+            <strong>${escapeHtml(sender)}</strong><br>
+            ${lines(settings.businessAddress)}
+            ${settings.taxId ? `<br>TIN: ${escapeHtml(settings.taxId)}` : ''}
         </div>
-    );
+        <div>
+            <div class="muted">Bill To</div>
+            <strong>${escapeHtml(income.client)}</strong><br>
+            ${lines(invoice.clientAddress)}
+            ${invoice.clientEmail ? `<br>${escapeHtml(invoice.clientEmail)}` : ''}
+            ${invoice.clientTaxId ? `<br>TIN: ${escapeHtml(invoice.clientTaxId)}` : ''}
+        </div>
+        <div>
+            <div class="muted">Issued</div>
+            ${invoice.issueDate.toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric' })}
+            <div class="muted" style="margin-top: 8px">Due</div>
+            ${getInvoiceDueDate(invoice).toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric' })} (${describePaymentTerms(invoice.paymentTermsDays)})
+        </div>
+    </div>
+    <table>
+        <thead>
+            <tr><th>Description</th><th class="amount">Quantity</th><th class="amount">Unit Price</th><th class="amount">Amount</th></tr>
+        </thead>
+        <tbody>
+            ${invoice.lineItems.map(line => `<tr><td>${lines(line.description)}</td><td class="amount">${line.quantity}</td><td class="amount">${money(line.unitPrice)}</td><td class="amount">${money(getInvoiceLineAmount(line))}</td></tr>`).join('')}
+        </tbody>
+    </table>
+    <table class="totals" style="width: 50%; margin-left: 50%">
+        <tr><td>Subtotal</td><td class="amount">${money(subtotal)}</td></tr>
+        ${invoice.taxType !== 'none' ? `<tr><td>${invoiceTaxLabels[invoice.taxType]} (${invoice.taxRate}%)</td><td class="amount">${money(tax)}</td></tr>` : ''}
+        <tr class="total"><td>Amount Due</td><td class="amount">${money(total)}</td></tr>
+    </table>
+    ${invoice.notes ? `<p class="muted" style="margin-top: 32px">${lines(invoice.notes)}</p>` : ''}
+</body>
+</html>`;
 };
 
+const printInvoice = (income: IncomeItem, userProfile: UserProfile | null) => {
+    const printWindow = window.open('', '_blank');
+    if (!printWindow) throw new Error("Allow pop-ups for this site to print invoices.");
+    printWindow.document.write(buildInvoiceHtml(income, userProfile));
+    printWindow.document.close();
+    printWindow.focus();
+    printWindow.print();
+};
 
-// --- Component: Expense (Consolidated) ---
-const Expense: React.FC<ExpenseComponentProps> = ({ addExpense, expenses, deleteExpense }) => {
-    const [vendor, setVendor] = useState<string>('');
-    const [amount, setAmount] = useState<string>('');
-    const [category, setCategory] = useState<string>('Supplies');
-    const [date, setDate] = useState<string>('');
-    const [description, setDescription] = useState<string>('');
-    const [isModalOpen, setIsModalOpen] = useState<boolean>(false);
-    const [modalMessage, setModalMessage] = useState<string>('');
-    const [modalTitle, setModalTitle] = useState<string>('');
-    const [isConfirmModalOpen, setIsConfirmModalOpen] = useState<boolean>(false);
-    const [itemToDelete, setItemToDelete] = useState<string | null>(null);
 
-    // New state for viewing expense details
-    const [isViewModalOpen, setIsViewModalOpen] = useState<boolean>(false);
-    const [selectedExpense, setSelectedExpense] = useState<ExpenseItem | null>(null);
+// --- Utility Functions: Expense Categories (Consolidated) ---
+// Seed categories for profiles that have not customized their own
+const defaultExpenseCategories = ['Supplies', 'Rent', 'Utilities', 'Salaries', 'Marketing', 'Software', 'Travel', 'Other'];
 
-    const expenseCategories = ['Supplies', 'Rent', 'Utilities', 'Salaries', 'Marketing', 'Software', 'Travel', 'Other'];
+const defaultExpenseCategoryIcons: { [key: string]: string } = {
+    'Supplies': '📦', 'Rent': '🏠', 'Utilities': '💡', 'Salaries': '👥',
+    'Marketing': '📣', 'Software': '💻', 'Travel': '✈️', 'Other': '🏷️',
+};
 
-    const handleSubmit = async (e: React.FormEvent) => {
-        e.preventDefault();
-        if (!vendor || !amount || !category || !date) {
-            setModalTitle("Input Error");
-            setModalMessage("Please fill in all required fields (Vendor, Amount, Category, Date).");
-            setIsModalOpen(true);
-            return;
-        }
-        if (isNaN(parseFloat(amount)) || parseFloat(amount) <= 0) {
-            setModalTitle("Input Error");
-            setModalMessage("Amount must be a positive number.");
-            setIsModalOpen(true);
-            return;
-        }
+const expenseCategoryIcons = ['🏷️', '📦', '🏠', '💡', '👥', '📣', '💻', '✈️', '🛒', '🍽️', '🎓', '🚗', '🩺', '🎁', '💳', '🐾', '🎬', '👕'];
+
+const categoryColorPalette = [
+    '#F97316', '#1F2937', '#374151', '#FBBF24', '#4B5563',
+    '#6B7280', '#D97706', '#9CA3AF', '#DC2626', '#1E3A8A',
+    '#059669', '#78716C', '#A16207', '#0F766E', '#475569',
+    '#8B5CF6'
+];
+
+// The user's categories, or the defaults for profiles that have never customized them.
+// Names used on expenses but missing from the list (e.g. older or imported data) are appended as top-level categories.
+const getExpenseCategories = (userProfile: UserProfile | null, expenses: { category: string }[] = []): ExpenseCategory[] => {
+    const categories: ExpenseCategory[] = userProfile?.expenseCategories || defaultExpenseCategories.map((name, index) => ({
+        id: `default-${name}`,
+        name,
+        parentId: null,
+        color: categoryColorPalette[index % categoryColorPalette.length],
+        icon: defaultExpenseCategoryIcons[name],
+    }));
+    const knownNames = new Set(categories.map(category => category.name));
+    const unmanagedNames = Array.from(new Set(expenses.map(exp => exp.category).filter(name => !knownNames.has(name))));
+    return [
+        ...categories,
+        ...unmanagedNames.map((name, index) => ({
+            id: `unmanaged-${name}`,
+            name,
+            parentId: null,
+            color: categoryColorPalette[(categories.length + index) % categoryColorPalette.length],
+            icon: '🏷️',
+        })),
+    ];
+};
 
-        try {
-            await addExpense({
-                vendor,
-                amount: parseFloat(amount),
-                category,
-                date: new Date(date),
-                description,
-            });
-            setVendor('');
-            setAmount('');
-            setCategory('Supplies');
-            setDate('');
-            setDescription('');
-            setModalTitle("Success!");
-            setModalMessage("Expense record added successfully.");
-            setIsModalOpen(true);
-        } catch (error: unknown) {
-            setModalTitle("Error");
-            setModalMessage(`Failed to add expense: ${(error as Error).message}`);
-            setIsModalOpen(true);
+// Top-level categories each followed by their subcategories, for selects and lists.
+const getOrderedExpenseCategories = (categories: ExpenseCategory[]): { category: ExpenseCategory; depth: number }[] =>
+    categories
+        .filter(category => category.parentId === null || !categories.some(parent => parent.id === category.parentId))
+        .flatMap(parent => [
+            { category: parent, depth: 0 },
+            ...categories.filter(child => child.parentId === parent.id).map(child => ({ category: child, depth: 1 })),
+        ]);
+
+// The top-level category an expense category rolls up to (itself when it has no parent).
+const getRootExpenseCategory = (categories: ExpenseCategory[], name: string): ExpenseCategory | undefined => {
+    const category = categories.find(c => c.name === name);
+    return categories.find(c => c.id === category?.parentId) || category;
+};
+
+
+// --- Utility Functions: Budgets (Consolidated) ---
+const DEFAULT_BUDGET_ALERT_THRESHOLDS = [80, 100];
+
+// Local calendar month of a date as 'YYYY-MM' (sorts chronologically as a string).
+const toMonthKey = (date: Date): string =>
+    `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+
+// `categoryNames` is the budgeted category plus any subcategories whose spending counts towards it.
+const getBudgetStatus = (budget: CategoryBudget, categoryNames: string[], expenses: ExpenseItem[], month: Date, thresholds: number[]): BudgetStatus => {
+    const spentByMonth = expenses
+        .filter(exp => categoryNames.includes(exp.category))
+        .reduce((acc: { [key: string]: number }, exp: ExpenseItem) => {
+            const key = toMonthKey(exp.date);
+            acc[key] = (acc[key] || 0) + exp.amount;
+            return acc;
+        }, {});
+    const monthKey = toMonthKey(month);
+
+    let carriedOver = 0;
+    if (budget.rollover !== 'none') {
+        const [startYear, startMonth] = budget.startMonth.split('-').map(Number);
+        const cursor = new Date(startYear, startMonth - 1, 1);
+        while (toMonthKey(cursor) < monthKey) {
+            const leftover = carriedOver + budget.monthlyLimit - (spentByMonth[toMonthKey(cursor)] || 0);
+            carriedOver = budget.rollover === 'unused' ? Math.max(0, leftover) : leftover;
+            cursor.setMonth(cursor.getMonth() + 1);
         }
-    };
+    }
 
-    const handleDeleteClick = (id: string) => {
-        setItemToDelete(id);
-        setIsConfirmModalOpen(true);
-        setModalTitle("Confirm Deletion");
-        setModalMessage("Are you sure you want to delete this expense record? This action cannot be undone.");
+    const available = budget.monthlyLimit + carriedOver;
+    const spent = spentByMonth[monthKey] || 0;
+    // With nothing available, any spending (or a carried deficit) counts as fully used.
+    const percentUsed = available > 0 ? (spent / available) * 100 : (spent > 0 || available < 0 ? 100 : 0);
+    const crossed = thresholds.filter(threshold => percentUsed >= threshold);
+
+    return {
+        category: budget.category,
+        monthlyLimit: budget.monthlyLimit,
+        carriedOver,
+        available,
+        spent,
+        remaining: available - spent,
+        percentUsed,
+        alertThreshold: crossed.length > 0 ? Math.max(...crossed) : null,
     };
+};
 
-    const confirmDelete = async () => {
-        if (!itemToDelete) return;
-        try {
-            await deleteExpense(itemToDelete);
-            setModalTitle("Success!");
-            setModalMessage("Expense record deleted successfully.");
-            setIsModalOpen(true);
-        } catch (error: unknown) {
-            setModalTitle("Error");
-            setModalMessage(`Failed to delete: ${(error as Error).message}`);
-            setIsModalOpen(true);
-        } finally {
-            setIsConfirmModalOpen(false);
-            setItemToDelete(null);
+// Budgets are in the base currency, so spending is converted before it is compared
+const getBudgetStatuses = (userProfile: UserProfile | null, expenses: ExpenseItem[], month: Date): BudgetStatus[] => {
+    const thresholds = userProfile?.budgetAlertThresholds || DEFAULT_BUDGET_ALERT_THRESHOLDS;
+    const categories = getExpenseCategories(userProfile, expenses);
+    const baseExpenses = expenses.map(exp => ({ ...exp, amount: toBaseAmount(exp.amount, exp.currency, exp.date, userProfile) }));
+    return (userProfile?.budgets || []).map(budget => {
+        const category = categories.find(c => c.name === budget.category);
+        const subcategoryNames = categories.filter(c => category && c.parentId === category.id).map(c => c.name);
+        return getBudgetStatus(budget, [budget.category, ...subcategoryNames], baseExpenses, month, thresholds);
+    });
+};
+
+
+// --- Utility Functions: CSV Parsing (Consolidated) ---
+type StatementDateFormat = 'YYYY-MM-DD' | 'MM/DD/YYYY' | 'DD/MM/YYYY';
+
+// Parses CSV text into rows of cells. Handles quoted cells, escaped quotes ("") and CRLF line endings.
+// The delimiter (comma, semicolon or tab) is detected from the first line.
+const parseCsv = (text: string): string[][] => {
+    const firstLine = text.split(/\r?\n/, 1)[0] || '';
+    const delimiter = [',', ';', '\t'].reduce((best, candidate) =>
+        firstLine.split(candidate).length > firstLine.split(best).length ? candidate : best, ',');
+
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let cell = '';
+    let inQuotes = false;
+
+    for (let i = 0; i < text.length; i++) {
+        const char = text[i];
+        if (inQuotes) {
+            if (char === '"' && text[i + 1] === '"') {
+                cell += '"';
+                i++;
+            } else if (char === '"') {
+                inQuotes = false;
+            } else {
+                cell += char;
+            }
+        } else if (char === '"') {
+            inQuotes = true;
+        } else if (char === delimiter) {
+            row.push(cell.trim());
+            cell = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && text[i + 1] === '\n') i++;
+            row.push(cell.trim());
+            if (row.some(value => value !== '')) rows.push(row);
+            row = [];
+            cell = '';
+        } else {
+            cell += char;
+        }
+    }
+    row.push(cell.trim());
+    if (row.some(value => value !== '')) rows.push(row);
+    return rows;
+};
+
+// Converts a statement date into the same local-midnight Date the add forms produce with parseDateInput.
+const parseStatementDate = (value: string, format: StatementDateFormat): Date | null => {
+    const parts = value.trim().split(/[-/.\s]/).filter(Boolean).map(part => parseInt(part, 10));
+    if (parts.length < 3 || parts.some(isNaN)) return null;
+
+    const [year, month, day] = format === 'YYYY-MM-DD' ? parts
+        : format === 'MM/DD/YYYY' ? [parts[2], parts[0], parts[1]]
+        : [parts[2], parts[1], parts[0]];
+    const fullYear = year < 100 ? 2000 + year : year;
+    if (month < 1 || month > 12 || day < 1 || day > new Date(fullYear, month, 0).getDate()) return null;
+
+    return new Date(fullYear, month - 1, day);
+};
+
+const normalizeDescription = (value: string) => value.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+
+// --- Utility Functions: Backup Export & Restore (Consolidated) ---
+// A backup is a single versioned JSON document. Dates are written as ISO strings and revived on restore
+// using the per-collection schema below, which also validates each record before anything is written.
+const BACKUP_FORMAT = 'spenditure-backup';
+const BACKUP_VERSION = 1;
+
+type BackupFieldType = 'string' | 'number' | 'date' | 'optional-date';
+
+const backupSchemas: Record<StorageCollection, Record<string, BackupFieldType>> = {
+    incomes: { id: 'string', client: 'string', amount: 'number', dueDate: 'date', status: 'string', paidDate: 'optional-date', createdAt: 'date' },
+    expenses: { id: 'string', vendor: 'string', amount: 'number', category: 'string', date: 'date', description: 'string', createdAt: 'date' },
+    recurringExpenses: {
+        id: 'string', vendor: 'string', amount: 'number', category: 'string', frequency: 'string',
+        startDate: 'date', endDate: 'optional-date', dayOfMonthRule: 'string', dayOfMonth: 'number', createdAt: 'date',
+    },
+    recurringIncomes: {
+        id: 'string', client: 'string', amount: 'number', frequency: 'string', startDate: 'date', endDate: 'optional-date',
+        lastGeneratedDate: 'optional-date', dayOfMonthRule: 'string', dayOfMonth: 'number', createdAt: 'date',
+    },
+    accounts: { id: 'string', name: 'string', type: 'string', openingBalance: 'number', openingDate: 'date', createdAt: 'date' },
+    transfers: {
+        id: 'string', fromAccountId: 'string', toAccountId: 'string', amount: 'number', date: 'date', description: 'string', createdAt: 'date',
+    },
+    clients: { id: 'string', name: 'string', createdAt: 'date' },
+};
+
+const backupCollectionNames = Object.keys(backupSchemas) as StorageCollection[];
+
+interface BackupData {
+    exportedAt: Date;
+    profile: UserProfile | null;
+    collections: Record<StorageCollection, StorageRecord[]>;
+    attachments: Record<string, string>; // Receipt files as data URLs, by storage key; empty in backups made before receipts
+}
+
+const buildBackupJson = (profile: UserProfile | null, collections: Record<StorageCollection, StorageRecord[]>, attachments: Record<string, string> = {}): string =>
+    JSON.stringify({
+        format: BACKUP_FORMAT,
+        version: BACKUP_VERSION,
+        exportedAt: new Date(),
+        profile,
+        collections,
+        attachments,
+    }, null, 2);
+
+const reviveBackupDate = (value: unknown, path: string): Date => {
+    const date = typeof value === 'string' || typeof value === 'number' ? new Date(value) : null;
+    if (!date || isNaN(date.getTime())) throw new Error(`${path} is not a valid date.`);
+    return date;
+};
+
+const validateBackupRecord = (name: StorageCollection, record: unknown, index: number): StorageRecord => {
+    const path = `${name}[${index}]`;
+    if (!record || typeof record !== 'object' || Array.isArray(record)) throw new Error(`${path} is not an object.`);
+
+    const revived: Record<string, unknown> = { ...record };
+    Object.entries(backupSchemas[name]).forEach(([field, type]) => {
+        const value = revived[field];
+        if (type === 'date') {
+            revived[field] = reviveBackupDate(value, `${path}.${field}`);
+        } else if (type === 'optional-date') {
+            revived[field] = value === null || value === undefined ? null : reviveBackupDate(value, `${path}.${field}`);
+        } else if (typeof value !== type || (type === 'number' && isNaN(value as number))) {
+            throw new Error(`${path}.${field} must be a ${type}.`);
         }
+    });
+    if (Array.isArray(revived.history)) {
+        revived.history = revived.history.map((entry: Record<string, unknown>, entryIndex: number) => ({
+            ...entry,
+            changedAt: reviveBackupDate(entry?.changedAt, `${path}.history[${entryIndex}].changedAt`),
+        }));
+    }
+    if (revived.invoice && typeof revived.invoice === 'object') {
+        const invoice = revived.invoice as Record<string, unknown>;
+        revived.invoice = { ...invoice, issueDate: reviveBackupDate(invoice.issueDate, `${path}.invoice.issueDate`) };
+    }
+    return revived as StorageRecord;
+};
+
+// Parses and validates a backup file. Throws an Error describing the first problem found.
+const parseBackupJson = (text: string): BackupData => {
+    let raw: unknown;
+    try {
+        raw = JSON.parse(text);
+    } catch {
+        throw new Error("The file is not valid JSON.");
+    }
+    const backup = raw as { format?: unknown; version?: unknown; exportedAt?: unknown; profile?: unknown; collections?: unknown; attachments?: unknown };
+    if (!backup || backup.format !== BACKUP_FORMAT) throw new Error("This file is not a Spenditure backup.");
+    if (typeof backup.version !== 'number' || backup.version > BACKUP_VERSION) {
+        throw new Error(`Unsupported backup version ${String(backup.version)}. This app supports up to version ${BACKUP_VERSION}.`);
+    }
+    if (!backup.collections || typeof backup.collections !== 'object') throw new Error("The backup has no collections.");
+
+    const rawCollections = backup.collections as Record<string, unknown>;
+    const collections = {} as Record<StorageCollection, StorageRecord[]>;
+    backupCollectionNames.forEach(name => {
+        const records = rawCollections[name] ?? [];
+        if (!Array.isArray(records)) throw new Error(`${name} must be a list of records.`);
+        collections[name] = records.map((record, index) => validateBackupRecord(name, record, index));
+    });
+
+    const attachments = backup.attachments ?? {};
+    if (typeof attachments !== 'object' || Array.isArray(attachments) ||
+        Object.values(attachments).some(value => typeof value !== 'string' || !value.startsWith('data:'))) {
+        throw new Error("attachments must map each receipt file to its contents as a data URL.");
+    }
+
+    let profile: UserProfile | null = null;
+    if (backup.profile) {
+        if (typeof backup.profile !== 'object') throw new Error("profile must be an object.");
+        const rawProfile = backup.profile as Record<string, unknown>;
+        const loans = rawProfile.loans ?? [];
+        const deductions = rawProfile.deductions ?? [];
+        if (!Array.isArray(loans) || !Array.isArray(deductions)) throw new Error("profile.loans and profile.deductions must be lists.");
+        const paySchedule = rawProfile.paySchedule as Record<string, unknown> | undefined;
+        if (paySchedule !== undefined && (typeof paySchedule !== 'object' || paySchedule === null)) throw new Error("profile.paySchedule must be an object.");
+        profile = {
+            ...rawProfile,
+            lastUpdated: rawProfile.lastUpdated ? reviveBackupDate(rawProfile.lastUpdated, 'profile.lastUpdated') : new Date(),
+            deductions,
+            loans: loans.map((loan: Record<string, unknown>, index: number) => ({
+                ...loan,
+                nextPaymentDate: reviveBackupDate(loan.nextPaymentDate, `profile.loans[${index}].nextPaymentDate`),
+                ...(loan.startDate ? { startDate: reviveBackupDate(loan.startDate, `profile.loans[${index}].startDate`) } : {}),
+            })),
+            ...(paySchedule ? {
+                paySchedule: {
+                    ...paySchedule,
+                    ...(paySchedule.anchorDate ? { anchorDate: reviveBackupDate(paySchedule.anchorDate, 'profile.paySchedule.anchorDate') } : {}),
+                },
+            } : {}),
+            ...(Array.isArray(rawProfile.exchangeRates) ? {
+                exchangeRates: rawProfile.exchangeRates.map((rate: Record<string, unknown>, index: number) => ({
+                    ...rate,
+                    date: reviveBackupDate(rate.date, `profile.exchangeRates[${index}].date`),
+                })),
+            } : {}),
+            ...(Array.isArray(rawProfile.scenarios) ? {
+                scenarios: rawProfile.scenarios.map((scenario: Record<string, unknown>, index: number) => ({
+                    ...scenario,
+                    changes: (Array.isArray(scenario.changes) ? scenario.changes : []).map((change: Record<string, unknown>, changeIndex: number) => ({
+                        ...change,
+                        date: reviveBackupDate(change.date, `profile.scenarios[${index}].changes[${changeIndex}].date`),
+                    })),
+                })),
+            } : {}),
+            ...(Array.isArray(rawProfile.savingsGoals) ? {
+                savingsGoals: rawProfile.savingsGoals.map((goal: Record<string, unknown>, index: number) => ({
+                    ...goal,
+                    targetDate: reviveBackupDate(goal.targetDate, `profile.savingsGoals[${index}].targetDate`),
+                    createdAt: reviveBackupDate(goal.createdAt, `profile.savingsGoals[${index}].createdAt`),
+                })),
+            } : {}),
+        } as UserProfile;
+    }
+
+    return {
+        exportedAt: backup.exportedAt ? reviveBackupDate(backup.exportedAt, 'exportedAt') : new Date(),
+        profile,
+        collections,
+        attachments: attachments as Record<string, string>,
     };
+};
 
-    // New function to handle viewing expense details
-    const handleViewDetails = (expense: ExpenseItem) => {
-        setSelectedExpense(expense);
-        setIsViewModalOpen(true);
+// Builds a CSV document, quoting any cell that contains a delimiter, quote or line break.
+const toCsv = (headers: string[], rows: (string | number | Date | null | undefined)[][]): string => {
+    const formatCell = (value: string | number | Date | null | undefined) => {
+        const text = value instanceof Date ? toDateKey(value) : (value ?? '').toString();
+        return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
     };
+    return [headers, ...rows].map(row => row.map(formatCell).join(',')).join('\r\n');
+};
 
-    return (
-        <div className="max-w-6xl mx-auto p-4 md:p-8">
-            <h1 className="text-3xl font-bold text-gray-800 mb-6">Expense Tracking</h1>
+const downloadFile = (fileName: string, content: string, mimeType: string) => {
+    const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+    URL.revokeObjectURL(url);
+};
 
-            <div className="bg-white rounded-lg shadow-md p-6 mb-8">
-                <h2 className="text-xl font-semibold text-gray-700 mb-4">Record New Expense</h2>
-                <form onSubmit={handleSubmit} className="grid grid-cols-1 gap-4 md:grid-cols-2">
-                    <div>
-                        <label htmlFor="vendor" className="block text-gray-700 text-sm font-bold mb-2">Vendor</label>
-                        <input
-                            type="text"
-                            id="vendor"
-                            value={vendor}
-                            onChange={(e: React.ChangeEvent<HTMLInputElement>) => setVendor(e.target.value)}
-                            className="shadow appearance-none border rounded-md w-full py-2 px-3 text-gray-700 leading-tight focus:outline-none focus:shadow-outline focus:ring-2 focus:ring-orange-500 focus:border-transparent"
-                            placeholder="e.g., Meralco"
-                            required
-                        />
-                    </div>
-                    <div>
-                        <label htmlFor="amount" className="block text-gray-700 text-sm font-bold mb-2">Amount (PHP)</label>
-                        <input
-                            type="number"
-                            id="amount"
-                            value={amount}
-                            onChange={(e: React.ChangeEvent<HTMLInputElement>) => setAmount(e.target.value)}
-                            className="shadow appearance-none border rounded-md w-full py-2 px-3 text-gray-700 leading-tight focus:outline-none focus:shadow-outline focus:ring-2 focus:ring-orange-500 focus:border-transparent"
-                            placeholder="e.g., 2500"
-                            step="0.01"
-                            required
-                        />
+
+// --- Component: Modal (Consolidated) ---
+const Modal: React.FC<ModalProps> = ({ isOpen, title, message, onClose, onConfirm, showConfirmButton = false, confirmLabel = 'Confirm', children }) => {
+    if (!isOpen) return null;
+
+    return (
+        <div className="fixed inset-0 bg-gray-600 bg-opacity-75 flex items-center justify-center z-50 p-4" onClick={onClose}>
+            <div className="bg-white rounded-lg shadow-xl p-6 w-full max-w-lg md:max-w-xl lg:max-w-2xl transform transition-all duration-300 scale-100" onClick={(e) => e.stopPropagation()}>
+                <h3 className="text-xl font-semibold text-gray-900 mb-4 border-b pb-2">{title}</h3>
+                {message && <p className="text-sm text-gray-700 mb-6">{message}</p>}
+                {children}
+                <div className="flex justify-end space-x-3 mt-6">
+                    <button
+                        onClick={onClose}
+                        className="px-4 py-2 bg-gray-200 text-gray-800 rounded-md hover:bg-gray-300 transition duration-200"
+                    >
+                        {showConfirmButton ? 'Cancel' : 'Close'}
+                    </button>
+                    {showConfirmButton && onConfirm && (
+                        <button
+                            onClick={onConfirm}
+                            className="px-4 py-2 bg-orange-600 text-white rounded-md hover:bg-orange-700 transition duration-200"
+                        >
+                            {confirmLabel}
+                        </button>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+};
+
+// --- Component: LoadingSpinner (Consolidated) ---
+const LoadingSpinner: React.FC = () => (
+    <div className="min-h-screen flex items-center justify-center bg-gray-100">
+        <div className="border-4 border-gray-200 border-t-4 border-t-gray-800 rounded-full w-12 h-12 animate-spin"></div>
+    </div>
+);
+
+
+// --- Component: Auth (Consolidated) ---
+const Auth: React.FC = () => {
+    const { login, signup } = useAuth();
+    const [isLogin, setIsLogin] = useState(true);
+    const [email, setEmail] = useState('');
+    const [password, setPassword] = useState('');
+    const [name, setName] = useState('');
+    const [error, setError] = useState('');
+    const [isLoading, setIsLoading] = useState(false);
+    const [isModalOpen, setIsModalOpen] = useState(false);
+    const [modalTitle, setModalTitle] = useState('');
+    const [modalMessage, setModalMessage] = useState('');
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setError('');
+        setIsLoading(true);
+        try {
+            if (isLogin) {
+                await login(email, password);
+            } else {
+                if (!name) {
+                    setModalTitle("Input Error");
+                    setModalMessage("Please enter your name for signup.");
+                    setIsModalOpen(true);
+                    return;
+                }
+                await signup(email, password, name);
+            }
+        } catch (err: unknown) {
+            setError((err as Error).message || 'An unknown error occurred.');
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    return (
+        <div className="min-h-screen flex items-center justify-center bg-gray-100 p-4">
+            <div className="bg-white rounded-lg shadow-xl p-8 w-full max-w-md">
+                <div className="flex justify-center mb-6">
+                    <span className="text-gray-900 text-4xl font-bold">Spenditure</span>
+                </div>
+                {error && (
+                    <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded-md relative mb-4" role="alert">
+                        <span className="block sm:inline">{error}</span>
                     </div>
-                    <div>
-                        <label htmlFor="category" className="block text-gray-700 text-sm font-bold mb-2">Category</label>
-                        <select
-                            id="category"
-                            value={category}
-                            onChange={(e: React.ChangeEvent<HTMLSelectElement>) => setCategory(e.target.value)}
+                )}
+                <form onSubmit={handleSubmit}>
+                    {!isLogin && (
+                        <div className="mb-4">
+                            <label className="block text-gray-700 text-sm font-bold mb-2" htmlFor="name">
+                                Name
+                            </label>
+                            <input
+                                type="text"
+                                id="name"
+                                value={name}
+                                onChange={(e: React.ChangeEvent<HTMLInputElement>) => setName(e.target.value)}
+                                className="shadow appearance-none border rounded-md w-full py-2 px-3 text-gray-700 leading-tight focus:outline-none focus:shadow-outline focus:ring-2 focus:ring-orange-500 focus:border-transparent"
+                                placeholder="Your Name"
+                                required
+                            />
+                        </div>
+                    )}
+                    <div className="mb-4">
+                        <label className="block text-gray-700 text-sm font-bold mb-2" htmlFor="email">
+                            Email
+                        </label>
+                        <input
+                            type="email"
+                            id="email"
+                            value={email}
+                            onChange={(e: React.ChangeEvent<HTMLInputElement>) => setEmail(e.target.value)}
                             className="shadow appearance-none border rounded-md w-full py-2 px-3 text-gray-700 leading-tight focus:outline-none focus:shadow-outline focus:ring-2 focus:ring-orange-500 focus:border-transparent"
+                            placeholder="Your email"
                             required
-                        >
-                            {expenseCategories.map((cat: string) => (
-                                <option key={cat} value={cat}>{cat}</option>
-                            ))}
-                        </select>
+                        />
                     </div>
-                    <div>
-                        <label htmlFor="date" className="block text-gray-700 text-sm font-bold mb-2">Date</label>
+                    <div className="mb-6">
+                        <label className="block text-gray-700 text-sm font-bold mb-2" htmlFor="password">
+                            Password
+                        </label>
                         <input
-                            type="date"
-                            id="date"
-                            value={date}
-                            onChange={(e: React.ChangeEvent<HTMLInputElement>) => setDate(e.target.value)}
+                            type="password"
+                            id="password"
+                            value={password}
+                            onChange={(e: React.ChangeEvent<HTMLInputElement>) => setPassword(e.target.value)}
                             className="shadow appearance-none border rounded-md w-full py-2 px-3 text-gray-700 leading-tight focus:outline-none focus:shadow-outline focus:ring-2 focus:ring-orange-500 focus:border-transparent"
+                            placeholder="********"
                             required
                         />
                     </div>
-                    <div className="md:col-span-2">
-                        <label htmlFor="description" className="block text-gray-700 text-sm font-bold mb-2">Description (Optional)</label>
-                        <textarea
-                            id="description"
-                            value={description}
-                            onChange={(e: React.ChangeEvent<HTMLTextAreaElement>) => setDescription(e.target.value)}
-                            className="shadow appearance-none border rounded-md w-full py-2 px-3 text-gray-700 leading-tight focus:outline-none focus:shadow-outline focus:ring-2 focus:ring-orange-500 focus:border-transparent resize-y"
-                            rows={2}
-                            placeholder="Brief description of the expense"
-                        ></textarea>
-                    </div>
-                    <div className="md:col-span-2 flex justify-end">
+                    <div className="flex items-center justify-between">
                         <button
                             type="submit"
-                            className="bg-orange-500 hover:bg-orange-600 text-white font-bold py-2 px-4 rounded-md transition duration-200 shadow-sm cursor-pointer"
+                            className="bg-orange-500 hover:bg-orange-600 text-white font-bold py-2 px-4 rounded-md focus:outline-none focus:shadow-outline w-full disabled:opacity-70 disabled:cursor-not-allowed"
+                            disabled={isLoading}
                         >
-                            Record Expense
+                            {isLoading ? 'Loading...' : (isLogin ? 'Login' : 'Sign Up')}
                         </button>
                     </div>
                 </form>
+                <div className="text-center mt-4">
+                    <button
+                        onClick={() => setIsLogin(!isLogin)}
+                        className="inline-block align-baseline font-bold text-sm text-orange-600 hover:text-orange-800"
+                    >
+                        {isLogin ? 'Need an account? Sign Up' : 'Already have an account? Login'}
+                    </button>
+                </div>
             </div>
-
-            <div className="bg-white rounded-lg shadow-md p-6">
-                <h2 className="text-xl font-semibold text-gray-700 mb-4">Your Expense Records</h2>
-                {expenses.length === 0 ? (
-                    <p className="text-gray-600">No expense records yet. Record one above!</p>
-                ) : (
-                    <div className="overflow-x-auto">
-                        <table className="min-w-full divide-y divide-gray-200">
-                            <thead>
-                                <tr className="bg-gray-50">
-                                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider rounded-tl-lg">Date</th>
-                                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Vendor</th>
-                                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Category</th>
-                                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Amount</th>
-                                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider rounded-tr-lg">Actions</th>
-                                </tr>
-                            </thead>
-                            <tbody className="bg-white divide-y divide-gray-200">
-                                {expenses.map((expense: ExpenseItem) => (
-                                    <tr key={expense.id}>
-                                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
-                                            {expense.date.toLocaleDateString()}
-                                        </td>
-                                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{expense.vendor}</td>
-                                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{expense.category}</td>
-                                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">PHP {expense.amount.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</td>
-                                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900 flex items-center space-x-2">
-                                            <button
-                                                onClick={() => handleViewDetails(expense)}
-                                                className="px-2 py-1 text-sm font-medium text-blue-700 hover:text-blue-900 transition duration-200"
-                                                title="View Details"
-                                            >
-                                                View
-                                            </button>
-                                            <button
-                                                onClick={() => handleDeleteClick(expense.id)}
-                                                className="px-2 py-1 text-sm font-medium text-orange-700 hover:text-orange-900 transition duration-200"
-                                                title="Delete"
-                                            >
-                                                Delete
-                                            </button>
-                                        </td>
-                                    </tr>
-                                ))}
-                            </tbody>
-                        </table>
-                    </div>
-                )}
-            </div>
-            {/* Modals for alerts and confirmations */}
             <Modal
                 isOpen={isModalOpen}
                 title={modalTitle}
                 message={modalMessage}
                 onClose={() => setIsModalOpen(false)}
             />
-            <Modal
-                isOpen={isConfirmModalOpen}
-                title={modalTitle}
-                message={modalMessage}
-                onClose={() => setIsConfirmModalOpen(false)}
-                onConfirm={confirmDelete}
-                showConfirmButton={true}
-            />
-
-            {/* Modal for Viewing Expense Details */}
-            <Modal
-                isOpen={isViewModalOpen}
-                title="Expense Details"
-                message=""
-                onClose={() => setIsViewModalOpen(false)}
-            >
-                {selectedExpense && (
-                    <div className="space-y-3 text-gray-800">
-                        <p><strong>Vendor:</strong> {selectedExpense.vendor}</p>
-                        <p><strong>Amount:</strong> PHP {selectedExpense.amount.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</p>
-                        <p><strong>Category:</strong> {selectedExpense.category}</p>
-                        <p><strong>Date:</strong> {selectedExpense.date.toLocaleDateString()}</p>
-                        <p><strong>Description:</strong> {selectedExpense.description || 'N/A'}</p>
-                        <p className="text-xs text-gray-500">Recorded on: {selectedExpense.createdAt.toLocaleString()}</p>
-                    </div>
-                )}
-            </Modal>
         </div>
     );
 };
 
 
-// --- Component: Profile (Consolidated) ---
-const Profile: React.FC<ProfileComponentProps> = ({ userProfile, updateUserProfile, incomes, expenses }) => {
-    const [currentBalance, setCurrentBalance] = useState<string>(userProfile?.currentBalance?.toString() || '');
-    const [grossSalaryIncome, setGrossSalaryIncome] = useState<string>(userProfile?.salaryIncome?.toString() || '');
-    const [salaryFrequency, setSalaryFrequency] = useState<'weekly' | 'fortnightly' | 'monthly'>(userProfile?.salaryFrequency || 'monthly');
-    const [name, setName] = useState<string>(userProfile?.name || '');
-    const [numberOfDaysOffPerMonth, setNumberOfDaysOffPerMonth] = useState<string>(userProfile?.numberOfDaysOffPerMonth?.toString() || '0');
+// --- Component: Navbar (Consolidated) ---
+const Navbar: React.FC<NavbarProps> = ({ userId, userName, onLogout, currentPage, setCurrentPage }) => {
+    const navItemClass = (pageName: string) =>
+        `px-3 py-2 rounded-md text-sm font-medium transition duration-200 text-gray-300 hover:bg-orange-600 cursor-pointer ${currentPage === pageName ? 'bg-orange-500 text-white shadow-md' : ''}`;
 
-    // State for individual deductions
-    const [deductions, setDeductions] = useState<{ [key: string]: string }>(() => {
-        const initialDeductions = {
-            'SSS': '0',
-            'GSIS': '0',
-            'Philhealth': '0',
-            'Pag-Ibig Fund': '0',
-            'Company Initiated Deductions': '0',
-            'Voluntary Deductions': '0',
-            'Property Annual Fee': '0',
-        };
-        return userProfile?.deductions?.reduce((acc: { [key: string]: string }, d: DeductionItem) => { // Explicitly typed acc and d
-            if (initialDeductions.hasOwnProperty(d.name)) {
-                return { ...acc, [d.name]: d.amount.toString() };
-            }
-            return acc;
-        }, initialDeductions) || initialDeductions;
-    });
-    const [customDeductions, setCustomDeductions] = useState<DeductionItem[]>(userProfile?.deductions?.filter(d => !['SSS', 'GSIS', 'Philhealth', 'Pag-Ibig Fund', 'Company Initiated Deductions', 'Voluntary Deductions', 'Property Annual Fee'].includes(d.name)) || []);
-    const [newCustomDeductionName, setNewCustomDeductionName] = useState<string>('');
-    const [newCustomDeductionAmount, setNewCustomDeductionAmount] = useState<string>('');
+    return (
+        <nav className="bg-zinc-900 p-4 shadow-lg sticky top-0 z-40">
+            <div className="w-full px-[20px] flex flex-wrap items-center justify-between">
+                <div className="flex items-center">
+                    {/* Placeholder for the Monie Logo (if you have an SVG or image, replace this) */}
+                    {/* For example, if you have public/monies.svg: <img src="/monies.svg" alt="Monie Logo" className="h-8 w-auto" /> */}
+                    {/* Using an inline SVG for demonstration (similar to previous version but simplified) */}
+                    <svg width="32" height="32" viewBox="0 0 24 24" fill="none" xmlns="http://www.w3.org/2000/svg" className="mr-2">
+                        <path d="M12 2C6.477 2 2 6.477 2 12s4.477 10 10 10 10-4.477 10-10S17.523 2 12 2zM12 11.5a.5.5 0 01.5.5v2a.5.5 0 01-1 0v-2a.5.5 0 01.5-.5zM12 7a.5.5 0 01.5.5v.5a.5.5 0 01-1 0V7.5a.5.5 0 01.5-.5z" fill="#F97316"/>
+                        <circle cx="12" cy="12" r="10" stroke="#F97316" strokeWidth="1.5"/>
+                        <path d="M10 8h4a1 1 0 011 1v4a1 1 0 01-1 1h-4a1 1 0 01-1-1V9a1 1 0 011-1z" stroke="#F97316" strokeWidth="1.5" strokeLinecap="round" strokeLinejoin="round"/>
+                        <text x="12" y="15" fontSize="10" fontWeight="bold" textAnchor="middle" fill="#FFFFFF">$</text>
+                    </svg>
+                    <span className="text-white text-2xl font-bold">Spenditure</span>
+                </div>
 
-    // State for loans
-    const [loans, setLoans] = useState<LoanItem[]>(userProfile?.loans || []);
-    const [newLoanName, setNewLoanName] = useState<string>('');
-    const [newLoanAmount, setNewLoanAmount] = useState<string>('');
-    const [newLoanPaymentFrequency, setNewLoanPaymentFrequency] = useState<'monthly' | 'quarterly' | 'annually'>('monthly');
-    const [newLoanNextPaymentDate, setNewLoanNextPaymentDate] = useState<string>('');
+                {/* Navigation Buttons */}
+                <div className="flex space-x-4 mt-2 md:mt-0">
+                    <button
+                        onClick={() => setCurrentPage('dashboard')}
+                        className={navItemClass('dashboard')}
+                    >
+                        Dashboard
+                    </button>
+                    <button
+                        onClick={() => setCurrentPage('income')}
+                        className={navItemClass('income')}
+                    >
+                        Income
+                    </button>
+                    <button
+                        onClick={() => setCurrentPage('clients')}
+                        className={navItemClass('clients')}
+                    >
+                        Clients
+                    </button>
+                    <button
+                        onClick={() => setCurrentPage('expenses')}
+                        className={navItemClass('expenses')}
+                    >
+                        Expenses
+                    </button>
+                    <button
+                        onClick={() => setCurrentPage('budgets')}
+                        className={navItemClass('budgets')}
+                    >
+                        Budgets
+                    </button>
+                    <button
+                        onClick={() => setCurrentPage('goals')}
+                        className={navItemClass('goals')}
+                    >
+                        Goals
+                    </button>
+                    <button
+                        onClick={() => setCurrentPage('accounts')}
+                        className={navItemClass('accounts')}
+                    >
+                        Accounts
+                    </button>
+                    <button
+                        onClick={() => setCurrentPage('data')}
+                        className={navItemClass('data')}
+                    >
+                        Data
+                    </button>
+                    <button
+                        onClick={() => setCurrentPage('profile')}
+                        className={navItemClass('profile')}
+                    >
+                        Profile
+                    </button>
+                </div>
 
-    const [isModalOpen, setIsModalOpen] = useState<boolean>(false);
-    const [modalMessage, setModalMessage] = useState<string>('');
-    const [modalTitle, setModalTitle] = useState<string>('');
-    const [isLoading, setIsLoading] = useState<boolean>(false);
-    const [isResetSalaryConfirmOpen, setIsResetSalaryConfirmOpen] = useState<boolean>(false);
+                {/* User Info and Logout Button */}
+                <div className="flex items-center space-x-4 mt-2 md:mt-0 ml-auto">
+                    <span className="text-gray-300 text-sm italic hidden sm:block">
+                        {userName ? `Welcome, ${userName}!` : 'Welcome!'}
+                    </span>
+                    {onLogout ? (
+                        <button
+                            onClick={onLogout}
+                            className="px-4 py-2 bg-orange-500 text-white rounded-md transition duration-200 hover:bg-orange-600 focus:outline-none focus:ring-2 focus:ring-orange-500 focus:ring-opacity-50 text-sm"
+                        >
+                            Logout
+                        </button>
+                    ) : (
+                        <span className="px-3 py-1 text-xs font-semibold rounded-full bg-zinc-700 text-gray-200" title="Data is stored on this device only">
+                            Offline
+                        </span>
+                    )}
+                </div>
+            </div>
+        </nav>
+    );
+};
 
-    useEffect(() => {
-        setCurrentBalance(userProfile?.currentBalance?.toString() || '');
-        setGrossSalaryIncome(userProfile?.salaryIncome?.toString() || '');
-        setSalaryFrequency(userProfile?.salaryFrequency || 'monthly');
-        setName(userProfile?.name || '');
-        setNumberOfDaysOffPerMonth(userProfile?.numberOfDaysOffPerMonth?.toString() || '0');
 
-        const initialDeductions = {
-            'SSS': '0', 'GSIS': '0', 'Philhealth': '0', 'Pag-Ibig Fund': '0',
-            'Company Initiated Deductions': '0', 'Voluntary Deductions': '0', 'Property Annual Fee': '0',
-        };
-        const updatedDeductions = userProfile?.deductions?.reduce((acc: { [key: string]: string }, d: DeductionItem) => { // Explicitly typed acc and d
-            if (initialDeductions.hasOwnProperty(d.name)) {
-                return { ...acc, [d.name]: d.amount.toString() };
-            }
-            return acc;
-        }, initialDeductions) || initialDeductions;
-        setDeductions(updatedDeductions);
+// --- Component: RecordHistory (Consolidated) ---
+const RecordHistory: React.FC<RecordHistoryProps> = ({ history }) => {
+    if (!history || history.length === 0) {
+        return <p className="text-xs text-gray-500">No edits recorded.</p>;
+    }
 
-        const filteredCustomDeductions = userProfile?.deductions?.filter(d => !Object.keys(initialDeductions).includes(d.name)) || [];
-        setCustomDeductions(filteredCustomDeductions);
+    return (
+        <ul className="space-y-2 text-sm text-gray-700 max-h-48 overflow-y-auto">
+            {[...history].reverse().map((entry: RecordHistoryEntry, index: number) => (
+                <li key={index} className="border-b border-gray-100 pb-1">
+                    <p className="text-xs text-gray-500">{entry.changedAt.toLocaleString()}</p>
+                    {entry.changes.map((change: RecordChange) => (
+                        <p key={change.field}>
+                            <strong className="font-medium">{recordFieldLabels[change.field] || change.field}:</strong>{' '}
+                            <span className="line-through text-gray-500">{change.from || '(empty)'}</span> &rarr; {change.to || '(empty)'}
+                        </p>
+                    ))}
+                </li>
+            ))}
+        </ul>
+    );
+};
 
-        setLoans(userProfile?.loans || []);
-    }, [userProfile]);
 
-    const handleDeductionChange = (name: string, value: string) => {
-        setDeductions(prev => ({ ...prev, [name]: value }));
-    };
+// --- Component: CurrencyOptions (Consolidated) ---
+const CurrencyOptions: React.FC<CurrencyOptionsProps> = ({ currencies }) => (
+    <>
+        {currencies.map(code => (
+            <option key={code} value={code}>{code}</option>
+        ))}
+    </>
+);
 
-    const handleAddCustomDeduction = () => {
-        if (newCustomDeductionName && !isNaN(parseFloat(newCustomDeductionAmount)) && parseFloat(newCustomDeductionAmount) >= 0) {
-            setCustomDeductions(prev => [
-                ...prev,
-                { name: newCustomDeductionName, amount: parseFloat(newCustomDeductionAmount) }
-            ]);
-            setNewCustomDeductionName('');
-            setNewCustomDeductionAmount('');
-        } else {
-            setModalTitle("Input Error");
-            setModalMessage("Please enter a valid name and non-negative amount for the custom deduction.");
-            setIsModalOpen(true);
-        }
-    };
+// --- Component: BusinessDayRuleOptions (Consolidated) ---
+const BusinessDayRuleOptions: React.FC = () => (
+    <>
+        {(Object.keys(businessDayRuleLabels) as BusinessDayRule[]).map(rule => (
+            <option key={rule} value={rule}>{businessDayRuleLabels[rule]}</option>
+        ))}
+    </>
+);
 
-    const handleRemoveCustomDeduction = (index: number) => {
-        setCustomDeductions(prev => prev.filter((_, i) => i !== index));
+// --- Component: AccountOptions (Consolidated) ---
+// <option> list for account selects. Archived accounts are left out unless already selected.
+const AccountOptions: React.FC<AccountOptionsProps> = ({ accounts, selectedId }) => (
+    <>
+        {accounts.filter(account => !account.archived || account.id === selectedId).map(account => (
+            <option key={account.id} value={account.id}>
+                {account.name}{account.archived ? ' (archived)' : ''}
+            </option>
+        ))}
+    </>
+);
+
+// --- Component: ClientNameList (Consolidated) ---
+// Suggests directory clients in a client name input; typing a client's name links the record to it
+const ClientNameList: React.FC<ClientNameListProps> = ({ id, clients }) => (
+    <datalist id={id}>
+        {clients.map(client => <option key={client.id} value={client.name} />)}
+    </datalist>
+);
+
+
+// --- Component: Income (Consolidated) ---
+const Income: React.FC<IncomeComponentProps> = ({ userProfile, updateUserProfile, clients, addIncome, saveInvoice, incomes, accounts, defaultAccountId, updateIncomeStatus, updateIncome, deleteIncome, baseCurrency, currencyOptions, recurringIncomes, addRecurringIncome, deleteRecurringIncome }) => {
+    const [client, setClient] = useState<string>('');
+    const [amount, setAmount] = useState<string>('');
+    const [currency, setCurrency] = useState<string>(baseCurrency);
+    const [dueDate, setDueDate] = useState<string>('');
+    const [accountId, setAccountId] = useState<string>(defaultAccountId || '');
+
+    // Fall back to the default account when the selected one is archived or deleted
+    useEffect(() => {
+        if (!accounts.some(account => account.id === accountId && !account.archived)) setAccountId(defaultAccountId || '');
+    }, [accounts, defaultAccountId, accountId]);
+    const [isModalOpen, setIsModalOpen] = useState<boolean>(false);
+    const [modalMessage, setModalMessage] = useState<string>('');
+    const [modalTitle, setModalTitle] = useState<string>('');
+    const [isConfirmModalOpen, setIsConfirmModalOpen] = useState<boolean>(false);
+    const [itemToDelete, setItemToDelete] = useState<string | null>(null);
+    const [templateToDelete, setTemplateToDelete] = useState<string | null>(null);
+
+    // Clients usually settle an invoice due on a weekend or holiday on the next business day
+    const [businessDayRule, setBusinessDayRule] = useState<BusinessDayRule>('next');
+
+    // State for recurring retainer templates
+    const [isRecurring, setIsRecurring] = useState<boolean>(false);
+    const [frequency, setFrequency] = useState<RecurrenceFrequency>('monthly');
+    const [endDate, setEndDate] = useState<string>('');
+    const [dayOfMonthRule, setDayOfMonthRule] = useState<DayOfMonthRule>('start-date');
+    const [dayOfMonth, setDayOfMonth] = useState<string>('1');
+
+    // State for editing an existing income
+    const [editingIncome, setEditingIncome] = useState<IncomeItem | null>(null);
+    const [editClient, setEditClient] = useState<string>('');
+    const [editAmount, setEditAmount] = useState<string>('');
+    const [editDueDate, setEditDueDate] = useState<string>('');
+    const [editStatus, setEditStatus] = useState<'Outstanding' | 'Paid'>('Outstanding');
+    const [editPaidDate, setEditPaidDate] = useState<string>('');
+    const [editCurrency, setEditCurrency] = useState<string>('');
+    const [editAccountId, setEditAccountId] = useState<string>('');
+    const [editBusinessDayRule, setEditBusinessDayRule] = useState<BusinessDayRule>('none');
+
+    // The income whose invoice is open; null for a new invoice, undefined when the editor is closed
+    const [invoiceIncome, setInvoiceIncome] = useState<IncomeItem | null | undefined>(undefined);
+
+    const handleInvoiceSaved = (message: string) => {
+        setInvoiceIncome(undefined);
+        setModalTitle("Success!");
+        setModalMessage(message);
+        setIsModalOpen(true);
     };
 
-    const handleAddLoan = () => {
-        if (newLoanName && !isNaN(parseFloat(newLoanAmount)) && parseFloat(newLoanAmount) > 0 && newLoanNextPaymentDate) {
-            setLoans(prev => [
-                ...prev,
-                {
-                    id: crypto.randomUUID(), // Generate a unique ID for React key and internal management
-                    loanName: newLoanName,
-                    amount: parseFloat(newLoanAmount),
-                    paymentFrequency: newLoanPaymentFrequency,
-                    nextPaymentDate: new Date(newLoanNextPaymentDate),
-                }
-            ]);
-            setNewLoanName('');
-            setNewLoanAmount('');
-            setNewLoanNextPaymentDate('');
-            setNewLoanPaymentFrequency('monthly');
-        } else {
-            setModalTitle("Input Error");
-            setModalMessage("Please fill in all valid fields for the new loan.");
+    const handlePrintInvoice = (income: IncomeItem) => {
+        try {
+            printInvoice(income, userProfile);
+        } catch (error: unknown) {
+            setModalTitle("Error");
+            setModalMessage(`Failed to open the invoice: ${(error as Error).message}`);
             setIsModalOpen(true);
         }
     };
 
-    const handleRemoveLoan = (id: string) => {
-        setLoans(prev => prev.filter(loan => loan.id !== id));
-    };
-
     const handleSubmit = async (e: React.FormEvent) => {
         e.preventDefault();
-        setIsLoading(true);
-        try {
-            const parsedCurrentBalance = parseFloat(currentBalance);
-            const parsedGrossSalaryIncome = parseFloat(grossSalaryIncome);
-            const parsedNumberOfDaysOff = parseInt(numberOfDaysOffPerMonth);
+        const validationError = validateIncomeForm(client, amount, dueDate);
+        if (validationError) {
+            setModalTitle("Input Error");
+            setModalMessage(validationError);
+            setIsModalOpen(true);
+            return;
+        }
+        if (isRecurring && endDate && parseDateInput(endDate).getTime() < parseDateInput(dueDate).getTime()) {
+            setModalTitle("Input Error");
+            setModalMessage("End date must be on or after the first due date.");
+            setIsModalOpen(true);
+            return;
+        }
+        if (isRecurring && dayOfMonthRule === 'fixed-day' && (isNaN(parseInt(dayOfMonth)) || parseInt(dayOfMonth) < 1 || parseInt(dayOfMonth) > 31)) {
+            setModalTitle("Input Error");
+            setModalMessage("Day of month must be between 1 and 31.");
+            setIsModalOpen(true);
+            return;
+        }
 
-            if (isNaN(parsedCurrentBalance) || parsedCurrentBalance < 0) {
-                setModalTitle("Input Error");
-                setModalMessage("Current Balance must be a non-negative number.");
-                setIsModalOpen(true);
-                return;
-            }
-            if (isNaN(parsedGrossSalaryIncome) || parsedGrossSalaryIncome < 0) {
-                setModalTitle("Input Error");
-                setModalMessage("Gross Salary Income must be a non-negative number.");
-                setIsModalOpen(true);
-                return;
-            }
-            if (isNaN(parsedNumberOfDaysOff) || parsedNumberOfDaysOff < 0) {
-                setModalTitle("Input Error");
-                setModalMessage("Number of Days Off must be a non-negative integer.");
-                setIsModalOpen(true);
-                return;
-            }
-            if (!name) {
-                setModalTitle("Input Error");
-                setModalMessage("Please enter your name.");
-                setIsModalOpen(true);
-                return;
+        try {
+            if (isRecurring) {
+                await addRecurringIncome({
+                    client,
+                    amount: parseFloat(amount),
+                    frequency,
+                    startDate: parseDateInput(dueDate),
+                    endDate: endDate ? parseDateInput(endDate) : null,
+                    dayOfMonthRule,
+                    dayOfMonth: dayOfMonthRule === 'fixed-day' ? parseInt(dayOfMonth) : parseDateInput(dueDate).getDate(),
+                    currency,
+                    ...(accountId ? { accountId } : {}),
+                    businessDayRule,
+                });
+            } else {
+                await addIncome({
+                    client,
+                    amount: parseFloat(amount),
+                    dueDate: parseDateInput(dueDate),
+                    status: 'Outstanding',
+                    currency,
+                    ...(accountId ? { accountId } : {}),
+                    businessDayRule,
+                });
             }
-
-            const allDeductions: DeductionItem[] = Object.entries(deductions).map(([name, amountStr]) => ({
-                name,
-                amount: parseFloat(amountStr) || 0
-            })).concat(customDeductions);
-
-            await updateUserProfile({
-                currentBalance: parsedCurrentBalance,
-                salaryIncome: parsedGrossSalaryIncome,
-                salaryFrequency: salaryFrequency,
-                lastUpdated: new Date(),
-                name: name,
-                numberOfDaysOffPerMonth: parsedNumberOfDaysOff,
-                deductions: allDeductions,
-                loans: loans
-            });
+            setClient('');
+            setAmount('');
+            setCurrency(baseCurrency);
+            setDueDate('');
+            setAccountId(defaultAccountId || '');
+            setBusinessDayRule('next');
+            setIsRecurring(false);
+            setFrequency('monthly');
+            setEndDate('');
+            setDayOfMonthRule('start-date');
+            setDayOfMonth('1');
             setModalTitle("Success!");
-            setModalMessage("Profile updated successfully!");
+            setModalMessage(isRecurring ? "Recurring income added. Invoices will be generated as each cycle comes due." : "Income record added successfully.");
             setIsModalOpen(true);
-        }
-        catch (error: unknown) {
+        } catch (error: unknown) {
             setModalTitle("Error");
-            setModalMessage(`Failed to update profile: ${(error as Error).message}`);
+            setModalMessage(`Failed to add income: ${(error as Error).message}`);
             setIsModalOpen(true);
-        } finally {
-            setIsLoading(false);
         }
     };
 
-    const handleResetSalary = () => {
-        setIsResetSalaryConfirmOpen(true);
-        setModalTitle("Confirm Reset");
-        setModalMessage("Are you sure you want to reset your salary information? This will set your gross salary, deductions, and days off to zero.");
-    };
-
-    const confirmResetSalary = async () => {
-        setIsLoading(true);
+    const handleMarkAsPaid = async (id: string) => {
         try {
-            await updateUserProfile({
-                salaryIncome: 0,
-                deductions: [],
-                numberOfDaysOffPerMonth: 0,
-                lastUpdated: new Date(),
-            });
+            await updateIncomeStatus(id, 'Paid');
             setModalTitle("Success!");
-            setModalMessage("Salary information has been reset.");
+            setModalMessage("Invoice marked as paid.");
             setIsModalOpen(true);
         } catch (error: unknown) {
             setModalTitle("Error");
-            setModalMessage(`Failed to reset salary: ${(error as Error).message}`);
+            setModalMessage(`Failed to update status: ${(error as Error).message}`);
             setIsModalOpen(true);
-        } finally {
-            setIsResetSalaryConfirmOpen(false);
-            setIsLoading(false);
         }
     };
 
-    const calculatedCashBalance = incomes.reduce((sum: number, item: IncomeItem) => sum + item.amount, 0) -
-                                  expenses.reduce((sum: number, item: ExpenseItem) => sum + item.amount, 0);
-    const currentCashBalanceValue = userProfile?.currentBalance ?? calculatedCashBalance;
-
-    const thirtyDaysFromNow = new Date();
-    thirtyDaysFromNow.setDate(thirtyDaysFromNow.getDate() + 30);
-
-    const projectedSalaryPaymentsForProfile: IncomeItem[] = []; // Changed to const
-    if (userProfile && userProfile.salaryIncome > 0) {
-        const monthlySalary = userProfile.salaryIncome;
-        const totalMonthlyDeductions = userProfile.deductions.reduce((sum: number, ded: DeductionItem) => sum + ded.amount, 0); // Explicitly typed
-        const netMonthlySalary = monthlySalary - totalMonthlyDeductions;
-
-        let numPayrollsPerMonth = 0;
-        if (userProfile.salaryFrequency === 'monthly') numPayrollsPerMonth = 1;
-        else if (userProfile.salaryFrequency === 'fortnightly') numPayrollsPerMonth = 2;
-        else if (userProfile.salaryFrequency === 'weekly') numPayrollsPerMonth = 4;
-
-        const salaryPerPayPeriod = netMonthlySalary / numPayrollsPerMonth;
+    const handleEditClick = (income: IncomeItem) => {
+        setEditingIncome(income);
+        setEditClient(income.client);
+        setEditAmount(income.amount.toString());
+        setEditDueDate(toDateInputValue(income.dueDate));
+        setEditStatus(income.status);
+        const paidDate = getIncomePaidDate(income);
+        setEditPaidDate(paidDate ? toDateInputValue(paidDate) : '');
+        setEditCurrency(getRecordCurrency(income));
+        setEditAccountId(income.accountId || defaultAccountId || '');
+        setEditBusinessDayRule(income.businessDayRule || 'none');
+    };
 
-        const today = new Date();
-        today.setHours(0, 0, 0, 0);
-        const thirtyDaysFromNowForProfile = new Date(today);
-        thirtyDaysFromNowForProfile.setDate(today.getDate() + 30);
-
-        const getNextPaydayProfile = (currentDate: Date, frequency: 'weekly' | 'fortnightly' | 'monthly'): Date | null => {
-            let nextPay = new Date(currentDate);
-            nextPay.setHours(0,0,0,0);
-
-            if (frequency === 'monthly') {
-                nextPay.setDate(15);
-                if (nextPay.getTime() < currentDate.getTime()) {
-                    nextPay.setMonth(nextPay.getMonth() + 1);
-                    nextPay.setDate(15);
-                }
-                if (nextPay.getMonth() !== ((currentDate.getMonth() + (nextPay.getTime() < currentDate.getTime() ? 1 : 0)) % 12)) {
-                    nextPay = new Date(nextPay.getFullYear(), nextPay.getMonth(), 0);
-                }
-            } else if (frequency === 'fortnightly') {
-                const day = currentDate.getDate();
-                if (day <= 1) {
-                    nextPay.setDate(1);
-                } else if (day <= 15) {
-                    nextPay.setDate(15);
-                } else {
-                    nextPay.setMonth(nextPay.getMonth() + 1);
-                    nextPay.setDate(1);
-                }
-                if (nextPay.getTime() < currentDate.getTime()) {
-                     nextPay.setDate(nextPay.getDate() + 14);
-                }
-            } else if (frequency === 'weekly') {
-                const dayOfWeek = nextPay.getDay();
-                let daysUntilNextMonday = 0;
-                if (dayOfWeek === 0) {
-                    daysUntilNextMonday = 1;
-                } else if (dayOfWeek === 1) {
-                    daysUntilNextMonday = 7;
-                } else {
-                    daysUntilNextMonday = 8 - dayOfWeek;
-                }
-                nextPay.setDate(nextPay.getDate() + daysUntilNextMonday);
-
-                if (nextPay.getTime() < currentDate.getTime()) {
-                    nextPay.setDate(nextPay.getDate() + 7);
-                }
-            } else {
-                return null;
-            }
-            nextPay.setHours(0,0,0,0);
-            return nextPay;
-        };
-
-        let tempPayDate = new Date(today);
-        let loopCount = 0;
-        while (tempPayDate.getTime() <= thirtyDaysFromNowForProfile.getTime() && loopCount < 100) {
-            const nextPayDate = getNextPaydayProfile(tempPayDate, userProfile.salaryFrequency);
-            if (nextPayDate && nextPayDate.getTime() <= thirtyDaysFromNowForProfile.getTime()) {
-                projectedSalaryPaymentsForProfile.push({
-                    id: `salary-profile-${nextPayDate.toISOString()}-${loopCount}`,
-                    client: `Salary Payment (${userProfile.salaryFrequency})`,
-                    amount: salaryPerPayPeriod,
-                    dueDate: nextPayDate,
-                    status: 'Outstanding',
-                    createdAt: new Date(),
-                });
-                tempPayDate = new Date(nextPayDate);
-                tempPayDate.setDate(tempPayDate.getDate() + 1);
-            } else {
-                break;
-            }
-            loopCount++;
+    const handleSaveEdit = async () => {
+        if (!editingIncome) return;
+        const validationError = validateIncomeForm(editClient, editAmount, editDueDate);
+        if (validationError) {
+            setModalTitle("Input Error");
+            setModalMessage(validationError);
+            setIsModalOpen(true);
+            return;
         }
-    }
-
-    const combinedUpcomingIncomes: IncomeItem[] = incomes // Changed to const
-        .filter((inc: IncomeItem) => inc.status === 'Outstanding' && inc.dueDate.getTime() <= thirtyDaysFromNow.getTime())
-        .concat(projectedSalaryPaymentsForProfile);
-
-    combinedUpcomingIncomes.sort((a: IncomeItem, b: IncomeItem) => a.dueDate.getTime() - b.dueDate.getTime());
+        const paidDate = editStatus === 'Paid' && editPaidDate ? parseDateInput(editPaidDate) : null;
+        try {
+            await updateIncome(editingIncome.id, {
+                client: editClient,
+                amount: parseFloat(editAmount),
+                dueDate: parseDateInput(editDueDate),
+                status: editStatus,
+                ...(formatHistoryValue(paidDate) !== formatHistoryValue(editingIncome.paidDate) ? { paidDate } : {}),
+                // Records saved before currencies were supported are PHP, so only an actual change is saved
+                ...(editCurrency !== getRecordCurrency(editingIncome) ? { currency: editCurrency } : {}),
+                // Records without an account already belong to the default one, so only an actual move is saved
+                ...(editAccountId && editAccountId !== (editingIncome.accountId || defaultAccountId) ? { accountId: editAccountId } : {}),
+                ...(editBusinessDayRule !== (editingIncome.businessDayRule || 'none') ? { businessDayRule: editBusinessDayRule } : {}),
+            });
+            setEditingIncome(null);
+            setModalTitle("Success!");
+            setModalMessage("Income record updated.");
+            setIsModalOpen(true);
+        } catch (error: unknown) {
+            setModalTitle("Error");
+            setModalMessage(`Failed to update income: ${(error as Error).message}`);
+            setIsModalOpen(true);
+        }
+    };
 
-    const upcomingIncomesForDisplay = combinedUpcomingIncomes.slice(0, 5);
-    const totalUpcomingIncomesAmount = combinedUpcomingIncomes.reduce((sum: number, item: IncomeItem) => sum + item.amount, 0); // Explicitly typed
+    const handleDeleteClick = (id: string) => {
+        setItemToDelete(id);
+        setTemplateToDelete(null);
+        setIsConfirmModalOpen(true);
+        setModalTitle("Confirm Deletion");
+        setModalMessage("Are you sure you want to delete this income record? This action cannot be undone.");
+    };
 
-    const upcomingExpensesForDisplay = expenses
-        .filter((exp: ExpenseItem) => exp.date.getTime() <= thirtyDaysFromNow.getTime())
-        .concat(
-            (userProfile?.loans || []).filter(loan => loan.nextPaymentDate.getTime() <= thirtyDaysFromNow.getTime()).map(loan => ({
-                id: loan.id,
-                vendor: loan.loanName,
-                amount: loan.amount,
-                category: 'Loan Payment',
-                date: loan.nextPaymentDate,
-                description: `Loan payment for ${loan.loanName} (${loan.paymentFrequency})`,
-                createdAt: new Date(),
-            }))
-        )
-        .sort((a: ExpenseItem, b: ExpenseItem) => a.date.getTime() - b.date.getTime())
-        .slice(0, 5);
+    const handleDeleteTemplateClick = (id: string) => {
+        setTemplateToDelete(id);
+        setItemToDelete(null);
+        setIsConfirmModalOpen(true);
+        setModalTitle("Confirm Deletion");
+        setModalMessage("Are you sure you want to delete this recurring income? Income records already generated will be kept.");
+    };
 
-    const totalUpcomingExpensesAmount = upcomingExpensesForDisplay.reduce((sum: number, item: ExpenseItem) => sum + item.amount, 0); // Explicitly typed
-    const projectedShortTermBalanceValue = currentCashBalanceValue + totalUpcomingIncomesAmount - totalUpcomingExpensesAmount;
+    const confirmDelete = async () => {
+        if (!itemToDelete && !templateToDelete) return;
+        try {
+            if (templateToDelete) {
+                await deleteRecurringIncome(templateToDelete);
+                setModalMessage("Recurring income deleted successfully.");
+            } else if (itemToDelete) {
+                await deleteIncome(itemToDelete);
+                setModalMessage("Income record deleted successfully.");
+            }
+            setModalTitle("Success!");
+            setIsModalOpen(true);
+        } catch (error: unknown) {
+            setModalTitle("Error");
+            setModalMessage(`Failed to delete: ${(error as Error).message}`);
+            setIsModalOpen(true);
+        } finally {
+            setIsConfirmModalOpen(false);
+            setItemToDelete(null);
+            setTemplateToDelete(null);
+        }
+    };
 
-    const grossMonthlySalary = userProfile?.salaryIncome || 0;
-    const totalMonthlyDeductions = Object.values(deductions).reduce((sum: number, amountStr: string) => sum + (parseFloat(amountStr) || 0), 0) + // Explicitly typed
-                                   customDeductions.reduce((sum: number, d: DeductionItem) => sum + d.amount, 0); // Explicitly typed
-    const netMonthlySalary = grossMonthlySalary - totalMonthlyDeductions;
-    const monthlyWorkingDays = 22 - (userProfile?.numberOfDaysOffPerMonth || 0);
-    const dailyIncome = monthlyWorkingDays > 0 ? netMonthlySalary / monthlyWorkingDays : 0;
+    const describeSchedule = (template: RecurringIncomeItem) => {
+        if (template.frequency === 'daily' || template.frequency === 'weekly') return template.frequency;
+        if (template.dayOfMonthRule === 'last-day') return `${template.frequency}, last day of month`;
+        return `${template.frequency}, day ${template.dayOfMonth}`;
+    };
 
     return (
-        <div className="max-w-7xl mx-auto p-4 md:p-8">
-            <h1 className="text-3xl font-bold text-gray-800 mb-6">User Profile</h1>
+        <div className="max-w-6xl mx-auto p-4 md:p-8">
+            <h1 className="text-3xl font-bold text-gray-800 mb-6">Income Management</h1>
 
-            <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
-                {/* Left Column: Profile Edit Form */}
-                <div className="bg-white rounded-lg shadow-md p-6">
-                    <h2 className="text-xl font-semibold text-gray-700 mb-4">Edit Your Financial Profile</h2>
-                    <form onSubmit={handleSubmit} className="grid grid-cols-1 gap-6">
-                        <div>
-                            <label htmlFor="name" className="block text-gray-700 text-sm font-bold mb-2">Your Name</label>
-                            <input
-                                type="text"
-                                id="name"
-                                value={name}
-                                onChange={(e: React.ChangeEvent<HTMLInputElement>) => setName(e.target.value)}
-                                className="shadow appearance-none border rounded-md w-full py-2 px-3 text-gray-700 leading-tight focus:outline-none focus:shadow-outline focus:ring-2 focus:ring-orange-500 focus:border-transparent"
-                                placeholder="Your Full Name"
-                                required
-                            />
-                        </div>
-                        <div>
-                            <label htmlFor="currentBalance" className="block text-gray-700 text-sm font-bold mb-2">Current Cash Balance (PHP)</label>
-                            <input
-                                type="number"
-                                id="currentBalance"
-                                value={currentBalance}
-                                onChange={(e: React.ChangeEvent<HTMLInputElement>) => setCurrentBalance(e.target.value)}
-                                className="shadow appearance-none border rounded-md w-full py-2 px-3 text-gray-700 leading-tight focus:outline-none focus:shadow-outline focus:ring-2 focus:ring-orange-500 focus:border-transparent"
-                                placeholder="e.g., 10000"
-                                step="0.01"
-                                required
-                            />
-                        </div>
-                        <div>
-                            <label htmlFor="grossSalaryIncome" className="block text-gray-700 text-sm font-bold mb-2">Gross Salary Income (PHP)</label>
-                            <input
-                                type="number"
-                                id="grossSalaryIncome"
-                                value={grossSalaryIncome}
-                                onChange={(e: React.ChangeEvent<HTMLInputElement>) => setGrossSalaryIncome(e.target.value)}
-                                className="shadow appearance-none border rounded-md w-full py-2 px-3 text-gray-700 leading-tight focus:outline-none focus:shadow-outline focus:ring-2 focus:ring-orange-500 focus:border-transparent"
-                                placeholder="e.g., 30000"
-                                step="0.01"
-                                required
-                            />
-                        </div>
+            <div className="bg-white rounded-lg shadow-md p-6 mb-8">
+                <h2 className="text-xl font-semibold text-gray-700 mb-4">Add New Income</h2>
+                <form onSubmit={handleSubmit} className="grid grid-cols-1 gap-4 md:grid-cols-3">
+                    <div>
+                        <label htmlFor="client" className="block text-gray-700 text-sm font-bold mb-2">Client Name</label>
+                        <input
+                            type="text"
+                            id="client"
+                            value={client}
+                            onChange={(e: React.ChangeEvent<HTMLInputElement>) => setClient(e.target.value)}
+                            className="shadow appearance-none border rounded-md w-full py-2 px-3 text-gray-700 leading-tight focus:outline-none focus:shadow-outline focus:ring-2 focus:ring-orange-500 focus:border-transparent"
+                            placeholder="e.g., ABC Corp."
+                            list="incomeClientNames"
+                            required
+                        />
+                        <ClientNameList id="incomeClientNames" clients={clients} />
+                    </div>
+                    <div>
+                        <label htmlFor="amount" className="block text-gray-700 text-sm font-bold mb-2">Amount ({currency})</label>
+                        <input
+                            type="number"
+                            id="amount"
+                            value={amount}
+                            onChange={(e: React.ChangeEvent<HTMLInputElement>) => setAmount(e.target.value)}
+                            className="shadow appearance-none border rounded-md w-full py-2 px-3 text-gray-700 leading-tight focus:outline-none focus:shadow-outline focus:ring-2 focus:ring-orange-500 focus:border-transparent"
+                            placeholder="e.g., 50000"
+                            step="0.01"
+                            required
+                        />
+                    </div>
+                    <div>
+                        <label htmlFor="incomeCurrency" className="block text-gray-700 text-sm font-bold mb-2">Currency</label>
+                        <select
+                            id="incomeCurrency"
+                            value={currency}
+                            onChange={(e: React.ChangeEvent<HTMLSelectElement>) => setCurrency(e.target.value)}
+                            className="shadow appearance-none border rounded-md w-full py-2 px-3 text-gray-700 leading-tight focus:outline-none focus:shadow-outline focus:ring-2 focus:ring-orange-500 focus:border-transparent"
+                        >
+                            <CurrencyOptions currencies={currencyOptions} />
+                        </select>
+                    </div>
+                    <div>
+                        <label htmlFor="dueDate" className="block text-gray-700 text-sm font-bold mb-2">{isRecurring ? 'First Due Date' : 'Due Date'}</label>
+                        <input
+                            type="date"
+                            id="dueDate"
+                            value={dueDate}
+                            onChange={(e: React.ChangeEvent<HTMLInputElement>) => setDueDate(e.target.value)}
+                            className="shadow appearance-none border rounded-md w-full py-2 px-3 text-gray-700 leading-tight focus:outline-none focus:shadow-outline focus:ring-2 focus:ring-orange-500 focus:border-transparent"
+                            required
+                        />
+                    </div>
+                    <div>
+                        <label htmlFor="incomeBusinessDayRule" className="block text-gray-700 text-sm font-bold mb-2">If Due on a Weekend or Holiday</label>
+                        <select
+                            id="incomeBusinessDayRule"
+                            value={businessDayRule}
+                            onChange={(e: React.ChangeEvent<HTMLSelectElement>) => setBusinessDayRule(e.target.value as BusinessDayRule)}
+                            className="shadow appearance-none border rounded-md w-full py-2 px-3 text-gray-700 leading-tight focus:outline-none focus:shadow-outline focus:ring-2 focus:ring-orange-500 focus:border-transparent"
+                        >
+                            <BusinessDayRuleOptions />
+                        </select>
+                    </div>
+                    {accounts.length > 0 && (
                         <div>
-                            <label htmlFor="salaryFrequency" className="block text-gray-700 text-sm font-bold mb-2">Salary Frequency</label>
+                            <label htmlFor="incomeAccount" className="block text-gray-700 text-sm font-bold mb-2">Deposit To</label>
                             <select
-                                id="salaryFrequency"
-                                value={salaryFrequency}
-                                onChange={(e: React.ChangeEvent<HTMLSelectElement>) => setSalaryFrequency(e.target.value as 'weekly' | 'fortnightly' | 'monthly')}
+                                id="incomeAccount"
+                                value={accountId}
+                                onChange={(e: React.ChangeEvent<HTMLSelectElement>) => setAccountId(e.target.value)}
                                 className="shadow appearance-none border rounded-md w-full py-2 px-3 text-gray-700 leading-tight focus:outline-none focus:shadow-outline focus:ring-2 focus:ring-orange-500 focus:border-transparent"
-                                required
                             >
-                                <option value="weekly">Weekly</option>
-                                <option value="fortnightly">Fortnightly</option>
-                                <option value="monthly">Monthly</option>
+                                <AccountOptions accounts={accounts} />
                             </select>
                         </div>
-                        <div>
-                            <label htmlFor="numberOfDaysOffPerMonth" className="block text-gray-700 text-sm font-bold mb-2">Regular Days Off Per Month (e.g., 8 for weekends)</label>
+                    )}
+                    <div className="col-span-full">
+                        <label className="inline-flex items-center text-gray-700 text-sm font-bold cursor-pointer">
                             <input
-                                type="number"
-                                id="numberOfDaysOffPerMonth"
-                                value={numberOfDaysOffPerMonth}
-                                onChange={(e: React.ChangeEvent<HTMLInputElement>) => setNumberOfDaysOffPerMonth(e.target.value)}
-                                className="shadow appearance-none border rounded-md w-full py-2 px-3 text-gray-700 leading-tight focus:outline-none focus:shadow-outline focus:ring-2 focus:ring-orange-500 focus:border-transparent"
-                                placeholder="e.g., 8"
-                                min="0"
-                                required
+                                type="checkbox"
+                                checked={isRecurring}
+                                onChange={(e: React.ChangeEvent<HTMLInputElement>) => setIsRecurring(e.target.checked)}
+                                className="mr-2 accent-orange-500"
                             />
-                        </div>
-
-                        {/* Deductions Card - Integrated into the form for submission */}
-                        <div className="col-span-full bg-gray-50 p-6 rounded-lg border border-gray-200">
-                            <h3 className="text-lg font-semibold text-gray-700 mb-4">Deductions</h3>
-                            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                                {Object.keys(deductions).map((deductionName) => (
-                                    <div key={deductionName}>
-                                        <label htmlFor={`deduction-${deductionName}`} className="block text-gray-700 text-sm font-medium mb-1">{deductionName}</label>
-                                        <input
-                                            type="number"
-                                            id={`deduction-${deductionName}`}
-                                            value={deductions[deductionName]}
-                                            onChange={(e) => handleDeductionChange(deductionName, e.target.value)}
-                                            className="shadow appearance-none border rounded-md w-full py-2 px-3 text-gray-700 leading-tight focus:outline-none focus:shadow-outline focus:ring-2 focus:ring-orange-500 focus:border-transparent"
-                                            step="0.01"
-                                            min="0"
-                                        />
-                                    </div>
-                                ))}
+                            Recurring retainer (generate an invoice every cycle)
+                        </label>
+                    </div>
+                    {isRecurring && (
+                        <div className="col-span-full grid grid-cols-1 gap-4 md:grid-cols-3 bg-gray-50 p-4 rounded-lg border border-gray-200">
+                            <div>
+                                <label htmlFor="incomeFrequency" className="block text-gray-700 text-sm font-bold mb-2">Cadence</label>
+                                <select
+                                    id="incomeFrequency"
+                                    value={frequency}
+                                    onChange={(e: React.ChangeEvent<HTMLSelectElement>) => setFrequency(e.target.value as RecurrenceFrequency)}
+                                    className="shadow appearance-none border rounded-md w-full py-2 px-3 text-gray-700 leading-tight focus:outline-none focus:shadow-outline focus:ring-2 focus:ring-orange-500 focus:border-transparent"
+                                >
+                                    <option value="weekly">Weekly</option>
+                                    <option value="monthly">Monthly</option>
+                                    <option value="quarterly">Quarterly</option>
+                                    <option value="annually">Annually</option>
+                                </select>
                             </div>
-                            {/* Custom Deductions */}
-                            <div className="mt-6 border-t pt-4 border-gray-200">
-                                <h4 className="text-md font-medium text-gray-700 mb-3">Other Deductions</h4>
-                                {customDeductions.map((deduction, index) => (
-                                    <div key={index} className="flex items-center space-x-2 mb-2">
-                                        <input
-                                            type="text"
-                                            value={deduction.name}
-                                            onChange={(e) => setCustomDeductions(prev => {
-                                                const newDeds = [...prev];
-                                                newDeds[index].name = e.target.value;
-                                                return newDeds;
-                                            })}
-                                            className="shadow appearance-none border rounded-md w-1/2 py-2 px-3 text-gray-700 leading-tight focus:outline-none focus:shadow-outline focus:ring-2 focus:ring-orange-500 focus:border-transparent"
-                                            placeholder="Deduction Name"
-                                        />
-                                        <input
-                                            type="number"
-                                            value={deduction.amount.toString()}
-                                            onChange={(e) => setCustomDeductions(prev => {
-                                                const newDeds = [...prev];
-                                                newDeds[index].amount = parseFloat(e.target.value) || 0;
-                                                return newDeds;
-                                            })}
-                                            className="shadow appearance-none border rounded-md w-1/4 py-2 px-3 text-gray-700 leading-tight focus:outline-none focus:shadow-outline focus:ring-2 focus:ring-orange-500 focus:border-transparent"
-                                            step="0.01"
-                                            min="0"
-                                            placeholder="Amount"
-                                        />
-                                        <button
-                                            type="button"
-                                            onClick={() => handleRemoveCustomDeduction(index)}
-                                            className="px-3 py-2 bg-red-500 text-white rounded-md hover:bg-red-600 transition duration-200"
+                            <div>
+                                <label htmlFor="incomeEndDate" className="block text-gray-700 text-sm font-bold mb-2">End Date (Optional)</label>
+                                <input
+                                    type="date"
+                                    id="incomeEndDate"
+                                    value={endDate}
+                                    onChange={(e: React.ChangeEvent<HTMLInputElement>) => setEndDate(e.target.value)}
+                                    className="shadow appearance-none border rounded-md w-full py-2 px-3 text-gray-700 leading-tight focus:outline-none focus:shadow-outline focus:ring-2 focus:ring-orange-500 focus:border-transparent"
+                                />
+                            </div>
+                            {frequency !== 'weekly' && (
+                                <div>
+                                    <label htmlFor="incomeDayOfMonthRule" className="block text-gray-700 text-sm font-bold mb-2">Day of Month</label>
+                                    <div className="flex space-x-2">
+                                        <select
+                                            id="incomeDayOfMonthRule"
+                                            value={dayOfMonthRule}
+                                            onChange={(e: React.ChangeEvent<HTMLSelectElement>) => setDayOfMonthRule(e.target.value as DayOfMonthRule)}
+                                            className="shadow appearance-none border rounded-md w-full py-2 px-3 text-gray-700 leading-tight focus:outline-none focus:shadow-outline focus:ring-2 focus:ring-orange-500 focus:border-transparent"
                                         >
-                                            Remove
-                                        </button>
+                                            <option value="start-date">Same as first due date</option>
+                                            <option value="fixed-day">Specific day</option>
+                                            <option value="last-day">Last day of month</option>
+                                        </select>
+                                        {dayOfMonthRule === 'fixed-day' && (
+                                            <input
+                                                type="number"
+                                                id="incomeDayOfMonth"
+                                                value={dayOfMonth}
+                                                onChange={(e: React.ChangeEvent<HTMLInputElement>) => setDayOfMonth(e.target.value)}
+                                                className="shadow appearance-none border rounded-md w-20 py-2 px-3 text-gray-700 leading-tight focus:outline-none focus:shadow-outline focus:ring-2 focus:ring-orange-500 focus:border-transparent"
+                                                min="1"
+                                                max="31"
+                                            />
+                                        )}
                                     </div>
-                                ))}
-                                <div className="flex items-center space-x-2 mt-3">
-                                    <input
-                                        type="text"
-                                        value={newCustomDeductionName}
-                                        onChange={(e) => setNewCustomDeductionName(e.target.value)}
-                                        className="shadow appearance-none border rounded-md w-1/2 py-2 px-3 text-gray-700 leading-tight focus:outline-none focus:shadow-outline focus:ring-2 focus:ring-orange-500 focus:border-transparent"
-                                        placeholder="New Deduction Name"
-                                    />
-                                    <input
-                                        type="number"
-                                        value={newCustomDeductionAmount}
-                                        onChange={(e) => setNewCustomDeductionAmount(e.target.value)}
-                                        className="shadow appearance-none border rounded-md w-1/4 py-2 px-3 text-gray-700 leading-tight focus:outline-none focus:shadow-outline focus:ring-2 focus:ring-orange-500 focus:border-transparent"
-                                        step="0.01"
-                                        min="0"
-                                        placeholder="Amount"
-                                    />
-                                    <button
-                                        type="button"
-                                        onClick={handleAddCustomDeduction}
-                                        className="px-3 py-2 bg-blue-500 text-white rounded-md hover:bg-blue-600 transition duration-200"
-                                    >
-                                        Add
-                                    </button>
                                 </div>
-                            </div>
+                            )}
                         </div>
+                    )}
+                    <div className="col-span-full flex justify-end">
+                        <button
+                            type="submit"
+                            className="bg-orange-500 hover:bg-orange-600 text-white font-bold py-2 px-4 rounded-md transition duration-200 shadow-sm cursor-pointer"
+                        >
+                            {isRecurring ? 'Add Recurring Income' : 'Add Income'}
+                        </button>
+                    </div>
+                </form>
+            </div>
 
-                        {/* Loans Card */}
-                        <div className="col-span-full bg-gray-50 p-6 rounded-lg border border-gray-200 mt-6">
-                            <h3 className="text-lg font-semibold text-gray-700 mb-4">Loans</h3>
-                            <div className="space-y-4">
-                                {loans.length === 0 ? (
-                                    <p className="text-gray-600 text-sm">No loans added yet.</p>
-                                ) : (
-                                    <ul className="space-y-3 max-h-48 overflow-y-auto pr-2">
-                                        {loans.map((loan) => (
-                                            <li key={loan.id} className="bg-white p-3 rounded-md shadow-sm flex flex-col sm:flex-row justify-between items-start sm:items-center">
-                                                <div>
-                                                    <p className="font-semibold text-gray-900">{loan.loanName}</p>
-                                                    <p className="text-sm text-gray-700">PHP {loan.amount.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })} - {loan.paymentFrequency}</p>
-                                                    <p className="text-xs text-gray-500">Next Payment: {loan.nextPaymentDate.toLocaleDateString()}</p>
-                                                </div>
+            {recurringIncomes.length > 0 && (
+                <div className="bg-white rounded-lg shadow-md p-6 mb-8">
+                    <h2 className="text-xl font-semibold text-gray-700 mb-4">Recurring Income</h2>
+                    <ul className="space-y-3">
+                        {recurringIncomes.map((template: RecurringIncomeItem) => (
+                            <li key={template.id} className="bg-gray-50 p-3 rounded-md flex flex-col sm:flex-row justify-between items-start sm:items-center">
+                                <div>
+                                    <p className="font-semibold text-gray-900">{template.client}</p>
+                                    <p className="text-sm text-gray-700">{getRecordCurrency(template)} {template.amount.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })} - {describeSchedule(template)}</p>
+                                    <p className="text-xs text-gray-500">
+                                        From {template.startDate.toLocaleDateString()}{template.endDate ? ` until ${template.endDate.toLocaleDateString()}` : ' (no end date)'}
+                                        {template.lastGeneratedDate && ` · Last invoice due ${template.lastGeneratedDate.toLocaleDateString()}`}
+                                    </p>
+                                </div>
+                                <button
+                                    onClick={() => handleDeleteTemplateClick(template.id)}
+                                    className="mt-2 sm:mt-0 px-2 py-1 text-sm font-medium text-orange-700 hover:text-orange-900 transition duration-200"
+                                    title="Delete Recurring Income"
+                                >
+                                    Delete
+                                </button>
+                            </li>
+                        ))}
+                    </ul>
+                </div>
+            )}
+
+            <div className="bg-white rounded-lg shadow-md p-6">
+                <div className="flex justify-between items-center mb-4">
+                    <h2 className="text-xl font-semibold text-gray-700">Your Income Records</h2>
+                    <button
+                        onClick={() => setInvoiceIncome(null)}
+                        className="bg-orange-500 hover:bg-orange-600 text-white font-bold py-2 px-4 rounded-md transition duration-200 shadow-sm cursor-pointer"
+                    >
+                        New Invoice
+                    </button>
+                </div>
+                {incomes.length === 0 ? (
+                    <p className="text-gray-600">No income records yet. Add one above!</p>
+                ) : (
+                    <div className="overflow-x-auto">
+                        <table className="min-w-full divide-y divide-gray-200">
+                            <thead>
+                                <tr className="bg-gray-50">
+                                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider rounded-tl-lg">Client</th>
+                                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Amount</th>
+                                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Due Date</th>
+                                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider rounded-tr-lg">Actions</th>
+                                </tr>
+                            </thead>
+                            <tbody className="bg-white divide-y divide-gray-200">
+                                {incomes.map((income: IncomeItem) => (
+                                    <tr key={income.id}>
+                                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                                            {income.client}
+                                            {income.recurringIncomeId && (
+                                                <span className="ml-2 inline-flex px-2 py-0.5 text-xs leading-5 font-semibold rounded-full bg-blue-100 text-blue-800">Retainer</span>
+                                            )}
+                                            {income.invoice && (
+                                                <span className="block text-xs text-gray-500">Invoice {income.invoice.number} · {invoiceStatusLabels[income.invoice.status]}</span>
+                                            )}
+                                            {accounts.length > 0 && (
+                                                <span className="block text-xs text-gray-500">{getAccountName(accounts, income.accountId, defaultAccountId)}</span>
+                                            )}
+                                        </td>
+                                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{getRecordCurrency(income)} {income.amount.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</td>
+                                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                                            {income.dueDate.toLocaleDateString()}
+                                        </td>
+                                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                                            <span className={`inline-flex px-2 py-0.5 text-xs leading-5 font-semibold rounded-full ${income.status === 'Paid' ? 'bg-green-100 text-green-800' : 'bg-amber-100 text-amber-800'}`}>
+                                                {income.status}
+                                            </span>
+                                            {income.status === 'Paid' && getIncomePaidDate(income) && (
+                                                <span className="block text-xs text-gray-500">on {getIncomePaidDate(income)?.toLocaleDateString()}</span>
+                                            )}
+                                        </td>
+                                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900 flex items-center space-x-2">
+                                            {income.status === 'Outstanding' && (
                                                 <button
-                                                    type="button"
-                                                    onClick={() => handleRemoveLoan(loan.id)}
-                                                    className="mt-2 sm:mt-0 px-3 py-1 bg-red-500 text-white rounded-md hover:bg-red-600 transition duration-200 text-sm"
+                                                    onClick={() => handleMarkAsPaid(income.id)}
+                                                    className="px-2 py-1 text-sm font-medium text-green-700 hover:text-green-900 transition duration-200"
+                                                    title="Mark as Paid"
                                                 >
-                                                    Remove
+                                                    Mark Paid
                                                 </button>
-                                            </li>
-                                        ))}
-                                    </ul>
-                                )}
-                                {/* Add New Loan Form */}
-                                <div className="mt-4 border-t pt-4 border-gray-200">
-                                    <h4 className="text-md font-medium text-gray-700 mb-3">Add New Loan</h4>
-                                    <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
-                                        <div>
-                                            <label htmlFor="newLoanName" className="block text-gray-700 text-sm font-medium mb-1">Loan Name</label>
-                                            <input
-                                                type="text"
-                                                id="newLoanName"
-                                                value={newLoanName}
-                                                onChange={(e) => setNewLoanName(e.target.value)}
-                                                className="shadow appearance-none border rounded-md w-full py-2 px-3 text-gray-700 leading-tight focus:outline-none focus:shadow-outline focus:ring-2 focus:ring-orange-500 focus:border-transparent"
-                                                placeholder="e.g., Car Loan"
-                                            />
-                                        </div>
-                                        <div>
-                                            <label htmlFor="newLoanAmount" className="block text-gray-700 text-sm font-medium mb-1">Amount (PHP)</label>
-                                            <input
-                                                type="number"
-                                                id="newLoanAmount"
-                                                value={newLoanAmount}
-                                                onChange={(e) => setNewLoanAmount(e.target.value)}
-                                                className="shadow appearance-none border rounded-md w-full py-2 px-3 text-gray-700 leading-tight focus:outline-none focus:shadow-outline focus:ring-2 focus:ring-orange-500 focus:border-transparent"
-                                                step="0.01"
-                                                min="0"
-                                                placeholder="e.g., 10000"
-                                            />
-                                        </div>
-                                        <div>
-                                            <label htmlFor="newLoanFrequency" className="block text-gray-700 text-sm font-medium mb-1">Payment Frequency</label>
-                                            <select
-                                                id="newLoanFrequency"
-                                                value={newLoanPaymentFrequency}
-                                                onChange={(e) => setNewLoanPaymentFrequency(e.target.value as 'monthly' | 'quarterly' | 'annually')}
-                                                className="shadow appearance-none border rounded-md w-full py-2 px-3 text-gray-700 leading-tight focus:outline-none focus:shadow-outline focus:ring-2 focus:ring-orange-500 focus:border-transparent"
+                                            )}
+                                            <button
+                                                onClick={() => handleEditClick(income)}
+                                                className="px-2 py-1 text-sm font-medium text-blue-700 hover:text-blue-900 transition duration-200"
+                                                title="Edit"
                                             >
-                                                <option value="monthly">Monthly</option>
-                                                <option value="quarterly">Quarterly</option>
-                                                <option value="annually">Annually</option>
-                                            </select>
-                                        </div>
-                                        <div>
-                                            <label htmlFor="newLoanNextPaymentDate" className="block text-gray-700 text-sm font-medium mb-1">Next Payment Date</label>
-                                            <input
-                                                type="date"
-                                                id="newLoanNextPaymentDate"
-                                                value={newLoanNextPaymentDate}
-                                                onChange={(e) => setNewLoanNextPaymentDate(e.target.value)}
-                                                className="shadow appearance-none border rounded-md w-full py-2 px-3 text-gray-700 leading-tight focus:outline-none focus:shadow-outline focus:ring-2 focus:ring-orange-500 focus:border-transparent"
-                                            />
-                                        </div>
-                                    </div>
-                                    <div className="flex justify-end mt-4">
-                                        <button
-                                            type="button"
-                                            onClick={handleAddLoan}
-                                            className="bg-blue-500 hover:bg-blue-600 text-white font-bold py-2 px-4 rounded-md transition duration-200"
-                                        >
-                                            Add Loan
-                                        </button>
-                                    </div>
+                                                Edit
+                                            </button>
+                                            <button
+                                                onClick={() => setInvoiceIncome(income)}
+                                                className="px-2 py-1 text-sm font-medium text-blue-700 hover:text-blue-900 transition duration-200"
+                                                title={income.invoice ? 'Edit Invoice' : 'Create Invoice'}
+                                            >
+                                                Invoice
+                                            </button>
+                                            {income.invoice && (
+                                                <button
+                                                    onClick={() => handlePrintInvoice(income)}
+                                                    className="px-2 py-1 text-sm font-medium text-blue-700 hover:text-blue-900 transition duration-200"
+                                                    title="Print or Save as PDF"
+                                                >
+                                                    Print
+                                                </button>
+                                            )}
+                                            <button
+                                                onClick={() => handleDeleteClick(income.id)}
+                                                className="px-2 py-1 text-sm font-medium text-orange-700 hover:text-orange-900 transition duration-200"
+                                                title="Delete"
+                                            >
+                                                Delete
+                                            </button>
+                                        </td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+                )}
+            </div>
+
+            <div className="bg-white rounded-lg shadow-md p-6 mt-8">
+                <h2 className="text-xl font-semibold text-gray-700 mb-2">Invoice Settings</h2>
+                <p className="text-sm text-gray-600 mb-4">Your details as they appear on invoices, how invoices are numbered, and what new invoices start with.</p>
+                <InvoiceSettingsEditor userProfile={userProfile} updateUserProfile={updateUserProfile} />
+            </div>
+
+            {invoiceIncome !== undefined && (
+                <InvoiceEditor
+                    income={invoiceIncome}
+                    userProfile={userProfile}
+                    clients={clients}
+                    accounts={accounts}
+                    defaultAccountId={defaultAccountId}
+                    baseCurrency={baseCurrency}
+                    currencyOptions={currencyOptions}
+                    saveInvoice={saveInvoice}
+                    onSaved={handleInvoiceSaved}
+                    onClose={() => setInvoiceIncome(undefined)}
+                />
+            )}
+
+            {/* Modal for Editing an Income (rendered first so alerts appear above it) */}
+            <Modal
+                isOpen={editingIncome !== null}
+                title="Edit Income"
+                message=""
+                onClose={() => setEditingIncome(null)}
+                onConfirm={handleSaveEdit}
+                showConfirmButton={true}
+                confirmLabel="Save Changes"
+            >
+                {editingIncome && (
+                    <div className="space-y-4">
+                        <div className="grid grid-cols-1 gap-4 md:grid-cols-2">
+                            <div>
+                                <label htmlFor="editClient" className="block text-gray-700 text-sm font-bold mb-2">Client Name</label>
+                                <input
+                                    type="text"
+                                    id="editClient"
+                                    value={editClient}
+                                    onChange={(e: React.ChangeEvent<HTMLInputElement>) => setEditClient(e.target.value)}
+                                    className="shadow appearance-none border rounded-md w-full py-2 px-3 text-gray-700 leading-tight focus:outline-none focus:shadow-outline focus:ring-2 focus:ring-orange-500 focus:border-transparent"
+                                    list="incomeClientNames"
+                                />
+                            </div>
+                            <div>
+                                <label htmlFor="editIncomeAmount" className="block text-gray-700 text-sm font-bold mb-2">Amount ({editCurrency})</label>
+                                <input
+                                    type="number"
+                                    id="editIncomeAmount"
+                                    value={editAmount}
+                                    onChange={(e: React.ChangeEvent<HTMLInputElement>) => setEditAmount(e.target.value)}
+                                    className="shadow appearance-none border rounded-md w-full py-2 px-3 text-gray-700 leading-tight focus:outline-none focus:shadow-outline focus:ring-2 focus:ring-orange-500 focus:border-transparent"
+                                    step="0.01"
+                                    disabled={!!editingIncome.invoice}
+                                />
+                                {editingIncome.invoice && <p className="text-xs text-gray-500 mt-1">Set by invoice {editingIncome.invoice.number}, along with the due date.</p>}
+                            </div>
+                            <div>
+                                <label htmlFor="editIncomeCurrency" className="block text-gray-700 text-sm font-bold mb-2">Currency</label>
+                                <select
+                                    id="editIncomeCurrency"
+                                    value={editCurrency}
+                                    onChange={(e: React.ChangeEvent<HTMLSelectElement>) => setEditCurrency(e.target.value)}
+                                    className="shadow appearance-none border rounded-md w-full py-2 px-3 text-gray-700 leading-tight focus:outline-none focus:shadow-outline focus:ring-2 focus:ring-orange-500 focus:border-transparent"
+                                >
+                                    <CurrencyOptions currencies={currencyOptions.includes(editCurrency) ? currencyOptions : [editCurrency, ...currencyOptions]} />
+                                </select>
+                            </div>
+                            <div>
+                                <label htmlFor="editDueDate" className="block text-gray-700 text-sm font-bold mb-2">Due Date</label>
+                                <input
+                                    type="date"
+                                    id="editDueDate"
+                                    value={editDueDate}
+                                    onChange={(e: React.ChangeEvent<HTMLInputElement>) => setEditDueDate(e.target.value)}
+                                    className="shadow appearance-none border rounded-md w-full py-2 px-3 text-gray-700 leading-tight focus:outline-none focus:shadow-outline focus:ring-2 focus:ring-orange-500 focus:border-transparent"
+                                    disabled={!!editingIncome.invoice}
+                                />
+                            </div>
+                            <div>
+                                <label htmlFor="editStatus" className="block text-gray-700 text-sm font-bold mb-2">Status</label>
+                                <select
+                                    id="editStatus"
+                                    value={editStatus}
+                                    onChange={(e: React.ChangeEvent<HTMLSelectElement>) => {
+                                        const status = e.target.value as 'Outstanding' | 'Paid';
+                                        setEditStatus(status);
+                                        if (status === 'Paid' && !editPaidDate) setEditPaidDate(toDateInputValue(new Date()));
+                                    }}
+                                    className="shadow appearance-none border rounded-md w-full py-2 px-3 text-gray-700 leading-tight focus:outline-none focus:shadow-outline focus:ring-2 focus:ring-orange-500 focus:border-transparent"
+                                >
+                                    <option value="Outstanding">Outstanding</option>
+                                    <option value="Paid">Paid</option>
+                                </select>
+                            </div>
+                            {editStatus === 'Paid' && (
+                                <div>
+                                    <label htmlFor="editPaidDate" className="block text-gray-700 text-sm font-bold mb-2">Paid On</label>
+                                    <input
+                                        type="date"
+                                        id="editPaidDate"
+                                        value={editPaidDate}
+                                        onChange={(e: React.ChangeEvent<HTMLInputElement>) => setEditPaidDate(e.target.value)}
+                                        className="shadow appearance-none border rounded-md w-full py-2 px-3 text-gray-700 leading-tight focus:outline-none focus:shadow-outline focus:ring-2 focus:ring-orange-500 focus:border-transparent"
+                                    />
+                                    <p className="text-xs text-gray-500 mt-1">How late clients pay is learned from this date and used to forecast their outstanding invoices.</p>
                                 </div>
+                            )}
+                            {accounts.length > 0 && (
+                                <div>
+                                    <label htmlFor="editIncomeAccount" className="block text-gray-700 text-sm font-bold mb-2">Deposit To</label>
+                                    <select
+                                        id="editIncomeAccount"
+                                        value={editAccountId}
+                                        onChange={(e: React.ChangeEvent<HTMLSelectElement>) => setEditAccountId(e.target.value)}
+                                        className="shadow appearance-none border rounded-md w-full py-2 px-3 text-gray-700 leading-tight focus:outline-none focus:shadow-outline focus:ring-2 focus:ring-orange-500 focus:border-transparent"
+                                    >
+                                        <AccountOptions accounts={accounts} selectedId={editingIncome.accountId || defaultAccountId || undefined} />
+                                    </select>
+                                </div>
+                            )}
+                            <div>
+                                <label htmlFor="editIncomeBusinessDayRule" className="block text-gray-700 text-sm font-bold mb-2">If Due on a Weekend or Holiday</label>
+                                <select
+                                    id="editIncomeBusinessDayRule"
+                                    value={editBusinessDayRule}
+                                    onChange={(e: React.ChangeEvent<HTMLSelectElement>) => setEditBusinessDayRule(e.target.value as BusinessDayRule)}
+                                    className="shadow appearance-none border rounded-md w-full py-2 px-3 text-gray-700 leading-tight focus:outline-none focus:shadow-outline focus:ring-2 focus:ring-orange-500 focus:border-transparent"
+                                >
+                                    <BusinessDayRuleOptions />
+                                </select>
                             </div>
                         </div>
-
-                        <div className="flex justify-end mt-4 col-span-full">
-                            <button
-                                type="button"
-                                onClick={handleResetSalary}
-                                className="bg-red-500 hover:bg-red-600 text-white font-bold py-2 px-4 rounded-md transition duration-200 shadow-sm cursor-pointer disabled:opacity-70 disabled:cursor-not-allowed mr-3"
-                                disabled={isLoading}
-                            >
-                                {isLoading ? 'Resetting...' : 'Reset Salary Info'}
-                            </button>
-                            <button
-                                type="submit"
-                                className="bg-orange-500 hover:bg-orange-600 text-white font-bold py-2 px-4 rounded-md transition duration-200 shadow-sm cursor-pointer disabled:opacity-70 disabled:cursor-not-allowed"
-                                disabled={isLoading}
-                            >
-                                {isLoading ? 'Saving...' : 'Update Profile'}
-                            </button>
+                        <div>
+                            <h4 className="font-medium text-gray-800 mb-2">Change History</h4>
+                            <RecordHistory history={editingIncome.history} />
+                            <p className="text-xs text-gray-500 mt-2">Recorded on: {editingIncome.createdAt.toLocaleString()}</p>
                         </div>
-                    </form>
-                </div>
-
-                {/* Right Column: Financial Summary Cards */}
-                <div className="flex flex-col gap-6">
-                     {/* Current Cash Balance Card */}
-                    <div className="bg-white rounded-lg shadow-md p-6 border-b-4 border-orange-500 w-full">
-                        <h2 className="text-lg font-semibold text-gray-700 mb-2">Current Cash Balance</h2>
-                        <p className="text-3xl font-bold text-orange-600">
-                            PHP {currentCashBalanceValue.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
-                        </p>
                     </div>
+                )}
+            </Modal>
 
-                    {/* Projected Short-Term Balance Card */}
-                    <div className="bg-white rounded-lg shadow-md p-6 border-b-4 border-slate-700 w-full">
-                        <h2 className="text-lg font-semibold text-gray-700 mb-2">Projected Short-Term Balance</h2>
-                        <p className="text-3xl font-bold text-slate-800">
-                            PHP {projectedShortTermBalanceValue.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
-                        </p>
-                    </div>
+            {/* Modals for alerts and confirmations */}
+            <Modal
+                isOpen={isModalOpen}
+                title={modalTitle}
+                message={modalMessage}
+                onClose={() => setIsModalOpen(false)}
+            />
+            <Modal
+                isOpen={isConfirmModalOpen}
+                title={modalTitle}
+                message={modalMessage}
+                onClose={() => setIsConfirmModalOpen(false)}
+                onConfirm={confirmDelete}
+                showConfirmButton={true}
+            />
+        </div>
+    );
+};
 
-                    {/* Upcoming Income Card */}
-                    <div className="bg-white rounded-lg shadow-md p-6 border-b-4 border-emerald-700 w-full">
-                        <h2 className="text-lg font-semibold text-gray-700 mb-2">Upcoming Income (Next 30 Days)</h2>
-                        <p className="text-2xl font-bold text-emerald-800 mb-2">
-                            PHP {totalUpcomingIncomesAmount.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
-                        </p>
-                        {upcomingIncomesForDisplay.length === 0 ? (
-                            <p className="text-sm text-gray-600">No outstanding invoices or estimated salary.</p>
-                        ) : (
-                            <ul className="list-none p-0 m-0 text-sm text-gray-800">
-                                {upcomingIncomesForDisplay.map((income: IncomeItem) => (
-                                    <li key={income.id} className="flex justify-between items-center py-0.5">
-                                        <span>{income.client}</span>
-                                        <span className="text-xs text-gray-500">{income.dueDate.toLocaleDateString()}</span>
-                                    </li>
-                                ))}
-                            </ul>
-                        )}
-                    </div>
 
-                    {/* Upcoming Expenses Card */}
-                    <div className="bg-white rounded-lg shadow-md p-6 border-b-4 border-amber-700 w-full">
-                        <h2 className="text-lg font-semibold text-gray-700 mb-2">Upcoming Expenses (Next 30 Days)</h2>
-                        <p className="text-2xl font-bold text-amber-800 mb-2">
-                            PHP {totalUpcomingExpensesAmount.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
-                        </p>
-                        {upcomingExpensesForDisplay.length === 0 ? (
+// --- Component: InvoiceEditor (Consolidated) ---
+// Line items are edited as text and parsed on save
+type InvoiceLineInput = { id: string; description: string; quantity: string; unitPrice: string };
+
+const InvoiceEditor: React.FC<InvoiceEditorProps> = ({ income, userProfile, clients, accounts, defaultAccountId, baseCurrency, currencyOptions, saveInvoice, onSaved, onClose }) => {
+    const settings = getInvoiceSettings(userProfile);
+    const invoice = income?.invoice;
+    const [client, setClient] = useState<string>(income?.client || '');
+    const [clientAddress, setClientAddress] = useState<string>(invoice?.clientAddress || '');
+    const [clientEmail, setClientEmail] = useState<string>(invoice?.clientEmail || '');
+    const [clientTaxId, setClientTaxId] = useState<string>(invoice?.clientTaxId || '');
+    const [number, setNumber] = useState<string>(invoice?.number || formatInvoiceNumber(settings, settings.nextNumber));
+    const [issueDate, setIssueDate] = useState<string>(toDateInputValue(invoice?.issueDate || new Date()));
+    const [paymentTermsDays, setPaymentTermsDays] = useState<string>(String(invoice?.paymentTermsDays ?? settings.defaultPaymentTermsDays));
+    const [currency, setCurrency] = useState<string>(income ? getRecordCurrency(income) : baseCurrency);
+    const [accountId, setAccountId] = useState<string>(income?.accountId || defaultAccountId || '');
+    // An income without an invoice starts as one line for its amount
+    const [lines, setLines] = useState<InvoiceLineInput[]>(invoice
+        ? invoice.lineItems.map(line => ({ id: line.id, description: line.description, quantity: String(line.quantity), unitPrice: String(line.unitPrice) }))
+        : [{ id: crypto.randomUUID(), description: '', quantity: '1', unitPrice: income ? String(income.amount) : '' }]);
+    const [taxType, setTaxType] = useState<InvoiceTaxType>(invoice?.taxType || settings.defaultTaxType);
+    const [taxRate, setTaxRate] = useState<string>(String(invoice?.taxRate ?? settings.defaultTaxRate));
+    const [notes, setNotes] = useState<string>(invoice?.notes || '');
+    const [status, setStatus] = useState<InvoiceStatus>(invoice?.status || (income?.status === 'Paid' ? 'paid' : 'draft'));
+    const [error, setError] = useState<string>('');
+    const [isSaving, setIsSaving] = useState<boolean>(false);
+
+    const lineItems: InvoiceLineItem[] = lines.map(line => ({
+        id: line.id,
+        description: line.description.trim(),
+        quantity: parseFloat(line.quantity) || 0,
+        unitPrice: parseFloat(line.unitPrice) || 0,
+    }));
+    const totals = getInvoiceTotals({ lineItems, taxType, taxRate: parseFloat(taxRate) || 0 });
+    const formatAmount = (amount: number) => `${currency} ${amount.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+    // Picking a directory client fills in the details left empty, and its terms on a new invoice
+    const handleClientChange = (value: string) => {
+        setClient(value);
+        const match = findClientByName(clients, value);
+        if (!match) return;
+        if (!clientAddress) setClientAddress(match.address);
+        if (!clientEmail) setClientEmail(match.email);
+        if (!clientTaxId) setClientTaxId(match.taxId);
+        if (!invoice && match.defaultPaymentTermsDays !== null) setPaymentTermsDays(String(match.defaultPaymentTermsDays));
+    };
+
+    const updateLine = (id: string, changes: Partial<InvoiceLineInput>) =>
+        setLines(current => current.map(line => (line.id === id ? { ...line, ...changes } : line)));
+
+    const handleTaxTypeChange = (value: InvoiceTaxType) => {
+        setTaxType(value);
+        setTaxRate(String(value === settings.defaultTaxType ? settings.defaultTaxRate : defaultInvoiceTaxRates[value]));
+    };
+
+    const validate = (): string | null => {
+        if (!client.trim()) return "Enter the client's name.";
+        if (!number.trim()) return "Enter an invoice number.";
+        if (!issueDate) return "Enter the issue date.";
+        const terms = parseInt(paymentTermsDays);
+        if (isNaN(terms) || terms < 0 || String(terms) !== paymentTermsDays.trim()) return "Payment terms must be a whole number of days, zero or more.";
+        if (lines.some(line => !line.description.trim() || isNaN(parseFloat(line.quantity)) || parseFloat(line.quantity) <= 0 || isNaN(parseFloat(line.unitPrice)) || parseFloat(line.unitPrice) < 0)) {
+            return "Every line needs a description, a quantity above zero and a unit price of zero or more.";
+        }
+        const rate = parseFloat(taxRate);
+        if (taxType !== 'none' && (isNaN(rate) || rate < 0 || rate > 100)) return "The tax rate must be between 0 and 100 percent.";
+        if (totals.total <= 0) return "The invoice total must be more than zero.";
+        return null;
+    };
+
+    const handleSave = async () => {
+        const validationError = validate();
+        if (validationError) {
+            setError(validationError);
+            return;
+        }
+        setIsSaving(true);
+        setError('');
+        try {
+            await saveInvoice({
+                number: number.trim(),
+                issueDate: parseDateInput(issueDate),
+                paymentTermsDays: parseInt(paymentTermsDays),
+                lineItems,
+                taxType,
+                taxRate: taxType === 'none' ? 0 : parseFloat(taxRate),
+                status,
+                clientAddress: clientAddress.trim(),
+                clientEmail: clientEmail.trim(),
+                clientTaxId: clientTaxId.trim(),
+                notes: notes.trim(),
+            }, {
+                client: client.trim(),
+                currency,
+                ...(accountId ? { accountId } : {}),
+            }, income?.id);
+            onSaved(`Invoice ${number.trim()} saved.`);
+        } catch (error: unknown) {
+            setError(`Failed to save the invoice: ${(error as Error).message}`);
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    return (
+        <Modal
+            isOpen={true}
+            title={invoice ? `Invoice ${invoice.number}` : income ? `Invoice for ${income.client}` : 'New Invoice'}
+            message=""
+            onClose={onClose}
+            onConfirm={isSaving ? undefined : handleSave}
+            showConfirmButton={true}
+            confirmLabel={isSaving ? 'Saving...' : 'Save Invoice'}
+        >
+            <div className="space-y-4 max-h-[65vh] overflow-y-auto pr-1">
+                <div className="grid grid-cols-1 gap-4 md:grid-cols-3">
+                    <div>
+                        <label htmlFor="invoiceNumber" className="block text-gray-700 text-sm font-bold mb-2">Invoice Number</label>
+                        <input type="text" id="invoiceNumber" value={number} onChange={(e: React.ChangeEvent<HTMLInputElement>) => setNumber(e.target.value)} className="shadow appearance-none border rounded-md w-full py-2 px-3 text-gray-700 leading-tight focus:outline-none focus:shadow-outline focus:ring-2 focus:ring-orange-500 focus:border-transparent" />
+                    </div>
+                    <div>
+                        <label htmlFor="invoiceIssueDate" className="block text-gray-700 text-sm font-bold mb-2">Issue Date</label>
+                        <input type="date" id="invoiceIssueDate" value={issueDate} onChange={(e: React.ChangeEvent<HTMLInputElement>) => setIssueDate(e.target.value)} className="shadow appearance-none border rounded-md w-full py-2 px-3 text-gray-700 leading-tight focus:outline-none focus:shadow-outline focus:ring-2 focus:ring-orange-500 focus:border-transparent" />
+                    </div>
+                    <div>
+                        <label htmlFor="invoiceTerms" className="block text-gray-700 text-sm font-bold mb-2">Payment Terms (Days)</label>
+                        <input type="number" id="invoiceTerms" value={paymentTermsDays} onChange={(e: React.ChangeEvent<HTMLInputElement>) => setPaymentTermsDays(e.target.value)} className="shadow appearance-none border rounded-md w-full py-2 px-3 text-gray-700 leading-tight focus:outline-none focus:shadow-outline focus:ring-2 focus:ring-orange-500 focus:border-transparent" min="0" step="1" />
+                        {issueDate && !isNaN(parseInt(paymentTermsDays)) && (
+                            <p className="text-xs text-gray-500 mt-1">
+                                {describePaymentTerms(parseInt(paymentTermsDays))}: due {addDays(parseDateInput(issueDate), parseInt(paymentTermsDays)).toLocaleDateString()}
+                            </p>
+                        )}
+                    </div>
+                </div>
+
+                <div className="grid grid-cols-1 gap-4 md:grid-cols-2">
+                    <div>
+                        <label htmlFor="invoiceClient" className="block text-gray-700 text-sm font-bold mb-2">Client Name</label>
+                        <input type="text" id="invoiceClient" value={client} onChange={(e: React.ChangeEvent<HTMLInputElement>) => handleClientChange(e.target.value)} className="shadow appearance-none border rounded-md w-full py-2 px-3 text-gray-700 leading-tight focus:outline-none focus:shadow-outline focus:ring-2 focus:ring-orange-500 focus:border-transparent" list="invoiceClientNames" />
+                        <ClientNameList id="invoiceClientNames" clients={clients} />
+                    </div>
+                    <div>
+                        <label htmlFor="invoiceClientEmail" className="block text-gray-700 text-sm font-bold mb-2">Client Email</label>
+                        <input type="email" id="invoiceClientEmail" value={clientEmail} onChange={(e: React.ChangeEvent<HTMLInputElement>) => setClientEmail(e.target.value)} className="shadow appearance-none border rounded-md w-full py-2 px-3 text-gray-700 leading-tight focus:outline-none focus:shadow-outline focus:ring-2 focus:ring-orange-500 focus:border-transparent" />
+                    </div>
+                    <div>
+                        <label htmlFor="invoiceClientAddress" className="block text-gray-700 text-sm font-bold mb-2">Client Address</label>
+                        <textarea id="invoiceClientAddress" value={clientAddress} onChange={(e: React.ChangeEvent<HTMLTextAreaElement>) => setClientAddress(e.target.value)} className="shadow appearance-none border rounded-md w-full py-2 px-3 text-gray-700 leading-tight focus:outline-none focus:shadow-outline focus:ring-2 focus:ring-orange-500 focus:border-transparent" rows={2} />
+                    </div>
+                    <div>
+                        <label htmlFor="invoiceClientTaxId" className="block text-gray-700 text-sm font-bold mb-2">Client TIN</label>
+                        <input type="text" id="invoiceClientTaxId" value={clientTaxId} onChange={(e: React.ChangeEvent<HTMLInputElement>) => setClientTaxId(e.target.value)} className="shadow appearance-none border rounded-md w-full py-2 px-3 text-gray-700 leading-tight focus:outline-none focus:shadow-outline focus:ring-2 focus:ring-orange-500 focus:border-transparent" />
+                    </div>
+                </div>
+
+                <div>
+                    <h4 className="font-medium text-gray-800 mb-2">Line Items</h4>
+                    <div className="space-y-2">
+                        {lines.map(line => (
+                            <div key={line.id} className="grid grid-cols-12 gap-2 items-center">
+                                <input
+                                    type="text"
+                                    value={line.description}
+                                    onChange={(e: React.ChangeEvent<HTMLInputElement>) => updateLine(line.id, { description: e.target.value })}
+                                    className="col-span-12 sm:col-span-5 shadow appearance-none border rounded-md w-full py-2 px-3 text-gray-700 leading-tight focus:outline-none focus:shadow-outline focus:ring-2 focus:ring-orange-500 focus:border-transparent"
+                                    placeholder="Description"
+                                    aria-label="Description"
+                                />
+                                <input
+                                    type="number"
+                                    value={line.quantity}
+                                    onChange={(e: React.ChangeEvent<HTMLInputElement>) => updateLine(line.id, { quantity: e.target.value })}
+                                    className="col-span-3 sm:col-span-2 shadow appearance-none border rounded-md w-full py-2 px-3 text-gray-700 leading-tight focus:outline-none focus:shadow-outline focus:ring-2 focus:ring-orange-500 focus:border-transparent"
+                                    min="0"
+                                    step="any"
+                                    aria-label="Quantity"
+                                />
+                                <input
+                                    type="number"
+                                    value={line.unitPrice}
+                                    onChange={(e: React.ChangeEvent<HTMLInputElement>) => updateLine(line.id, { unitPrice: e.target.value })}
+                                    className="col-span-4 sm:col-span-2 shadow appearance-none border rounded-md w-full py-2 px-3 text-gray-700 leading-tight focus:outline-none focus:shadow-outline focus:ring-2 focus:ring-orange-500 focus:border-transparent"
+                                    min="0"
+                                    step="0.01"
+                                    placeholder="Unit price"
+                                    aria-label="Unit price"
+                                />
+                                <span className="col-span-3 sm:col-span-2 text-sm text-gray-800 text-right">
+                                    {formatAmount(roundToCents((parseFloat(line.quantity) || 0) * (parseFloat(line.unitPrice) || 0)))}
+                                </span>
+                                <button
+                                    onClick={() => setLines(current => current.filter(item => item.id !== line.id))}
+                                    className="col-span-2 sm:col-span-1 text-sm font-medium text-orange-700 hover:text-orange-900 transition duration-200 disabled:opacity-40"
+                                    disabled={lines.length === 1}
+                                    aria-label="Remove line"
+                                >
+                                    ✕
+                                </button>
+                            </div>
+                        ))}
+                    </div>
+                    <button
+                        onClick={() => setLines(current => [...current, { id: crypto.randomUUID(), description: '', quantity: '1', unitPrice: '' }])}
+                        className="mt-2 px-2 py-1 text-sm font-medium text-blue-700 hover:text-blue-900 transition duration-200"
+                    >
+                        + Add Line
+                    </button>
+                </div>
+
+                <div className="grid grid-cols-1 gap-4 md:grid-cols-3">
+                    <div>
+                        <label htmlFor="invoiceTaxType" className="block text-gray-700 text-sm font-bold mb-2">Tax</label>
+                        <select id="invoiceTaxType" value={taxType} onChange={(e: React.ChangeEvent<HTMLSelectElement>) => handleTaxTypeChange(e.target.value as InvoiceTaxType)} className="shadow appearance-none border rounded-md w-full py-2 px-3 text-gray-700 leading-tight focus:outline-none focus:shadow-outline focus:ring-2 focus:ring-orange-500 focus:border-transparent">
+                            {(Object.keys(invoiceTaxLabels) as InvoiceTaxType[]).map(type => <option key={type} value={type}>{invoiceTaxLabels[type]}</option>)}
+                        </select>
+                    </div>
+                    {taxType !== 'none' && (
+                        <div>
+                            <label htmlFor="invoiceTaxRate" className="block text-gray-700 text-sm font-bold mb-2">Tax Rate (%)</label>
+                            <input type="number" id="invoiceTaxRate" value={taxRate} onChange={(e: React.ChangeEvent<HTMLInputElement>) => setTaxRate(e.target.value)} className="shadow appearance-none border rounded-md w-full py-2 px-3 text-gray-700 leading-tight focus:outline-none focus:shadow-outline focus:ring-2 focus:ring-orange-500 focus:border-transparent" min="0" max="100" step="0.01" />
+                        </div>
+                    )}
+                    <div>
+                        <label htmlFor="invoiceCurrency" className="block text-gray-700 text-sm font-bold mb-2">Currency</label>
+                        <select id="invoiceCurrency" value={currency} onChange={(e: React.ChangeEvent<HTMLSelectElement>) => setCurrency(e.target.value)} className="shadow appearance-none border rounded-md w-full py-2 px-3 text-gray-700 leading-tight focus:outline-none focus:shadow-outline focus:ring-2 focus:ring-orange-500 focus:border-transparent">
+                            <CurrencyOptions currencies={currencyOptions.includes(currency) ? currencyOptions : [currency, ...currencyOptions]} />
+                        </select>
+                    </div>
+                    {accounts.length > 0 && (
+                        <div>
+                            <label htmlFor="invoiceAccount" className="block text-gray-700 text-sm font-bold mb-2">Deposit To</label>
+                            <select id="invoiceAccount" value={accountId} onChange={(e: React.ChangeEvent<HTMLSelectElement>) => setAccountId(e.target.value)} className="shadow appearance-none border rounded-md w-full py-2 px-3 text-gray-700 leading-tight focus:outline-none focus:shadow-outline focus:ring-2 focus:ring-orange-500 focus:border-transparent">
+                                <AccountOptions accounts={accounts} selectedId={income?.accountId || defaultAccountId || undefined} />
+                            </select>
+                        </div>
+                    )}
+                    <div>
+                        <label htmlFor="invoiceStatus" className="block text-gray-700 text-sm font-bold mb-2">Status</label>
+                        <select id="invoiceStatus" value={status} onChange={(e: React.ChangeEvent<HTMLSelectElement>) => setStatus(e.target.value as InvoiceStatus)} className="shadow appearance-none border rounded-md w-full py-2 px-3 text-gray-700 leading-tight focus:outline-none focus:shadow-outline focus:ring-2 focus:ring-orange-500 focus:border-transparent">
+                            {(Object.keys(invoiceStatusLabels) as InvoiceStatus[]).map(option => <option key={option} value={option}>{invoiceStatusLabels[option]}</option>)}
+                        </select>
+                    </div>
+                </div>
+
+                <div>
+                    <label htmlFor="invoiceNotes" className="block text-gray-700 text-sm font-bold mb-2">Notes</label>
+                    <textarea id="invoiceNotes" value={notes} onChange={(e: React.ChangeEvent<HTMLTextAreaElement>) => setNotes(e.target.value)} className="shadow appearance-none border rounded-md w-full py-2 px-3 text-gray-700 leading-tight focus:outline-none focus:shadow-outline focus:ring-2 focus:ring-orange-500 focus:border-transparent" rows={2} placeholder="e.g., bank details for payment" />
+                </div>
+
+                <div className="bg-gray-50 p-3 rounded-md text-sm text-gray-800 space-y-1">
+                    <div className="flex justify-between"><span>Subtotal</span><span>{formatAmount(totals.subtotal)}</span></div>
+                    {taxType !== 'none' && (
+                        <div className="flex justify-between"><span>{invoiceTaxLabels[taxType]} ({parseFloat(taxRate) || 0}%)</span><span>{formatAmount(totals.tax)}</span></div>
+                    )}
+                    <div className="flex justify-between font-bold"><span>Amount Due</span><span>{formatAmount(totals.total)}</span></div>
+                    <p className="text-xs text-gray-500">The income's amount, due date and status are taken from this invoice.</p>
+                </div>
+
+                {error && <p className="text-sm text-red-600">{error}</p>}
+            </div>
+        </Modal>
+    );
+};
+
+
+// --- Component: InvoiceSettingsEditor (Consolidated) ---
+const InvoiceSettingsEditor: React.FC<InvoiceSettingsEditorProps> = ({ userProfile, updateUserProfile }) => {
+    const settings = getInvoiceSettings(userProfile);
+    const [businessName, setBusinessName] = useState<string>(settings.businessName);
+    const [businessAddress, setBusinessAddress] = useState<string>(settings.businessAddress);
+    const [taxId, setTaxId] = useState<string>(settings.taxId);
+    const [numberPrefix, setNumberPrefix] = useState<string>(settings.numberPrefix);
+    const [nextNumber, setNextNumber] = useState<string>(String(settings.nextNumber));
+    const [paymentTermsDays, setPaymentTermsDays] = useState<string>(String(settings.defaultPaymentTermsDays));
+    const [taxType, setTaxType] = useState<InvoiceTaxType>(settings.defaultTaxType);
+    const [taxRate, setTaxRate] = useState<string>(String(settings.defaultTaxRate));
+    const [isSaving, setIsSaving] = useState<boolean>(false);
+    const [isModalOpen, setIsModalOpen] = useState<boolean>(false);
+    const [modalMessage, setModalMessage] = useState<string>('');
+    const [modalTitle, setModalTitle] = useState<string>('');
+
+    // Saving an invoice moves the next number on, so follow the profile
+    useEffect(() => {
+        setNextNumber(String(getInvoiceSettings(userProfile).nextNumber));
+    }, [userProfile]);
+
+    const showMessage = (title: string, message: string) => {
+        setModalTitle(title);
+        setModalMessage(message);
+        setIsModalOpen(true);
+    };
+
+    const handleSave = async (e: React.FormEvent) => {
+        e.preventDefault();
+        const sequence = parseInt(nextNumber);
+        const terms = parseInt(paymentTermsDays);
+        const rate = parseFloat(taxRate);
+        if (isNaN(sequence) || sequence < 1) {
+            showMessage("Input Error", "The next invoice number must be 1 or more.");
+            return;
+        }
+        if (isNaN(terms) || terms < 0) {
+            showMessage("Input Error", "Payment terms must be zero or more days.");
+            return;
+        }
+        if (taxType !== 'none' && (isNaN(rate) || rate < 0 || rate > 100)) {
+            showMessage("Input Error", "The tax rate must be between 0 and 100 percent.");
+            return;
+        }
+        setIsSaving(true);
+        try {
+            const updated: InvoiceSettings = {
+                businessName: businessName.trim(),
+                businessAddress: businessAddress.trim(),
+                taxId: taxId.trim(),
+                numberPrefix,
+                nextNumber: sequence,
+                defaultPaymentTermsDays: terms,
+                defaultTaxType: taxType,
+                defaultTaxRate: taxType === 'none' ? 0 : rate,
+            };
+            await updateUserProfile({ invoiceSettings: updated });
+            showMessage("Success!", `Invoice settings saved. The next invoice is ${formatInvoiceNumber(updated, sequence)}.`);
+        } catch (error: unknown) {
+            showMessage("Error", `Failed to save invoice settings: ${(error as Error).message}`);
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    return (
+        <div>
+            <form onSubmit={handleSave} className="grid grid-cols-1 gap-4 md:grid-cols-3">
+                <div>
+                    <label htmlFor="invoiceBusinessName" className="block text-gray-700 text-sm font-bold mb-2">Business Name</label>
+                    <input type="text" id="invoiceBusinessName" value={businessName} onChange={(e: React.ChangeEvent<HTMLInputElement>) => setBusinessName(e.target.value)} className="shadow appearance-none border rounded-md w-full py-2 px-3 text-gray-700 leading-tight focus:outline-none focus:shadow-outline focus:ring-2 focus:ring-orange-500 focus:border-transparent" placeholder={userProfile?.name || 'Your name'} />
+                </div>
+                <div>
+                    <label htmlFor="invoiceBusinessAddress" className="block text-gray-700 text-sm font-bold mb-2">Address</label>
+                    <textarea id="invoiceBusinessAddress" value={businessAddress} onChange={(e: React.ChangeEvent<HTMLTextAreaElement>) => setBusinessAddress(e.target.value)} className="shadow appearance-none border rounded-md w-full py-2 px-3 text-gray-700 leading-tight focus:outline-none focus:shadow-outline focus:ring-2 focus:ring-orange-500 focus:border-transparent" rows={2} />
+                </div>
+                <div>
+                    <label htmlFor="invoiceTaxIdSetting" className="block text-gray-700 text-sm font-bold mb-2">TIN</label>
+                    <input type="text" id="invoiceTaxIdSetting" value={taxId} onChange={(e: React.ChangeEvent<HTMLInputElement>) => setTaxId(e.target.value)} className="shadow appearance-none border rounded-md w-full py-2 px-3 text-gray-700 leading-tight focus:outline-none focus:shadow-outline focus:ring-2 focus:ring-orange-500 focus:border-transparent" />
+                </div>
+                <div>
+                    <label htmlFor="invoiceNumberPrefix" className="block text-gray-700 text-sm font-bold mb-2">Number Prefix</label>
+                    <input type="text" id="invoiceNumberPrefix" value={numberPrefix} onChange={(e: React.ChangeEvent<HTMLInputElement>) => setNumberPrefix(e.target.value)} className="shadow appearance-none border rounded-md w-full py-2 px-3 text-gray-700 leading-tight focus:outline-none focus:shadow-outline focus:ring-2 focus:ring-orange-500 focus:border-transparent" />
+                </div>
+                <div>
+                    <label htmlFor="invoiceNextNumber" className="block text-gray-700 text-sm font-bold mb-2">Next Number</label>
+                    <input type="number" id="invoiceNextNumber" value={nextNumber} onChange={(e: React.ChangeEvent<HTMLInputElement>) => setNextNumber(e.target.value)} className="shadow appearance-none border rounded-md w-full py-2 px-3 text-gray-700 leading-tight focus:outline-none focus:shadow-outline focus:ring-2 focus:ring-orange-500 focus:border-transparent" min="1" step="1" />
+                    {!isNaN(parseInt(nextNumber)) && (
+                        <p className="text-xs text-gray-500 mt-1">Next invoice: {formatInvoiceNumber({ ...settings, numberPrefix }, parseInt(nextNumber))}</p>
+                    )}
+                </div>
+                <div>
+                    <label htmlFor="invoiceDefaultTerms" className="block text-gray-700 text-sm font-bold mb-2">Default Payment Terms (Days)</label>
+                    <input type="number" id="invoiceDefaultTerms" value={paymentTermsDays} onChange={(e: React.ChangeEvent<HTMLInputElement>) => setPaymentTermsDays(e.target.value)} className="shadow appearance-none border rounded-md w-full py-2 px-3 text-gray-700 leading-tight focus:outline-none focus:shadow-outline focus:ring-2 focus:ring-orange-500 focus:border-transparent" min="0" step="1" />
+                </div>
+                <div>
+                    <label htmlFor="invoiceDefaultTaxType" className="block text-gray-700 text-sm font-bold mb-2">Default Tax</label>
+                    <select
+                        id="invoiceDefaultTaxType"
+                        value={taxType}
+                        onChange={(e: React.ChangeEvent<HTMLSelectElement>) => {
+                            const type = e.target.value as InvoiceTaxType;
+                            setTaxType(type);
+                            setTaxRate(String(defaultInvoiceTaxRates[type]));
+                        }}
+                        className="shadow appearance-none border rounded-md w-full py-2 px-3 text-gray-700 leading-tight focus:outline-none focus:shadow-outline focus:ring-2 focus:ring-orange-500 focus:border-transparent"
+                    >
+                        {(Object.keys(invoiceTaxLabels) as InvoiceTaxType[]).map(type => <option key={type} value={type}>{invoiceTaxLabels[type]}</option>)}
+                    </select>
+                </div>
+                {taxType !== 'none' && (
+                    <div>
+                        <label htmlFor="invoiceDefaultTaxRate" className="block text-gray-700 text-sm font-bold mb-2">Tax Rate (%)</label>
+                        <input type="number" id="invoiceDefaultTaxRate" value={taxRate} onChange={(e: React.ChangeEvent<HTMLInputElement>) => setTaxRate(e.target.value)} className="shadow appearance-none border rounded-md w-full py-2 px-3 text-gray-700 leading-tight focus:outline-none focus:shadow-outline focus:ring-2 focus:ring-orange-500 focus:border-transparent" min="0" max="100" step="0.01" />
+                    </div>
+                )}
+                <div className="col-span-full flex justify-end">
+                    <button
+                        type="submit"
+                        className="bg-orange-500 hover:bg-orange-600 text-white font-bold py-2 px-4 rounded-md transition duration-200 shadow-sm cursor-pointer disabled:opacity-70 disabled:cursor-not-allowed"
+                        disabled={isSaving}
+                    >
+                        Save Invoice Settings
+                    </button>
+                </div>
+            </form>
+
+            <Modal
+                isOpen={isModalOpen}
+                onClose={() => setIsModalOpen(false)}
+                title={modalTitle}
+                message={modalMessage}
+            />
+        </div>
+    );
+};
+
+
+// --- Component: ExpenseCategoryOptions (Consolidated) ---
+// <option> list for category selects, with subcategories indented under their parent.
+const ExpenseCategoryOptions: React.FC<ExpenseCategoryOptionsProps> = ({ categories }) => (
+    <>
+        {getOrderedExpenseCategories(categories).map(({ category, depth }) => (
+            <option key={category.id} value={category.name}>
+                {'\u00A0'.repeat(depth * 4)}{category.icon} {category.name}
+            </option>
+        ))}
+    </>
+);
+
+
+// --- Component: ExpenseCategoryManager (Consolidated) ---
+const ExpenseCategoryManager: React.FC<ExpenseCategoryManagerProps> = ({ expenseCategories, expenses, recurringExpenses, saveExpenseCategories, updateExpenseCategory, mergeExpenseCategories }) => {
+    const [newName, setNewName] = useState<string>('');
+    const [newParentId, setNewParentId] = useState<string>('');
+    const [newColor, setNewColor] = useState<string>(categoryColorPalette[0]);
+    const [newIcon, setNewIcon] = useState<string>(expenseCategoryIcons[0]);
+    const [editingId, setEditingId] = useState<string | null>(null);
+    const [editName, setEditName] = useState<string>('');
+    const [editParentId, setEditParentId] = useState<string>('');
+    const [editColor, setEditColor] = useState<string>('');
+    const [editIcon, setEditIcon] = useState<string>('');
+    const [mergeSourceId, setMergeSourceId] = useState<string>('');
+    const [mergeTargetId, setMergeTargetId] = useState<string>('');
+    const [isSaving, setIsSaving] = useState<boolean>(false);
+    const [isModalOpen, setIsModalOpen] = useState<boolean>(false);
+    const [isConfirmModalOpen, setIsConfirmModalOpen] = useState<boolean>(false);
+    const [modalMessage, setModalMessage] = useState<string>('');
+    const [modalTitle, setModalTitle] = useState<string>('');
+
+    const topLevelCategories = expenseCategories.filter(category => category.parentId === null);
+    const usageCount = (name: string) =>
+        expenses.filter(exp => exp.category === name).length + recurringExpenses.filter(rec => rec.category === name).length;
+
+    const showMessage = (title: string, message: string) => {
+        setModalTitle(title);
+        setModalMessage(message);
+        setIsModalOpen(true);
+    };
+
+    // Runs a save and reports the outcome in the modal
+    const runSave = async (action: () => Promise<void>, successMessage: string) => {
+        setIsSaving(true);
+        try {
+            await action();
+            showMessage("Success!", successMessage);
+        } catch (error: unknown) {
+            showMessage("Error", `Failed to update categories: ${(error as Error).message}`);
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const handleAdd = async (e: React.FormEvent) => {
+        e.preventDefault();
+        const name = newName.trim();
+        if (!name) {
+            showMessage("Input Error", "Please enter a category name.");
+            return;
+        }
+        if (expenseCategories.some(category => category.name.toLowerCase() === name.toLowerCase())) {
+            showMessage("Input Error", `A category named "${name}" already exists.`);
+            return;
+        }
+        await runSave(() => saveExpenseCategories([
+            ...expenseCategories,
+            { id: crypto.randomUUID(), name, parentId: newParentId || null, color: newColor, icon: newIcon },
+        ]), `Category ${name} added.`);
+        setNewName('');
+        setNewParentId('');
+    };
+
+    const handleEditClick = (category: ExpenseCategory) => {
+        setEditingId(category.id);
+        setEditName(category.name);
+        setEditParentId(category.parentId || '');
+        setEditColor(category.color);
+        setEditIcon(category.icon);
+    };
+
+    const handleSaveEdit = async () => {
+        if (!editingId) return;
+        await runSave(
+            () => updateExpenseCategory(editingId, { name: editName, parentId: editParentId || null, color: editColor, icon: editIcon }),
+            "Category updated. Existing expenses now use the new details."
+        );
+        setEditingId(null);
+    };
+
+    const handleDelete = async (category: ExpenseCategory) => {
+        await runSave(() => saveExpenseCategories(expenseCategories.filter(c => c.id !== category.id)), `Category ${category.name} deleted.`);
+    };
+
+    const handleMergeClick = () => {
+        const source = expenseCategories.find(c => c.id === mergeSourceId);
+        const target = expenseCategories.find(c => c.id === mergeTargetId);
+        if (!source || !target || source.id === target.id) {
+            showMessage("Input Error", "Please choose two different categories to merge.");
+            return;
+        }
+        setModalTitle("Confirm Merge");
+        setModalMessage(`Move all ${usageCount(source.name)} expense(s) and schedule(s) from ${source.name} into ${target.name} and delete ${source.name}? This cannot be undone.`);
+        setIsConfirmModalOpen(true);
+    };
+
+    const confirmMerge = async () => {
+        setIsConfirmModalOpen(false);
+        await runSave(() => mergeExpenseCategories(mergeSourceId, mergeTargetId), "Categories merged.");
+        setMergeSourceId('');
+        setMergeTargetId('');
+    };
+
+    const inputClassName = "shadow appearance-none border rounded-md w-full py-2 px-3 text-gray-700 leading-tight focus:outline-none focus:shadow-outline focus:ring-2 focus:ring-orange-500 focus:border-transparent";
+
+    return (
+        <div className="bg-white rounded-lg shadow-md p-6 mb-8">
+            <h2 className="text-xl font-semibold text-gray-700 mb-4">Expense Categories</h2>
+
+            <form onSubmit={handleAdd} className="grid grid-cols-1 md:grid-cols-4 gap-4 mb-6 items-end">
+                <div className="md:col-span-2">
+                    <label htmlFor="newCategoryName" className="block text-gray-700 text-sm font-bold mb-2">New Category</label>
+                    <input
+                        type="text"
+                        id="newCategoryName"
+                        value={newName}
+                        onChange={(e: React.ChangeEvent<HTMLInputElement>) => setNewName(e.target.value)}
+                        className={inputClassName}
+                        placeholder="e.g., Groceries"
+                    />
+                </div>
+                <div className="md:col-span-2">
+                    <label htmlFor="newCategoryParent" className="block text-gray-700 text-sm font-bold mb-2">Parent Category</label>
+                    <select
+                        id="newCategoryParent"
+                        value={newParentId}
+                        onChange={(e: React.ChangeEvent<HTMLSelectElement>) => setNewParentId(e.target.value)}
+                        className={inputClassName}
+                    >
+                        <option value="">None (top-level)</option>
+                        {topLevelCategories.map(category => (
+                            <option key={category.id} value={category.id}>{category.icon} {category.name}</option>
+                        ))}
+                    </select>
+                </div>
+                <div>
+                    <label htmlFor="newCategoryIcon" className="block text-gray-700 text-sm font-bold mb-2">Icon</label>
+                    <select
+                        id="newCategoryIcon"
+                        value={newIcon}
+                        onChange={(e: React.ChangeEvent<HTMLSelectElement>) => setNewIcon(e.target.value)}
+                        className={inputClassName}
+                    >
+                        {expenseCategoryIcons.map(icon => (
+                            <option key={icon} value={icon}>{icon}</option>
+                        ))}
+                    </select>
+                </div>
+                <div>
+                    <label htmlFor="newCategoryColor" className="block text-gray-700 text-sm font-bold mb-2">Color</label>
+                    <input
+                        type="color"
+                        id="newCategoryColor"
+                        value={newColor}
+                        onChange={(e: React.ChangeEvent<HTMLInputElement>) => setNewColor(e.target.value)}
+                        className="h-10 w-full rounded-md border cursor-pointer"
+                    />
+                </div>
+                <div className="md:col-span-2 flex justify-end">
+                    <button
+                        type="submit"
+                        className="bg-orange-500 hover:bg-orange-600 text-white font-bold py-2 px-6 rounded-md focus:outline-none focus:shadow-outline transition duration-200 shadow-md cursor-pointer disabled:opacity-70 disabled:cursor-not-allowed"
+                        disabled={isSaving}
+                    >
+                        Add Category
+                    </button>
+                </div>
+            </form>
+
+            <ul className="space-y-2 mb-6">
+                {getOrderedExpenseCategories(expenseCategories).map(({ category, depth }) => (
+                    <li key={category.id} className={`border-b border-gray-100 py-2 ${depth > 0 ? 'pl-8' : ''}`}>
+                        {editingId === category.id ? (
+                            <div className="grid grid-cols-1 md:grid-cols-5 gap-2 items-center">
+                                <input
+                                    type="text"
+                                    value={editName}
+                                    onChange={(e: React.ChangeEvent<HTMLInputElement>) => setEditName(e.target.value)}
+                                    className={inputClassName}
+                                />
+                                <select
+                                    value={editParentId}
+                                    onChange={(e: React.ChangeEvent<HTMLSelectElement>) => setEditParentId(e.target.value)}
+                                    className={inputClassName}
+                                >
+                                    <option value="">None (top-level)</option>
+                                    {topLevelCategories.filter(parent => parent.id !== category.id).map(parent => (
+                                        <option key={parent.id} value={parent.id}>{parent.icon} {parent.name}</option>
+                                    ))}
+                                </select>
+                                <select
+                                    value={editIcon}
+                                    onChange={(e: React.ChangeEvent<HTMLSelectElement>) => setEditIcon(e.target.value)}
+                                    className={inputClassName}
+                                >
+                                    {Array.from(new Set([editIcon, ...expenseCategoryIcons])).map(icon => (
+                                        <option key={icon} value={icon}>{icon}</option>
+                                    ))}
+                                </select>
+                                <input
+                                    type="color"
+                                    value={editColor}
+                                    onChange={(e: React.ChangeEvent<HTMLInputElement>) => setEditColor(e.target.value)}
+                                    className="h-10 w-full rounded-md border cursor-pointer"
+                                />
+                                <div className="flex space-x-2">
+                                    <button
+                                        onClick={handleSaveEdit}
+                                        className="px-2 py-1 text-sm font-medium text-emerald-700 hover:text-emerald-900 transition duration-200"
+                                        disabled={isSaving}
+                                    >
+                                        Save
+                                    </button>
+                                    <button
+                                        onClick={() => setEditingId(null)}
+                                        className="px-2 py-1 text-sm font-medium text-gray-600 hover:text-gray-800 transition duration-200"
+                                    >
+                                        Cancel
+                                    </button>
+                                </div>
+                            </div>
+                        ) : (
+                            <div className="flex flex-wrap justify-between items-center">
+                                <span className="flex items-center text-gray-800">
+                                    <span className="inline-block w-3 h-3 rounded-full mr-2" style={{ backgroundColor: category.color }} />
+                                    <span className="mr-2">{category.icon}</span>
+                                    <span className="font-medium">{category.name}</span>
+                                    <span className="ml-2 text-xs text-gray-500">({usageCount(category.name)} in use)</span>
+                                </span>
+                                <span className="flex space-x-2">
+                                    <button
+                                        onClick={() => handleEditClick(category)}
+                                        className="px-2 py-1 text-sm font-medium text-blue-700 hover:text-blue-900 transition duration-200"
+                                    >
+                                        Edit
+                                    </button>
+                                    {usageCount(category.name) === 0 && !expenseCategories.some(c => c.parentId === category.id) && (
+                                        <button
+                                            onClick={() => handleDelete(category)}
+                                            className="px-2 py-1 text-sm font-medium text-orange-700 hover:text-orange-900 transition duration-200"
+                                            disabled={isSaving}
+                                            title="Only unused categories without subcategories can be deleted"
+                                        >
+                                            Delete
+                                        </button>
+                                    )}
+                                </span>
+                            </div>
+                        )}
+                    </li>
+                ))}
+            </ul>
+
+            <h3 className="text-lg font-semibold text-gray-700 mb-2">Merge Categories</h3>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-center">
+                <select
+                    value={mergeSourceId}
+                    onChange={(e: React.ChangeEvent<HTMLSelectElement>) => setMergeSourceId(e.target.value)}
+                    className={inputClassName}
+                >
+                    <option value="">Merge this category...</option>
+                    {getOrderedExpenseCategories(expenseCategories).map(({ category }) => (
+                        <option key={category.id} value={category.id}>{category.icon} {category.name}</option>
+                    ))}
+                </select>
+                <select
+                    value={mergeTargetId}
+                    onChange={(e: React.ChangeEvent<HTMLSelectElement>) => setMergeTargetId(e.target.value)}
+                    className={inputClassName}
+                >
+                    <option value="">...into this category</option>
+                    {getOrderedExpenseCategories(expenseCategories).filter(({ category }) => category.id !== mergeSourceId).map(({ category }) => (
+                        <option key={category.id} value={category.id}>{category.icon} {category.name}</option>
+                    ))}
+                </select>
+                <button
+                    onClick={handleMergeClick}
+                    className="bg-gray-200 hover:bg-gray-300 text-gray-800 font-bold py-2 px-4 rounded-md transition duration-200 cursor-pointer disabled:opacity-70 disabled:cursor-not-allowed"
+                    disabled={isSaving || !mergeSourceId || !mergeTargetId}
+                >
+                    Merge
+                </button>
+            </div>
+
+            <Modal
+                isOpen={isModalOpen}
+                title={modalTitle}
+                message={modalMessage}
+                onClose={() => setIsModalOpen(false)}
+            />
+            <Modal
+                isOpen={isConfirmModalOpen}
+                title={modalTitle}
+                message={modalMessage}
+                onClose={() => setIsConfirmModalOpen(false)}
+                onConfirm={confirmMerge}
+                showConfirmButton={true}
+            />
+        </div>
+    );
+};
+
+
+// --- Component: Expense (Consolidated) ---
+const Expense: React.FC<ExpenseComponentProps> = ({ addExpense, expenses, accounts, defaultAccountId, updateExpense, deleteExpense, addExpenseAttachments, removeExpenseAttachment, getExpenseAttachment, baseCurrency, currencyOptions, recurringExpenses, addRecurringExpense, deleteRecurringExpense, expenseCategories, saveExpenseCategories, updateExpenseCategory, mergeExpenseCategories }) => {
+    const [vendor, setVendor] = useState<string>('');
+    const [amount, setAmount] = useState<string>('');
+    const [currency, setCurrency] = useState<string>(baseCurrency);
+    const [category, setCategory] = useState<string>(expenseCategories[0]?.name || '');
+    const [date, setDate] = useState<string>('');
+    const [description, setDescription] = useState<string>('');
+    const [accountId, setAccountId] = useState<string>(defaultAccountId || '');
+
+    // Fall back to the first category when the selected one is renamed, merged away or not in a newly loaded profile
+    useEffect(() => {
+        if (!expenseCategories.some(c => c.name === category)) setCategory(expenseCategories[0]?.name || '');
+    }, [expenseCategories, category]);
+
+    // Fall back to the default account when the selected one is archived or deleted
+    useEffect(() => {
+        if (!accounts.some(account => account.id === accountId && !account.archived)) setAccountId(defaultAccountId || '');
+    }, [accounts, defaultAccountId, accountId]);
+    const [isModalOpen, setIsModalOpen] = useState<boolean>(false);
+    const [modalMessage, setModalMessage] = useState<string>('');
+    const [modalTitle, setModalTitle] = useState<string>('');
+    const [isConfirmModalOpen, setIsConfirmModalOpen] = useState<boolean>(false);
+    const [itemToDelete, setItemToDelete] = useState<string | null>(null);
+    const [scheduleToDelete, setScheduleToDelete] = useState<string | null>(null);
+
+    // State for recurring schedules
+    const [isRecurring, setIsRecurring] = useState<boolean>(false);
+    const [frequency, setFrequency] = useState<RecurrenceFrequency>('monthly');
+    const [endDate, setEndDate] = useState<string>('');
+    const [dayOfMonthRule, setDayOfMonthRule] = useState<DayOfMonthRule>('start-date');
+    const [dayOfMonth, setDayOfMonth] = useState<string>('1');
+
+    // New state for viewing expense details
+    const [isViewModalOpen, setIsViewModalOpen] = useState<boolean>(false);
+    const [selectedExpense, setSelectedExpense] = useState<ExpenseItem | null>(null);
+    const [isSavingReceipts, setIsSavingReceipts] = useState<boolean>(false);
+    const [receiptError, setReceiptError] = useState<string>('');
+
+    // State for editing an existing expense
+    const [editingExpense, setEditingExpense] = useState<ExpenseItem | null>(null);
+    const [editVendor, setEditVendor] = useState<string>('');
+    const [editAmount, setEditAmount] = useState<string>('');
+    const [editCategory, setEditCategory] = useState<string>('');
+    const [editDate, setEditDate] = useState<string>('');
+    const [editDescription, setEditDescription] = useState<string>('');
+    const [editCurrency, setEditCurrency] = useState<string>('');
+    const [editAccountId, setEditAccountId] = useState<string>('');
+
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        const validationError = validateExpenseForm(vendor, amount, category, date);
+        if (validationError) {
+            setModalTitle("Input Error");
+            setModalMessage(validationError);
+            setIsModalOpen(true);
+            return;
+        }
+        if (isRecurring && endDate && parseDateInput(endDate).getTime() < parseDateInput(date).getTime()) {
+            setModalTitle("Input Error");
+            setModalMessage("End date must be on or after the start date.");
+            setIsModalOpen(true);
+            return;
+        }
+        if (isRecurring && dayOfMonthRule === 'fixed-day' && (isNaN(parseInt(dayOfMonth)) || parseInt(dayOfMonth) < 1 || parseInt(dayOfMonth) > 31)) {
+            setModalTitle("Input Error");
+            setModalMessage("Day of month must be between 1 and 31.");
+            setIsModalOpen(true);
+            return;
+        }
+
+        try {
+            if (isRecurring) {
+                await addRecurringExpense({
+                    vendor,
+                    amount: parseFloat(amount),
+                    category,
+                    description,
+                    frequency,
+                    startDate: parseDateInput(date),
+                    endDate: endDate ? parseDateInput(endDate) : null,
+                    dayOfMonthRule,
+                    dayOfMonth: dayOfMonthRule === 'fixed-day' ? parseInt(dayOfMonth) : parseDateInput(date).getDate(),
+                    currency,
+                    ...(accountId ? { accountId } : {}),
+                });
+            } else {
+                await addExpense({
+                    vendor,
+                    amount: parseFloat(amount),
+                    category,
+                    date: parseDateInput(date),
+                    description,
+                    currency,
+                    ...(accountId ? { accountId } : {}),
+                });
+            }
+            setVendor('');
+            setAmount('');
+            setCurrency(baseCurrency);
+            setCategory(expenseCategories[0]?.name || '');
+            setDate('');
+            setDescription('');
+            setAccountId(defaultAccountId || '');
+            setIsRecurring(false);
+            setFrequency('monthly');
+            setEndDate('');
+            setDayOfMonthRule('start-date');
+            setDayOfMonth('1');
+            setModalTitle("Success!");
+            setModalMessage(isRecurring ? "Recurring expense schedule added successfully." : "Expense record added successfully.");
+            setIsModalOpen(true);
+        } catch (error: unknown) {
+            setModalTitle("Error");
+            setModalMessage(`Failed to add expense: ${(error as Error).message}`);
+            setIsModalOpen(true);
+        }
+    };
+
+    const handleDeleteClick = (id: string) => {
+        setItemToDelete(id);
+        setScheduleToDelete(null);
+        setIsConfirmModalOpen(true);
+        setModalTitle("Confirm Deletion");
+        setModalMessage("Are you sure you want to delete this expense record? This action cannot be undone.");
+    };
+
+    const handleDeleteScheduleClick = (id: string) => {
+        setScheduleToDelete(id);
+        setItemToDelete(null);
+        setIsConfirmModalOpen(true);
+        setModalTitle("Confirm Deletion");
+        setModalMessage("Are you sure you want to delete this recurring schedule? Its upcoming occurrences will no longer be projected.");
+    };
+
+    const confirmDelete = async () => {
+        if (!itemToDelete && !scheduleToDelete) return;
+        try {
+            if (scheduleToDelete) {
+                await deleteRecurringExpense(scheduleToDelete);
+                setModalMessage("Recurring schedule deleted successfully.");
+            } else if (itemToDelete) {
+                await deleteExpense(itemToDelete);
+                setModalMessage("Expense record deleted successfully.");
+            }
+            setModalTitle("Success!");
+            setIsModalOpen(true);
+        } catch (error: unknown) {
+            setModalTitle("Error");
+            setModalMessage(`Failed to delete: ${(error as Error).message}`);
+            setIsModalOpen(true);
+        } finally {
+            setIsConfirmModalOpen(false);
+            setItemToDelete(null);
+            setScheduleToDelete(null);
+        }
+    };
+
+    // Upcoming occurrences of recurring schedules (next 30 days) are listed alongside recorded expenses
+    const today = new Date();
+    today.setHours(0, 0, 0, 0);
+    const thirtyDaysFromNow = new Date(today);
+    thirtyDaysFromNow.setDate(today.getDate() + 30);
+    const upcomingOccurrences = getUpcomingRecurringExpenses(recurringExpenses, today, thirtyDaysFromNow)
+        .sort((a: ExpenseItem, b: ExpenseItem) => a.date.getTime() - b.date.getTime());
+    const upcomingOccurrenceIds = new Set(upcomingOccurrences.map(occurrence => occurrence.id));
+    const expenseRows = [...upcomingOccurrences, ...expenses];
+
+    const describeSchedule = (schedule: RecurringExpenseItem) => {
+        if (schedule.frequency === 'daily' || schedule.frequency === 'weekly') return schedule.frequency;
+        if (schedule.dayOfMonthRule === 'last-day') return `${schedule.frequency}, last day of month`;
+        return `${schedule.frequency}, day ${schedule.dayOfMonth}`;
+    };
+
+    // New function to handle viewing expense details
+    const handleViewDetails = (expense: ExpenseItem) => {
+        setSelectedExpense(expense);
+        setReceiptError('');
+        setIsViewModalOpen(true);
+    };
+
+    // The saved record, so receipts added or removed while the details are open show up
+    const viewedExpense = expenses.find(exp => exp.id === selectedExpense?.id) || selectedExpense;
+
+    const handleAttachReceipts = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const files = Array.from(e.target.files || []);
+        e.target.value = ''; // Allow re-selecting the same file
+        if (!viewedExpense || files.length === 0) return;
+        setIsSavingReceipts(true);
+        setReceiptError('');
+        try {
+            await addExpenseAttachments(viewedExpense.id, files);
+        } catch (error: unknown) {
+            setReceiptError(`Failed to attach: ${(error as Error).message}`);
+        } finally {
+            setIsSavingReceipts(false);
+        }
+    };
+
+    const handleRemoveReceipt = async (attachment: ReceiptAttachment) => {
+        if (!viewedExpense) return;
+        setIsSavingReceipts(true);
+        setReceiptError('');
+        try {
+            await removeExpenseAttachment(viewedExpense.id, attachment.id);
+        } catch (error: unknown) {
+            setReceiptError(`Failed to remove ${attachment.fileName}: ${(error as Error).message}`);
+        } finally {
+            setIsSavingReceipts(false);
+        }
+    };
+
+    // Opens the full file in a new tab; the link is released once the tab has had time to load it
+    const handleOpenReceipt = async (attachment: ReceiptAttachment) => {
+        setReceiptError('');
+        try {
+            const blob = await getExpenseAttachment(attachment);
+            if (!blob) {
+                setReceiptError(`${attachment.fileName} could not be found. It may have been saved on another device.`);
+                return;
+            }
+            const url = URL.createObjectURL(blob);
+            window.open(url, '_blank', 'noopener');
+            setTimeout(() => URL.revokeObjectURL(url), 60 * 1000);
+        } catch (error: unknown) {
+            setReceiptError(`Failed to open ${attachment.fileName}: ${(error as Error).message}`);
+        }
+    };
+
+    const handleEditClick = (expense: ExpenseItem) => {
+        setEditingExpense(expense);
+        setEditVendor(expense.vendor);
+        setEditAmount(expense.amount.toString());
+        setEditCategory(expense.category);
+        setEditDate(toDateInputValue(expense.date));
+        setEditDescription(expense.description);
+        setEditCurrency(getRecordCurrency(expense));
+        setEditAccountId(expense.accountId || defaultAccountId || '');
+    };
+
+    const handleSaveEdit = async () => {
+        if (!editingExpense) return;
+        const validationError = validateExpenseForm(editVendor, editAmount, editCategory, editDate);
+        if (validationError) {
+            setModalTitle("Input Error");
+            setModalMessage(validationError);
+            setIsModalOpen(true);
+            return;
+        }
+        try {
+            await updateExpense(editingExpense.id, {
+                vendor: editVendor,
+                amount: parseFloat(editAmount),
+                category: editCategory,
+                date: parseDateInput(editDate),
+                description: editDescription,
+                // Records saved before currencies were supported are PHP, so only an actual change is saved
+                ...(editCurrency !== getRecordCurrency(editingExpense) ? { currency: editCurrency } : {}),
+                // Records without an account already belong to the default one, so only an actual move is saved
+                ...(editAccountId && editAccountId !== (editingExpense.accountId || defaultAccountId) ? { accountId: editAccountId } : {}),
+            });
+            setEditingExpense(null);
+            setModalTitle("Success!");
+            setModalMessage("Expense record updated.");
+            setIsModalOpen(true);
+        } catch (error: unknown) {
+            setModalTitle("Error");
+            setModalMessage(`Failed to update expense: ${(error as Error).message}`);
+            setIsModalOpen(true);
+        }
+    };
+
+    return (
+        <div className="max-w-6xl mx-auto p-4 md:p-8">
+            <h1 className="text-3xl font-bold text-gray-800 mb-6">Expense Tracking</h1>
+
+            <div className="bg-white rounded-lg shadow-md p-6 mb-8">
+                <h2 className="text-xl font-semibold text-gray-700 mb-4">Record New Expense</h2>
+                <form onSubmit={handleSubmit} className="grid grid-cols-1 gap-4 md:grid-cols-2">
+                    <div>
+                        <label htmlFor="vendor" className="block text-gray-700 text-sm font-bold mb-2">Vendor</label>
+                        <input
+                            type="text"
+                            id="vendor"
+                            value={vendor}
+                            onChange={(e: React.ChangeEvent<HTMLInputElement>) => setVendor(e.target.value)}
+                            className="shadow appearance-none border rounded-md w-full py-2 px-3 text-gray-700 leading-tight focus:outline-none focus:shadow-outline focus:ring-2 focus:ring-orange-500 focus:border-transparent"
+                            placeholder="e.g., Meralco"
+                            required
+                        />
+                    </div>
+                    <div>
+                        <label htmlFor="amount" className="block text-gray-700 text-sm font-bold mb-2">Amount ({currency})</label>
+                        <input
+                            type="number"
+                            id="amount"
+                            value={amount}
+                            onChange={(e: React.ChangeEvent<HTMLInputElement>) => setAmount(e.target.value)}
+                            className="shadow appearance-none border rounded-md w-full py-2 px-3 text-gray-700 leading-tight focus:outline-none focus:shadow-outline focus:ring-2 focus:ring-orange-500 focus:border-transparent"
+                            placeholder="e.g., 2500"
+                            step="0.01"
+                            required
+                        />
+                    </div>
+                    <div>
+                        <label htmlFor="expenseCurrency" className="block text-gray-700 text-sm font-bold mb-2">Currency</label>
+                        <select
+                            id="expenseCurrency"
+                            value={currency}
+                            onChange={(e: React.ChangeEvent<HTMLSelectElement>) => setCurrency(e.target.value)}
+                            className="shadow appearance-none border rounded-md w-full py-2 px-3 text-gray-700 leading-tight focus:outline-none focus:shadow-outline focus:ring-2 focus:ring-orange-500 focus:border-transparent"
+                        >
+                            <CurrencyOptions currencies={currencyOptions} />
+                        </select>
+                    </div>
+                    <div>
+                        <label htmlFor="category" className="block text-gray-700 text-sm font-bold mb-2">Category</label>
+                        <select
+                            id="category"
+                            value={category}
+                            onChange={(e: React.ChangeEvent<HTMLSelectElement>) => setCategory(e.target.value)}
+                            className="shadow appearance-none border rounded-md w-full py-2 px-3 text-gray-700 leading-tight focus:outline-none focus:shadow-outline focus:ring-2 focus:ring-orange-500 focus:border-transparent"
+                            required
+                        >
+                            <ExpenseCategoryOptions categories={expenseCategories} />
+                        </select>
+                    </div>
+                    <div>
+                        <label htmlFor="date" className="block text-gray-700 text-sm font-bold mb-2">{isRecurring ? 'Start Date' : 'Date'}</label>
+                        <input
+                            type="date"
+                            id="date"
+                            value={date}
+                            onChange={(e: React.ChangeEvent<HTMLInputElement>) => setDate(e.target.value)}
+                            className="shadow appearance-none border rounded-md w-full py-2 px-3 text-gray-700 leading-tight focus:outline-none focus:shadow-outline focus:ring-2 focus:ring-orange-500 focus:border-transparent"
+                            required
+                        />
+                    </div>
+                    {accounts.length > 0 && (
+                        <div>
+                            <label htmlFor="expenseAccount" className="block text-gray-700 text-sm font-bold mb-2">Paid From</label>
+                            <select
+                                id="expenseAccount"
+                                value={accountId}
+                                onChange={(e: React.ChangeEvent<HTMLSelectElement>) => setAccountId(e.target.value)}
+                                className="shadow appearance-none border rounded-md w-full py-2 px-3 text-gray-700 leading-tight focus:outline-none focus:shadow-outline focus:ring-2 focus:ring-orange-500 focus:border-transparent"
+                            >
+                                <AccountOptions accounts={accounts} />
+                            </select>
+                        </div>
+                    )}
+                    <div className="md:col-span-2">
+                        <label htmlFor="description" className="block text-gray-700 text-sm font-bold mb-2">Description (Optional)</label>
+                        <textarea
+                            id="description"
+                            value={description}
+                            onChange={(e: React.ChangeEvent<HTMLTextAreaElement>) => setDescription(e.target.value)}
+                            className="shadow appearance-none border rounded-md w-full py-2 px-3 text-gray-700 leading-tight focus:outline-none focus:shadow-outline focus:ring-2 focus:ring-orange-500 focus:border-transparent resize-y"
+                            rows={2}
+                            placeholder="Brief description of the expense"
+                        ></textarea>
+                    </div>
+                    <div className="md:col-span-2">
+                        <label className="inline-flex items-center text-gray-700 text-sm font-bold cursor-pointer">
+                            <input
+                                type="checkbox"
+                                checked={isRecurring}
+                                onChange={(e: React.ChangeEvent<HTMLInputElement>) => setIsRecurring(e.target.checked)}
+                                className="mr-2 accent-orange-500"
+                            />
+                            Repeat this expense (rent, utilities, subscriptions)
+                        </label>
+                    </div>
+                    {isRecurring && (
+                        <div className="md:col-span-2 grid grid-cols-1 gap-4 md:grid-cols-3 bg-gray-50 p-4 rounded-lg border border-gray-200">
+                            <div>
+                                <label htmlFor="frequency" className="block text-gray-700 text-sm font-bold mb-2">Frequency</label>
+                                <select
+                                    id="frequency"
+                                    value={frequency}
+                                    onChange={(e: React.ChangeEvent<HTMLSelectElement>) => setFrequency(e.target.value as RecurrenceFrequency)}
+                                    className="shadow appearance-none border rounded-md w-full py-2 px-3 text-gray-700 leading-tight focus:outline-none focus:shadow-outline focus:ring-2 focus:ring-orange-500 focus:border-transparent"
+                                >
+                                    <option value="daily">Daily</option>
+                                    <option value="weekly">Weekly</option>
+                                    <option value="monthly">Monthly</option>
+                                    <option value="quarterly">Quarterly</option>
+                                    <option value="annually">Annually</option>
+                                </select>
+                            </div>
+                            <div>
+                                <label htmlFor="endDate" className="block text-gray-700 text-sm font-bold mb-2">End Date (Optional)</label>
+                                <input
+                                    type="date"
+                                    id="endDate"
+                                    value={endDate}
+                                    onChange={(e: React.ChangeEvent<HTMLInputElement>) => setEndDate(e.target.value)}
+                                    className="shadow appearance-none border rounded-md w-full py-2 px-3 text-gray-700 leading-tight focus:outline-none focus:shadow-outline focus:ring-2 focus:ring-orange-500 focus:border-transparent"
+                                />
+                            </div>
+                            {frequency !== 'daily' && frequency !== 'weekly' && (
+                                <div>
+                                    <label htmlFor="dayOfMonthRule" className="block text-gray-700 text-sm font-bold mb-2">Day of Month</label>
+                                    <div className="flex space-x-2">
+                                        <select
+                                            id="dayOfMonthRule"
+                                            value={dayOfMonthRule}
+                                            onChange={(e: React.ChangeEvent<HTMLSelectElement>) => setDayOfMonthRule(e.target.value as DayOfMonthRule)}
+                                            className="shadow appearance-none border rounded-md w-full py-2 px-3 text-gray-700 leading-tight focus:outline-none focus:shadow-outline focus:ring-2 focus:ring-orange-500 focus:border-transparent"
+                                        >
+                                            <option value="start-date">Same as start date</option>
+                                            <option value="fixed-day">Specific day</option>
+                                            <option value="last-day">Last day of month</option>
+                                        </select>
+                                        {dayOfMonthRule === 'fixed-day' && (
+                                            <input
+                                                type="number"
+                                                id="dayOfMonth"
+                                                value={dayOfMonth}
+                                                onChange={(e: React.ChangeEvent<HTMLInputElement>) => setDayOfMonth(e.target.value)}
+                                                className="shadow appearance-none border rounded-md w-20 py-2 px-3 text-gray-700 leading-tight focus:outline-none focus:shadow-outline focus:ring-2 focus:ring-orange-500 focus:border-transparent"
+                                                min="1"
+                                                max="31"
+                                            />
+                                        )}
+                                    </div>
+                                </div>
+                            )}
+                        </div>
+                    )}
+                    <div className="md:col-span-2 flex justify-end">
+                        <button
+                            type="submit"
+                            className="bg-orange-500 hover:bg-orange-600 text-white font-bold py-2 px-4 rounded-md transition duration-200 shadow-sm cursor-pointer"
+                        >
+                            {isRecurring ? 'Add Recurring Expense' : 'Record Expense'}
+                        </button>
+                    </div>
+                </form>
+            </div>
+
+            {recurringExpenses.length > 0 && (
+                <div className="bg-white rounded-lg shadow-md p-6 mb-8">
+                    <h2 className="text-xl font-semibold text-gray-700 mb-4">Recurring Schedules</h2>
+                    <ul className="space-y-3">
+                        {recurringExpenses.map((schedule: RecurringExpenseItem) => (
+                            <li key={schedule.id} className="bg-gray-50 p-3 rounded-md flex flex-col sm:flex-row justify-between items-start sm:items-center">
+                                <div>
+                                    <p className="font-semibold text-gray-900">{schedule.vendor} <span className="text-sm font-normal text-gray-600">({schedule.category})</span></p>
+                                    <p className="text-sm text-gray-700">{getRecordCurrency(schedule)} {schedule.amount.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })} - {describeSchedule(schedule)}</p>
+                                    <p className="text-xs text-gray-500">
+                                        From {schedule.startDate.toLocaleDateString()}{schedule.endDate ? ` until ${schedule.endDate.toLocaleDateString()}` : ' (no end date)'}
+                                    </p>
+                                </div>
+                                <button
+                                    onClick={() => handleDeleteScheduleClick(schedule.id)}
+                                    className="mt-2 sm:mt-0 px-2 py-1 text-sm font-medium text-orange-700 hover:text-orange-900 transition duration-200"
+                                    title="Delete Schedule"
+                                >
+                                    Delete
+                                </button>
+                            </li>
+                        ))}
+                    </ul>
+                </div>
+            )}
+
+            <ExpenseCategoryManager
+                expenseCategories={expenseCategories}
+                expenses={expenses}
+                recurringExpenses={recurringExpenses}
+                saveExpenseCategories={saveExpenseCategories}
+                updateExpenseCategory={updateExpenseCategory}
+                mergeExpenseCategories={mergeExpenseCategories}
+            />
+
+            <div className="bg-white rounded-lg shadow-md p-6">
+                <h2 className="text-xl font-semibold text-gray-700 mb-4">Your Expense Records</h2>
+                {expenseRows.length === 0 ? (
+                    <p className="text-gray-600">No expense records yet. Record one above!</p>
+                ) : (
+                    <div className="overflow-x-auto">
+                        <table className="min-w-full divide-y divide-gray-200">
+                            <thead>
+                                <tr className="bg-gray-50">
+                                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider rounded-tl-lg">Date</th>
+                                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Vendor</th>
+                                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Category</th>
+                                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Amount</th>
+                                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider rounded-tr-lg">Actions</th>
+                                </tr>
+                            </thead>
+                            <tbody className="bg-white divide-y divide-gray-200">
+                                {expenseRows.map((expense: ExpenseItem) => (
+                                    <tr key={expense.id} className={upcomingOccurrenceIds.has(expense.id) ? 'bg-amber-50' : ''}>
+                                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                                            {expense.date.toLocaleDateString()}
+                                            {upcomingOccurrenceIds.has(expense.id) && (
+                                                <span className="ml-2 inline-flex px-2 py-0.5 text-xs leading-5 font-semibold rounded-full bg-amber-100 text-amber-800">Upcoming</span>
+                                            )}
+                                        </td>
+                                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                                            {expense.vendor}
+                                            {(expense.attachments?.length || 0) > 0 && (
+                                                <span className="ml-2 text-xs text-gray-500" title="Receipts attached">📎 {expense.attachments?.length}</span>
+                                            )}
+                                            {accounts.length > 0 && (
+                                                <span className="block text-xs text-gray-500">{getAccountName(accounts, expense.accountId, defaultAccountId)}</span>
+                                            )}
+                                        </td>
+                                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{expense.category}</td>
+                                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{getRecordCurrency(expense)} {expense.amount.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</td>
+                                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900 flex items-center space-x-2">
+                                            <button
+                                                onClick={() => handleViewDetails(expense)}
+                                                className="px-2 py-1 text-sm font-medium text-blue-700 hover:text-blue-900 transition duration-200"
+                                                title="View Details"
+                                            >
+                                                View
+                                            </button>
+                                            {!upcomingOccurrenceIds.has(expense.id) && (
+                                                <>
+                                                    <button
+                                                        onClick={() => handleEditClick(expense)}
+                                                        className="px-2 py-1 text-sm font-medium text-blue-700 hover:text-blue-900 transition duration-200"
+                                                        title="Edit"
+                                                    >
+                                                        Edit
+                                                    </button>
+                                                    <button
+                                                        onClick={() => handleDeleteClick(expense.id)}
+                                                        className="px-2 py-1 text-sm font-medium text-orange-700 hover:text-orange-900 transition duration-200"
+                                                        title="Delete"
+                                                    >
+                                                        Delete
+                                                    </button>
+                                                </>
+                                            )}
+                                        </td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+                )}
+            </div>
+            {/* Modal for Editing an Expense (rendered first so alerts appear above it) */}
+            <Modal
+                isOpen={editingExpense !== null}
+                title="Edit Expense"
+                message=""
+                onClose={() => setEditingExpense(null)}
+                onConfirm={handleSaveEdit}
+                showConfirmButton={true}
+                confirmLabel="Save Changes"
+            >
+                {editingExpense && (
+                    <div className="space-y-4">
+                        <div className="grid grid-cols-1 gap-4 md:grid-cols-2">
+                            <div>
+                                <label htmlFor="editVendor" className="block text-gray-700 text-sm font-bold mb-2">Vendor</label>
+                                <input
+                                    type="text"
+                                    id="editVendor"
+                                    value={editVendor}
+                                    onChange={(e: React.ChangeEvent<HTMLInputElement>) => setEditVendor(e.target.value)}
+                                    className="shadow appearance-none border rounded-md w-full py-2 px-3 text-gray-700 leading-tight focus:outline-none focus:shadow-outline focus:ring-2 focus:ring-orange-500 focus:border-transparent"
+                                />
+                            </div>
+                            <div>
+                                <label htmlFor="editExpenseAmount" className="block text-gray-700 text-sm font-bold mb-2">Amount ({editCurrency})</label>
+                                <input
+                                    type="number"
+                                    id="editExpenseAmount"
+                                    value={editAmount}
+                                    onChange={(e: React.ChangeEvent<HTMLInputElement>) => setEditAmount(e.target.value)}
+                                    className="shadow appearance-none border rounded-md w-full py-2 px-3 text-gray-700 leading-tight focus:outline-none focus:shadow-outline focus:ring-2 focus:ring-orange-500 focus:border-transparent"
+                                    step="0.01"
+                                />
+                            </div>
+                            <div>
+                                <label htmlFor="editExpenseCurrency" className="block text-gray-700 text-sm font-bold mb-2">Currency</label>
+                                <select
+                                    id="editExpenseCurrency"
+                                    value={editCurrency}
+                                    onChange={(e: React.ChangeEvent<HTMLSelectElement>) => setEditCurrency(e.target.value)}
+                                    className="shadow appearance-none border rounded-md w-full py-2 px-3 text-gray-700 leading-tight focus:outline-none focus:shadow-outline focus:ring-2 focus:ring-orange-500 focus:border-transparent"
+                                >
+                                    <CurrencyOptions currencies={currencyOptions.includes(editCurrency) ? currencyOptions : [editCurrency, ...currencyOptions]} />
+                                </select>
+                            </div>
+                            <div>
+                                <label htmlFor="editCategory" className="block text-gray-700 text-sm font-bold mb-2">Category</label>
+                                <select
+                                    id="editCategory"
+                                    value={editCategory}
+                                    onChange={(e: React.ChangeEvent<HTMLSelectElement>) => setEditCategory(e.target.value)}
+                                    className="shadow appearance-none border rounded-md w-full py-2 px-3 text-gray-700 leading-tight focus:outline-none focus:shadow-outline focus:ring-2 focus:ring-orange-500 focus:border-transparent"
+                                >
+                                    <ExpenseCategoryOptions categories={expenseCategories} />
+                                </select>
+                            </div>
+                            <div>
+                                <label htmlFor="editDate" className="block text-gray-700 text-sm font-bold mb-2">Date</label>
+                                <input
+                                    type="date"
+                                    id="editDate"
+                                    value={editDate}
+                                    onChange={(e: React.ChangeEvent<HTMLInputElement>) => setEditDate(e.target.value)}
+                                    className="shadow appearance-none border rounded-md w-full py-2 px-3 text-gray-700 leading-tight focus:outline-none focus:shadow-outline focus:ring-2 focus:ring-orange-500 focus:border-transparent"
+                                />
+                            </div>
+                            {accounts.length > 0 && (
+                                <div>
+                                    <label htmlFor="editExpenseAccount" className="block text-gray-700 text-sm font-bold mb-2">Paid From</label>
+                                    <select
+                                        id="editExpenseAccount"
+                                        value={editAccountId}
+                                        onChange={(e: React.ChangeEvent<HTMLSelectElement>) => setEditAccountId(e.target.value)}
+                                        className="shadow appearance-none border rounded-md w-full py-2 px-3 text-gray-700 leading-tight focus:outline-none focus:shadow-outline focus:ring-2 focus:ring-orange-500 focus:border-transparent"
+                                    >
+                                        <AccountOptions accounts={accounts} selectedId={editingExpense.accountId || defaultAccountId || undefined} />
+                                    </select>
+                                </div>
+                            )}
+                            <div className="md:col-span-2">
+                                <label htmlFor="editDescription" className="block text-gray-700 text-sm font-bold mb-2">Description (Optional)</label>
+                                <textarea
+                                    id="editDescription"
+                                    value={editDescription}
+                                    onChange={(e: React.ChangeEvent<HTMLTextAreaElement>) => setEditDescription(e.target.value)}
+                                    className="shadow appearance-none border rounded-md w-full py-2 px-3 text-gray-700 leading-tight focus:outline-none focus:shadow-outline focus:ring-2 focus:ring-orange-500 focus:border-transparent resize-y"
+                                    rows={2}
+                                />
+                            </div>
+                        </div>
+                        <div>
+                            <h4 className="font-medium text-gray-800 mb-2">Change History</h4>
+                            <RecordHistory history={editingExpense.history} />
+                        </div>
+                    </div>
+                )}
+            </Modal>
+
+            {/* Modals for alerts and confirmations */}
+            <Modal
+                isOpen={isModalOpen}
+                title={modalTitle}
+                message={modalMessage}
+                onClose={() => setIsModalOpen(false)}
+            />
+            <Modal
+                isOpen={isConfirmModalOpen}
+                title={modalTitle}
+                message={modalMessage}
+                onClose={() => setIsConfirmModalOpen(false)}
+                onConfirm={confirmDelete}
+                showConfirmButton={true}
+            />
+
+            {/* Modal for Viewing Expense Details */}
+            <Modal
+                isOpen={isViewModalOpen}
+                title="Expense Details"
+                message=""
+                onClose={() => setIsViewModalOpen(false)}
+            >
+                {viewedExpense && (
+                    <div className="space-y-3 text-gray-800">
+                        <p><strong>Vendor:</strong> {viewedExpense.vendor}</p>
+                        <p><strong>Amount:</strong> {getRecordCurrency(viewedExpense)} {viewedExpense.amount.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</p>
+                        <p><strong>Category:</strong> {viewedExpense.category}</p>
+                        <p><strong>Date:</strong> {viewedExpense.date.toLocaleDateString()}</p>
+                        {accounts.length > 0 && <p><strong>Paid From:</strong> {getAccountName(accounts, viewedExpense.accountId, defaultAccountId)}</p>}
+                        <p><strong>Description:</strong> {viewedExpense.description || 'N/A'}</p>
+                        <p className="text-xs text-gray-500">Recorded on: {viewedExpense.createdAt.toLocaleString()}</p>
+                        {/* Upcoming occurrences of a schedule are not saved yet, so they cannot hold receipts */}
+                        {!upcomingOccurrenceIds.has(viewedExpense.id) && (
+                            <div>
+                                <h4 className="font-medium text-gray-800 mb-2">Receipts</h4>
+                                {(viewedExpense.attachments || []).length === 0 ? (
+                                    <p className="text-sm text-gray-600 mb-2">No receipts attached.</p>
+                                ) : (
+                                    <ul className="flex flex-wrap gap-3 mb-2">
+                                        {(viewedExpense.attachments || []).map(attachment => (
+                                            <li key={attachment.id} className="w-28 text-xs text-gray-600">
+                                                <button
+                                                    onClick={() => handleOpenReceipt(attachment)}
+                                                    className="w-28 h-28 flex items-center justify-center border border-gray-200 rounded-md bg-gray-50 overflow-hidden hover:border-orange-500"
+                                                    title={`Open ${attachment.fileName}`}
+                                                >
+                                                    {attachment.thumbnail ? (
+                                                        <img src={attachment.thumbnail} alt={attachment.fileName} className="max-w-full max-h-full object-contain" />
+                                                    ) : (
+                                                        <span className="text-sm font-semibold text-gray-500">{attachment.contentType === 'application/pdf' ? 'PDF' : 'Image'}</span>
+                                                    )}
+                                                </button>
+                                                <span className="block truncate mt-1" title={attachment.fileName}>{attachment.fileName}</span>
+                                                <span className="block text-gray-400">{formatFileSize(attachment.size)}</span>
+                                                <button
+                                                    onClick={() => handleRemoveReceipt(attachment)}
+                                                    className="text-orange-700 hover:text-orange-900 transition duration-200"
+                                                    disabled={isSavingReceipts}
+                                                >
+                                                    Remove
+                                                </button>
+                                            </li>
+                                        ))}
+                                    </ul>
+                                )}
+                                {receiptError && <p className="text-sm text-red-600 mb-2">{receiptError}</p>}
+                                <label className="inline-block bg-gray-200 hover:bg-gray-300 text-gray-800 text-sm font-bold py-2 px-4 rounded-md transition duration-200 cursor-pointer">
+                                    {isSavingReceipts ? 'Saving...' : 'Attach Photos or PDFs'}
+                                    <input
+                                        type="file"
+                                        accept="image/*,application/pdf"
+                                        multiple
+                                        onChange={handleAttachReceipts}
+                                        className="hidden"
+                                        disabled={isSavingReceipts}
+                                    />
+                                </label>
+                            </div>
+                        )}
+                        {viewedExpense.history && viewedExpense.history.length > 0 && (
+                            <div>
+                                <h4 className="font-medium text-gray-800 mb-2">Change History</h4>
+                                <RecordHistory history={viewedExpense.history} />
+                            </div>
+                        )}
+                    </div>
+                )}
+            </Modal>
+        </div>
+    );
+};
+
+
+// --- Component: Clients (Consolidated) ---
+// Directory of clients, what each still owes by how overdue it is, and how promptly each has paid
+const Clients: React.FC<ClientsComponentProps> = ({ clients, incomes, recurringIncomes, userProfile, addClient, updateClient, deleteClient, mergeClientNames }) => {
+    // State for adding or editing a client
+    const [editingClientId, setEditingClientId] = useState<string | null>(null);
+    const [name, setName] = useState<string>('');
+    const [contactName, setContactName] = useState<string>('');
+    const [email, setEmail] = useState<string>('');
+    const [phone, setPhone] = useState<string>('');
+    const [address, setAddress] = useState<string>('');
+    const [taxId, setTaxId] = useState<string>('');
+    const [paymentTermsDays, setPaymentTermsDays] = useState<string>(''); // Empty uses the invoice settings' default
+
+    // Target client per unlinked name, keyed by normalized name
+    const [mergeTargets, setMergeTargets] = useState<Record<string, string>>({});
+
+    const [isSaving, setIsSaving] = useState<boolean>(false);
+    const [isModalOpen, setIsModalOpen] = useState<boolean>(false);
+    const [modalMessage, setModalMessage] = useState<string>('');
+    const [modalTitle, setModalTitle] = useState<string>('');
+    const [isConfirmModalOpen, setIsConfirmModalOpen] = useState<boolean>(false);
+    const [clientToDelete, setClientToDelete] = useState<ClientItem | null>(null);
+
+    const today = startOfDay(new Date());
+    const baseCurrency = getBaseCurrency(userProfile);
+    const defaultTerms = getInvoiceSettings(userProfile).defaultPaymentTermsDays;
+    const sortedClients = [...clients].sort((a, b) => a.name.localeCompare(b.name));
+    const getPayerName = (payer: string) => clients.find(client => client.id === payer)?.name || payer;
+
+    // Draft invoices have not been sent, so nothing is owed on them yet
+    const openIncomes = incomes.filter(inc => inc.status === 'Outstanding' && inc.invoice?.status !== 'draft');
+    const agingReport = buildAgingReport(openIncomes.map(inc => ({
+        payer: getPayerKey(inc),
+        amount: toBaseAmount(inc.amount, inc.currency, today, userProfile),
+        dueDate: inc.dueDate,
+    })), today);
+    const paymentHistory = summarizePaymentHistory(getIncomePaymentRecords(incomes));
+    const getAgingRow = (client: ClientItem) => agingReport.rows.find(row => normalizePayer(row.payer) === normalizePayer(client.id));
+    const getPaymentSummary = (client: ClientItem) => paymentHistory.find(summary => normalizePayer(summary.payer) === normalizePayer(client.id));
+
+    // Names on incomes and retainers that are not linked to a client, with how many records use each spelling
+    const unlinkedNames = Array.from([...incomes, ...recurringIncomes].filter(record => !record.clientId).reduce((names, record) => {
+        const key = normalizePayer(record.client);
+        const entry = names.get(key) || { key, spellings: new Set<string>(), count: 0 };
+        entry.spellings.add(record.client.trim());
+        entry.count += 1;
+        return names.set(key, entry);
+    }, new Map<string, { key: string; spellings: Set<string>; count: number }>()).values()).sort((a, b) => a.key.localeCompare(b.key));
+
+    const formatAmount = (value: number) => value.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+    const describeDaysToPay = (days: number) => {
+        if (days === 0) return 'On the due date';
+        return `${Math.abs(days)} day${Math.abs(days) === 1 ? '' : 's'} ${days > 0 ? 'late' : 'early'}`;
+    };
+
+    const showMessage = (title: string, message: string) => {
+        setModalTitle(title);
+        setModalMessage(message);
+        setIsModalOpen(true);
+    };
+
+    const resetClientForm = () => {
+        setEditingClientId(null);
+        setName('');
+        setContactName('');
+        setEmail('');
+        setPhone('');
+        setAddress('');
+        setTaxId('');
+        setPaymentTermsDays('');
+    };
+
+    const handleEditClick = (client: ClientItem) => {
+        setEditingClientId(client.id);
+        setName(client.name);
+        setContactName(client.contactName);
+        setEmail(client.email);
+        setPhone(client.phone);
+        setAddress(client.address);
+        setTaxId(client.taxId);
+        setPaymentTermsDays(client.defaultPaymentTermsDays === null ? '' : String(client.defaultPaymentTermsDays));
+    };
+
+    const handleClientSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!name.trim()) {
+            showMessage("Input Error", "Client name is required.");
+            return;
+        }
+        const terms = paymentTermsDays.trim() === '' ? null : parseInt(paymentTermsDays);
+        if (terms !== null && (isNaN(terms) || terms < 0)) {
+            showMessage("Input Error", "Payment terms must be zero or more days, or left empty to use the invoice settings.");
+            return;
+        }
+        setIsSaving(true);
+        try {
+            const clientData = {
+                name,
+                contactName: contactName.trim(),
+                email: email.trim(),
+                phone: phone.trim(),
+                address: address.trim(),
+                taxId: taxId.trim(),
+                defaultPaymentTermsDays: terms,
+            };
+            if (editingClientId) {
+                await updateClient(editingClientId, clientData);
+            } else {
+                await addClient(clientData);
+            }
+            showMessage("Success!", `Client ${editingClientId ? 'updated' : 'added'}. Income records under this name are linked to it.`);
+            resetClientForm();
+        } catch (error: unknown) {
+            showMessage("Error", `Failed to save client: ${(error as Error).message}`);
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const handleMerge = async (key: string, spellings: string[]) => {
+        const clientId = mergeTargets[key];
+        if (!clientId) {
+            showMessage("Input Error", "Choose the client these records belong to.");
+            return;
+        }
+        setIsSaving(true);
+        try {
+            await mergeClientNames(clientId, spellings);
+            showMessage("Success!", `Records under "${spellings.join('", "')}" are now linked to ${getPayerName(clientId)}.`);
+        } catch (error: unknown) {
+            showMessage("Error", `Failed to link records: ${(error as Error).message}`);
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const confirmDelete = async () => {
+        if (!clientToDelete) return;
+        try {
+            await deleteClient(clientToDelete.id);
+            if (editingClientId === clientToDelete.id) resetClientForm();
+            showMessage("Success!", "Client deleted. Its income records keep the client's name.");
+        } catch (error: unknown) {
+            showMessage("Error", `Failed to delete client: ${(error as Error).message}`);
+        } finally {
+            setIsConfirmModalOpen(false);
+            setClientToDelete(null);
+        }
+    };
+
+    return (
+        <div className="max-w-6xl mx-auto p-4 md:p-8">
+            <h1 className="text-3xl font-bold text-gray-800 mb-6">Clients</h1>
+
+            <div className="bg-white rounded-lg shadow-md p-6 mb-8">
+                <h2 className="text-xl font-semibold text-gray-700 mb-4">{editingClientId ? 'Edit Client' : 'Add New Client'}</h2>
+                <form onSubmit={handleClientSubmit} className="grid grid-cols-1 gap-4 md:grid-cols-3">
+                    <div>
+                        <label htmlFor="clientName" className="block text-gray-700 text-sm font-bold mb-2">Client Name</label>
+                        <input type="text" id="clientName" value={name} onChange={(e: React.ChangeEvent<HTMLInputElement>) => setName(e.target.value)} className="shadow appearance-none border rounded-md w-full py-2 px-3 text-gray-700 leading-tight focus:outline-none focus:shadow-outline focus:ring-2 focus:ring-orange-500 focus:border-transparent" placeholder="e.g., ABC Corp." required />
+                    </div>
+                    <div>
+                        <label htmlFor="clientContactName" className="block text-gray-700 text-sm font-bold mb-2">Contact Person</label>
+                        <input type="text" id="clientContactName" value={contactName} onChange={(e: React.ChangeEvent<HTMLInputElement>) => setContactName(e.target.value)} className="shadow appearance-none border rounded-md w-full py-2 px-3 text-gray-700 leading-tight focus:outline-none focus:shadow-outline focus:ring-2 focus:ring-orange-500 focus:border-transparent" />
+                    </div>
+                    <div>
+                        <label htmlFor="clientEmail" className="block text-gray-700 text-sm font-bold mb-2">Email</label>
+                        <input type="email" id="clientEmail" value={email} onChange={(e: React.ChangeEvent<HTMLInputElement>) => setEmail(e.target.value)} className="shadow appearance-none border rounded-md w-full py-2 px-3 text-gray-700 leading-tight focus:outline-none focus:shadow-outline focus:ring-2 focus:ring-orange-500 focus:border-transparent" />
+                    </div>
+                    <div>
+                        <label htmlFor="clientPhone" className="block text-gray-700 text-sm font-bold mb-2">Phone</label>
+                        <input type="tel" id="clientPhone" value={phone} onChange={(e: React.ChangeEvent<HTMLInputElement>) => setPhone(e.target.value)} className="shadow appearance-none border rounded-md w-full py-2 px-3 text-gray-700 leading-tight focus:outline-none focus:shadow-outline focus:ring-2 focus:ring-orange-500 focus:border-transparent" />
+                    </div>
+                    <div>
+                        <label htmlFor="clientAddress" className="block text-gray-700 text-sm font-bold mb-2">Address</label>
+                        <textarea id="clientAddress" value={address} onChange={(e: React.ChangeEvent<HTMLTextAreaElement>) => setAddress(e.target.value)} className="shadow appearance-none border rounded-md w-full py-2 px-3 text-gray-700 leading-tight focus:outline-none focus:shadow-outline focus:ring-2 focus:ring-orange-500 focus:border-transparent" rows={2} />
+                    </div>
+                    <div>
+                        <label htmlFor="clientTaxId" className="block text-gray-700 text-sm font-bold mb-2">TIN</label>
+                        <input type="text" id="clientTaxId" value={taxId} onChange={(e: React.ChangeEvent<HTMLInputElement>) => setTaxId(e.target.value)} className="shadow appearance-none border rounded-md w-full py-2 px-3 text-gray-700 leading-tight focus:outline-none focus:shadow-outline focus:ring-2 focus:ring-orange-500 focus:border-transparent" />
+                    </div>
+                    <div>
+                        <label htmlFor="clientPaymentTerms" className="block text-gray-700 text-sm font-bold mb-2">Payment Terms (Days)</label>
+                        <input type="number" id="clientPaymentTerms" value={paymentTermsDays} onChange={(e: React.ChangeEvent<HTMLInputElement>) => setPaymentTermsDays(e.target.value)} className="shadow appearance-none border rounded-md w-full py-2 px-3 text-gray-700 leading-tight focus:outline-none focus:shadow-outline focus:ring-2 focus:ring-orange-500 focus:border-transparent" min="0" step="1" placeholder={`${defaultTerms} (invoice settings)`} />
+                    </div>
+                    <div className="col-span-full flex justify-end space-x-2">
+                        {editingClientId && (
+                            <button
+                                type="button"
+                                onClick={resetClientForm}
+                                className="bg-gray-200 hover:bg-gray-300 text-gray-800 font-bold py-2 px-4 rounded-md transition duration-200"
+                            >
+                                Cancel
+                            </button>
+                        )}
+                        <button
+                            type="submit"
+                            className="bg-orange-500 hover:bg-orange-600 text-white font-bold py-2 px-4 rounded-md transition duration-200 shadow-sm cursor-pointer disabled:opacity-70 disabled:cursor-not-allowed"
+                            disabled={isSaving}
+                        >
+                            {editingClientId ? 'Save Client' : 'Add Client'}
+                        </button>
+                    </div>
+                </form>
+            </div>
+
+            <div className="bg-white rounded-lg shadow-md p-6 mb-8">
+                <h2 className="text-xl font-semibold text-gray-700 mb-4">Client Directory</h2>
+                {sortedClients.length === 0 ? (
+                    <p className="text-gray-600">No clients yet. Add one above, or link the names below to one.</p>
+                ) : (
+                    <div className="overflow-x-auto">
+                        <table className="min-w-full divide-y divide-gray-200">
+                            <thead className="bg-gray-50">
+                                <tr>
+                                    <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Client</th>
+                                    <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Contact</th>
+                                    <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Terms</th>
+                                    <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Outstanding ({baseCurrency})</th>
+                                    <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Pays</th>
+                                    <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
+                                </tr>
+                            </thead>
+                            <tbody className="bg-white divide-y divide-gray-200">
+                                {sortedClients.map(client => {
+                                    const agingRow = getAgingRow(client);
+                                    const paymentSummary = getPaymentSummary(client);
+                                    return (
+                                        <tr key={client.id}>
+                                            <td className="px-3 py-2 whitespace-nowrap text-sm text-gray-900">
+                                                {client.name}
+                                                {client.taxId && <span className="block text-xs text-gray-500">TIN {client.taxId}</span>}
+                                            </td>
+                                            <td className="px-3 py-2 whitespace-nowrap text-sm text-gray-900">
+                                                {client.contactName}
+                                                {client.email && <span className="block text-xs text-gray-500">{client.email}</span>}
+                                                {client.phone && <span className="block text-xs text-gray-500">{client.phone}</span>}
+                                            </td>
+                                            <td className="px-3 py-2 whitespace-nowrap text-sm text-gray-900">
+                                                {describePaymentTerms(client.defaultPaymentTermsDays ?? defaultTerms)}
+                                                {client.defaultPaymentTermsDays === null && <span className="block text-xs text-gray-500">Invoice settings</span>}
+                                            </td>
+                                            <td className="px-3 py-2 whitespace-nowrap text-sm text-gray-900">
+                                                {formatAmount(agingRow?.total || 0)}
+                                                {agingRow && agingRow.oldestDaysOverdue > 0 && (
+                                                    <span className="block text-xs text-red-600">Oldest {agingRow.oldestDaysOverdue} day{agingRow.oldestDaysOverdue === 1 ? '' : 's'} overdue</span>
+                                                )}
+                                            </td>
+                                            <td className="px-3 py-2 whitespace-nowrap text-sm text-gray-900">
+                                                {paymentSummary ? describeDaysToPay(paymentSummary.averageDaysToPay) : '—'}
+                                            </td>
+                                            <td className="px-3 py-2 whitespace-nowrap text-sm font-medium space-x-2">
+                                                <button
+                                                    onClick={() => handleEditClick(client)}
+                                                    className="px-2 py-1 text-sm font-medium text-blue-700 hover:text-blue-900 transition duration-200"
+                                                >
+                                                    Edit
+                                                </button>
+                                                <button
+                                                    onClick={() => {
+                                                        setClientToDelete(client);
+                                                        setIsConfirmModalOpen(true);
+                                                    }}
+                                                    className="px-2 py-1 text-sm font-medium text-orange-700 hover:text-orange-900 transition duration-200"
+                                                >
+                                                    Delete
+                                                </button>
+                                            </td>
+                                        </tr>
+                                    );
+                                })}
+                            </tbody>
+                        </table>
+                    </div>
+                )}
+            </div>
+
+            {unlinkedNames.length > 0 && (
+                <div className="bg-white rounded-lg shadow-md p-6 mb-8">
+                    <h2 className="text-xl font-semibold text-gray-700 mb-2">Names Not in the Directory</h2>
+                    <p className="text-sm text-gray-600 mb-4">Income records under these names are not linked to a client. Link a name to the client it spells, or add it as a new client.</p>
+                    <div className="space-y-3">
+                        {unlinkedNames.map(({ key, spellings, count }) => (
+                            <div key={key} className="flex flex-wrap items-center gap-2 border-b border-gray-100 pb-3">
+                                <span className="flex-1 min-w-[12rem] text-sm text-gray-900">
+                                    {[...spellings].join(', ')}
+                                    <span className="block text-xs text-gray-500">{count} record{count === 1 ? '' : 's'}</span>
+                                </span>
+                                {clients.length > 0 && (
+                                    <>
+                                        <select
+                                            value={mergeTargets[key] || ''}
+                                            onChange={(e: React.ChangeEvent<HTMLSelectElement>) => setMergeTargets(current => ({ ...current, [key]: e.target.value }))}
+                                            className="shadow appearance-none border rounded-md py-2 px-3 text-gray-700 leading-tight focus:outline-none focus:shadow-outline focus:ring-2 focus:ring-orange-500 focus:border-transparent"
+                                            aria-label="Client"
+                                        >
+                                            <option value="">Choose a client...</option>
+                                            {sortedClients.map(client => <option key={client.id} value={client.id}>{client.name}</option>)}
+                                        </select>
+                                        <button
+                                            onClick={() => handleMerge(key, [...spellings])}
+                                            className="px-2 py-1 text-sm font-medium text-blue-700 hover:text-blue-900 transition duration-200 disabled:opacity-50"
+                                            disabled={isSaving}
+                                        >
+                                            Link
+                                        </button>
+                                    </>
+                                )}
+                                <button
+                                    onClick={() => {
+                                        resetClientForm();
+                                        setName([...spellings][0]);
+                                    }}
+                                    className="px-2 py-1 text-sm font-medium text-blue-700 hover:text-blue-900 transition duration-200"
+                                >
+                                    Add as Client
+                                </button>
+                            </div>
+                        ))}
+                    </div>
+                </div>
+            )}
+
+            <div className="bg-white rounded-lg shadow-md p-6 mb-8">
+                <h2 className="text-xl font-semibold text-gray-700 mb-2">Receivables Aging</h2>
+                <p className="text-sm text-gray-600 mb-4">Unpaid income by how many days past its due date it is, in {baseCurrency}. Draft invoices are left out until they are sent.</p>
+                {agingReport.rows.length === 0 ? (
+                    <p className="text-gray-600">Nothing is owed to you right now.</p>
+                ) : (
+                    <div className="overflow-x-auto">
+                        <table className="min-w-full divide-y divide-gray-200">
+                            <thead className="bg-gray-50">
+                                <tr>
+                                    <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Client</th>
+                                    {agingBuckets.map(bucket => (
+                                        <th key={bucket} className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">{agingBucketLabels[bucket]}</th>
+                                    ))}
+                                    <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Total</th>
+                                </tr>
+                            </thead>
+                            <tbody className="bg-white divide-y divide-gray-200">
+                                {agingReport.rows.map(row => (
+                                    <tr key={row.payer}>
+                                        <td className="px-3 py-2 whitespace-nowrap text-sm text-gray-900">{getPayerName(row.payer)}</td>
+                                        {agingBuckets.map(bucket => (
+                                            <td key={bucket} className={`px-3 py-2 whitespace-nowrap text-sm ${bucket !== 'current' && row.amounts[bucket] > 0 ? 'text-red-600' : 'text-gray-900'}`}>
+                                                {row.amounts[bucket] > 0 ? formatAmount(row.amounts[bucket]) : '—'}
+                                            </td>
+                                        ))}
+                                        <td className="px-3 py-2 whitespace-nowrap text-sm font-semibold text-gray-900">{formatAmount(row.total)}</td>
+                                    </tr>
+                                ))}
+                                <tr className="bg-gray-50 font-semibold">
+                                    <td className="px-3 py-2 whitespace-nowrap text-sm text-gray-900">Total</td>
+                                    {agingBuckets.map(bucket => (
+                                        <td key={bucket} className="px-3 py-2 whitespace-nowrap text-sm text-gray-900">{formatAmount(agingReport.totals[bucket])}</td>
+                                    ))}
+                                    <td className="px-3 py-2 whitespace-nowrap text-sm text-gray-900">{formatAmount(agingReport.total)}</td>
+                                </tr>
+                            </tbody>
+                        </table>
+                    </div>
+                )}
+            </div>
+
+            <div className="bg-white rounded-lg shadow-md p-6">
+                <h2 className="text-xl font-semibold text-gray-700 mb-2">Payment History</h2>
+                <p className="text-sm text-gray-600 mb-4">How long after the due date each client has paid, from income marked paid with a known paid date.</p>
+                {paymentHistory.length === 0 ? (
+                    <p className="text-gray-600">No paid income with a paid date yet.</p>
+                ) : (
+                    <div className="overflow-x-auto">
+                        <table className="min-w-full divide-y divide-gray-200">
+                            <thead className="bg-gray-50">
+                                <tr>
+                                    <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Client</th>
+                                    <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Payments</th>
+                                    <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Average Days to Pay</th>
+                                    <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">On Time</th>
+                                </tr>
+                            </thead>
+                            <tbody className="bg-white divide-y divide-gray-200">
+                                {[...paymentHistory].sort((a, b) => b.averageDaysToPay - a.averageDaysToPay).map(summary => (
+                                    <tr key={summary.payer}>
+                                        <td className="px-3 py-2 whitespace-nowrap text-sm text-gray-900">{getPayerName(summary.payer)}</td>
+                                        <td className="px-3 py-2 whitespace-nowrap text-sm text-gray-900">{summary.paidCount}</td>
+                                        <td className={`px-3 py-2 whitespace-nowrap text-sm ${summary.averageDaysToPay > 0 ? 'text-red-600' : 'text-gray-900'}`}>{describeDaysToPay(summary.averageDaysToPay)}</td>
+                                        <td className="px-3 py-2 whitespace-nowrap text-sm text-gray-900">{Math.round(summary.onTimeCount / summary.paidCount * 100)}%</td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+                )}
+            </div>
+
+            <Modal
+                isOpen={isConfirmModalOpen}
+                onClose={() => {
+                    setIsConfirmModalOpen(false);
+                    setClientToDelete(null);
+                }}
+                title="Confirm Deletion"
+                message={`Delete ${clientToDelete?.name || 'this client'}? Income records linked to it keep the client's name but are no longer linked.`}
+                onConfirm={confirmDelete}
+                showConfirmButton={true}
+            />
+
+            <Modal
+                isOpen={isModalOpen}
+                onClose={() => setIsModalOpen(false)}
+                title={modalTitle}
+                message={modalMessage}
+            />
+        </div>
+    );
+};
+
+
+// --- Component: Budgets (Consolidated) ---
+const budgetRolloverLabels: Record<BudgetRollover, string> = {
+    'none': 'No rollover',
+    'unused': 'Carry unused budget forward',
+    'unused-and-overspend': 'Carry unused and overspent amounts',
+};
+
+const Budgets: React.FC<BudgetsComponentProps> = ({ userProfile, updateUserProfile, expenses }) => {
+    const [selectedMonth, setSelectedMonth] = useState<string>(toMonthKey(new Date()));
+    const [category, setCategory] = useState<string>(getExpenseCategories(userProfile)[0]?.name || '');
+    const [monthlyLimit, setMonthlyLimit] = useState<string>('');
+    const [rollover, setRollover] = useState<BudgetRollover>('none');
+    const [thresholds, setThresholds] = useState<string>((userProfile?.budgetAlertThresholds || DEFAULT_BUDGET_ALERT_THRESHOLDS).join(', '));
+    const [isSaving, setIsSaving] = useState<boolean>(false);
+    const [isModalOpen, setIsModalOpen] = useState<boolean>(false);
+    const [modalMessage, setModalMessage] = useState<string>('');
+    const [modalTitle, setModalTitle] = useState<string>('');
+
+    useEffect(() => {
+        setThresholds((userProfile?.budgetAlertThresholds || DEFAULT_BUDGET_ALERT_THRESHOLDS).join(', '));
+    }, [userProfile]);
+
+    // Fall back to the first category when the selected one is renamed or merged away
+    useEffect(() => {
+        const names = getExpenseCategories(userProfile, expenses).map(c => c.name);
+        if (!names.includes(category)) setCategory(names[0] || '');
+    }, [userProfile, expenses, category]);
+
+    const budgets = userProfile?.budgets || [];
+    const baseCurrency = getBaseCurrency(userProfile);
+    const [year, month] = selectedMonth.split('-').map(Number);
+    const budgetStatuses = getBudgetStatuses(userProfile, expenses, new Date(year, month - 1, 1));
+    const totalAvailable = budgetStatuses.reduce((sum: number, status: BudgetStatus) => sum + status.available, 0);
+    const totalSpent = budgetStatuses.reduce((sum: number, status: BudgetStatus) => sum + status.spent, 0);
+
+    const expenseCategories = getExpenseCategories(userProfile, expenses);
+    const existingBudget = budgets.find(budget => budget.category === category);
+
+    const showError = (title: string, message: string) => {
+        setModalTitle(title);
+        setModalMessage(message);
+        setIsModalOpen(true);
+    };
+
+    const saveBudgets = async (updatedBudgets: CategoryBudget[], successMessage: string) => {
+        setIsSaving(true);
+        try {
+            await updateUserProfile({ budgets: updatedBudgets });
+            setModalTitle("Success!");
+            setModalMessage(successMessage);
+            setIsModalOpen(true);
+        } catch (error: unknown) {
+            showError("Error", `Failed to save budgets: ${(error as Error).message}`);
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        const parsedLimit = parseFloat(monthlyLimit);
+        if (isNaN(parsedLimit) || parsedLimit < 0) {
+            showError("Input Error", "Monthly budget must be a non-negative number.");
+            return;
+        }
+        const budget: CategoryBudget = {
+            category,
+            monthlyLimit: parsedLimit,
+            rollover,
+            // Keep the original start so existing rollover history is preserved when editing
+            startMonth: existingBudget?.startMonth || toMonthKey(new Date()),
+        };
+        await saveBudgets(
+            existingBudget ? budgets.map(b => b.category === category ? budget : b) : [...budgets, budget],
+            `Budget for ${category} ${existingBudget ? 'updated' : 'added'}.`
+        );
+        setMonthlyLimit('');
+    };
+
+    const handleEdit = (budget: CategoryBudget) => {
+        setCategory(budget.category);
+        setMonthlyLimit(budget.monthlyLimit.toString());
+        setRollover(budget.rollover);
+    };
+
+    const handleRemove = async (categoryToRemove: string) => {
+        await saveBudgets(budgets.filter(b => b.category !== categoryToRemove), `Budget for ${categoryToRemove} removed.`);
+    };
+
+    const handleSaveThresholds = async () => {
+        const parsedThresholds = thresholds.split(',').map(value => value.trim()).filter(Boolean).map(Number);
+        if (parsedThresholds.length === 0 || parsedThresholds.some(value => isNaN(value) || value <= 0)) {
+            showError("Input Error", "Enter one or more positive percentages separated by commas, e.g. 80, 100.");
+            return;
+        }
+        setIsSaving(true);
+        try {
+            await updateUserProfile({ budgetAlertThresholds: Array.from(new Set(parsedThresholds)).sort((a, b) => a - b) });
+            setModalTitle("Success!");
+            setModalMessage("Alert thresholds saved.");
+            setIsModalOpen(true);
+        } catch (error: unknown) {
+            showError("Error", `Failed to save alert thresholds: ${(error as Error).message}`);
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const progressBarColor = (status: BudgetStatus) => {
+        if (status.percentUsed >= 100) return 'bg-red-600';
+        if (status.alertThreshold !== null) return 'bg-amber-500';
+        return 'bg-emerald-500';
+    };
+
+    const formatAmount = (value: number) => value.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+    return (
+        <div className="max-w-6xl mx-auto p-4 md:p-8">
+            <h1 className="text-3xl font-bold text-gray-800 mb-6">Budgets</h1>
+
+            <div className="bg-white rounded-lg shadow-md p-6 mb-8">
+                <h2 className="text-xl font-semibold text-gray-700 mb-4">{existingBudget ? 'Update Budget' : 'Set a Monthly Budget'}</h2>
+                <form onSubmit={handleSubmit} className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                    <div>
+                        <label htmlFor="budgetCategory" className="block text-gray-700 text-sm font-bold mb-2">Category</label>
+                        <select
+                            id="budgetCategory"
+                            value={category}
+                            onChange={(e: React.ChangeEvent<HTMLSelectElement>) => setCategory(e.target.value)}
+                            className="shadow appearance-none border rounded-md w-full py-2 px-3 text-gray-700 leading-tight focus:outline-none focus:shadow-outline focus:ring-2 focus:ring-orange-500 focus:border-transparent"
+                            required
+                        >
+                            <ExpenseCategoryOptions categories={expenseCategories} />
+                        </select>
+                    </div>
+                    <div>
+                        <label htmlFor="budgetLimit" className="block text-gray-700 text-sm font-bold mb-2">Monthly Budget ({baseCurrency})</label>
+                        <input
+                            type="number"
+                            id="budgetLimit"
+                            value={monthlyLimit}
+                            onChange={(e: React.ChangeEvent<HTMLInputElement>) => setMonthlyLimit(e.target.value)}
+                            className="shadow appearance-none border rounded-md w-full py-2 px-3 text-gray-700 leading-tight focus:outline-none focus:shadow-outline focus:ring-2 focus:ring-orange-500 focus:border-transparent"
+                            placeholder="e.g., 5000"
+                            step="0.01"
+                            required
+                        />
+                    </div>
+                    <div className="md:col-span-2">
+                        <label htmlFor="budgetRollover" className="block text-gray-700 text-sm font-bold mb-2">At Month End</label>
+                        <select
+                            id="budgetRollover"
+                            value={rollover}
+                            onChange={(e: React.ChangeEvent<HTMLSelectElement>) => setRollover(e.target.value as BudgetRollover)}
+                            className="shadow appearance-none border rounded-md w-full py-2 px-3 text-gray-700 leading-tight focus:outline-none focus:shadow-outline focus:ring-2 focus:ring-orange-500 focus:border-transparent"
+                        >
+                            {(Object.keys(budgetRolloverLabels) as BudgetRollover[]).map(option => (
+                                <option key={option} value={option}>{budgetRolloverLabels[option]}</option>
+                            ))}
+                        </select>
+                    </div>
+                    <div className="md:col-span-2 flex justify-end">
+                        <button
+                            type="submit"
+                            className="bg-orange-500 hover:bg-orange-600 text-white font-bold py-2 px-6 rounded-md focus:outline-none focus:shadow-outline transition duration-200 shadow-md cursor-pointer disabled:opacity-70 disabled:cursor-not-allowed"
+                            disabled={isSaving}
+                        >
+                            {isSaving ? 'Saving...' : existingBudget ? 'Update Budget' : 'Add Budget'}
+                        </button>
+                    </div>
+                </form>
+            </div>
+
+            <div className="bg-white rounded-lg shadow-md p-6 mb-8">
+                <div className="flex flex-wrap justify-between items-center gap-4 mb-4">
+                    <h2 className="text-xl font-semibold text-gray-700">Budget vs Actual</h2>
+                    <input
+                        type="month"
+                        value={selectedMonth}
+                        onChange={(e: React.ChangeEvent<HTMLInputElement>) => e.target.value && setSelectedMonth(e.target.value)}
+                        className="shadow appearance-none border rounded-md py-2 px-3 text-gray-700 leading-tight focus:outline-none focus:shadow-outline focus:ring-2 focus:ring-orange-500 focus:border-transparent"
+                    />
+                </div>
+                {budgetStatuses.length === 0 ? (
+                    <p className="text-gray-600">No budgets set yet. Add one above!</p>
+                ) : (
+                    <div className="space-y-4">
+                        {budgetStatuses.map((status: BudgetStatus, index: number) => (
+                            <div key={status.category} className="border-b border-gray-100 pb-4">
+                                <div className="flex flex-wrap justify-between items-center mb-1">
+                                    <span className="text-gray-800 font-semibold">{status.category}</span>
+                                    <span className="text-sm text-gray-700">
+                                        {baseCurrency} {formatAmount(status.spent)} of {baseCurrency} {formatAmount(status.available)} ({Math.round(status.percentUsed)}%)
+                                    </span>
+                                </div>
+                                <div className="w-full bg-gray-200 rounded-full h-3">
+                                    <div
+                                        className={`h-3 rounded-full ${progressBarColor(status)}`}
+                                        style={{ width: `${Math.min(status.percentUsed, 100)}%` }}
+                                    />
+                                </div>
+                                <div className="flex flex-wrap justify-between items-center mt-1 text-xs text-gray-500">
+                                    <span>
+                                        Budget {baseCurrency} {formatAmount(status.monthlyLimit)}
+                                        {status.carriedOver !== 0 && ` ${status.carriedOver > 0 ? '+' : '-'} ${baseCurrency} ${formatAmount(Math.abs(status.carriedOver))} carried over`}
+                                        {' · '}{budgetRolloverLabels[budgets[index].rollover]}
+                                    </span>
+                                    <span className={status.remaining < 0 ? 'text-red-600 font-semibold' : ''}>
+                                        {status.remaining < 0 ? `Over by ${baseCurrency} ${formatAmount(-status.remaining)}` : `${baseCurrency} ${formatAmount(status.remaining)} left`}
+                                    </span>
+                                </div>
+                                <div className="flex space-x-2 mt-1">
+                                    <button
+                                        onClick={() => handleEdit(budgets[index])}
+                                        className="px-2 py-1 text-sm font-medium text-blue-700 hover:text-blue-900 transition duration-200"
+                                    >
+                                        Edit
+                                    </button>
+                                    <button
+                                        onClick={() => handleRemove(status.category)}
+                                        className="px-2 py-1 text-sm font-medium text-orange-700 hover:text-orange-900 transition duration-200"
+                                        disabled={isSaving}
+                                    >
+                                        Remove
+                                    </button>
+                                </div>
+                            </div>
+                        ))}
+                        <div className="pt-2 font-bold flex justify-between items-center text-lg text-gray-800">
+                            <span>Total:</span>
+                            <span>{baseCurrency} {formatAmount(totalSpent)} of {baseCurrency} {formatAmount(totalAvailable)}</span>
+                        </div>
+                    </div>
+                )}
+            </div>
+
+            <div className="bg-white rounded-lg shadow-md p-6">
+                <h2 className="text-xl font-semibold text-gray-700 mb-2">Dashboard Alerts</h2>
+                <p className="text-sm text-gray-600 mb-4">The dashboard warns you when a category's spending crosses any of these percentages of its available budget.</p>
+                <div className="flex flex-wrap items-center gap-4">
+                    <input
+                        type="text"
+                        value={thresholds}
+                        onChange={(e: React.ChangeEvent<HTMLInputElement>) => setThresholds(e.target.value)}
+                        className="shadow appearance-none border rounded-md py-2 px-3 text-gray-700 leading-tight focus:outline-none focus:shadow-outline focus:ring-2 focus:ring-orange-500 focus:border-transparent"
+                        placeholder="e.g., 80, 100"
+                    />
+                    <button
+                        onClick={handleSaveThresholds}
+                        className="bg-gray-200 hover:bg-gray-300 text-gray-800 font-bold py-2 px-4 rounded-md transition duration-200 cursor-pointer disabled:opacity-70 disabled:cursor-not-allowed"
+                        disabled={isSaving}
+                    >
+                        Save Thresholds
+                    </button>
+                </div>
+            </div>
+
+            <Modal
+                isOpen={isModalOpen}
+                title={modalTitle}
+                message={modalMessage}
+                onClose={() => setIsModalOpen(false)}
+            />
+        </div>
+    );
+};
+
+
+// --- Component: SavingsGoals (Consolidated) ---
+const goalPriorityLabels: Record<GoalPriority, string> = { high: 'High', medium: 'Medium', low: 'Low' };
+
+const SavingsGoals: React.FC<SavingsGoalsComponentProps> = ({ userProfile, updateUserProfile, accounts }) => {
+    const goals = userProfile?.savingsGoals || [];
+    const baseCurrency = getBaseCurrency(userProfile);
+    const schedule = getPaySchedule(userProfile);
+    const today = startOfDay(new Date());
+    const goalPlans = getSavingsGoalPlans(userProfile, today)
+        .sort((a, b) => goalPriorityOrder[a.goal.priority] - goalPriorityOrder[b.goal.priority] || a.goal.targetDate.getTime() - b.goal.targetDate.getTime());
+    const totalPlannedPerPayday = goalPlans.reduce((sum, { plan }) => sum + plan.plannedPerPayday, 0);
+
+    // State for adding or editing a goal
+    const [editingGoalId, setEditingGoalId] = useState<string | null>(null);
+    const [name, setName] = useState<string>('');
+    const [targetAmount, setTargetAmount] = useState<string>('');
+    const [targetDate, setTargetDate] = useState<string>('');
+    const [savedAmount, setSavedAmount] = useState<string>('');
+    const [accountId, setAccountId] = useState<string>('');
+    const [priority, setPriority] = useState<GoalPriority>('medium');
+
+    // State for recording a contribution
+    const [contributionGoalId, setContributionGoalId] = useState<string>('');
+    const [contributionAmount, setContributionAmount] = useState<string>('');
+
+    const [isSaving, setIsSaving] = useState<boolean>(false);
+    const [isModalOpen, setIsModalOpen] = useState<boolean>(false);
+    const [modalMessage, setModalMessage] = useState<string>('');
+    const [modalTitle, setModalTitle] = useState<string>('');
+
+    const showMessage = (title: string, message: string) => {
+        setModalTitle(title);
+        setModalMessage(message);
+        setIsModalOpen(true);
+    };
+
+    const formatAmount = (value: number) => `${baseCurrency} ${value.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+    const saveGoals = async (updatedGoals: SavingsGoal[], successMessage: string): Promise<boolean> => {
+        setIsSaving(true);
+        try {
+            await updateUserProfile({ savingsGoals: updatedGoals });
+            showMessage("Success!", successMessage);
+            return true;
+        } catch (error: unknown) {
+            showMessage("Error", `Failed to save savings goals: ${(error as Error).message}`);
+            return false;
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const resetForm = () => {
+        setEditingGoalId(null);
+        setName('');
+        setTargetAmount('');
+        setTargetDate('');
+        setSavedAmount('');
+        setAccountId('');
+        setPriority('medium');
+    };
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        const goalName = name.trim();
+        const parsedTarget = parseFloat(targetAmount);
+        const parsedSaved = savedAmount === '' ? 0 : parseFloat(savedAmount);
+        const parsedDate = parseDateInput(targetDate);
+        const inputError = !goalName ? "Give the goal a name."
+            : goals.some(goal => goal.id !== editingGoalId && goal.name.toLowerCase() === goalName.toLowerCase()) ? `A goal named "${goalName}" already exists.`
+            : isNaN(parsedTarget) || parsedTarget <= 0 ? "Target amount must be a positive number."
+            : isNaN(parsedSaved) || parsedSaved < 0 ? "Saved so far must be zero or a positive number."
+            : isNaN(parsedDate.getTime()) ? "Enter the date you need the money by."
+            : null;
+        if (inputError) {
+            showMessage("Input Error", inputError);
+            return;
+        }
+        const existingGoal = goals.find(goal => goal.id === editingGoalId);
+        const goal: SavingsGoal = {
+            id: existingGoal?.id || crypto.randomUUID(),
+            name: goalName,
+            targetAmount: parsedTarget,
+            targetDate: parsedDate,
+            savedAmount: parsedSaved,
+            ...(accountId ? { accountId } : {}),
+            priority,
+            createdAt: existingGoal?.createdAt || new Date(),
+        };
+        const updatedGoals = existingGoal ? goals.map(g => g.id === goal.id ? goal : g) : [...goals, goal];
+        if (await saveGoals(updatedGoals, `Savings goal "${goalName}" ${existingGoal ? 'updated' : 'added'}.`)) resetForm();
+    };
+
+    const handleEdit = (goal: SavingsGoal) => {
+        setEditingGoalId(goal.id);
+        setName(goal.name);
+        setTargetAmount(goal.targetAmount.toString());
+        setTargetDate(toDateInputValue(goal.targetDate));
+        setSavedAmount(goal.savedAmount.toString());
+        setAccountId(goal.accountId || '');
+        setPriority(goal.priority);
+    };
+
+    const handleDelete = async (goal: SavingsGoal) => {
+        if (await saveGoals(goals.filter(g => g.id !== goal.id), `Savings goal "${goal.name}" deleted.`) && editingGoalId === goal.id) resetForm();
+    };
+
+    const handleRecordContribution = async (e: React.FormEvent) => {
+        e.preventDefault();
+        const goal = goals.find(g => g.id === contributionGoalId);
+        const amount = parseFloat(contributionAmount);
+        if (!goal || isNaN(amount) || amount === 0) {
+            showMessage("Input Error", "Choose a goal and enter the amount you put aside, or a negative amount for a withdrawal.");
+            return;
+        }
+        const updatedGoal = { ...goal, savedAmount: Math.max(Math.round((goal.savedAmount + amount) * 100) / 100, 0) };
+        if (await saveGoals(goals.map(g => g.id === goal.id ? updatedGoal : g), `${formatAmount(Math.abs(amount))} ${amount > 0 ? 'added to' : 'taken from'} "${goal.name}".`)) {
+            setContributionAmount('');
+        }
+    };
+
+    return (
+        <div className="max-w-6xl mx-auto p-4 md:p-8">
+            <h1 className="text-3xl font-bold text-gray-800 mb-6">Savings Goals</h1>
+
+            <div className="bg-white rounded-lg shadow-md p-6 mb-8">
+                <h2 className="text-xl font-semibold text-gray-700 mb-4">{editingGoalId ? 'Edit Goal' : 'Add a Goal'}</h2>
+                <form onSubmit={handleSubmit} className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                    <div>
+                        <label htmlFor="goalName" className="block text-gray-700 text-sm font-bold mb-2">Goal</label>
+                        <input
+                            type="text"
+                            id="goalName"
+                            value={name}
+                            onChange={(e: React.ChangeEvent<HTMLInputElement>) => setName(e.target.value)}
+                            className="shadow appearance-none border rounded-md w-full py-2 px-3 text-gray-700 leading-tight focus:outline-none focus:shadow-outline focus:ring-2 focus:ring-orange-500 focus:border-transparent"
+                            placeholder="e.g., Tuition"
+                            required
+                        />
+                    </div>
+                    <div>
+                        <label htmlFor="goalTargetAmount" className="block text-gray-700 text-sm font-bold mb-2">Target Amount ({baseCurrency})</label>
+                        <input
+                            type="number"
+                            id="goalTargetAmount"
+                            value={targetAmount}
+                            onChange={(e: React.ChangeEvent<HTMLInputElement>) => setTargetAmount(e.target.value)}
+                            className="shadow appearance-none border rounded-md w-full py-2 px-3 text-gray-700 leading-tight focus:outline-none focus:shadow-outline focus:ring-2 focus:ring-orange-500 focus:border-transparent"
+                            placeholder="e.g., 60000"
+                            step="0.01"
+                            min="0"
+                            required
+                        />
+                    </div>
+                    <div>
+                        <label htmlFor="goalTargetDate" className="block text-gray-700 text-sm font-bold mb-2">Needed By</label>
+                        <input
+                            type="date"
+                            id="goalTargetDate"
+                            value={targetDate}
+                            onChange={(e: React.ChangeEvent<HTMLInputElement>) => setTargetDate(e.target.value)}
+                            className="shadow appearance-none border rounded-md w-full py-2 px-3 text-gray-700 leading-tight focus:outline-none focus:shadow-outline focus:ring-2 focus:ring-orange-500 focus:border-transparent"
+                            required
+                        />
+                    </div>
+                    <div>
+                        <label htmlFor="goalSavedAmount" className="block text-gray-700 text-sm font-bold mb-2">Saved So Far ({baseCurrency})</label>
+                        <input
+                            type="number"
+                            id="goalSavedAmount"
+                            value={savedAmount}
+                            onChange={(e: React.ChangeEvent<HTMLInputElement>) => setSavedAmount(e.target.value)}
+                            className="shadow appearance-none border rounded-md w-full py-2 px-3 text-gray-700 leading-tight focus:outline-none focus:shadow-outline focus:ring-2 focus:ring-orange-500 focus:border-transparent"
+                            placeholder="0"
+                            step="0.01"
+                            min="0"
+                        />
+                    </div>
+                    {accounts.length > 0 && (
+                        <div>
+                            <label htmlFor="goalAccount" className="block text-gray-700 text-sm font-bold mb-2">Kept In</label>
+                            <select
+                                id="goalAccount"
+                                value={accountId}
+                                onChange={(e: React.ChangeEvent<HTMLSelectElement>) => setAccountId(e.target.value)}
+                                className="shadow appearance-none border rounded-md w-full py-2 px-3 text-gray-700 leading-tight focus:outline-none focus:shadow-outline focus:ring-2 focus:ring-orange-500 focus:border-transparent"
+                            >
+                                <option value="">No specific account</option>
+                                <AccountOptions accounts={accounts} selectedId={accountId || undefined} />
+                            </select>
+                        </div>
+                    )}
+                    <div>
+                        <label htmlFor="goalPriority" className="block text-gray-700 text-sm font-bold mb-2">Priority</label>
+                        <select
+                            id="goalPriority"
+                            value={priority}
+                            onChange={(e: React.ChangeEvent<HTMLSelectElement>) => setPriority(e.target.value as GoalPriority)}
+                            className="shadow appearance-none border rounded-md w-full py-2 px-3 text-gray-700 leading-tight focus:outline-none focus:shadow-outline focus:ring-2 focus:ring-orange-500 focus:border-transparent"
+                        >
+                            {(Object.keys(goalPriorityLabels) as GoalPriority[]).map(option => (
+                                <option key={option} value={option}>{goalPriorityLabels[option]}</option>
+                            ))}
+                        </select>
+                    </div>
+                    <div className="md:col-span-2 flex justify-end gap-2">
+                        {editingGoalId && (
+                            <button
+                                type="button"
+                                onClick={resetForm}
+                                className="bg-gray-200 hover:bg-gray-300 text-gray-800 font-bold py-2 px-6 rounded-md transition duration-200 cursor-pointer"
+                            >
+                                Cancel
+                            </button>
+                        )}
+                        <button
+                            type="submit"
+                            className="bg-orange-500 hover:bg-orange-600 text-white font-bold py-2 px-6 rounded-md focus:outline-none focus:shadow-outline transition duration-200 shadow-md cursor-pointer disabled:opacity-70 disabled:cursor-not-allowed"
+                            disabled={isSaving}
+                        >
+                            {isSaving ? 'Saving...' : editingGoalId ? 'Update Goal' : 'Add Goal'}
+                        </button>
+                    </div>
+                </form>
+            </div>
+
+            <div className="bg-white rounded-lg shadow-md p-6 mb-8">
+                <h2 className="text-xl font-semibold text-gray-700 mb-2">Progress &amp; Contribution Plan</h2>
+                <p className="text-sm text-gray-600 mb-4">
+                    Contributions are set aside on each payday ({describePaySchedule(schedule)}) until the goal's date, and the dashboard forecast
+                    reserves them so its balance is money you can actually spend. When your pay can't cover every goal, higher priorities come first.
+                </p>
+                {goalPlans.length === 0 ? (
+                    <p className="text-gray-600">No savings goals yet. Add one above!</p>
+                ) : (
+                    <div className="space-y-4">
+                        {goalPlans.map(({ goal, plan }) => {
+                            const percentSaved = Math.min(goal.savedAmount / goal.targetAmount * 100, 100);
+                            return (
+                                <div key={goal.id} className="border-b border-gray-100 pb-4">
+                                    <div className="flex flex-wrap justify-between items-center mb-1">
+                                        <span className="text-gray-800 font-semibold">
+                                            {goal.name}
+                                            <span className="ml-2 inline-flex px-2 py-0.5 text-xs leading-5 font-semibold rounded-full bg-gray-100 text-gray-700">{goalPriorityLabels[goal.priority]} priority</span>
+                                        </span>
+                                        <span className="text-sm text-gray-700">
+                                            {formatAmount(goal.savedAmount)} of {formatAmount(goal.targetAmount)} ({Math.round(percentSaved)}%) by {goal.targetDate.toLocaleDateString()}
+                                        </span>
+                                    </div>
+                                    <div className="w-full bg-gray-200 rounded-full h-3">
+                                        <div
+                                            className={`h-3 rounded-full ${plan.remaining === 0 ? 'bg-emerald-500' : plan.projectedShortfall > 0 ? 'bg-amber-500' : 'bg-orange-500'}`}
+                                            style={{ width: `${percentSaved}%` }}
+                                        />
+                                    </div>
+                                    <div className="flex flex-wrap justify-between items-center mt-1 text-xs text-gray-500">
+                                        <span>
+                                            {plan.remaining === 0 ? 'Goal reached!'
+                                                : plan.paydays.length === 0 ? 'No paydays left before the target date.'
+                                                : `${formatAmount(plan.plannedPerPayday)} on each of the next ${plan.paydays.length} payday${plan.paydays.length === 1 ? '' : 's'}`}
+                                            {goal.accountId && ` · Kept in ${getAccountName(accounts, goal.accountId, null)}`}
+                                        </span>
+                                        {plan.projectedShortfall > 0 && (
+                                            <span className="text-red-600 font-semibold">
+                                                {plan.plannedPerPayday < plan.requiredPerPayday
+                                                    ? `Needs ${formatAmount(plan.requiredPerPayday)} a payday; ${formatAmount(plan.projectedShortfall)} short at the target date`
+                                                    : `${formatAmount(plan.projectedShortfall)} short at the target date`}
+                                            </span>
+                                        )}
+                                    </div>
+                                    <div className="flex space-x-2 mt-1">
+                                        <button
+                                            onClick={() => handleEdit(goal)}
+                                            className="px-2 py-1 text-sm font-medium text-blue-700 hover:text-blue-900 transition duration-200"
+                                        >
+                                            Edit
+                                        </button>
+                                        <button
+                                            onClick={() => handleDelete(goal)}
+                                            className="px-2 py-1 text-sm font-medium text-orange-700 hover:text-orange-900 transition duration-200"
+                                            disabled={isSaving}
+                                        >
+                                            Delete
+                                        </button>
+                                    </div>
+                                </div>
+                            );
+                        })}
+                        <div className="pt-2 font-bold flex justify-between items-center text-lg text-gray-800">
+                            <span>Set Aside Each Payday:</span>
+                            <span>{formatAmount(totalPlannedPerPayday)}</span>
+                        </div>
+                    </div>
+                )}
+            </div>
+
+            {goals.length > 0 && (
+                <div className="bg-white rounded-lg shadow-md p-6">
+                    <h2 className="text-xl font-semibold text-gray-700 mb-2">Record a Contribution</h2>
+                    <p className="text-sm text-gray-600 mb-4">Once you have put money aside, add it to the goal so the plan spreads only what is left. Use a negative amount for a withdrawal.</p>
+                    <form onSubmit={handleRecordContribution} className="flex flex-col gap-2 sm:flex-row">
+                        <select
+                            value={contributionGoalId}
+                            onChange={(e: React.ChangeEvent<HTMLSelectElement>) => setContributionGoalId(e.target.value)}
+                            className="shadow appearance-none border rounded-md w-full py-2 px-3 text-gray-700 leading-tight focus:outline-none focus:shadow-outline focus:ring-2 focus:ring-orange-500 focus:border-transparent"
+                            aria-label="Goal"
+                            required
+                        >
+                            <option value="">Choose a goal</option>
+                            {goals.map(goal => <option key={goal.id} value={goal.id}>{goal.name}</option>)}
+                        </select>
+                        <input
+                            type="number"
+                            value={contributionAmount}
+                            onChange={(e: React.ChangeEvent<HTMLInputElement>) => setContributionAmount(e.target.value)}
+                            className="shadow appearance-none border rounded-md w-full py-2 px-3 text-gray-700 leading-tight focus:outline-none focus:shadow-outline focus:ring-2 focus:ring-orange-500 focus:border-transparent"
+                            placeholder={`Amount (${baseCurrency})`}
+                            step="0.01"
+                            aria-label="Contribution amount"
+                            required
+                        />
+                        <button
+                            type="submit"
+                            className="bg-orange-500 hover:bg-orange-600 text-white font-bold py-2 px-4 rounded-md transition duration-200 shadow-sm cursor-pointer whitespace-nowrap disabled:opacity-70 disabled:cursor-not-allowed"
+                            disabled={isSaving}
+                        >
+                            Record
+                        </button>
+                    </form>
+                </div>
+            )}
+
+            <Modal
+                isOpen={isModalOpen}
+                title={modalTitle}
+                message={modalMessage}
+                onClose={() => setIsModalOpen(false)}
+            />
+        </div>
+    );
+};
+
+
+// --- Component: Accounts (Consolidated) ---
+const Accounts: React.FC<AccountsComponentProps> = ({ accounts, transfers, incomes, expenses, recurringExpenses, recurringIncomes, userProfile, addAccount, updateAccount, deleteAccount, addTransfer, deleteTransfer, updateUserProfile }) => {
+    const todayInputValue = toDateInputValue(new Date());
+
+    // State for adding or editing an account
+    const [editingAccountId, setEditingAccountId] = useState<string | null>(null);
+    const [accountName, setAccountName] = useState<string>('');
+    const [accountType, setAccountType] = useState<AccountType>('bank');
+    // A first account starts from the manually entered balance, so the dashboard does not jump when accounts take over
+    const [openingBalance, setOpeningBalance] = useState<string>(accounts.length === 0 && userProfile?.currentBalance ? userProfile.currentBalance.toString() : '');
+    const [openingDate, setOpeningDate] = useState<string>(todayInputValue);
+    const [accountCurrency, setAccountCurrency] = useState<string>(getBaseCurrency(userProfile));
+    // Billing cycle of a credit card; leave the days empty to count card purchases on their own dates
+    const [statementClosingDay, setStatementClosingDay] = useState<string>('');
+    const [paymentDueDay, setPaymentDueDay] = useState<string>('');
+    const [creditLimit, setCreditLimit] = useState<string>('');
+    const [minimumPaymentPercent, setMinimumPaymentPercent] = useState<string>('');
+    const [minimumPaymentFloor, setMinimumPaymentFloor] = useState<string>('');
+    const [cardPaymentAccountId, setCardPaymentAccountId] = useState<string>(''); // Empty means the default account
+
+    // State for recording a transfer
+    const [fromAccountId, setFromAccountId] = useState<string>('');
+    const [toAccountId, setToAccountId] = useState<string>('');
+    const [transferAmount, setTransferAmount] = useState<string>('');
+    const [transferDate, setTransferDate] = useState<string>(todayInputValue);
+    const [transferDescription, setTransferDescription] = useState<string>('');
+
+    const [isSaving, setIsSaving] = useState<boolean>(false);
+    const [isModalOpen, setIsModalOpen] = useState<boolean>(false);
+    const [modalMessage, setModalMessage] = useState<string>('');
+    const [modalTitle, setModalTitle] = useState<string>('');
+    const [isConfirmModalOpen, setIsConfirmModalOpen] = useState<boolean>(false);
+    const [itemToDelete, setItemToDelete] = useState<{ kind: 'account' | 'transfer'; id: string } | null>(null);
+
+    const activeAccounts = accounts.filter(account => !account.archived);
+    const defaultAccountId = getDefaultAccountId(userProfile, accounts);
+    const salaryAccountId = userProfile?.salaryAccountId || defaultAccountId;
+
+    // Keep the transfer pickers on two different active accounts
+    useEffect(() => {
+        const activeIds = accounts.filter(account => !account.archived).map(account => account.id);
+        if (!activeIds.includes(fromAccountId)) setFromAccountId(activeIds[0] || '');
+        if (!activeIds.includes(toAccountId) || toAccountId === fromAccountId) setToAccountId(activeIds.find(id => id !== fromAccountId) || '');
+    }, [accounts, fromAccountId, toAccountId]);
+
+    // Balances include everything dated today
+    const endOfToday = new Date();
+    endOfToday.setHours(24, 0, 0, 0);
+    const accountBalances = getAccountBalances(accounts, userProfile, incomes, expenses, transfers, endOfToday);
+    const baseCurrency = getBaseCurrency(userProfile);
+    const totalBalance = accountBalances.reduce((sum: number, { account, balance }: AccountBalance) => sum + toBaseAmount(balance, account.currency, new Date(), userProfile), 0);
+    const fromAccount = accounts.find(account => account.id === fromAccountId);
+    const toAccount = accounts.find(account => account.id === toAccountId);
+    const sortedTransfers = [...transfers].sort((a: TransferItem, b: TransferItem) => b.date.getTime() - a.date.getTime());
+
+    const formatAmount = (value: number) => value.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+    const showMessage = (title: string, message: string) => {
+        setModalTitle(title);
+        setModalMessage(message);
+        setIsModalOpen(true);
+    };
+
+    const resetAccountForm = () => {
+        setEditingAccountId(null);
+        setAccountName('');
+        setAccountType('bank');
+        setOpeningBalance('');
+        setOpeningDate(todayInputValue);
+        setAccountCurrency(baseCurrency);
+        setStatementClosingDay('');
+        setPaymentDueDay('');
+        setCreditLimit('');
+        setMinimumPaymentPercent('');
+        setMinimumPaymentFloor('');
+        setCardPaymentAccountId('');
+    };
+
+    const handleAccountSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        const parsedOpeningBalance = parseFloat(openingBalance || '0');
+        if (!accountName.trim()) {
+            showMessage("Input Error", "Account name is required.");
+            return;
+        }
+        if (isNaN(parsedOpeningBalance) || !openingDate) {
+            showMessage("Input Error", "Enter a valid opening balance and opening date.");
+            return;
+        }
+        const isCycleDay = (value: string) => parseInt(value) >= 1 && parseInt(value) <= 31;
+        const hasBillingCycle = accountType === 'credit-card' && (statementClosingDay !== '' || paymentDueDay !== '');
+        if (hasBillingCycle && (!isCycleDay(statementClosingDay) || !isCycleDay(paymentDueDay))) {
+            showMessage("Input Error", "Enter both the statement closing day and the payment due day, each between 1 and 31.");
+            return;
+        }
+        if (hasBillingCycle && [creditLimit, minimumPaymentPercent, minimumPaymentFloor].some(value => value !== '' && (isNaN(parseFloat(value)) || parseFloat(value) < 0))) {
+            showMessage("Input Error", "Credit limit and minimum payment must be zero or more.");
+            return;
+        }
+        setIsSaving(true);
+        try {
+            const accountData = {
+                name: accountName,
+                type: accountType,
+                openingBalance: parsedOpeningBalance,
+                openingDate: parseDateInput(openingDate),
+                currency: accountCurrency,
+                ...(hasBillingCycle ? {
+                    statementClosingDay: parseInt(statementClosingDay),
+                    paymentDueDay: parseInt(paymentDueDay),
+                    ...(creditLimit ? { creditLimit: parseFloat(creditLimit) } : {}),
+                    ...(minimumPaymentPercent ? { minimumPaymentPercent: parseFloat(minimumPaymentPercent) } : {}),
+                    ...(minimumPaymentFloor ? { minimumPaymentFloor: parseFloat(minimumPaymentFloor) } : {}),
+                    ...(cardPaymentAccountId ? { paymentAccountId: cardPaymentAccountId } : {}),
+                } : {}),
+            };
+            if (editingAccountId) {
+                await updateAccount(editingAccountId, accountData);
+            } else {
+                await addAccount(accountData);
+            }
+            showMessage("Success!", `Account ${editingAccountId ? 'updated' : 'added'}.`);
+            resetAccountForm();
+        } catch (error: unknown) {
+            showMessage("Error", `Failed to save account: ${(error as Error).message}`);
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const handleEditAccount = (account: AccountItem) => {
+        setEditingAccountId(account.id);
+        setAccountName(account.name);
+        setAccountType(account.type);
+        setOpeningBalance(account.openingBalance.toString());
+        setOpeningDate(toDateInputValue(account.openingDate));
+        setAccountCurrency(getRecordCurrency(account));
+        setStatementClosingDay(account.statementClosingDay?.toString() || '');
+        setPaymentDueDay(account.paymentDueDay?.toString() || '');
+        setCreditLimit(account.creditLimit?.toString() || '');
+        setMinimumPaymentPercent(account.minimumPaymentPercent?.toString() || '');
+        setMinimumPaymentFloor(account.minimumPaymentFloor?.toString() || '');
+        setCardPaymentAccountId(account.paymentAccountId || '');
+    };
+
+    const runAccountAction = async (action: () => Promise<void>, successMessage: string) => {
+        setIsSaving(true);
+        try {
+            await action();
+            showMessage("Success!", successMessage);
+        } catch (error: unknown) {
+            showMessage("Error", (error as Error).message);
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const handleTransferSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        const parsedAmount = parseFloat(transferAmount);
+        if (isNaN(parsedAmount) || parsedAmount <= 0 || !transferDate) {
+            showMessage("Input Error", "Enter a positive amount and a date for the transfer.");
+            return;
+        }
+        setIsSaving(true);
+        try {
+            await addTransfer({
+                fromAccountId,
+                toAccountId,
+                amount: parsedAmount,
+                date: parseDateInput(transferDate),
+                description: transferDescription,
+            });
+            setTransferAmount('');
+            setTransferDescription('');
+            showMessage("Success!", "Transfer recorded.");
+        } catch (error: unknown) {
+            showMessage("Error", `Failed to record transfer: ${(error as Error).message}`);
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const handleDeleteClick = (kind: 'account' | 'transfer', id: string) => {
+        setItemToDelete({ kind, id });
+        setModalTitle("Confirm Deletion");
+        setModalMessage(kind === 'account'
+            ? "Are you sure you want to delete this account? This action cannot be undone."
+            : "Are you sure you want to delete this transfer? Both account balances will be recalculated.");
+        setIsConfirmModalOpen(true);
+    };
+
+    const confirmDelete = async () => {
+        if (!itemToDelete) return;
+        try {
+            if (itemToDelete.kind === 'account') {
+                await deleteAccount(itemToDelete.id);
+                if (editingAccountId === itemToDelete.id) resetAccountForm();
+                setModalMessage("Account deleted successfully.");
+            } else {
+                await deleteTransfer(itemToDelete.id);
+                setModalMessage("Transfer deleted successfully.");
+            }
+            setModalTitle("Success!");
+            setIsModalOpen(true);
+        } catch (error: unknown) {
+            showMessage("Error", `Failed to delete: ${(error as Error).message}`);
+        } finally {
+            setIsConfirmModalOpen(false);
+            setItemToDelete(null);
+        }
+    };
+
+    const scheduledRecordCount = (accountId: string) =>
+        [...recurringExpenses, ...recurringIncomes].filter(record => (record.accountId || defaultAccountId) === accountId).length;
+
+    return (
+        <div className="max-w-6xl mx-auto p-4 md:p-8">
+            <h1 className="text-3xl font-bold text-gray-800 mb-6">Accounts</h1>
+
+            <div className="bg-white rounded-lg shadow-md p-6 mb-8">
+                <div className="flex flex-wrap justify-between items-baseline gap-4 mb-4">
+                    <h2 className="text-xl font-semibold text-gray-700">Balances</h2>
+                    {accounts.length > 0 && (
+                        <p className="text-lg font-bold text-gray-800">
+                            Total: <span className={totalBalance < 0 ? 'text-red-600' : 'text-emerald-700'}>{baseCurrency} {formatAmount(totalBalance)}</span>
+                        </p>
+                    )}
+                </div>
+                {accounts.length === 0 ? (
+                    <p className="text-gray-600">
+                        No accounts yet. Add your cash, bank accounts, e-wallets and credit cards below. Once you do, your balance is calculated
+                        from them instead of the Current Cash Balance on your profile, and existing records are assigned to your first account.
+                    </p>
+                ) : (
+                    <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+                        {accountBalances.map(({ account, balance }: AccountBalance) => (
+                            <div key={account.id} className={`p-4 rounded-lg border ${account.archived ? 'bg-gray-50 border-gray-200 opacity-75' : 'bg-white border-gray-300'}`}>
+                                <div className="flex justify-between items-start">
+                                    <div>
+                                        <p className="font-semibold text-gray-900">{account.name}</p>
+                                        <p className="text-xs text-gray-500">{accountTypeLabels[account.type]}</p>
+                                    </div>
+                                    <div className="flex flex-wrap justify-end gap-1">
+                                        {account.id === defaultAccountId && (
+                                            <span className="inline-flex px-2 py-0.5 text-xs leading-5 font-semibold rounded-full bg-orange-100 text-orange-800">Default</span>
+                                        )}
+                                        {account.id === salaryAccountId && (
+                                            <span className="inline-flex px-2 py-0.5 text-xs leading-5 font-semibold rounded-full bg-blue-100 text-blue-800">Salary</span>
+                                        )}
+                                        {account.archived && (
+                                            <span className="inline-flex px-2 py-0.5 text-xs leading-5 font-semibold rounded-full bg-gray-200 text-gray-700">Archived</span>
+                                        )}
+                                    </div>
+                                </div>
+                                <p className={`text-2xl font-bold mt-2 ${balance < 0 ? 'text-red-600' : 'text-gray-800'}`}>{getRecordCurrency(account)} {formatAmount(balance)}</p>
+                                <p className="text-xs text-gray-500">
+                                    Opened with {getRecordCurrency(account)} {formatAmount(account.openingBalance)} on {account.openingDate.toLocaleDateString()}
+                                    {scheduledRecordCount(account.id) > 0 && ` · ${scheduledRecordCount(account.id)} recurring`}
+                                </p>
+                                {isStatementCard(account) && (
+                                    <p className="text-xs text-gray-500">
+                                        Statement closes on day {account.statementClosingDay}, due on day {account.paymentDueDay}
+                                        {getCardUtilization(account, balance) !== null && ` · ${Math.round(getCardUtilization(account, balance) as number)}% of ${getRecordCurrency(account)} ${formatAmount(account.creditLimit as number)} limit used`}
+                                    </p>
+                                )}
+                                <div className="flex flex-wrap gap-2 mt-2">
+                                    <button
+                                        onClick={() => handleEditAccount(account)}
+                                        className="px-2 py-1 text-sm font-medium text-blue-700 hover:text-blue-900 transition duration-200"
+                                    >
+                                        Edit
+                                    </button>
+                                    {account.id !== defaultAccountId && !account.archived && (
+                                        <button
+                                            onClick={() => runAccountAction(() => updateUserProfile({ defaultAccountId: account.id }), `${account.name} is now your default account.`)}
+                                            className="px-2 py-1 text-sm font-medium text-blue-700 hover:text-blue-900 transition duration-200"
+                                            disabled={isSaving}
+                                        >
+                                            Make Default
+                                        </button>
+                                    )}
+                                    <button
+                                        onClick={() => runAccountAction(
+                                            () => updateAccount(account.id, { archived: !account.archived }),
+                                            `${account.name} ${account.archived ? 'restored' : 'archived'}.`
+                                        )}
+                                        className="px-2 py-1 text-sm font-medium text-gray-700 hover:text-gray-900 transition duration-200"
+                                        disabled={isSaving}
+                                    >
+                                        {account.archived ? 'Unarchive' : 'Archive'}
+                                    </button>
+                                    <button
+                                        onClick={() => handleDeleteClick('account', account.id)}
+                                        className="px-2 py-1 text-sm font-medium text-orange-700 hover:text-orange-900 transition duration-200"
+                                        disabled={isSaving}
+                                    >
+                                        Delete
+                                    </button>
+                                </div>
+                            </div>
+                        ))}
+                    </div>
+                )}
+                {accounts.length > 0 && (
+                    <p className="text-xs text-gray-500 mt-4">
+                        Balances include paid invoices, expenses and transfers dated up to today. Outstanding invoices and future-dated records appear in the dashboard forecast.
+                    </p>
+                )}
+            </div>
+
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-8 mb-8">
+                <div className="bg-white rounded-lg shadow-md p-6">
+                    <h2 className="text-xl font-semibold text-gray-700 mb-4">{editingAccountId ? 'Edit Account' : 'Add an Account'}</h2>
+                    <form onSubmit={handleAccountSubmit} className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                        <div>
+                            <label htmlFor="accountName" className="block text-gray-700 text-sm font-bold mb-2">Name</label>
+                            <input
+                                type="text"
+                                id="accountName"
+                                value={accountName}
+                                onChange={(e: React.ChangeEvent<HTMLInputElement>) => setAccountName(e.target.value)}
+                                className="shadow appearance-none border rounded-md w-full py-2 px-3 text-gray-700 leading-tight focus:outline-none focus:shadow-outline focus:ring-2 focus:ring-orange-500 focus:border-transparent"
+                                placeholder="e.g., BPI Savings, GCash"
+                                required
+                            />
+                        </div>
+                        <div>
+                            <label htmlFor="accountType" className="block text-gray-700 text-sm font-bold mb-2">Type</label>
+                            <select
+                                id="accountType"
+                                value={accountType}
+                                onChange={(e: React.ChangeEvent<HTMLSelectElement>) => setAccountType(e.target.value as AccountType)}
+                                className="shadow appearance-none border rounded-md w-full py-2 px-3 text-gray-700 leading-tight focus:outline-none focus:shadow-outline focus:ring-2 focus:ring-orange-500 focus:border-transparent"
+                            >
+                                {(Object.keys(accountTypeLabels) as AccountType[]).map(type => (
+                                    <option key={type} value={type}>{accountTypeLabels[type]}</option>
+                                ))}
+                            </select>
+                        </div>
+                        <div>
+                            <label htmlFor="openingBalance" className="block text-gray-700 text-sm font-bold mb-2">Opening Balance ({accountCurrency})</label>
+                            <input
+                                type="number"
+                                id="openingBalance"
+                                value={openingBalance}
+                                onChange={(e: React.ChangeEvent<HTMLInputElement>) => setOpeningBalance(e.target.value)}
+                                className="shadow appearance-none border rounded-md w-full py-2 px-3 text-gray-700 leading-tight focus:outline-none focus:shadow-outline focus:ring-2 focus:ring-orange-500 focus:border-transparent"
+                                placeholder={accountType === 'credit-card' ? 'e.g., -5000 if you owe 5000' : 'e.g., 10000'}
+                                step="0.01"
+                            />
+                        </div>
+                        <div>
+                            <label htmlFor="accountCurrency" className="block text-gray-700 text-sm font-bold mb-2">Currency</label>
+                            <select
+                                id="accountCurrency"
+                                value={accountCurrency}
+                                onChange={(e: React.ChangeEvent<HTMLSelectElement>) => setAccountCurrency(e.target.value)}
+                                className="shadow appearance-none border rounded-md w-full py-2 px-3 text-gray-700 leading-tight focus:outline-none focus:shadow-outline focus:ring-2 focus:ring-orange-500 focus:border-transparent"
+                            >
+                                <CurrencyOptions currencies={getCurrencyOptions(userProfile)} />
+                            </select>
+                        </div>
+                        <div>
+                            <label htmlFor="openingDate" className="block text-gray-700 text-sm font-bold mb-2">Balance As Of</label>
+                            <input
+                                type="date"
+                                id="openingDate"
+                                value={openingDate}
+                                onChange={(e: React.ChangeEvent<HTMLInputElement>) => setOpeningDate(e.target.value)}
+                                className="shadow appearance-none border rounded-md w-full py-2 px-3 text-gray-700 leading-tight focus:outline-none focus:shadow-outline focus:ring-2 focus:ring-orange-500 focus:border-transparent"
+                                required
+                            />
+                        </div>
+                        <p className="md:col-span-2 text-xs text-gray-500">
+                            Records dated before this day are treated as already included in the opening balance.
+                        </p>
+                        {accountType === 'credit-card' && (
+                            <div className="md:col-span-2 grid grid-cols-1 md:grid-cols-2 gap-4 bg-gray-50 p-4 rounded-lg border border-gray-200">
+                                <p className="md:col-span-2 text-xs text-gray-500">
+                                    With a billing cycle, purchases on this card are grouped into monthly statements and the forecast pays each statement in full on its due date.
+                                </p>
+                                <div>
+                                    <label htmlFor="statementClosingDay" className="block text-gray-700 text-sm font-bold mb-2">Statement Closing Day</label>
+                                    <input
+                                        type="number"
+                                        id="statementClosingDay"
+                                        value={statementClosingDay}
+                                        onChange={(e: React.ChangeEvent<HTMLInputElement>) => setStatementClosingDay(e.target.value)}
+                                        className="shadow appearance-none border rounded-md w-full py-2 px-3 text-gray-700 leading-tight focus:outline-none focus:shadow-outline focus:ring-2 focus:ring-orange-500 focus:border-transparent"
+                                        placeholder="e.g., 5"
+                                        min="1"
+                                        max="31"
+                                    />
+                                </div>
+                                <div>
+                                    <label htmlFor="paymentDueDay" className="block text-gray-700 text-sm font-bold mb-2">Payment Due Day</label>
+                                    <input
+                                        type="number"
+                                        id="paymentDueDay"
+                                        value={paymentDueDay}
+                                        onChange={(e: React.ChangeEvent<HTMLInputElement>) => setPaymentDueDay(e.target.value)}
+                                        className="shadow appearance-none border rounded-md w-full py-2 px-3 text-gray-700 leading-tight focus:outline-none focus:shadow-outline focus:ring-2 focus:ring-orange-500 focus:border-transparent"
+                                        placeholder="e.g., 25"
+                                        min="1"
+                                        max="31"
+                                    />
+                                </div>
+                                <div>
+                                    <label htmlFor="creditLimit" className="block text-gray-700 text-sm font-bold mb-2">Credit Limit ({accountCurrency})</label>
+                                    <input
+                                        type="number"
+                                        id="creditLimit"
+                                        value={creditLimit}
+                                        onChange={(e: React.ChangeEvent<HTMLInputElement>) => setCreditLimit(e.target.value)}
+                                        className="shadow appearance-none border rounded-md w-full py-2 px-3 text-gray-700 leading-tight focus:outline-none focus:shadow-outline focus:ring-2 focus:ring-orange-500 focus:border-transparent"
+                                        placeholder="e.g., 50000"
+                                        step="0.01"
+                                    />
+                                </div>
+                                <div>
+                                    <label htmlFor="cardPaymentAccount" className="block text-gray-700 text-sm font-bold mb-2">Statements Paid From</label>
+                                    <select
+                                        id="cardPaymentAccount"
+                                        value={cardPaymentAccountId}
+                                        onChange={(e: React.ChangeEvent<HTMLSelectElement>) => setCardPaymentAccountId(e.target.value)}
+                                        className="shadow appearance-none border rounded-md w-full py-2 px-3 text-gray-700 leading-tight focus:outline-none focus:shadow-outline focus:ring-2 focus:ring-orange-500 focus:border-transparent"
+                                    >
+                                        <option value="">Default account</option>
+                                        <AccountOptions accounts={accounts.filter(account => account.id !== editingAccountId && account.type !== 'credit-card')} selectedId={cardPaymentAccountId || undefined} />
+                                    </select>
+                                </div>
+                                <div>
+                                    <label htmlFor="minimumPaymentPercent" className="block text-gray-700 text-sm font-bold mb-2">Minimum Payment (% of Statement)</label>
+                                    <input
+                                        type="number"
+                                        id="minimumPaymentPercent"
+                                        value={minimumPaymentPercent}
+                                        onChange={(e: React.ChangeEvent<HTMLInputElement>) => setMinimumPaymentPercent(e.target.value)}
+                                        className="shadow appearance-none border rounded-md w-full py-2 px-3 text-gray-700 leading-tight focus:outline-none focus:shadow-outline focus:ring-2 focus:ring-orange-500 focus:border-transparent"
+                                        placeholder="e.g., 3"
+                                        step="0.01"
+                                    />
+                                </div>
+                                <div>
+                                    <label htmlFor="minimumPaymentFloor" className="block text-gray-700 text-sm font-bold mb-2">Minimum Payment Floor ({accountCurrency})</label>
+                                    <input
+                                        type="number"
+                                        id="minimumPaymentFloor"
+                                        value={minimumPaymentFloor}
+                                        onChange={(e: React.ChangeEvent<HTMLInputElement>) => setMinimumPaymentFloor(e.target.value)}
+                                        className="shadow appearance-none border rounded-md w-full py-2 px-3 text-gray-700 leading-tight focus:outline-none focus:shadow-outline focus:ring-2 focus:ring-orange-500 focus:border-transparent"
+                                        placeholder="e.g., 850"
+                                        step="0.01"
+                                    />
+                                </div>
+                            </div>
+                        )}
+                        <div className="md:col-span-2 flex justify-end space-x-2">
+                            {editingAccountId && (
+                                <button
+                                    type="button"
+                                    onClick={resetAccountForm}
+                                    className="bg-gray-200 hover:bg-gray-300 text-gray-800 font-bold py-2 px-4 rounded-md transition duration-200 cursor-pointer"
+                                >
+                                    Cancel
+                                </button>
+                            )}
+                            <button
+                                type="submit"
+                                className="bg-orange-500 hover:bg-orange-600 text-white font-bold py-2 px-4 rounded-md transition duration-200 shadow-sm cursor-pointer disabled:opacity-70 disabled:cursor-not-allowed"
+                                disabled={isSaving}
+                            >
+                                {editingAccountId ? 'Save Account' : 'Add Account'}
+                            </button>
+                        </div>
+                    </form>
+                </div>
+
+                <div className="bg-white rounded-lg shadow-md p-6">
+                    <h2 className="text-xl font-semibold text-gray-700 mb-4">Transfer Between Accounts</h2>
+                    {activeAccounts.length < 2 ? (
+                        <p className="text-gray-600">Add at least two accounts to record transfers, such as a cash withdrawal or a GCash top-up.</p>
+                    ) : (
+                        <form onSubmit={handleTransferSubmit} className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                            <div>
+                                <label htmlFor="transferFrom" className="block text-gray-700 text-sm font-bold mb-2">From</label>
+                                <select
+                                    id="transferFrom"
+                                    value={fromAccountId}
+                                    onChange={(e: React.ChangeEvent<HTMLSelectElement>) => setFromAccountId(e.target.value)}
+                                    className="shadow appearance-none border rounded-md w-full py-2 px-3 text-gray-700 leading-tight focus:outline-none focus:shadow-outline focus:ring-2 focus:ring-orange-500 focus:border-transparent"
+                                >
+                                    <AccountOptions accounts={accounts} />
+                                </select>
+                            </div>
+                            <div>
+                                <label htmlFor="transferTo" className="block text-gray-700 text-sm font-bold mb-2">To</label>
+                                <select
+                                    id="transferTo"
+                                    value={toAccountId}
+                                    onChange={(e: React.ChangeEvent<HTMLSelectElement>) => setToAccountId(e.target.value)}
+                                    className="shadow appearance-none border rounded-md w-full py-2 px-3 text-gray-700 leading-tight focus:outline-none focus:shadow-outline focus:ring-2 focus:ring-orange-500 focus:border-transparent"
+                                >
+                                    <AccountOptions accounts={accounts.filter(account => account.id !== fromAccountId)} />
+                                </select>
+                            </div>
+                            <div>
+                                <label htmlFor="transferAmount" className="block text-gray-700 text-sm font-bold mb-2">Amount ({getRecordCurrency(fromAccount || {})})</label>
+                                <input
+                                    type="number"
+                                    id="transferAmount"
+                                    value={transferAmount}
+                                    onChange={(e: React.ChangeEvent<HTMLInputElement>) => setTransferAmount(e.target.value)}
+                                    className="shadow appearance-none border rounded-md w-full py-2 px-3 text-gray-700 leading-tight focus:outline-none focus:shadow-outline focus:ring-2 focus:ring-orange-500 focus:border-transparent"
+                                    placeholder="e.g., 2000"
+                                    step="0.01"
+                                    required
+                                />
+                            </div>
+                            <div>
+                                <label htmlFor="transferDate" className="block text-gray-700 text-sm font-bold mb-2">Date</label>
+                                <input
+                                    type="date"
+                                    id="transferDate"
+                                    value={transferDate}
+                                    onChange={(e: React.ChangeEvent<HTMLInputElement>) => setTransferDate(e.target.value)}
+                                    className="shadow appearance-none border rounded-md w-full py-2 px-3 text-gray-700 leading-tight focus:outline-none focus:shadow-outline focus:ring-2 focus:ring-orange-500 focus:border-transparent"
+                                    required
+                                />
+                            </div>
+                            <div className="md:col-span-2">
+                                <label htmlFor="transferDescription" className="block text-gray-700 text-sm font-bold mb-2">Description (Optional)</label>
+                                <input
+                                    type="text"
+                                    id="transferDescription"
+                                    value={transferDescription}
+                                    onChange={(e: React.ChangeEvent<HTMLInputElement>) => setTransferDescription(e.target.value)}
+                                    className="shadow appearance-none border rounded-md w-full py-2 px-3 text-gray-700 leading-tight focus:outline-none focus:shadow-outline focus:ring-2 focus:ring-orange-500 focus:border-transparent"
+                                    placeholder="e.g., ATM withdrawal"
+                                />
+                            </div>
+                            {fromAccount && toAccount && getRecordCurrency(fromAccount) !== getRecordCurrency(toAccount) && (
+                                <p className="md:col-span-2 text-xs text-gray-500">
+                                    {toAccount.name} receives about {getRecordCurrency(toAccount)} {formatAmount(convertAmount(parseFloat(transferAmount) || 0, getRecordCurrency(fromAccount), getRecordCurrency(toAccount), transferDate ? parseDateInput(transferDate) : new Date(), userProfile?.exchangeRates || []))} at your stored exchange rate.
+                                </p>
+                            )}
+                            <div className="md:col-span-2 flex justify-end">
+                                <button
+                                    type="submit"
+                                    className="bg-orange-500 hover:bg-orange-600 text-white font-bold py-2 px-4 rounded-md transition duration-200 shadow-sm cursor-pointer disabled:opacity-70 disabled:cursor-not-allowed"
+                                    disabled={isSaving}
+                                >
+                                    Record Transfer
+                                </button>
+                            </div>
+                        </form>
+                    )}
+                </div>
+            </div>
+
+            {transfers.length > 0 && (
+                <div className="bg-white rounded-lg shadow-md p-6">
+                    <h2 className="text-xl font-semibold text-gray-700 mb-4">Transfers</h2>
+                    <div className="overflow-x-auto">
+                        <table className="min-w-full divide-y divide-gray-200">
+                            <thead>
+                                <tr className="bg-gray-50">
+                                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider rounded-tl-lg">Date</th>
+                                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">From</th>
+                                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">To</th>
+                                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Amount</th>
+                                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Description</th>
+                                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider rounded-tr-lg">Actions</th>
+                                </tr>
+                            </thead>
+                            <tbody className="bg-white divide-y divide-gray-200">
+                                {sortedTransfers.map((transfer: TransferItem) => (
+                                    <tr key={transfer.id}>
+                                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{transfer.date.toLocaleDateString()}</td>
+                                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{getAccountName(accounts, transfer.fromAccountId, null) || 'Deleted account'}</td>
+                                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{getAccountName(accounts, transfer.toAccountId, null) || 'Deleted account'}</td>
+                                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{getRecordCurrency(transfer)} {formatAmount(transfer.amount)}</td>
+                                        <td className="px-6 py-4 text-sm text-gray-700">{transfer.description}</td>
+                                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                                            <button
+                                                onClick={() => handleDeleteClick('transfer', transfer.id)}
+                                                className="px-2 py-1 text-sm font-medium text-orange-700 hover:text-orange-900 transition duration-200"
+                                                title="Delete"
+                                            >
+                                                Delete
+                                            </button>
+                                        </td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+                </div>
+            )}
+
+            <Modal
+                isOpen={isModalOpen}
+                title={modalTitle}
+                message={modalMessage}
+                onClose={() => setIsModalOpen(false)}
+            />
+            <Modal
+                isOpen={isConfirmModalOpen}
+                title={modalTitle}
+                message={modalMessage}
+                onClose={() => setIsConfirmModalOpen(false)}
+                onConfirm={confirmDelete}
+                showConfirmButton={true}
+            />
+        </div>
+    );
+};
+
+
+// --- Component: Profile (Consolidated) ---
+const Profile: React.FC<ProfileComponentProps> = ({ userProfile, updateUserProfile, incomes, expenses, recurringExpenses, recurringIncomes, accounts, transfers }) => {
+    // Salary, deductions and loans are entered in the base currency
+    const baseCurrency = getBaseCurrency(userProfile);
+    const [currentBalance, setCurrentBalance] = useState<string>(userProfile?.currentBalance?.toString() || '');
+    const [grossSalaryIncome, setGrossSalaryIncome] = useState<string>(userProfile?.salaryIncome?.toString() || '');
+    // Pay schedule fields are kept as typed until the profile is saved
+    const savedPaySchedule = getPaySchedule(userProfile);
+    const [payScheduleType, setPayScheduleType] = useState<PayScheduleType>(savedPaySchedule.type);
+    const [payDaysOfMonth, setPayDaysOfMonth] = useState<string>((savedPaySchedule.daysOfMonth || [15, 30]).join(', '));
+    const [payWeekday, setPayWeekday] = useState<string>(String(savedPaySchedule.weekday ?? 5));
+    const [payAnchorDate, setPayAnchorDate] = useState<string>(savedPaySchedule.anchorDate ? toDateInputValue(savedPaySchedule.anchorDate) : '');
+    const [businessDayRule, setBusinessDayRule] = useState<BusinessDayRule>(savedPaySchedule.businessDayRule);
+    const [netPayPerPayday, setNetPayPerPayday] = useState<string>(savedPaySchedule.netPayPerPayday?.toString() || '');
+    const [salaryAccountId, setSalaryAccountId] = useState<string>(userProfile?.salaryAccountId || ''); // Empty means the default account
+    const [name, setName] = useState<string>(userProfile?.name || '');
+    const [restDays, setRestDays] = useState<number[]>(userProfile?.restDays || defaultRestDays);
+
+    // State for individual deductions
+    const [deductions, setDeductions] = useState<{ [key: string]: string }>(() => {
+        const initialDeductions = {
+            'SSS': '0',
+            'GSIS': '0',
+            'Philhealth': '0',
+            'Pag-Ibig Fund': '0',
+            'Company Initiated Deductions': '0',
+            'Voluntary Deductions': '0',
+            'Property Annual Fee': '0',
+        };
+        return userProfile?.deductions?.reduce((acc: { [key: string]: string }, d: DeductionItem) => { // Explicitly typed acc and d
+            if (initialDeductions.hasOwnProperty(d.name)) {
+                return { ...acc, [d.name]: d.amount.toString() };
+            }
+            return acc;
+        }, initialDeductions) || initialDeductions;
+    });
+    const [customDeductions, setCustomDeductions] = useState<DeductionItem[]>(userProfile?.deductions?.filter(d => !['SSS', 'GSIS', 'Philhealth', 'Pag-Ibig Fund', 'Company Initiated Deductions', 'Voluntary Deductions', 'Property Annual Fee'].includes(d.name) &&
+        !(userProfile?.statutoryDeductions?.enabled && d.name === 'Withholding Tax')) || []);
+    const [newCustomDeductionName, setNewCustomDeductionName] = useState<string>('');
+    const [newCustomDeductionAmount, setNewCustomDeductionAmount] = useState<string>('');
+
+    // State for automatic statutory deductions; overrides are kept as typed until the profile is saved
+    const [statutoryEnabled, setStatutoryEnabled] = useState<boolean>(userProfile?.statutoryDeductions?.enabled || false);
+    const [statutoryYear, setStatutoryYear] = useState<number>(userProfile?.statutoryDeductions?.year || getDefaultStatutoryDeductionSettings().year);
+    const [employmentSector, setEmploymentSector] = useState<EmploymentSector>(userProfile?.statutoryDeductions?.sector || 'private');
+    const [statutoryOverrides, setStatutoryOverrides] = useState<Partial<Record<StatutoryDeductionName, string>>>(() =>
+        Object.fromEntries(Object.entries(userProfile?.statutoryDeductions?.overrides || {}).map(([name, amount]) => [name, String(amount)])));
+
+    // State for extra pay; the add form starts out as a 13th-month pay, due by December 24
+    const [extraPay, setExtraPay] = useState<ExtraPayComponent[]>(userProfile?.extraPay || []);
+    const [newExtraPayName, setNewExtraPayName] = useState<string>('');
+    const [newExtraPayMonth, setNewExtraPayMonth] = useState<string>('11');
+    const [newExtraPayDay, setNewExtraPayDay] = useState<string>('24');
+    const [newExtraPayBasis, setNewExtraPayBasis] = useState<ExtraPayBasis>('percent-of-basic');
+    const [newExtraPayAmount, setNewExtraPayAmount] = useState<string>('100');
+    const [newExtraPayTaxable, setNewExtraPayTaxable] = useState<boolean>(false);
+    const [newExtraPayBusinessDayRule, setNewExtraPayBusinessDayRule] = useState<BusinessDayRule>('previous');
+
+    // State for loans
+    const [loans, setLoans] = useState<LoanItem[]>(userProfile?.loans || []);
+    const [newLoanName, setNewLoanName] = useState<string>('');
+    const [newLoanPrincipal, setNewLoanPrincipal] = useState<string>('');
+    const [newLoanInterestRate, setNewLoanInterestRate] = useState<string>('');
+    const [newLoanInterestMethod, setNewLoanInterestMethod] = useState<LoanInterestMethod>('diminishing');
+    const [newLoanTermPayments, setNewLoanTermPayments] = useState<string>('');
+    const [newLoanPaymentFrequency, setNewLoanPaymentFrequency] = useState<'monthly' | 'quarterly' | 'annually'>('monthly');
+    const [newLoanNextPaymentDate, setNewLoanNextPaymentDate] = useState<string>('');
+    const [newLoanBusinessDayRule, setNewLoanBusinessDayRule] = useState<BusinessDayRule>('next');
+    const [scheduleLoanId, setScheduleLoanId] = useState<string | null>(null);
+
+    const [isModalOpen, setIsModalOpen] = useState<boolean>(false);
+    const [modalMessage, setModalMessage] = useState<string>('');
+    const [modalTitle, setModalTitle] = useState<string>('');
+    const [isLoading, setIsLoading] = useState<boolean>(false);
+    const [isResetSalaryConfirmOpen, setIsResetSalaryConfirmOpen] = useState<boolean>(false);
+
+    useEffect(() => {
+        setCurrentBalance(userProfile?.currentBalance?.toString() || '');
+        setGrossSalaryIncome(userProfile?.salaryIncome?.toString() || '');
+        const paySchedule = getPaySchedule(userProfile);
+        setPayScheduleType(paySchedule.type);
+        setPayDaysOfMonth((paySchedule.daysOfMonth || [15, 30]).join(', '));
+        setPayWeekday(String(paySchedule.weekday ?? 5));
+        setPayAnchorDate(paySchedule.anchorDate ? toDateInputValue(paySchedule.anchorDate) : '');
+        setBusinessDayRule(paySchedule.businessDayRule);
+        setNetPayPerPayday(paySchedule.netPayPerPayday?.toString() || '');
+        setSalaryAccountId(userProfile?.salaryAccountId || '');
+        setName(userProfile?.name || '');
+        setRestDays(userProfile?.restDays || defaultRestDays);
+
+        const initialDeductions = {
+            'SSS': '0', 'GSIS': '0', 'Philhealth': '0', 'Pag-Ibig Fund': '0',
+            'Company Initiated Deductions': '0', 'Voluntary Deductions': '0', 'Property Annual Fee': '0',
+        };
+        const updatedDeductions = userProfile?.deductions?.reduce((acc: { [key: string]: string }, d: DeductionItem) => { // Explicitly typed acc and d
+            if (initialDeductions.hasOwnProperty(d.name)) {
+                return { ...acc, [d.name]: d.amount.toString() };
+            }
+            return acc;
+        }, initialDeductions) || initialDeductions;
+        setDeductions(updatedDeductions);
+
+        const filteredCustomDeductions = userProfile?.deductions?.filter(d => !Object.keys(initialDeductions).includes(d.name) &&
+            !(userProfile?.statutoryDeductions?.enabled && d.name === 'Withholding Tax')) || [];
+        setCustomDeductions(filteredCustomDeductions);
+
+        setStatutoryEnabled(userProfile?.statutoryDeductions?.enabled || false);
+        setStatutoryYear(userProfile?.statutoryDeductions?.year || getDefaultStatutoryDeductionSettings().year);
+        setEmploymentSector(userProfile?.statutoryDeductions?.sector || 'private');
+        setStatutoryOverrides(Object.fromEntries(Object.entries(userProfile?.statutoryDeductions?.overrides || {}).map(([name, amount]) => [name, String(amount)])));
+
+        setExtraPay(userProfile?.extraPay || []);
+        setLoans(userProfile?.loans || []);
+    }, [userProfile]);
+
+    const handleDeductionChange = (name: string, value: string) => {
+        setDeductions(prev => ({ ...prev, [name]: value }));
+    };
+
+    const currentStatutorySettings: StatutoryDeductionSettings = {
+        enabled: statutoryEnabled,
+        year: statutoryYear,
+        sector: employmentSector,
+        overrides: Object.fromEntries(Object.entries(statutoryOverrides).map(([name, amount]) => [name, parseFloat(amount as string) || 0])),
+    };
+    const statutoryLines = calculateStatutoryDeductions(parseFloat(grossSalaryIncome) || 0, currentStatutorySettings);
+    const isAutoStatutoryDeduction = (name: string) => statutoryEnabled && (statutoryDeductionNames as string[]).includes(name);
+
+    const handleResetStatutoryOverride = (name: StatutoryDeductionName) => {
+        setStatutoryOverrides(prev => {
+            const next = { ...prev };
+            delete next[name];
+            return next;
+        });
+    };
+
+    const handleAddCustomDeduction = () => {
+        if (newCustomDeductionName && !isNaN(parseFloat(newCustomDeductionAmount)) && parseFloat(newCustomDeductionAmount) >= 0) {
+            setCustomDeductions(prev => [
+                ...prev,
+                { name: newCustomDeductionName, amount: parseFloat(newCustomDeductionAmount) }
+            ]);
+            setNewCustomDeductionName('');
+            setNewCustomDeductionAmount('');
+        } else {
+            setModalTitle("Input Error");
+            setModalMessage("Please enter a valid name and non-negative amount for the custom deduction.");
+            setIsModalOpen(true);
+        }
+    };
+
+    const handleRemoveCustomDeduction = (index: number) => {
+        setCustomDeductions(prev => prev.filter((_, i) => i !== index));
+    };
+
+    const resetExtraPayForm = () => {
+        setNewExtraPayName('');
+        setNewExtraPayMonth('11');
+        setNewExtraPayDay('24');
+        setNewExtraPayBasis('percent-of-basic');
+        setNewExtraPayAmount('100');
+        setNewExtraPayTaxable(false);
+        setNewExtraPayBusinessDayRule('previous');
+    };
+
+    const handleAddExtraPay = () => {
+        const day = Number(newExtraPayDay);
+        const amount = parseFloat(newExtraPayAmount);
+        if (!newExtraPayName.trim() || !Number.isInteger(day) || day < 1 || day > 31 || isNaN(amount) || amount <= 0) {
+            setModalTitle("Input Error");
+            setModalMessage("Please enter a name, a day of the month from 1 to 31 and a positive amount for the extra pay.");
+            setIsModalOpen(true);
+            return;
+        }
+        setExtraPay(prev => [...prev, {
+            id: crypto.randomUUID(),
+            name: newExtraPayName.trim(),
+            month: parseInt(newExtraPayMonth),
+            day,
+            basis: newExtraPayBasis,
+            amount,
+            taxable: newExtraPayTaxable,
+            businessDayRule: newExtraPayBusinessDayRule,
+        }]);
+        resetExtraPayForm();
+    };
+
+    const handleRemoveExtraPay = (id: string) => {
+        setExtraPay(prev => prev.filter(component => component.id !== id));
+    };
+
+    // Loan built from the add form, or null while the form is incomplete or invalid
+    const parsedNewLoanTerm = Number(newLoanTermPayments);
+    const newLoan: LoanItem | null = newLoanName && parseFloat(newLoanPrincipal) > 0 && Number.isInteger(parsedNewLoanTerm) && parsedNewLoanTerm > 0 &&
+        (newLoanInterestRate === '' || parseFloat(newLoanInterestRate) >= 0) && newLoanNextPaymentDate
+        ? {
+            id: '', // Assigned when the loan is added
+            loanName: newLoanName,
+            amount: 0, // Filled in from the terms below
+            paymentFrequency: newLoanPaymentFrequency,
+            nextPaymentDate: parseDateInput(newLoanNextPaymentDate),
+            principal: parseFloat(newLoanPrincipal),
+            annualInterestRate: parseFloat(newLoanInterestRate) || 0,
+            interestMethod: newLoanInterestMethod,
+            termPayments: parsedNewLoanTerm,
+            startDate: parseDateInput(newLoanNextPaymentDate),
+            businessDayRule: newLoanBusinessDayRule,
+        }
+        : null;
+    const newLoanPayment = newLoan ? getLoanPeriodicPayment(newLoan) : null;
+
+    const handleAddLoan = () => {
+        if (newLoan && newLoanPayment !== null) {
+            // Generate a unique ID for React key and internal management
+            setLoans(prev => [...prev, { ...newLoan, id: crypto.randomUUID(), amount: newLoanPayment }]);
+            setNewLoanName('');
+            setNewLoanPrincipal('');
+            setNewLoanInterestRate('');
+            setNewLoanInterestMethod('diminishing');
+            setNewLoanTermPayments('');
+            setNewLoanNextPaymentDate('');
+            setNewLoanPaymentFrequency('monthly');
+            setNewLoanBusinessDayRule('next');
+        } else {
+            setModalTitle("Input Error");
+            setModalMessage("Please fill in all valid fields for the new loan. The term must be a whole number of payments.");
+            setIsModalOpen(true);
+        }
+    };
+
+    const handleRemoveLoan = (id: string) => {
+        setLoans(prev => prev.filter(loan => loan.id !== id));
+        if (scheduleLoanId === id) setScheduleLoanId(null);
+    };
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setIsLoading(true);
+        try {
+            const parsedCurrentBalance = parseFloat(currentBalance);
+            const parsedGrossSalaryIncome = parseFloat(grossSalaryIncome);
+
+            if (isNaN(parsedCurrentBalance) || parsedCurrentBalance < 0) {
+                setModalTitle("Input Error");
+                setModalMessage("Current Balance must be a non-negative number.");
+                setIsModalOpen(true);
+                return;
+            }
+            if (isNaN(parsedGrossSalaryIncome) || parsedGrossSalaryIncome < 0) {
+                setModalTitle("Input Error");
+                setModalMessage("Gross Salary Income must be a non-negative number.");
+                setIsModalOpen(true);
+                return;
+            }
+            if (!name) {
+                setModalTitle("Input Error");
+                setModalMessage("Please enter your name.");
+                setIsModalOpen(true);
+                return;
+            }
+
+            const parsedPayDays = payDaysOfMonth.split(/[\s,]+/).filter(Boolean).map(Number);
+            const parsedAnchorDate = parseDateInput(payAnchorDate);
+            const parsedNetPayPerPayday = parseFloat(netPayPerPayday);
+            const payScheduleError = payScheduleType === 'days-of-month' && (parsedPayDays.length === 0 || parsedPayDays.some(day => !Number.isInteger(day) || day < 1 || day > 31))
+                ? "Paydays must be days of the month from 1 to 31, separated by commas."
+                : payScheduleType === 'biweekly' && isNaN(parsedAnchorDate.getTime())
+                ? "Please enter a recent payday to count every other week from."
+                : netPayPerPayday !== '' && (isNaN(parsedNetPayPerPayday) || parsedNetPayPerPayday < 0)
+                ? "Net Pay Per Payday must be a non-negative number."
+                : null;
+            if (payScheduleError) {
+                setModalTitle("Input Error");
+                setModalMessage(payScheduleError);
+                setIsModalOpen(true);
+                return;
+            }
+            const paySchedule: PaySchedule = {
+                type: payScheduleType,
+                businessDayRule,
+                ...(payScheduleType === 'days-of-month' ? { daysOfMonth: [...new Set(parsedPayDays)].sort((a, b) => a - b) } : {}),
+                ...(payScheduleType === 'weekly' ? { weekday: parseInt(payWeekday) } : {}),
+                ...(payScheduleType === 'biweekly' ? { anchorDate: parsedAnchorDate } : {}),
+                netPayPerPayday: netPayPerPayday !== '' ? parsedNetPayPerPayday : null, // null rather than absent, so a saved override is cleared
+            };
+
+            // Computed statutory lines are stored as regular deductions too, so exports show what was applied
+            const allDeductions: DeductionItem[] = Object.entries(deductions).filter(([name]) => !isAutoStatutoryDeduction(name)).map(([name, amountStr]) => ({
+                name,
+                amount: parseFloat(amountStr) || 0
+            })).concat(statutoryEnabled ? statutoryLines.map(line => ({ name: line.name, amount: line.amount })) : []).concat(customDeductions);
+
+            await updateUserProfile({
+                currentBalance: parsedCurrentBalance,
+                salaryIncome: parsedGrossSalaryIncome,
+                salaryFrequency: getScheduleFrequency(paySchedule),
+                paySchedule,
+                salaryAccountId: salaryAccountId,
+                lastUpdated: new Date(),
+                name: name,
+                restDays,
+                deductions: allDeductions,
+                statutoryDeductions: currentStatutorySettings,
+                extraPay,
+                loans: loans
+            });
+            setModalTitle("Success!");
+            setModalMessage("Profile updated successfully!");
+            setIsModalOpen(true);
+        }
+        catch (error: unknown) {
+            setModalTitle("Error");
+            setModalMessage(`Failed to update profile: ${(error as Error).message}`);
+            setIsModalOpen(true);
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    const handleResetSalary = () => {
+        setIsResetSalaryConfirmOpen(true);
+        setModalTitle("Confirm Reset");
+        setModalMessage("Are you sure you want to reset your salary information? This will set your gross salary and deductions to zero.");
+    };
+
+    const confirmResetSalary = async () => {
+        setIsLoading(true);
+        try {
+            await updateUserProfile({
+                salaryIncome: 0,
+                deductions: [],
+                lastUpdated: new Date(),
+            });
+            setModalTitle("Success!");
+            setModalMessage("Salary information has been reset.");
+            setIsModalOpen(true);
+        } catch (error: unknown) {
+            setModalTitle("Error");
+            setModalMessage(`Failed to reset salary: ${(error as Error).message}`);
+            setIsModalOpen(true);
+        } finally {
+            setIsResetSalaryConfirmOpen(false);
+            setIsLoading(false);
+        }
+    };
+
+    const calculatedCashBalance = incomes.reduce((sum: number, item: IncomeItem) => sum + toBaseAmount(item.amount, item.currency, item.dueDate, userProfile), 0) -
+                                  expenses.reduce((sum: number, item: ExpenseItem) => sum + toBaseAmount(item.amount, item.currency, item.date, userProfile), 0);
+    const currentCashBalanceValue = getCurrentCashBalance(accounts, userProfile, incomes, expenses, transfers) ?? userProfile?.currentBalance ?? calculatedCashBalance;
+
+    const thirtyDaysFromNow = new Date();
+    thirtyDaysFromNow.setDate(thirtyDaysFromNow.getDate() + 30);
+
+    const projectedSalaryPaymentsForProfile = getProjectedSalaryPayments(userProfile, new Date(), thirtyDaysFromNow);
+
+    const combinedUpcomingIncomes: IncomeItem[] = incomes // Changed to const
+        .filter((inc: IncomeItem) => inc.status === 'Outstanding' && inc.dueDate.getTime() <= thirtyDaysFromNow.getTime())
+        .concat(projectedSalaryPaymentsForProfile)
+        .concat(getUpcomingRecurringIncomes(recurringIncomes, new Date(), thirtyDaysFromNow));
+
+    combinedUpcomingIncomes.sort((a: IncomeItem, b: IncomeItem) => a.dueDate.getTime() - b.dueDate.getTime());
+
+    const upcomingIncomesForDisplay = combinedUpcomingIncomes.slice(0, 5);
+    const totalUpcomingIncomesAmount = combinedUpcomingIncomes.reduce((sum: number, item: IncomeItem) => sum + toBaseAmount(item.amount, item.currency, item.dueDate, userProfile), 0); // Explicitly typed
+
+    const upcomingExpensesForDisplay = expenses
+        .filter((exp: ExpenseItem) => exp.date.getTime() <= thirtyDaysFromNow.getTime())
+        .concat(getUpcomingRecurringExpenses(recurringExpenses, new Date(), thirtyDaysFromNow))
+        .concat(getForecastLoanPayments(userProfile, new Date(), thirtyDaysFromNow, baseCurrency, getProfileHolidaySet(userProfile, new Date(), thirtyDaysFromNow)))
+        .sort((a: ExpenseItem, b: ExpenseItem) => a.date.getTime() - b.date.getTime())
+        .slice(0, 5);
+
+    const totalUpcomingExpensesAmount = upcomingExpensesForDisplay.reduce((sum: number, item: ExpenseItem) => sum + toBaseAmount(item.amount, item.currency, item.date, userProfile), 0); // Explicitly typed
+    const projectedShortTermBalanceValue = currentCashBalanceValue + totalUpcomingIncomesAmount - totalUpcomingExpensesAmount;
+
+    const grossMonthlySalary = userProfile?.salaryIncome || 0;
+    const totalMonthlyDeductions = Object.entries(deductions).filter(([name]) => !isAutoStatutoryDeduction(name)).reduce((sum: number, [, amountStr]) => sum + (parseFloat(amountStr) || 0), 0) + // Explicitly typed
+                                   customDeductions.reduce((sum: number, d: DeductionItem) => sum + d.amount, 0) + // Explicitly typed
+                                   (statutoryEnabled ? statutoryLines.reduce((sum: number, line: StatutoryDeductionLine) => sum + line.amount, 0) : 0);
+    const netMonthlySalary = grossMonthlySalary - totalMonthlyDeductions;
+    const monthlyContributions = statutoryEnabled
+        ? statutoryLines.filter(line => line.name !== 'Withholding Tax').reduce((sum: number, line: StatutoryDeductionLine) => sum + line.amount, 0)
+        : contributionNames.reduce((sum: number, name) => sum + (parseFloat(deductions[name]) || 0), 0);
+    const extraPayLines = calculateExtraPay(extraPay, grossMonthlySalary, monthlyContributions, statutoryYear);
+    const annualTakeHomePay = netMonthlySalary * 12 + extraPayLines.reduce((sum: number, line: ExtraPayLine) => sum + line.netAmount, 0);
+    const monthlyWorkingDays = getMonthlyWorkingDays(userProfile, new Date());
+    const dailyIncome = monthlyWorkingDays > 0 ? netMonthlySalary / monthlyWorkingDays : 0;
+
+    return (
+        <div className="max-w-7xl mx-auto p-4 md:p-8">
+            <h1 className="text-3xl font-bold text-gray-800 mb-6">User Profile</h1>
+
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+                {/* Left Column: Profile Edit Form */}
+                <div className="bg-white rounded-lg shadow-md p-6">
+                    <h2 className="text-xl font-semibold text-gray-700 mb-4">Edit Your Financial Profile</h2>
+                    <form onSubmit={handleSubmit} className="grid grid-cols-1 gap-6">
+                        <div>
+                            <label htmlFor="name" className="block text-gray-700 text-sm font-bold mb-2">Your Name</label>
+                            <input
+                                type="text"
+                                id="name"
+                                value={name}
+                                onChange={(e: React.ChangeEvent<HTMLInputElement>) => setName(e.target.value)}
+                                className="shadow appearance-none border rounded-md w-full py-2 px-3 text-gray-700 leading-tight focus:outline-none focus:shadow-outline focus:ring-2 focus:ring-orange-500 focus:border-transparent"
+                                placeholder="Your Full Name"
+                                required
+                            />
+                        </div>
+                        {accounts.length > 0 ? (
+                            <div>
+                                <p className="block text-gray-700 text-sm font-bold mb-2">Current Cash Balance ({baseCurrency})</p>
+                                <p className="text-gray-800">
+                                    {currentCashBalanceValue.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
+                                    <span className="block text-xs text-gray-500">Calculated from your accounts. Adjust opening balances on the Accounts page.</span>
+                                </p>
+                            </div>
+                        ) : (
+                            <div>
+                                <label htmlFor="currentBalance" className="block text-gray-700 text-sm font-bold mb-2">Current Cash Balance ({baseCurrency})</label>
+                                <input
+                                    type="number"
+                                    id="currentBalance"
+                                    value={currentBalance}
+                                    onChange={(e: React.ChangeEvent<HTMLInputElement>) => setCurrentBalance(e.target.value)}
+                                    className="shadow appearance-none border rounded-md w-full py-2 px-3 text-gray-700 leading-tight focus:outline-none focus:shadow-outline focus:ring-2 focus:ring-orange-500 focus:border-transparent"
+                                    placeholder="e.g., 10000"
+                                    step="0.01"
+                                    required
+                                />
+                            </div>
+                        )}
+                        <div>
+                            <label htmlFor="grossSalaryIncome" className="block text-gray-700 text-sm font-bold mb-2">Gross Salary Income ({baseCurrency})</label>
+                            <input
+                                type="number"
+                                id="grossSalaryIncome"
+                                value={grossSalaryIncome}
+                                onChange={(e: React.ChangeEvent<HTMLInputElement>) => setGrossSalaryIncome(e.target.value)}
+                                className="shadow appearance-none border rounded-md w-full py-2 px-3 text-gray-700 leading-tight focus:outline-none focus:shadow-outline focus:ring-2 focus:ring-orange-500 focus:border-transparent"
+                                placeholder="e.g., 30000"
+                                step="0.01"
+                                required
+                            />
+                        </div>
+                        <div className="grid grid-cols-1 md:grid-cols-2 gap-4 bg-gray-50 p-4 rounded-lg border border-gray-200">
+                            <div>
+                                <label htmlFor="payScheduleType" className="block text-gray-700 text-sm font-bold mb-2">Pay Schedule</label>
+                                <select
+                                    id="payScheduleType"
+                                    value={payScheduleType}
+                                    onChange={(e: React.ChangeEvent<HTMLSelectElement>) => setPayScheduleType(e.target.value as PayScheduleType)}
+                                    className="shadow appearance-none border rounded-md w-full py-2 px-3 text-gray-700 leading-tight focus:outline-none focus:shadow-outline focus:ring-2 focus:ring-orange-500 focus:border-transparent"
+                                >
+                                    <option value="days-of-month">Specific days of the month</option>
+                                    <option value="last-business-day">Last business day of the month</option>
+                                    <option value="weekly">Weekly</option>
+                                    <option value="biweekly">Every other week</option>
+                                </select>
+                            </div>
+                            {payScheduleType === 'days-of-month' && (
+                                <div>
+                                    <label htmlFor="payDaysOfMonth" className="block text-gray-700 text-sm font-bold mb-2">Paydays (Days of the Month)</label>
+                                    <input
+                                        type="text"
+                                        id="payDaysOfMonth"
+                                        value={payDaysOfMonth}
+                                        onChange={(e: React.ChangeEvent<HTMLInputElement>) => setPayDaysOfMonth(e.target.value)}
+                                        className="shadow appearance-none border rounded-md w-full py-2 px-3 text-gray-700 leading-tight focus:outline-none focus:shadow-outline focus:ring-2 focus:ring-orange-500 focus:border-transparent"
+                                        placeholder="e.g., 15, 30"
+                                    />
+                                    <p className="text-xs text-gray-500 mt-1">A day past the end of a short month is paid on its last day.</p>
+                                </div>
+                            )}
+                            {payScheduleType === 'weekly' && (
+                                <div>
+                                    <label htmlFor="payWeekday" className="block text-gray-700 text-sm font-bold mb-2">Payday</label>
+                                    <select
+                                        id="payWeekday"
+                                        value={payWeekday}
+                                        onChange={(e: React.ChangeEvent<HTMLSelectElement>) => setPayWeekday(e.target.value)}
+                                        className="shadow appearance-none border rounded-md w-full py-2 px-3 text-gray-700 leading-tight focus:outline-none focus:shadow-outline focus:ring-2 focus:ring-orange-500 focus:border-transparent"
+                                    >
+                                        {weekdayNames.map((weekdayName, index) => <option key={weekdayName} value={index}>{weekdayName}</option>)}
+                                    </select>
+                                </div>
+                            )}
+                            {payScheduleType === 'biweekly' && (
+                                <div>
+                                    <label htmlFor="payAnchorDate" className="block text-gray-700 text-sm font-bold mb-2">A Recent Payday</label>
+                                    <input
+                                        type="date"
+                                        id="payAnchorDate"
+                                        value={payAnchorDate}
+                                        onChange={(e: React.ChangeEvent<HTMLInputElement>) => setPayAnchorDate(e.target.value)}
+                                        className="shadow appearance-none border rounded-md w-full py-2 px-3 text-gray-700 leading-tight focus:outline-none focus:shadow-outline focus:ring-2 focus:ring-orange-500 focus:border-transparent"
+                                    />
+                                    <p className="text-xs text-gray-500 mt-1">Paydays repeat every 14 days from this date.</p>
+                                </div>
+                            )}
+                            {payScheduleType !== 'last-business-day' && (
+                                <div>
+                                    <label htmlFor="businessDayRule" className="block text-gray-700 text-sm font-bold mb-2">Paydays on Weekends and Holidays</label>
+                                    <select
+                                        id="businessDayRule"
+                                        value={businessDayRule}
+                                        onChange={(e: React.ChangeEvent<HTMLSelectElement>) => setBusinessDayRule(e.target.value as BusinessDayRule)}
+                                        className="shadow appearance-none border rounded-md w-full py-2 px-3 text-gray-700 leading-tight focus:outline-none focus:shadow-outline focus:ring-2 focus:ring-orange-500 focus:border-transparent"
+                                    >
+                                        <option value="previous">Paid the business day before</option>
+                                        <option value="next">Paid the next business day</option>
+                                        <option value="none">Paid on the day itself</option>
+                                    </select>
+                                </div>
+                            )}
+                            <div>
+                                <label htmlFor="netPayPerPayday" className="block text-gray-700 text-sm font-bold mb-2">Net Pay Per Payday ({baseCurrency}, optional)</label>
+                                <input
+                                    type="number"
+                                    id="netPayPerPayday"
+                                    value={netPayPerPayday}
+                                    onChange={(e: React.ChangeEvent<HTMLInputElement>) => setNetPayPerPayday(e.target.value)}
+                                    className="shadow appearance-none border rounded-md w-full py-2 px-3 text-gray-700 leading-tight focus:outline-none focus:shadow-outline focus:ring-2 focus:ring-orange-500 focus:border-transparent"
+                                    placeholder="Leave blank to split your net monthly salary"
+                                    step="0.01"
+                                    min="0"
+                                />
+                            </div>
+                        </div>
+                        {accounts.length > 0 && (
+                            <div>
+                                <label htmlFor="salaryAccount" className="block text-gray-700 text-sm font-bold mb-2">Salary Paid Into</label>
+                                <select
+                                    id="salaryAccount"
+                                    value={salaryAccountId}
+                                    onChange={(e: React.ChangeEvent<HTMLSelectElement>) => setSalaryAccountId(e.target.value)}
+                                    className="shadow appearance-none border rounded-md w-full py-2 px-3 text-gray-700 leading-tight focus:outline-none focus:shadow-outline focus:ring-2 focus:ring-orange-500 focus:border-transparent"
+                                >
+                                    <option value="">Default account ({getAccountName(accounts, undefined, getDefaultAccountId(userProfile, accounts))})</option>
+                                    <AccountOptions accounts={accounts} selectedId={salaryAccountId || undefined} />
+                                </select>
+                            </div>
+                        )}
+                        <div>
+                            <p className="block text-gray-700 text-sm font-bold mb-2">Rest Days</p>
+                            <div className="flex flex-wrap gap-x-4 gap-y-2">
+                                {weekdayNames.map((weekdayName, weekday) => (
+                                    <label key={weekdayName} className="inline-flex items-center text-sm text-gray-700 cursor-pointer">
+                                        <input
+                                            type="checkbox"
+                                            checked={restDays.includes(weekday)}
+                                            onChange={(e: React.ChangeEvent<HTMLInputElement>) => setRestDays(prev => e.target.checked ? [...prev, weekday].sort((a, b) => a - b) : prev.filter(day => day !== weekday))}
+                                            className="mr-1 accent-orange-500"
+                                        />
+                                        {weekdayName.slice(0, 3)}
+                                    </label>
+                                ))}
+                            </div>
+                            <p className="text-xs text-gray-500 mt-1">Working days each month leave out these days and the holidays on your calendar.</p>
+                        </div>
+
+                        {/* Deductions Card - Integrated into the form for submission */}
+                        <div className="col-span-full bg-gray-50 p-6 rounded-lg border border-gray-200">
+                            <h3 className="text-lg font-semibold text-gray-700 mb-4">Deductions</h3>
+                            <label className="inline-flex items-center text-gray-700 text-sm font-bold cursor-pointer mb-4">
+                                <input
+                                    type="checkbox"
+                                    checked={statutoryEnabled}
+                                    onChange={(e: React.ChangeEvent<HTMLInputElement>) => setStatutoryEnabled(e.target.checked)}
+                                    className="mr-2 accent-orange-500"
+                                />
+                                Calculate SSS/GSIS, PhilHealth, Pag-IBIG and withholding tax from my gross salary
+                            </label>
+                            {statutoryEnabled && (
+                                <div className="bg-white p-4 rounded-md border border-gray-200 mb-4">
+                                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-4">
+                                        <div>
+                                            <label htmlFor="statutoryYear" className="block text-gray-700 text-sm font-medium mb-1">Contribution Tables</label>
+                                            <select
+                                                id="statutoryYear"
+                                                value={statutoryYear}
+                                                onChange={(e: React.ChangeEvent<HTMLSelectElement>) => setStatutoryYear(parseInt(e.target.value))}
+                                                className="shadow appearance-none border rounded-md w-full py-2 px-3 text-gray-700 leading-tight focus:outline-none focus:shadow-outline focus:ring-2 focus:ring-orange-500 focus:border-transparent"
+                                            >
+                                                {statutoryTableYears.map(year => (
+                                                    <option key={year} value={year}>{year}</option>
+                                                ))}
+                                            </select>
+                                        </div>
+                                        <div>
+                                            <label htmlFor="employmentSector" className="block text-gray-700 text-sm font-medium mb-1">Employer</label>
+                                            <select
+                                                id="employmentSector"
+                                                value={employmentSector}
+                                                onChange={(e: React.ChangeEvent<HTMLSelectElement>) => setEmploymentSector(e.target.value as EmploymentSector)}
+                                                className="shadow appearance-none border rounded-md w-full py-2 px-3 text-gray-700 leading-tight focus:outline-none focus:shadow-outline focus:ring-2 focus:ring-orange-500 focus:border-transparent"
+                                            >
+                                                <option value="private">Private (SSS)</option>
+                                                <option value="government">Government (GSIS)</option>
+                                            </select>
+                                        </div>
+                                    </div>
+                                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                                        {statutoryLines.map((line: StatutoryDeductionLine) => (
+                                            <div key={line.name}>
+                                                <label htmlFor={`statutory-${line.name}`} className="flex justify-between text-gray-700 text-sm font-medium mb-1">
+                                                    <span>{line.name}</span>
+                                                    {line.overridden ? (
+                                                        <button
+                                                            type="button"
+                                                            onClick={() => handleResetStatutoryOverride(line.name)}
+                                                            className="text-xs text-blue-700 hover:text-blue-900"
+                                                            title={`Computed: ${baseCurrency} ${line.computed.toFixed(2)}`}
+                                                        >
+                                                            Manual · Reset
+                                                        </button>
+                                                    ) : (
+                                                        <span className="text-xs text-emerald-700">Auto</span>
+                                                    )}
+                                                </label>
+                                                <input
+                                                    type="number"
+                                                    id={`statutory-${line.name}`}
+                                                    value={statutoryOverrides[line.name] ?? line.computed.toFixed(2)}
+                                                    onChange={(e) => setStatutoryOverrides(prev => ({ ...prev, [line.name]: e.target.value }))}
+                                                    className="shadow appearance-none border rounded-md w-full py-2 px-3 text-gray-700 leading-tight focus:outline-none focus:shadow-outline focus:ring-2 focus:ring-orange-500 focus:border-transparent"
+                                                    step="0.01"
+                                                    min="0"
+                                                />
+                                            </div>
+                                        ))}
+                                    </div>
+                                    <p className="text-xs text-gray-500 mt-3">
+                                        Employee shares per month. Withholding tax uses the TRAIN law brackets on salary net of contributions. Type an amount to override a line.
+                                    </p>
+                                </div>
+                            )}
+                            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                                {Object.keys(deductions).filter(deductionName => !isAutoStatutoryDeduction(deductionName)).map((deductionName) => (
+                                    <div key={deductionName}>
+                                        <label htmlFor={`deduction-${deductionName}`} className="block text-gray-700 text-sm font-medium mb-1">{deductionName}</label>
+                                        <input
+                                            type="number"
+                                            id={`deduction-${deductionName}`}
+                                            value={deductions[deductionName]}
+                                            onChange={(e) => handleDeductionChange(deductionName, e.target.value)}
+                                            className="shadow appearance-none border rounded-md w-full py-2 px-3 text-gray-700 leading-tight focus:outline-none focus:shadow-outline focus:ring-2 focus:ring-orange-500 focus:border-transparent"
+                                            step="0.01"
+                                            min="0"
+                                        />
+                                    </div>
+                                ))}
+                            </div>
+                            {/* Custom Deductions */}
+                            <div className="mt-6 border-t pt-4 border-gray-200">
+                                <h4 className="text-md font-medium text-gray-700 mb-3">Other Deductions</h4>
+                                {customDeductions.map((deduction, index) => (
+                                    <div key={index} className="flex items-center space-x-2 mb-2">
+                                        <input
+                                            type="text"
+                                            value={deduction.name}
+                                            onChange={(e) => setCustomDeductions(prev => {
+                                                const newDeds = [...prev];
+                                                newDeds[index].name = e.target.value;
+                                                return newDeds;
+                                            })}
+                                            className="shadow appearance-none border rounded-md w-1/2 py-2 px-3 text-gray-700 leading-tight focus:outline-none focus:shadow-outline focus:ring-2 focus:ring-orange-500 focus:border-transparent"
+                                            placeholder="Deduction Name"
+                                        />
+                                        <input
+                                            type="number"
+                                            value={deduction.amount.toString()}
+                                            onChange={(e) => setCustomDeductions(prev => {
+                                                const newDeds = [...prev];
+                                                newDeds[index].amount = parseFloat(e.target.value) || 0;
+                                                return newDeds;
+                                            })}
+                                            className="shadow appearance-none border rounded-md w-1/4 py-2 px-3 text-gray-700 leading-tight focus:outline-none focus:shadow-outline focus:ring-2 focus:ring-orange-500 focus:border-transparent"
+                                            step="0.01"
+                                            min="0"
+                                            placeholder="Amount"
+                                        />
+                                        <button
+                                            type="button"
+                                            onClick={() => handleRemoveCustomDeduction(index)}
+                                            className="px-3 py-2 bg-red-500 text-white rounded-md hover:bg-red-600 transition duration-200"
+                                        >
+                                            Remove
+                                        </button>
+                                    </div>
+                                ))}
+                                <div className="flex items-center space-x-2 mt-3">
+                                    <input
+                                        type="text"
+                                        value={newCustomDeductionName}
+                                        onChange={(e) => setNewCustomDeductionName(e.target.value)}
+                                        className="shadow appearance-none border rounded-md w-1/2 py-2 px-3 text-gray-700 leading-tight focus:outline-none focus:shadow-outline focus:ring-2 focus:ring-orange-500 focus:border-transparent"
+                                        placeholder="New Deduction Name"
+                                    />
+                                    <input
+                                        type="number"
+                                        value={newCustomDeductionAmount}
+                                        onChange={(e) => setNewCustomDeductionAmount(e.target.value)}
+                                        className="shadow appearance-none border rounded-md w-1/4 py-2 px-3 text-gray-700 leading-tight focus:outline-none focus:shadow-outline focus:ring-2 focus:ring-orange-500 focus:border-transparent"
+                                        step="0.01"
+                                        min="0"
+                                        placeholder="Amount"
+                                    />
+                                    <button
+                                        type="button"
+                                        onClick={handleAddCustomDeduction}
+                                        className="px-3 py-2 bg-blue-500 text-white rounded-md hover:bg-blue-600 transition duration-200"
+                                    >
+                                        Add
+                                    </button>
+                                </div>
+                            </div>
+                        </div>
+
+                        {/* Extra Pay Card */}
+                        <div className="col-span-full bg-gray-50 p-6 rounded-lg border border-gray-200 mt-6">
+                            <h3 className="text-lg font-semibold text-gray-700 mb-4">13th-Month Pay, Bonuses & Allowances</h3>
+                            <div className="space-y-4">
+                                {extraPay.length === 0 ? (
+                                    <p className="text-gray-600 text-sm">No extra pay added yet.</p>
+                                ) : (
+                                    <ul className="space-y-3">
+                                        {extraPay.map((component: ExtraPayComponent) => (
+                                            <li key={component.id} className="bg-white p-3 rounded-md shadow-sm flex flex-col sm:flex-row justify-between items-start sm:items-center">
+                                                <div>
+                                                    <p className="font-semibold text-gray-900">{component.name}</p>
+                                                    <p className="text-sm text-gray-700">
+                                                        {component.basis === 'percent-of-basic' ? `${component.amount}% of basic salary` : `${baseCurrency} ${component.amount.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`}
+                                                        {' · '}every {describeExtraPayDate(component)}
+                                                        {' · '}{component.taxable ? 'taxable' : 'non-taxable'}
+                                                    </p>
+                                                </div>
+                                                <button
+                                                    type="button"
+                                                    onClick={() => handleRemoveExtraPay(component.id)}
+                                                    className="mt-2 sm:mt-0 px-3 py-1 bg-red-500 text-white rounded-md hover:bg-red-600 transition duration-200 text-sm"
+                                                >
+                                                    Remove
+                                                </button>
+                                            </li>
+                                        ))}
+                                    </ul>
+                                )}
+                                <div className="mt-4 border-t pt-4 border-gray-200">
+                                    <h4 className="text-md font-medium text-gray-700 mb-3">Add Extra Pay</h4>
+                                    <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                                        <div>
+                                            <label htmlFor="newExtraPayName" className="block text-gray-700 text-sm font-medium mb-1">Name</label>
+                                            <input
+                                                type="text"
+                                                id="newExtraPayName"
+                                                value={newExtraPayName}
+                                                onChange={(e) => setNewExtraPayName(e.target.value)}
+                                                className="shadow appearance-none border rounded-md w-full py-2 px-3 text-gray-700 leading-tight focus:outline-none focus:shadow-outline focus:ring-2 focus:ring-orange-500 focus:border-transparent"
+                                                placeholder="e.g., 13th-Month Pay"
+                                            />
+                                        </div>
+                                        <div className="grid grid-cols-2 gap-3">
+                                            <div>
+                                                <label htmlFor="newExtraPayMonth" className="block text-gray-700 text-sm font-medium mb-1">Paid Every</label>
+                                                <select
+                                                    id="newExtraPayMonth"
+                                                    value={newExtraPayMonth}
+                                                    onChange={(e) => setNewExtraPayMonth(e.target.value)}
+                                                    className="shadow appearance-none border rounded-md w-full py-2 px-3 text-gray-700 leading-tight focus:outline-none focus:shadow-outline focus:ring-2 focus:ring-orange-500 focus:border-transparent"
+                                                >
+                                                    {monthNames.map((monthName, month) => <option key={monthName} value={month}>{monthName}</option>)}
+                                                </select>
+                                            </div>
+                                            <div>
+                                                <label htmlFor="newExtraPayDay" className="block text-gray-700 text-sm font-medium mb-1">Day</label>
+                                                <input
+                                                    type="number"
+                                                    id="newExtraPayDay"
+                                                    value={newExtraPayDay}
+                                                    onChange={(e) => setNewExtraPayDay(e.target.value)}
+                                                    className="shadow appearance-none border rounded-md w-full py-2 px-3 text-gray-700 leading-tight focus:outline-none focus:shadow-outline focus:ring-2 focus:ring-orange-500 focus:border-transparent"
+                                                    min="1"
+                                                    max="31"
+                                                />
+                                            </div>
+                                        </div>
+                                        <div className="grid grid-cols-2 gap-3">
+                                            <div>
+                                                <label htmlFor="newExtraPayBasis" className="block text-gray-700 text-sm font-medium mb-1">Amount Is</label>
+                                                <select
+                                                    id="newExtraPayBasis"
+                                                    value={newExtraPayBasis}
+                                                    onChange={(e) => setNewExtraPayBasis(e.target.value as ExtraPayBasis)}
+                                                    className="shadow appearance-none border rounded-md w-full py-2 px-3 text-gray-700 leading-tight focus:outline-none focus:shadow-outline focus:ring-2 focus:ring-orange-500 focus:border-transparent"
+                                                >
+                                                    <option value="percent-of-basic">% of basic salary</option>
+                                                    <option value="fixed">Fixed amount ({baseCurrency})</option>
+                                                </select>
+                                            </div>
+                                            <div>
+                                                <label htmlFor="newExtraPayAmount" className="block text-gray-700 text-sm font-medium mb-1">Amount</label>
+                                                <input
+                                                    type="number"
+                                                    id="newExtraPayAmount"
+                                                    value={newExtraPayAmount}
+                                                    onChange={(e) => setNewExtraPayAmount(e.target.value)}
+                                                    className="shadow appearance-none border rounded-md w-full py-2 px-3 text-gray-700 leading-tight focus:outline-none focus:shadow-outline focus:ring-2 focus:ring-orange-500 focus:border-transparent"
+                                                    step="0.01"
+                                                    min="0"
+                                                />
+                                            </div>
+                                        </div>
+                                        <div>
+                                            <label htmlFor="newExtraPayBusinessDayRule" className="block text-gray-700 text-sm font-medium mb-1">If Due on a Weekend or Holiday</label>
+                                            <select
+                                                id="newExtraPayBusinessDayRule"
+                                                value={newExtraPayBusinessDayRule}
+                                                onChange={(e) => setNewExtraPayBusinessDayRule(e.target.value as BusinessDayRule)}
+                                                className="shadow appearance-none border rounded-md w-full py-2 px-3 text-gray-700 leading-tight focus:outline-none focus:shadow-outline focus:ring-2 focus:ring-orange-500 focus:border-transparent"
+                                            >
+                                                <BusinessDayRuleOptions />
+                                            </select>
+                                        </div>
+                                    </div>
+                                    <div className="flex justify-between items-center mt-4">
+                                        <label className="inline-flex items-center text-sm text-gray-700 cursor-pointer">
+                                            <input
+                                                type="checkbox"
+                                                checked={newExtraPayTaxable}
+                                                onChange={(e) => setNewExtraPayTaxable(e.target.checked)}
+                                                className="mr-2 accent-orange-500"
+                                            />
+                                            Taxable
+                                        </label>
+                                        <button
+                                            type="button"
+                                            onClick={handleAddExtraPay}
+                                            className="bg-blue-500 hover:bg-blue-600 text-white font-bold py-2 px-4 rounded-md transition duration-200"
+                                        >
+                                            Add Extra Pay
+                                        </button>
+                                    </div>
+                                    <p className="text-xs text-gray-500 mt-3">
+                                        The 13th-month pay and other benefits are tax-free up to PHP 90,000 a year combined. Anything non-taxable components pay beyond that is taxed.
+                                    </p>
+                                </div>
+                            </div>
+                        </div>
+
+                        {/* Loans Card */}
+                        <div className="col-span-full bg-gray-50 p-6 rounded-lg border border-gray-200 mt-6">
+                            <h3 className="text-lg font-semibold text-gray-700 mb-4">Loans</h3>
+                            <div className="space-y-4">
+                                {loans.length === 0 ? (
+                                    <p className="text-gray-600 text-sm">No loans added yet.</p>
+                                ) : (
+                                    <ul className="space-y-3 max-h-48 overflow-y-auto pr-2">
+                                        {loans.map((loan) => (
+                                            <li key={loan.id} className="bg-white p-3 rounded-md shadow-sm flex flex-col sm:flex-row justify-between items-start sm:items-center">
+                                                <div>
+                                                    <p className="font-semibold text-gray-900">{loan.loanName}</p>
+                                                    <p className="text-sm text-gray-700">
+                                                        {baseCurrency} {loan.amount.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })} - {loan.paymentFrequency}
+                                                        {loan.businessDayRule && loan.businessDayRule !== 'none' && ` · ${businessDayRuleLabels[loan.businessDayRule].toLowerCase()} off weekends and holidays`}
+                                                    </p>
+                                                    {isAmortizedLoan(loan) ? (
+                                                        <p className="text-xs text-gray-500">
+                                                            Balance: {baseCurrency} {(getLoanBalance(loan, new Date()) ?? 0).toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })} of {baseCurrency} {(loan.principal as number).toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
+                                                            {' · '}{loan.annualInterestRate}% {loan.interestMethod === 'fixed' ? 'add-on' : 'diminishing'}
+                                                            {' · '}Paid off {getLoanPayoffDate(loan)?.toLocaleDateString()}
+                                                        </p>
+                                                    ) : (
+                                                        <p className="text-xs text-gray-500">Next Payment: {loan.nextPaymentDate.toLocaleDateString()}</p>
+                                                    )}
+                                                </div>
+                                                <div className="flex space-x-2 mt-2 sm:mt-0">
+                                                    {isAmortizedLoan(loan) && (
+                                                        <button
+                                                            type="button"
+                                                            onClick={() => setScheduleLoanId(scheduleLoanId === loan.id ? null : loan.id)}
+                                                            className="px-3 py-1 bg-gray-200 text-gray-800 rounded-md hover:bg-gray-300 transition duration-200 text-sm"
+                                                        >
+                                                            {scheduleLoanId === loan.id ? 'Hide Schedule' : 'Schedule'}
+                                                        </button>
+                                                    )}
+                                                    <button
+                                                        type="button"
+                                                        onClick={() => handleRemoveLoan(loan.id)}
+                                                        className="px-3 py-1 bg-red-500 text-white rounded-md hover:bg-red-600 transition duration-200 text-sm"
+                                                    >
+                                                        Remove
+                                                    </button>
+                                                </div>
+                                            </li>
+                                        ))}
+                                    </ul>
+                                )}
+                                {/* Amortization Schedule */}
+                                {loans.filter(loan => loan.id === scheduleLoanId).map(loan => (
+                                    <div key={loan.id} className="bg-white p-3 rounded-md shadow-sm">
+                                        <h4 className="text-md font-medium text-gray-700 mb-2">Amortization Schedule: {loan.loanName}</h4>
+                                        <div className="overflow-x-auto max-h-64 overflow-y-auto">
+                                            <table className="min-w-full divide-y divide-gray-200 text-sm">
+                                                <thead>
+                                                    <tr className="bg-gray-50">
+                                                        <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">#</th>
+                                                        <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Due Date</th>
+                                                        <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Payment</th>
+                                                        <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Interest</th>
+                                                        <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Principal</th>
+                                                        <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Balance</th>
+                                                    </tr>
+                                                </thead>
+                                                <tbody className="divide-y divide-gray-100">
+                                                    {getAmortizationSchedule(loan).map((row: AmortizationRow) => (
+                                                        <tr key={row.paymentNumber} className={row.date.getTime() < new Date().setHours(0, 0, 0, 0) ? 'text-gray-400' : 'text-gray-900'}>
+                                                            <td className="px-3 py-1">{row.paymentNumber}</td>
+                                                            <td className="px-3 py-1">{row.date.toLocaleDateString()}</td>
+                                                            <td className="px-3 py-1 text-right">{row.payment.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</td>
+                                                            <td className="px-3 py-1 text-right">{row.interest.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</td>
+                                                            <td className="px-3 py-1 text-right">{row.principal.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</td>
+                                                            <td className="px-3 py-1 text-right">{row.balance.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</td>
+                                                        </tr>
+                                                    ))}
+                                                </tbody>
+                                            </table>
+                                        </div>
+                                        <p className="text-xs text-gray-500 mt-2">
+                                            Total interest: {baseCurrency} {getAmortizationSchedule(loan).reduce((sum: number, row: AmortizationRow) => sum + row.interest, 0).toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}. Past payments are greyed out.
+                                        </p>
+                                    </div>
+                                ))}
+                                {/* Add New Loan Form */}
+                                <div className="mt-4 border-t pt-4 border-gray-200">
+                                    <h4 className="text-md font-medium text-gray-700 mb-3">Add New Loan</h4>
+                                    <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                                        <div>
+                                            <label htmlFor="newLoanName" className="block text-gray-700 text-sm font-medium mb-1">Loan Name</label>
+                                            <input
+                                                type="text"
+                                                id="newLoanName"
+                                                value={newLoanName}
+                                                onChange={(e) => setNewLoanName(e.target.value)}
+                                                className="shadow appearance-none border rounded-md w-full py-2 px-3 text-gray-700 leading-tight focus:outline-none focus:shadow-outline focus:ring-2 focus:ring-orange-500 focus:border-transparent"
+                                                placeholder="e.g., Car Loan"
+                                            />
+                                        </div>
+                                        <div>
+                                            <label htmlFor="newLoanPrincipal" className="block text-gray-700 text-sm font-medium mb-1">Principal ({baseCurrency})</label>
+                                            <input
+                                                type="number"
+                                                id="newLoanPrincipal"
+                                                value={newLoanPrincipal}
+                                                onChange={(e) => setNewLoanPrincipal(e.target.value)}
+                                                className="shadow appearance-none border rounded-md w-full py-2 px-3 text-gray-700 leading-tight focus:outline-none focus:shadow-outline focus:ring-2 focus:ring-orange-500 focus:border-transparent"
+                                                step="0.01"
+                                                min="0"
+                                                placeholder="e.g., 100000"
+                                            />
+                                        </div>
+                                        <div>
+                                            <label htmlFor="newLoanInterestRate" className="block text-gray-700 text-sm font-medium mb-1">Annual Interest Rate (%)</label>
+                                            <input
+                                                type="number"
+                                                id="newLoanInterestRate"
+                                                value={newLoanInterestRate}
+                                                onChange={(e) => setNewLoanInterestRate(e.target.value)}
+                                                className="shadow appearance-none border rounded-md w-full py-2 px-3 text-gray-700 leading-tight focus:outline-none focus:shadow-outline focus:ring-2 focus:ring-orange-500 focus:border-transparent"
+                                                step="0.01"
+                                                min="0"
+                                                placeholder="e.g., 12"
+                                            />
+                                        </div>
+                                        <div>
+                                            <label htmlFor="newLoanInterestMethod" className="block text-gray-700 text-sm font-medium mb-1">Interest Method</label>
+                                            <select
+                                                id="newLoanInterestMethod"
+                                                value={newLoanInterestMethod}
+                                                onChange={(e) => setNewLoanInterestMethod(e.target.value as LoanInterestMethod)}
+                                                className="shadow appearance-none border rounded-md w-full py-2 px-3 text-gray-700 leading-tight focus:outline-none focus:shadow-outline focus:ring-2 focus:ring-orange-500 focus:border-transparent"
+                                            >
+                                                <option value="diminishing">Diminishing balance</option>
+                                                <option value="fixed">Fixed (add-on) on original principal</option>
+                                            </select>
+                                        </div>
+                                        <div>
+                                            <label htmlFor="newLoanTermPayments" className="block text-gray-700 text-sm font-medium mb-1">Term (Number of Payments)</label>
+                                            <input
+                                                type="number"
+                                                id="newLoanTermPayments"
+                                                value={newLoanTermPayments}
+                                                onChange={(e) => setNewLoanTermPayments(e.target.value)}
+                                                className="shadow appearance-none border rounded-md w-full py-2 px-3 text-gray-700 leading-tight focus:outline-none focus:shadow-outline focus:ring-2 focus:ring-orange-500 focus:border-transparent"
+                                                step="1"
+                                                min="1"
+                                                placeholder="e.g., 24"
+                                            />
+                                        </div>
+                                        <div>
+                                            <label htmlFor="newLoanFrequency" className="block text-gray-700 text-sm font-medium mb-1">Payment Frequency</label>
+                                            <select
+                                                id="newLoanFrequency"
+                                                value={newLoanPaymentFrequency}
+                                                onChange={(e) => setNewLoanPaymentFrequency(e.target.value as 'monthly' | 'quarterly' | 'annually')}
+                                                className="shadow appearance-none border rounded-md w-full py-2 px-3 text-gray-700 leading-tight focus:outline-none focus:shadow-outline focus:ring-2 focus:ring-orange-500 focus:border-transparent"
+                                            >
+                                                <option value="monthly">Monthly</option>
+                                                <option value="quarterly">Quarterly</option>
+                                                <option value="annually">Annually</option>
+                                            </select>
+                                        </div>
+                                        <div>
+                                            <label htmlFor="newLoanNextPaymentDate" className="block text-gray-700 text-sm font-medium mb-1">First Payment Date</label>
+                                            <input
+                                                type="date"
+                                                id="newLoanNextPaymentDate"
+                                                value={newLoanNextPaymentDate}
+                                                onChange={(e) => setNewLoanNextPaymentDate(e.target.value)}
+                                                className="shadow appearance-none border rounded-md w-full py-2 px-3 text-gray-700 leading-tight focus:outline-none focus:shadow-outline focus:ring-2 focus:ring-orange-500 focus:border-transparent"
+                                            />
+                                        </div>
+                                        <div>
+                                            <label htmlFor="newLoanBusinessDayRule" className="block text-gray-700 text-sm font-medium mb-1">If Due on a Weekend or Holiday</label>
+                                            <select
+                                                id="newLoanBusinessDayRule"
+                                                value={newLoanBusinessDayRule}
+                                                onChange={(e) => setNewLoanBusinessDayRule(e.target.value as BusinessDayRule)}
+                                                className="shadow appearance-none border rounded-md w-full py-2 px-3 text-gray-700 leading-tight focus:outline-none focus:shadow-outline focus:ring-2 focus:ring-orange-500 focus:border-transparent"
+                                            >
+                                                <BusinessDayRuleOptions />
+                                            </select>
+                                        </div>
+                                    </div>
+                                    <div className="flex justify-between items-center mt-4">
+                                        <p className="text-sm text-gray-700">
+                                            {newLoanPayment !== null && (
+                                                <>Payment: <strong>{baseCurrency} {newLoanPayment.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</strong> {newLoanPaymentFrequency}</>
+                                            )}
+                                        </p>
+                                        <button
+                                            type="button"
+                                            onClick={handleAddLoan}
+                                            className="bg-blue-500 hover:bg-blue-600 text-white font-bold py-2 px-4 rounded-md transition duration-200"
+                                        >
+                                            Add Loan
+                                        </button>
+                                    </div>
+                                </div>
+                            </div>
+                        </div>
+
+                        <div className="flex justify-end mt-4 col-span-full">
+                            <button
+                                type="button"
+                                onClick={handleResetSalary}
+                                className="bg-red-500 hover:bg-red-600 text-white font-bold py-2 px-4 rounded-md transition duration-200 shadow-sm cursor-pointer disabled:opacity-70 disabled:cursor-not-allowed mr-3"
+                                disabled={isLoading}
+                            >
+                                {isLoading ? 'Resetting...' : 'Reset Salary Info'}
+                            </button>
+                            <button
+                                type="submit"
+                                className="bg-orange-500 hover:bg-orange-600 text-white font-bold py-2 px-4 rounded-md transition duration-200 shadow-sm cursor-pointer disabled:opacity-70 disabled:cursor-not-allowed"
+                                disabled={isLoading}
+                            >
+                                {isLoading ? 'Saving...' : 'Update Profile'}
+                            </button>
+                        </div>
+                    </form>
+                </div>
+
+                {/* Right Column: Financial Summary Cards */}
+                <div className="flex flex-col gap-6">
+                     {/* Current Cash Balance Card */}
+                    <div className="bg-white rounded-lg shadow-md p-6 border-b-4 border-orange-500 w-full">
+                        <h2 className="text-lg font-semibold text-gray-700 mb-2">Current Cash Balance</h2>
+                        <p className="text-3xl font-bold text-orange-600">
+                            {baseCurrency} {currentCashBalanceValue.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
+                        </p>
+                    </div>
+
+                    {/* Projected Short-Term Balance Card */}
+                    <div className="bg-white rounded-lg shadow-md p-6 border-b-4 border-slate-700 w-full">
+                        <h2 className="text-lg font-semibold text-gray-700 mb-2">Projected Short-Term Balance</h2>
+                        <p className="text-3xl font-bold text-slate-800">
+                            {baseCurrency} {projectedShortTermBalanceValue.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
+                        </p>
+                    </div>
+
+                    {/* Upcoming Income Card */}
+                    <div className="bg-white rounded-lg shadow-md p-6 border-b-4 border-emerald-700 w-full">
+                        <h2 className="text-lg font-semibold text-gray-700 mb-2">Upcoming Income (Next 30 Days)</h2>
+                        <p className="text-2xl font-bold text-emerald-800 mb-2">
+                            {baseCurrency} {totalUpcomingIncomesAmount.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
+                        </p>
+                        {upcomingIncomesForDisplay.length === 0 ? (
+                            <p className="text-sm text-gray-600">No outstanding invoices or estimated salary.</p>
+                        ) : (
+                            <ul className="list-none p-0 m-0 text-sm text-gray-800">
+                                {upcomingIncomesForDisplay.map((income: IncomeItem) => (
+                                    <li key={income.id} className="flex justify-between items-center py-0.5">
+                                        <span>{income.client}</span>
+                                        <span className="text-xs text-gray-500">{income.dueDate.toLocaleDateString()}</span>
+                                    </li>
+                                ))}
+                            </ul>
+                        )}
+                    </div>
+
+                    {/* Upcoming Expenses Card */}
+                    <div className="bg-white rounded-lg shadow-md p-6 border-b-4 border-amber-700 w-full">
+                        <h2 className="text-lg font-semibold text-gray-700 mb-2">Upcoming Expenses (Next 30 Days)</h2>
+                        <p className="text-2xl font-bold text-amber-800 mb-2">
+                            {baseCurrency} {totalUpcomingExpensesAmount.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
+                        </p>
+                        {upcomingExpensesForDisplay.length === 0 ? (
                             <p className="text-sm text-gray-600">No upcoming expenses.</p>
                         ) : (
-                            <ul className="list-none p-0 m-0 text-sm text-gray-800">
-                                {upcomingExpensesForDisplay.map((expense: ExpenseItem) => (
-                                    <li key={expense.id} className="flex justify-between items-center py-0.5">
-                                        <span>{expense.vendor}</span>
-                                        <span className="text-xs text-gray-500">{expense.date.toLocaleDateString()}</span>
+                            <ul className="list-none p-0 m-0 text-sm text-gray-800">
+                                {upcomingExpensesForDisplay.map((expense: ExpenseItem) => (
+                                    <li key={expense.id} className="flex justify-between items-center py-0.5">
+                                        <span>{expense.vendor}</span>
+                                        <span className="text-xs text-gray-500">{expense.date.toLocaleDateString()}</span>
+                                    </li>
+                                ))}
+                            </ul>
+                        )}
+                    </div>
+                </div>
+            </div>
+
+            {/* Salary Breakdown Section */}
+            <div className="bg-white rounded-lg shadow-md p-6 mt-8">
+                <h2 className="text-xl font-semibold text-gray-700 mb-4">Salary Breakdown</h2>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4 text-gray-800">
+                    <div className="flex justify-between py-1 border-b border-gray-100">
+                        <span className="font-medium">Gross Monthly Salary:</span>
+                        <span>{baseCurrency} {grossMonthlySalary.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</span>
+                    </div>
+                    {statutoryEnabled && statutoryLines.map((line: StatutoryDeductionLine) => (
+                        <div key={line.name} className="flex justify-between py-1 border-b border-gray-100 text-sm">
+                            <span>{line.name}{line.overridden ? ' (manual)' : ''}:</span>
+                            <span>- {baseCurrency} {line.amount.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</span>
+                        </div>
+                    ))}
+                    <div className="flex justify-between py-1 border-b border-gray-100">
+                        <span className="font-medium">Total Monthly Deductions:</span>
+                        <span>- {baseCurrency} {totalMonthlyDeductions.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</span>
+                    </div>
+                    <div className="flex justify-between py-1 border-b border-gray-100 font-bold text-lg">
+                        <span>Net Monthly Salary:</span>
+                        <span>{baseCurrency} {netMonthlySalary.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</span>
+                    </div>
+                    <div className="flex justify-between py-1 border-b border-gray-100">
+                        <span className="font-medium">Net Pay Per Payday ({describePaySchedule(savedPaySchedule)}):</span>
+                        <span>{baseCurrency} {getSalaryPerPayday(netMonthlySalary, savedPaySchedule).toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</span>
+                    </div>
+                    {extraPayLines.map((line: ExtraPayLine) => (
+                        <div key={line.component.id} className="flex justify-between py-1 border-b border-gray-100 text-sm">
+                            <span>
+                                {line.component.name} ({describeExtraPayDate(line.component)}):
+                                <span className="block text-xs text-gray-500">
+                                    {line.withholdingTax > 0
+                                        ? `${baseCurrency} ${line.grossAmount.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })} less ${baseCurrency} ${line.withholdingTax.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })} tax`
+                                        : line.taxableAmount > 0 ? 'No tax due' : 'Non-taxable'}
+                                </span>
+                            </span>
+                            <span>{baseCurrency} {line.netAmount.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</span>
+                        </div>
+                    ))}
+                    {extraPayLines.length > 0 && (
+                        <div className="flex justify-between py-1 border-b border-gray-100">
+                            <span className="font-medium">Annual Take-Home Pay:</span>
+                            <span>{baseCurrency} {annualTakeHomePay.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</span>
+                        </div>
+                    )}
+                    <div className="flex justify-between py-1 border-b border-gray-100">
+                        <span className="font-medium">Working Days This Month:</span>
+                        <span>{monthlyWorkingDays} days</span>
+                    </div>
+                    <div className="flex justify-between py-1 font-bold text-xl text-orange-600">
+                        <span>Daily Income (Net):</span>
+                        <span>{baseCurrency} {dailyIncome.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</span>
+                    </div>
+                </div>
+            </div>
+
+            {/* Debt Payoff Planner Section */}
+            <div className="bg-white rounded-lg shadow-md p-6 mt-8">
+                <h2 className="text-xl font-semibold text-gray-700 mb-2">Debt Payoff Planner</h2>
+                <p className="text-sm text-gray-600 mb-4">
+                    Put an extra amount toward your loans each month and see which to pay off first. Every loan still gets its own payment;
+                    the extra, and the payments of loans already paid off, go to the first loan in the order until it is cleared.
+                </p>
+                <DebtPayoffPlanner userProfile={userProfile} updateUserProfile={updateUserProfile} />
+            </div>
+
+            {/* Modals for alerts and confirmations */}
+            <Modal
+                isOpen={isModalOpen}
+                title={modalTitle}
+                message={modalMessage}
+                onClose={() => setIsModalOpen(false)}
+            />
+            <Modal
+                isOpen={isResetSalaryConfirmOpen}
+                title={modalTitle}
+                message={modalMessage}
+                onClose={() => setIsResetSalaryConfirmOpen(false)}
+                onConfirm={confirmResetSalary}
+                showConfirmButton={true}
+            />
+        </div>
+    );
+};
+
+
+// --- Component: DebtPayoffPlanner (Consolidated) ---
+const payoffStrategyLabels: Record<PayoffStrategy, string> = { snowball: 'Snowball', avalanche: 'Avalanche', custom: 'Custom' };
+const payoffStrategyDescriptions: Record<PayoffStrategy, string> = {
+    snowball: 'Smallest balance first',
+    avalanche: 'Highest interest rate first',
+    custom: 'Your own order',
+};
+const payoffStrategies: PayoffStrategy[] = ['snowball', 'avalanche', 'custom'];
+// Each strategy's bars are drawn in the loans' colors, more transparent for each later strategy
+const payoffStrategyOpacity: Record<PayoffStrategy, string> = { snowball: 'FF', avalanche: 'B3', custom: '66' };
+// The chart shows at most this many months, sampling longer plans evenly
+const MAX_PAYOFF_CHART_MONTHS = 36;
+
+const DebtPayoffPlanner: React.FC<DebtPayoffPlannerProps> = ({ userProfile, updateUserProfile }) => {
+    const baseCurrency = getBaseCurrency(userProfile);
+    const savedSettings = userProfile?.debtPayoffPlan;
+    const loans = useMemo(() => userProfile?.loans || [], [userProfile?.loans]);
+    const debts = useMemo(() => getPayoffDebts(loans, new Date()), [loans]);
+    const [strategy, setStrategy] = useState<PayoffStrategy>(savedSettings?.strategy || 'avalanche');
+    const [extraPayment, setExtraPayment] = useState<string>(savedSettings ? String(savedSettings.extraMonthlyPayment) : '0');
+    const [customOrder, setCustomOrder] = useState<string[]>(savedSettings?.customOrder || []);
+    const [isSaving, setIsSaving] = useState<boolean>(false);
+    const [isModalOpen, setIsModalOpen] = useState<boolean>(false);
+    const [modalMessage, setModalMessage] = useState<string>('');
+    const [modalTitle, setModalTitle] = useState<string>('');
+
+    useEffect(() => {
+        if (!savedSettings) return;
+        setStrategy(savedSettings.strategy);
+        setExtraPayment(String(savedSettings.extraMonthlyPayment));
+        setCustomOrder(savedSettings.customOrder);
+    }, [savedSettings]);
+
+    const extraMonthlyPayment = Math.max(parseFloat(extraPayment) || 0, 0);
+    const plans = useMemo(() => payoffStrategies.map(option => planDebtPayoff(debts, option, extraMonthlyPayment, customOrder)),
+        [debts, extraMonthlyPayment, customOrder]);
+    const selectedPlan = plans[payoffStrategies.indexOf(strategy)];
+    const unplannedLoans = loans.filter(loan => !debts.some(debt => debt.id === loan.id));
+    const isSavedPlan = !!savedSettings && savedSettings.strategy === strategy && savedSettings.extraMonthlyPayment === extraMonthlyPayment
+        && (strategy !== 'custom' || selectedPlan.order.join() === savedSettings.customOrder.join());
+    const formatAmount = (amount: number) => `${baseCurrency} ${amount.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+    const formatPayoffDate = (date: Date | null) => date ? date.toLocaleDateString('en-US', { month: 'short', year: 'numeric' }) : 'Not within 50 years';
+    const getDebtName = (id: string) => debts.find(debt => debt.id === id)?.name || id;
+
+    const showMessage = (title: string, message: string) => {
+        setModalTitle(title);
+        setModalMessage(message);
+        setIsModalOpen(true);
+    };
+
+    const savePlan = async (settings: DebtPayoffSettings, successMessage: string) => {
+        setIsSaving(true);
+        try {
+            await updateUserProfile({ debtPayoffPlan: settings });
+            showMessage("Success!", successMessage);
+        } catch (error: unknown) {
+            showMessage("Error", `Failed to save the payoff plan: ${(error as Error).message}`);
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const handleApply = () => {
+        const amount = parseFloat(extraPayment);
+        if (isNaN(amount) || amount < 0) {
+            showMessage("Input Error", "Enter the extra monthly payment as zero or a positive number.");
+            return;
+        }
+        savePlan({ strategy, extraMonthlyPayment: amount, customOrder: selectedPlan.order, applyToForecast: true },
+            `The forecast now pays your loans the ${payoffStrategyLabels[strategy].toLowerCase()} way, with ${formatAmount(amount)} extra a month.`);
+    };
+
+    const handleStopApplying = () => {
+        if (!savedSettings) return;
+        savePlan({ ...savedSettings, applyToForecast: false }, "The forecast is back to paying each loan on its own schedule.");
+    };
+
+    // Custom orders start from the strategy being looked at, so moving one loan keeps the rest where they were
+    const startCustomOrder = (order: string[] = selectedPlan.order) => {
+        setCustomOrder(order);
+        setStrategy('custom');
+    };
+
+    const moveInCustomOrder = (id: string, offset: number) => {
+        const order = [...selectedPlan.order];
+        const index = order.indexOf(id);
+        const target = index + offset;
+        if (target < 0 || target >= order.length) return;
+        [order[index], order[target]] = [order[target], order[index]];
+        startCustomOrder(order);
+    };
+
+    // Remaining balance of each loan after each month's payments, one stack per strategy
+    const chartMonthCount = Math.max(...plans.map(plan => plan.months.length), 0);
+    const chartStep = Math.max(Math.ceil(chartMonthCount / MAX_PAYOFF_CHART_MONTHS), 1);
+    const chartMonths = Array.from({ length: Math.ceil(chartMonthCount / chartStep) }, (_, index) => index * chartStep);
+    const longestPlan = plans.reduce((longest, plan) => (plan.months.length > longest.months.length ? plan : longest), plans[0]);
+    const payoffChartData = {
+        labels: chartMonths.map(month => longestPlan.months[month].paymentDates
+            .reduce((latest, date) => (date.getTime() > latest.getTime() ? date : latest))
+            .toLocaleDateString('en-US', { month: 'short', year: 'numeric' })),
+        datasets: plans.flatMap((plan, planIndex) => debts.map((debt, debtIndex) => ({
+            label: `${payoffStrategyLabels[payoffStrategies[planIndex]]}: ${debt.name}`,
+            data: chartMonths.map(month => plan.months[month]?.balances[debtIndex] ?? 0),
+            backgroundColor: categoryColorPalette[debtIndex % categoryColorPalette.length] + payoffStrategyOpacity[plan.strategy],
+            stack: plan.strategy,
+        }))),
+    };
+
+    const payoffChartOptions: ChartOptions<'bar'> = {
+        responsive: true,
+        maintainAspectRatio: false,
+        plugins: {
+            legend: {
+                position: 'top' as const,
+            },
+            title: {
+                display: true,
+                text: 'Remaining Balance by Strategy',
+                font: {
+                    size: 16,
+                },
+                color: '#374151',
+            },
+        },
+        scales: {
+            x: {
+                stacked: true,
+                grid: {
+                    display: false,
+                },
+                ticks: {
+                    color: '#6B7280',
+                }
+            },
+            y: {
+                stacked: true,
+                title: {
+                    display: true,
+                    text: `Remaining Balance (${baseCurrency})`,
+                    color: '#4B5563',
+                },
+                grid: {
+                    color: '#E5E7EB',
+                },
+                ticks: {
+                    callback: function(tickValue: string | number) {
+                        const numericValue = typeof tickValue === 'string' ? parseFloat(tickValue) : tickValue;
+                        return new Intl.NumberFormat('en-US', { style: 'currency', currency: baseCurrency }).format(numericValue);
+                    }
+                }
+            },
+        },
+    };
+
+    if (debts.length === 0) {
+        return (
+            <p className="text-sm text-gray-600">
+                Add a monthly loan with its principal, interest rate and number of payments above to plan how to pay your loans off.
+            </p>
+        );
+    }
+
+    return (
+        <div>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-4">
+                <div>
+                    <label htmlFor="payoffExtraPayment" className="block text-gray-700 text-sm font-bold mb-2">Extra Payment per Month ({baseCurrency}):</label>
+                    <input
+                        type="number"
+                        id="payoffExtraPayment"
+                        value={extraPayment}
+                        onChange={(e: React.ChangeEvent<HTMLInputElement>) => setExtraPayment(e.target.value)}
+                        className="shadow appearance-none border rounded-md w-full py-2 px-3 text-gray-700 leading-tight focus:outline-none focus:shadow-outline focus:ring-2 focus:ring-orange-500 focus:border-transparent"
+                        step="0.01"
+                        min="0"
+                    />
+                </div>
+                <div>
+                    <label htmlFor="payoffStrategy" className="block text-gray-700 text-sm font-bold mb-2">Strategy:</label>
+                    <select
+                        id="payoffStrategy"
+                        value={strategy}
+                        onChange={(e: React.ChangeEvent<HTMLSelectElement>) => setStrategy(e.target.value as PayoffStrategy)}
+                        className="shadow appearance-none border rounded-md w-full py-2 px-3 text-gray-700 leading-tight focus:outline-none focus:shadow-outline focus:ring-2 focus:ring-orange-500 focus:border-transparent"
+                    >
+                        {payoffStrategies.map(option => (
+                            <option key={option} value={option}>{payoffStrategyLabels[option]} ({payoffStrategyDescriptions[option]})</option>
+                        ))}
+                    </select>
+                </div>
+            </div>
+
+            <div className="overflow-x-auto mb-4">
+                <table className="min-w-full divide-y divide-gray-200">
+                    <thead>
+                        <tr className="bg-gray-50">
+                            <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Strategy</th>
+                            <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Order</th>
+                            <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Total Interest</th>
+                            <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Total Paid</th>
+                            <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Debt-Free By</th>
+                        </tr>
+                    </thead>
+                    <tbody className="bg-white divide-y divide-gray-200">
+                        {plans.map(plan => (
+                            <tr key={plan.strategy} className={plan.strategy === strategy ? 'bg-orange-50' : ''}>
+                                <td className="px-3 py-2 whitespace-nowrap text-sm text-gray-900">
+                                    <button
+                                        onClick={() => setStrategy(plan.strategy)}
+                                        className="font-medium text-blue-700 hover:text-blue-900 transition duration-200"
+                                    >
+                                        {payoffStrategyLabels[plan.strategy]}
+                                    </button>
+                                    {savedSettings?.applyToForecast && savedSettings.strategy === plan.strategy && (
+                                        <span className="ml-2 inline-flex px-2 py-0.5 text-xs leading-5 font-semibold rounded-full bg-blue-100 text-blue-800">In forecast</span>
+                                    )}
+                                </td>
+                                <td className="px-3 py-2 text-sm text-gray-600">{plan.order.map(getDebtName).join(' → ')}</td>
+                                <td className="px-3 py-2 whitespace-nowrap text-sm text-gray-900">{formatAmount(plan.totalInterest)}</td>
+                                <td className="px-3 py-2 whitespace-nowrap text-sm text-gray-900">{formatAmount(plan.totalPaid)}</td>
+                                <td className="px-3 py-2 whitespace-nowrap text-sm text-gray-900">{formatPayoffDate(plan.debtFreeDate)}</td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            </div>
+
+            <h3 className="text-lg font-semibold text-gray-700 mb-2">{payoffStrategyLabels[strategy]} Plan</h3>
+            <div className="overflow-x-auto mb-4">
+                <table className="min-w-full divide-y divide-gray-200">
+                    <thead>
+                        <tr className="bg-gray-50">
+                            <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Loan</th>
+                            <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Balance Today</th>
+                            <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Rate</th>
+                            <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Monthly Payment</th>
+                            <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Paid Off</th>
+                            <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">On Schedule</th>
+                            <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Interest</th>
+                            {strategy === 'custom' && <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Order</th>}
+                        </tr>
+                    </thead>
+                    <tbody className="bg-white divide-y divide-gray-200">
+                        {selectedPlan.order.map((id, position) => {
+                            const debtIndex = debts.findIndex(debt => debt.id === id);
+                            const debt = debts[debtIndex];
+                            const summary = selectedPlan.debts[debtIndex];
+                            const loan = loans.find(item => item.id === id) as LoanItem;
+                            return (
+                                <tr key={id}>
+                                    <td className="px-3 py-2 whitespace-nowrap text-sm text-gray-900">{debt.name}</td>
+                                    <td className="px-3 py-2 whitespace-nowrap text-sm text-gray-900">{formatAmount(debt.balance)}</td>
+                                    <td className="px-3 py-2 whitespace-nowrap text-sm text-gray-600">
+                                        {debt.annualInterestRate}%{loan.interestMethod === 'fixed' ? ' add-on' : ''}
+                                    </td>
+                                    <td className="px-3 py-2 whitespace-nowrap text-sm text-gray-900">{formatAmount(debt.minimumPayment)}</td>
+                                    <td className="px-3 py-2 whitespace-nowrap text-sm text-gray-900">{formatPayoffDate(summary.payoffDate)}</td>
+                                    <td className="px-3 py-2 whitespace-nowrap text-sm text-gray-600">{formatPayoffDate(getLoanPayoffDate(loan))}</td>
+                                    <td className="px-3 py-2 whitespace-nowrap text-sm text-gray-900">{formatAmount(summary.totalInterest)}</td>
+                                    {strategy === 'custom' && (
+                                        <td className="px-3 py-2 whitespace-nowrap text-sm text-gray-900">
+                                            <button
+                                                onClick={() => moveInCustomOrder(id, -1)}
+                                                className="px-2 py-1 text-sm font-medium text-blue-700 hover:text-blue-900 transition duration-200 disabled:opacity-40"
+                                                disabled={position === 0}
+                                                aria-label={`Pay ${debt.name} off earlier`}
+                                            >
+                                                ↑
+                                            </button>
+                                            <button
+                                                onClick={() => moveInCustomOrder(id, 1)}
+                                                className="px-2 py-1 text-sm font-medium text-blue-700 hover:text-blue-900 transition duration-200 disabled:opacity-40"
+                                                disabled={position === selectedPlan.order.length - 1}
+                                                aria-label={`Pay ${debt.name} off later`}
+                                            >
+                                                ↓
+                                            </button>
+                                        </td>
+                                    )}
+                                </tr>
+                            );
+                        })}
+                    </tbody>
+                </table>
+            </div>
+            {strategy !== 'custom' && (
+                <p className="text-xs text-gray-500 mb-4">
+                    Want a different order?{' '}
+                    <button onClick={() => startCustomOrder()} className="text-blue-700 hover:text-blue-900 underline">
+                        Start a custom order from this one.
+                    </button>
+                </p>
+            )}
+            {unplannedLoans.length > 0 && (
+                <p className="text-xs text-gray-500 mb-4">
+                    Not included, and paid on their own schedules: {unplannedLoans.map(loan => loan.loanName).join(', ')}. The planner needs monthly loans with a principal, rate and number of payments that are still being paid.
+                </p>
+            )}
+
+            <div className="h-80 mb-4">
+                <Bar data={payoffChartData} options={payoffChartOptions} />
+            </div>
+
+            <div className="flex flex-wrap items-center gap-2">
+                <button
+                    onClick={handleApply}
+                    className="bg-orange-500 hover:bg-orange-600 text-white font-bold py-2 px-4 rounded-md transition duration-200 shadow-sm cursor-pointer disabled:opacity-70 disabled:cursor-not-allowed"
+                    disabled={isSaving || (isSavedPlan && !!savedSettings?.applyToForecast)}
+                >
+                    {isSavedPlan && savedSettings?.applyToForecast ? 'Used in the Forecast' : 'Use This Plan in the Forecast'}
+                </button>
+                {savedSettings?.applyToForecast && (
+                    <button
+                        onClick={handleStopApplying}
+                        className="px-4 py-2 text-sm font-medium text-orange-700 hover:text-orange-900 transition duration-200"
+                        disabled={isSaving}
+                    >
+                        Pay Loans on Their Own Schedules
+                    </button>
+                )}
+            </div>
+
+            <Modal
+                isOpen={isModalOpen}
+                onClose={() => setIsModalOpen(false)}
+                title={modalTitle}
+                message={modalMessage}
+            />
+        </div>
+    );
+};
+
+
+// --- Component: SpendingBaselineEditor (Consolidated) ---
+const SpendingBaselineEditor: React.FC<SpendingBaselineEditorProps> = ({ userProfile, updateUserProfile, spendingBaseline, expenseCategories }) => {
+    const runRates = userProfile?.spendingRunRates || [];
+    const baseCurrency = getBaseCurrency(userProfile);
+    const [editingCategory, setEditingCategory] = useState<string | null>(null);
+    const [editAmount, setEditAmount] = useState<string>('');
+    const [newCategory, setNewCategory] = useState<string>('');
+    const [newAmount, setNewAmount] = useState<string>('');
+    const [isSaving, setIsSaving] = useState<boolean>(false);
+    const [isModalOpen, setIsModalOpen] = useState<boolean>(false);
+    const [modalMessage, setModalMessage] = useState<string>('');
+    const [modalTitle, setModalTitle] = useState<string>('');
+
+    // Every estimated category, then the categories the user set a run-rate for without any history
+    const rows = [
+        ...spendingBaseline.map(baseline => ({ category: baseline.category, baseline, runRate: runRates.find(rate => rate.category === baseline.category) || null })),
+        ...runRates.filter(rate => !spendingBaseline.some(baseline => baseline.category === rate.category)).map(rate => ({ category: rate.category, baseline: null, runRate: rate })),
+    ];
+    const getUsedMonthlyAmount = (row: typeof rows[number]) => row.runRate ? row.runRate.monthlyAmount : row.baseline ? getMonthlyRunRate(row.baseline) : 0;
+    const totalMonthlyAmount = rows.reduce((sum, row) => sum + getUsedMonthlyAmount(row), 0);
+    const categoriesWithoutRow = expenseCategories.filter(category => !rows.some(row => row.category === category.name));
+    const formatAmount = (amount: number) => `${baseCurrency} ${amount.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+    const showMessage = (title: string, message: string) => {
+        setModalTitle(title);
+        setModalMessage(message);
+        setIsModalOpen(true);
+    };
+
+    const saveRunRates = async (updatedRunRates: SpendingRunRate[], successMessage: string): Promise<boolean> => {
+        setIsSaving(true);
+        try {
+            await updateUserProfile({ spendingRunRates: updatedRunRates });
+            showMessage("Success!", successMessage);
+            return true;
+        } catch (error: unknown) {
+            showMessage("Error", `Failed to save run-rates: ${(error as Error).message}`);
+            return false;
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    // Zero is allowed: it leaves a category out of the forecast, e.g. one already covered by a recurring expense
+    const setRunRate = async (category: string, amountInput: string): Promise<boolean> => {
+        const monthlyAmount = parseFloat(amountInput);
+        if (isNaN(monthlyAmount) || monthlyAmount < 0) {
+            showMessage("Input Error", "Enter the monthly amount as zero or a positive number.");
+            return false;
+        }
+        const runRate: SpendingRunRate = { category, monthlyAmount };
+        const updatedRunRates = runRates.some(rate => rate.category === category)
+            ? runRates.map(rate => rate.category === category ? runRate : rate)
+            : [...runRates, runRate];
+        return saveRunRates(updatedRunRates, `The forecast now expects ${formatAmount(monthlyAmount)} a month of ${category} spending.`);
+    };
+
+    const handleEdit = (row: typeof rows[number]) => {
+        setEditingCategory(row.category);
+        setEditAmount(String(getUsedMonthlyAmount(row)));
+    };
+
+    const handleSaveEdit = async (category: string) => {
+        if (await setRunRate(category, editAmount)) setEditingCategory(null);
+    };
+
+    const handleReset = (category: string) =>
+        saveRunRates(runRates.filter(rate => rate.category !== category), spendingBaseline.some(baseline => baseline.category === category)
+            ? `${category} is back to its estimated spending.`
+            : `${category} is no longer part of the forecast.`);
+
+    const handleAdd = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!newCategory) {
+            showMessage("Input Error", "Choose a category.");
+            return;
+        }
+        if (await setRunRate(newCategory, newAmount)) {
+            setNewCategory('');
+            setNewAmount('');
+        }
+    };
+
+    return (
+        <div>
+            {rows.length === 0 ? (
+                <p className="text-sm text-gray-600 mb-4">
+                    Record at least two weeks of expenses and the forecast will estimate your typical spending per category. You can also set a monthly amount yourself below.
+                </p>
+            ) : (
+                <div className="overflow-x-auto mb-4">
+                    <table className="min-w-full divide-y divide-gray-200">
+                        <thead>
+                            <tr className="bg-gray-50">
+                                <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Category</th>
+                                <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Estimated / Month</th>
+                                <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Pattern</th>
+                                <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Forecast Uses</th>
+                                <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
+                            </tr>
+                        </thead>
+                        <tbody className="bg-white divide-y divide-gray-200">
+                            {rows.map(row => (
+                                <tr key={row.category}>
+                                    <td className="px-3 py-2 whitespace-nowrap text-sm text-gray-900">{row.category}</td>
+                                    <td className="px-3 py-2 whitespace-nowrap text-sm text-gray-900">{row.baseline ? formatAmount(getMonthlyRunRate(row.baseline)) : '—'}</td>
+                                    <td className="px-3 py-2 whitespace-nowrap text-sm text-gray-600">{row.baseline ? describeSpendingPattern(row.baseline) : 'No history'}</td>
+                                    <td className="px-3 py-2 whitespace-nowrap text-sm text-gray-900">
+                                        {editingCategory === row.category ? (
+                                            <input
+                                                type="number"
+                                                value={editAmount}
+                                                onChange={(e: React.ChangeEvent<HTMLInputElement>) => setEditAmount(e.target.value)}
+                                                className="shadow appearance-none border rounded-md w-full py-2 px-3 text-gray-700 leading-tight focus:outline-none focus:shadow-outline focus:ring-2 focus:ring-orange-500 focus:border-transparent"
+                                                step="0.01"
+                                                min="0"
+                                                aria-label={`Monthly ${row.category} spending`}
+                                            />
+                                        ) : (
+                                            <>
+                                                {formatAmount(getUsedMonthlyAmount(row))}
+                                                {row.runRate && <span className="ml-2 inline-flex px-2 py-0.5 text-xs leading-5 font-semibold rounded-full bg-blue-100 text-blue-800">Set by you</span>}
+                                            </>
+                                        )}
+                                    </td>
+                                    <td className="px-3 py-2 whitespace-nowrap text-sm text-gray-900">
+                                        {editingCategory === row.category ? (
+                                            <>
+                                                <button
+                                                    onClick={() => handleSaveEdit(row.category)}
+                                                    className="px-2 py-1 text-sm font-medium text-green-700 hover:text-green-900 transition duration-200"
+                                                    disabled={isSaving}
+                                                >
+                                                    Save
+                                                </button>
+                                                <button
+                                                    onClick={() => setEditingCategory(null)}
+                                                    className="px-2 py-1 text-sm font-medium text-gray-600 hover:text-gray-800 transition duration-200"
+                                                >
+                                                    Cancel
+                                                </button>
+                                            </>
+                                        ) : (
+                                            <>
+                                                <button
+                                                    onClick={() => handleEdit(row)}
+                                                    className="px-2 py-1 text-sm font-medium text-blue-700 hover:text-blue-900 transition duration-200"
+                                                    disabled={isSaving}
+                                                >
+                                                    Adjust
+                                                </button>
+                                                {row.runRate && (
+                                                    <button
+                                                        onClick={() => handleReset(row.category)}
+                                                        className="px-2 py-1 text-sm font-medium text-orange-700 hover:text-orange-900 transition duration-200"
+                                                        disabled={isSaving}
+                                                    >
+                                                        {row.baseline ? 'Use Estimate' : 'Remove'}
+                                                    </button>
+                                                )}
+                                            </>
+                                        )}
+                                    </td>
+                                </tr>
+                            ))}
+                            <tr className="bg-gray-50">
+                                <td className="px-3 py-2 whitespace-nowrap text-sm font-semibold text-gray-900" colSpan={3}>Typical Spending per Month</td>
+                                <td className="px-3 py-2 whitespace-nowrap text-sm font-semibold text-gray-900" colSpan={2}>{formatAmount(totalMonthlyAmount)}</td>
+                            </tr>
+                        </tbody>
+                    </table>
+                </div>
+            )}
+
+            {categoriesWithoutRow.length > 0 && (
+                <form onSubmit={handleAdd} className="flex flex-col gap-2 sm:flex-row">
+                    <select
+                        value={newCategory}
+                        onChange={(e: React.ChangeEvent<HTMLSelectElement>) => setNewCategory(e.target.value)}
+                        className="shadow appearance-none border rounded-md w-full py-2 px-3 text-gray-700 leading-tight focus:outline-none focus:shadow-outline focus:ring-2 focus:ring-orange-500 focus:border-transparent"
+                        aria-label="Category"
+                    >
+                        <option value="">Add a category</option>
+                        {categoriesWithoutRow.map(category => <option key={category.id} value={category.name}>{category.icon} {category.name}</option>)}
+                    </select>
+                    <input
+                        type="number"
+                        value={newAmount}
+                        onChange={(e: React.ChangeEvent<HTMLInputElement>) => setNewAmount(e.target.value)}
+                        className="shadow appearance-none border rounded-md w-full py-2 px-3 text-gray-700 leading-tight focus:outline-none focus:shadow-outline focus:ring-2 focus:ring-orange-500 focus:border-transparent"
+                        step="0.01"
+                        min="0"
+                        placeholder={`Per month (${baseCurrency})`}
+                        aria-label="Monthly amount"
+                    />
+                    <button
+                        type="submit"
+                        className="bg-orange-500 hover:bg-orange-600 text-white font-bold py-2 px-4 rounded-md transition duration-200 shadow-sm cursor-pointer whitespace-nowrap disabled:opacity-70 disabled:cursor-not-allowed"
+                        disabled={isSaving}
+                    >
+                        Set Run-Rate
+                    </button>
+                </form>
+            )}
+
+            <Modal
+                isOpen={isModalOpen}
+                onClose={() => setIsModalOpen(false)}
+                title={modalTitle}
+                message={modalMessage}
+            />
+        </div>
+    );
+};
+
+
+// --- Component: ScenarioPlanner (Consolidated) ---
+const ScenarioPlanner: React.FC<ScenarioPlannerComponentProps> = ({ userProfile, updateUserProfile, recurringExpenses }) => {
+    const scenarios = userProfile?.scenarios || [];
+    const baseCurrency = getBaseCurrency(userProfile);
+    const [scenarioName, setScenarioName] = useState<string>('');
+    const [changeScenarioId, setChangeScenarioId] = useState<string>('');
+    const [changeType, setChangeType] = useState<ScenarioChangeType>('one-off-expense');
+    const [changeLabel, setChangeLabel] = useState<string>('');
+    const [changeDate, setChangeDate] = useState<string>(toDateInputValue(new Date()));
+    const [changeAmount, setChangeAmount] = useState<string>('');
+    const [changePercent, setChangePercent] = useState<string>('');
+    const [changeInterestRate, setChangeInterestRate] = useState<string>('');
+    const [changeTermPayments, setChangeTermPayments] = useState<string>('');
+    const [changeRecurringExpenseId, setChangeRecurringExpenseId] = useState<string>('');
+    const [isSaving, setIsSaving] = useState<boolean>(false);
+    const [isModalOpen, setIsModalOpen] = useState<boolean>(false);
+    const [modalMessage, setModalMessage] = useState<string>('');
+    const [modalTitle, setModalTitle] = useState<string>('');
+
+    // Changes go to the picked scenario, or the first one until another is picked
+    const targetScenario = scenarios.find(scenario => scenario.id === changeScenarioId) || scenarios[0] || null;
+
+    const showMessage = (title: string, message: string) => {
+        setModalTitle(title);
+        setModalMessage(message);
+        setIsModalOpen(true);
+    };
+
+    const saveScenarios = async (updatedScenarios: ForecastScenario[], successMessage: string): Promise<boolean> => {
+        setIsSaving(true);
+        try {
+            await updateUserProfile({ scenarios: updatedScenarios });
+            showMessage("Success!", successMessage);
+            return true;
+        } catch (error: unknown) {
+            showMessage("Error", `Failed to save scenarios: ${(error as Error).message}`);
+            return false;
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const handleCreateScenario = async (e: React.FormEvent) => {
+        e.preventDefault();
+        const name = scenarioName.trim();
+        if (!name) {
+            showMessage("Input Error", "Give the scenario a name.");
+            return;
+        }
+        if (scenarios.some(scenario => scenario.name.toLowerCase() === name.toLowerCase())) {
+            showMessage("Input Error", `A scenario named "${name}" already exists.`);
+            return;
+        }
+        const scenario: ForecastScenario = { id: crypto.randomUUID(), name, changes: [] };
+        if (await saveScenarios([...scenarios, scenario], `Scenario "${name}" created. Add changes to see it on the chart.`)) {
+            setScenarioName('');
+            setChangeScenarioId(scenario.id);
+        }
+    };
+
+    const handleDeleteScenario = (scenario: ForecastScenario) =>
+        saveScenarios(scenarios.filter(existing => existing.id !== scenario.id), `Scenario "${scenario.name}" deleted.`);
+
+    const handleAddChange = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!targetScenario) return;
+        const date = parseDateInput(changeDate);
+        const amount = parseFloat(changeAmount);
+        const percent = parseFloat(changePercent);
+        const interestRate = changeInterestRate === '' ? 0 : parseFloat(changeInterestRate);
+        const termPayments = Number(changeTermPayments);
+        const recurringExpense = recurringExpenses.find(rec => rec.id === changeRecurringExpenseId);
+
+        const inputError = isNaN(date.getTime()) ? "Enter the date the change takes effect."
+            : (changeType === 'one-off-expense' || changeType === 'one-off-income' || changeType === 'new-loan') && !(amount > 0) ? "Enter a positive amount."
+            : changeType === 'new-loan' && (!Number.isInteger(termPayments) || termPayments <= 0 || isNaN(interestRate) || interestRate < 0)
+                ? "Enter the loan's term as a whole number of monthly payments and a non-negative interest rate."
+            : changeType === 'salary-change' && (isNaN(percent) || percent === 0 || percent <= -100) ? "Enter the salary change in percent, e.g. 10 for a raise or -5 for a cut."
+            : changeType === 'drop-recurring-expense' && !recurringExpense ? "Choose the recurring expense to cancel."
+            : null;
+        if (inputError) {
+            showMessage("Input Error", inputError);
+            return;
+        }
+
+        const defaultLabel = changeType === 'drop-recurring-expense' ? `Cancel ${recurringExpense?.vendor}`
+            : changeType === 'salary-change' ? (percent > 0 ? 'Raise' : 'Pay cut')
+            : scenarioChangeTypeLabels[changeType];
+        const change: ScenarioChange = {
+            id: crypto.randomUUID(),
+            type: changeType,
+            label: changeLabel.trim() || defaultLabel,
+            date,
+            ...(changeType === 'one-off-expense' || changeType === 'one-off-income' || changeType === 'new-loan' ? { amount } : {}),
+            ...(changeType === 'new-loan' ? { annualInterestRate: interestRate, termPayments } : {}),
+            ...(changeType === 'salary-change' ? { percent } : {}),
+            ...(changeType === 'drop-recurring-expense' ? { recurringExpenseId: changeRecurringExpenseId } : {}),
+        };
+        const updatedScenarios = scenarios.map(scenario => scenario.id === targetScenario.id ? { ...scenario, changes: [...scenario.changes, change] } : scenario);
+        if (await saveScenarios(updatedScenarios, `Added "${change.label}" to ${targetScenario.name}.`)) {
+            setChangeLabel('');
+            setChangeAmount('');
+            setChangePercent('');
+            setChangeInterestRate('');
+            setChangeTermPayments('');
+            setChangeRecurringExpenseId('');
+        }
+    };
+
+    const handleRemoveChange = (scenario: ForecastScenario, change: ScenarioChange) =>
+        saveScenarios(
+            scenarios.map(existing => existing.id === scenario.id ? { ...existing, changes: existing.changes.filter(c => c.id !== change.id) } : existing),
+            `Removed "${change.label}" from ${scenario.name}.`
+        );
+
+    return (
+        <div className="grid grid-cols-1 gap-8 md:grid-cols-2 mt-6">
+            <div>
+                <h3 className="text-lg font-semibold text-gray-700 mb-2">Your Scenarios</h3>
+                {scenarios.length === 0 ? (
+                    <p className="text-sm text-gray-600">
+                        No scenarios yet. Create one, then add the changes you are considering: a new loan, a raise, cancelling a subscription or a big purchase.
+                    </p>
+                ) : (
+                    <ul className="space-y-3">
+                        {scenarios.map((scenario: ForecastScenario, index: number) => (
+                            <li key={scenario.id} className="bg-gray-50 p-3 rounded-md border border-gray-200">
+                                <div className="flex justify-between items-center">
+                                    <span className="font-semibold text-gray-900 flex items-center">
+                                        <span className="inline-block w-3 h-3 rounded-full mr-2" style={{ backgroundColor: scenarioColors[index % scenarioColors.length] }} />
+                                        {scenario.name}
+                                    </span>
+                                    <button
+                                        onClick={() => handleDeleteScenario(scenario)}
+                                        className="px-2 py-1 text-sm font-medium text-red-700 hover:text-red-900 transition duration-200"
+                                        disabled={isSaving}
+                                    >
+                                        Delete
+                                    </button>
+                                </div>
+                                {scenario.changes.length === 0 ? (
+                                    <p className="text-xs text-gray-500 mt-1">No changes yet; it matches the current forecast.</p>
+                                ) : (
+                                    <ul className="mt-2 space-y-1 text-sm text-gray-700">
+                                        {scenario.changes.map((change: ScenarioChange) => (
+                                            <li key={change.id} className="flex justify-between items-start gap-2">
+                                                <span><strong className="font-medium">{change.label}:</strong> {describeScenarioChange(change, baseCurrency, recurringExpenses)}</span>
+                                                <button
+                                                    onClick={() => handleRemoveChange(scenario, change)}
+                                                    className="px-2 text-sm font-medium text-orange-700 hover:text-orange-900 transition duration-200"
+                                                    disabled={isSaving}
+                                                >
+                                                    Remove
+                                                </button>
+                                            </li>
+                                        ))}
+                                    </ul>
+                                )}
+                            </li>
+                        ))}
+                    </ul>
+                )}
+
+                <form onSubmit={handleCreateScenario} className="flex gap-2 mt-4">
+                    <input
+                        type="text"
+                        value={scenarioName}
+                        onChange={(e: React.ChangeEvent<HTMLInputElement>) => setScenarioName(e.target.value)}
+                        className="shadow appearance-none border rounded-md w-full py-2 px-3 text-gray-700 leading-tight focus:outline-none focus:shadow-outline focus:ring-2 focus:ring-orange-500 focus:border-transparent"
+                        placeholder="e.g., Buy a car"
+                        aria-label="Scenario name"
+                    />
+                    <button
+                        type="submit"
+                        className="bg-orange-500 hover:bg-orange-600 text-white font-bold py-2 px-4 rounded-md transition duration-200 shadow-sm cursor-pointer whitespace-nowrap disabled:opacity-70 disabled:cursor-not-allowed"
+                        disabled={isSaving}
+                    >
+                        New Scenario
+                    </button>
+                </form>
+            </div>
+
+            {targetScenario && (
+                <div>
+                    <h3 className="text-lg font-semibold text-gray-700 mb-2">Add a Change</h3>
+                    <form onSubmit={handleAddChange} className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+                        <div>
+                            <label htmlFor="changeScenario" className="block text-gray-700 text-sm font-bold mb-2">Scenario</label>
+                            <select
+                                id="changeScenario"
+                                value={targetScenario.id}
+                                onChange={(e: React.ChangeEvent<HTMLSelectElement>) => setChangeScenarioId(e.target.value)}
+                                className="shadow appearance-none border rounded-md w-full py-2 px-3 text-gray-700 leading-tight focus:outline-none focus:shadow-outline focus:ring-2 focus:ring-orange-500 focus:border-transparent"
+                            >
+                                {scenarios.map(scenario => <option key={scenario.id} value={scenario.id}>{scenario.name}</option>)}
+                            </select>
+                        </div>
+                        <div>
+                            <label htmlFor="changeType" className="block text-gray-700 text-sm font-bold mb-2">Change</label>
+                            <select
+                                id="changeType"
+                                value={changeType}
+                                onChange={(e: React.ChangeEvent<HTMLSelectElement>) => setChangeType(e.target.value as ScenarioChangeType)}
+                                className="shadow appearance-none border rounded-md w-full py-2 px-3 text-gray-700 leading-tight focus:outline-none focus:shadow-outline focus:ring-2 focus:ring-orange-500 focus:border-transparent"
+                            >
+                                {(Object.keys(scenarioChangeTypeLabels) as ScenarioChangeType[]).map(type => (
+                                    <option key={type} value={type}>{scenarioChangeTypeLabels[type]}</option>
+                                ))}
+                            </select>
+                        </div>
+                        <div>
+                            <label htmlFor="changeLabel" className="block text-gray-700 text-sm font-bold mb-2">Label</label>
+                            <input
+                                type="text"
+                                id="changeLabel"
+                                value={changeLabel}
+                                onChange={(e: React.ChangeEvent<HTMLInputElement>) => setChangeLabel(e.target.value)}
+                                className="shadow appearance-none border rounded-md w-full py-2 px-3 text-gray-700 leading-tight focus:outline-none focus:shadow-outline focus:ring-2 focus:ring-orange-500 focus:border-transparent"
+                                placeholder={scenarioChangeTypeLabels[changeType]}
+                            />
+                        </div>
+                        <div>
+                            <label htmlFor="changeDate" className="block text-gray-700 text-sm font-bold mb-2">{changeType === 'new-loan' ? 'First Payment' : changeType === 'one-off-expense' || changeType === 'one-off-income' ? 'Date' : 'Starting'}</label>
+                            <input
+                                type="date"
+                                id="changeDate"
+                                value={changeDate}
+                                onChange={(e: React.ChangeEvent<HTMLInputElement>) => setChangeDate(e.target.value)}
+                                className="shadow appearance-none border rounded-md w-full py-2 px-3 text-gray-700 leading-tight focus:outline-none focus:shadow-outline focus:ring-2 focus:ring-orange-500 focus:border-transparent"
+                                required
+                            />
+                        </div>
+                        {(changeType === 'one-off-expense' || changeType === 'one-off-income' || changeType === 'new-loan') && (
+                            <div>
+                                <label htmlFor="changeAmount" className="block text-gray-700 text-sm font-bold mb-2">{changeType === 'new-loan' ? 'Principal' : 'Amount'} ({baseCurrency})</label>
+                                <input
+                                    type="number"
+                                    id="changeAmount"
+                                    value={changeAmount}
+                                    onChange={(e: React.ChangeEvent<HTMLInputElement>) => setChangeAmount(e.target.value)}
+                                    className="shadow appearance-none border rounded-md w-full py-2 px-3 text-gray-700 leading-tight focus:outline-none focus:shadow-outline focus:ring-2 focus:ring-orange-500 focus:border-transparent"
+                                    step="0.01"
+                                    min="0"
+                                    required
+                                />
+                            </div>
+                        )}
+                        {changeType === 'new-loan' && (
+                            <>
+                                <div>
+                                    <label htmlFor="changeInterestRate" className="block text-gray-700 text-sm font-bold mb-2">Annual Interest (%)</label>
+                                    <input
+                                        type="number"
+                                        id="changeInterestRate"
+                                        value={changeInterestRate}
+                                        onChange={(e: React.ChangeEvent<HTMLInputElement>) => setChangeInterestRate(e.target.value)}
+                                        className="shadow appearance-none border rounded-md w-full py-2 px-3 text-gray-700 leading-tight focus:outline-none focus:shadow-outline focus:ring-2 focus:ring-orange-500 focus:border-transparent"
+                                        step="any"
+                                        min="0"
+                                        placeholder="0"
+                                    />
+                                </div>
+                                <div>
+                                    <label htmlFor="changeTermPayments" className="block text-gray-700 text-sm font-bold mb-2">Term (months)</label>
+                                    <input
+                                        type="number"
+                                        id="changeTermPayments"
+                                        value={changeTermPayments}
+                                        onChange={(e: React.ChangeEvent<HTMLInputElement>) => setChangeTermPayments(e.target.value)}
+                                        className="shadow appearance-none border rounded-md w-full py-2 px-3 text-gray-700 leading-tight focus:outline-none focus:shadow-outline focus:ring-2 focus:ring-orange-500 focus:border-transparent"
+                                        min="1"
+                                        step="1"
+                                        required
+                                    />
+                                </div>
+                            </>
+                        )}
+                        {changeType === 'salary-change' && (
+                            <div>
+                                <label htmlFor="changePercent" className="block text-gray-700 text-sm font-bold mb-2">Change in Gross Salary (%)</label>
+                                <input
+                                    type="number"
+                                    id="changePercent"
+                                    value={changePercent}
+                                    onChange={(e: React.ChangeEvent<HTMLInputElement>) => setChangePercent(e.target.value)}
+                                    className="shadow appearance-none border rounded-md w-full py-2 px-3 text-gray-700 leading-tight focus:outline-none focus:shadow-outline focus:ring-2 focus:ring-orange-500 focus:border-transparent"
+                                    step="any"
+                                    placeholder="e.g., 10 or -5"
+                                    required
+                                />
+                            </div>
+                        )}
+                        {changeType === 'drop-recurring-expense' && (
+                            <div>
+                                <label htmlFor="changeRecurringExpense" className="block text-gray-700 text-sm font-bold mb-2">Recurring Expense</label>
+                                <select
+                                    id="changeRecurringExpense"
+                                    value={changeRecurringExpenseId}
+                                    onChange={(e: React.ChangeEvent<HTMLSelectElement>) => setChangeRecurringExpenseId(e.target.value)}
+                                    className="shadow appearance-none border rounded-md w-full py-2 px-3 text-gray-700 leading-tight focus:outline-none focus:shadow-outline focus:ring-2 focus:ring-orange-500 focus:border-transparent"
+                                    required
+                                >
+                                    <option value="">Choose one</option>
+                                    {recurringExpenses.map(rec => (
+                                        <option key={rec.id} value={rec.id}>{rec.vendor} ({getRecordCurrency(rec)} {rec.amount.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })} {rec.frequency})</option>
+                                    ))}
+                                </select>
+                            </div>
+                        )}
+                        <div className="sm:col-span-2 flex justify-end">
+                            <button
+                                type="submit"
+                                className="bg-orange-500 hover:bg-orange-600 text-white font-bold py-2 px-4 rounded-md transition duration-200 shadow-sm cursor-pointer disabled:opacity-70 disabled:cursor-not-allowed"
+                                disabled={isSaving}
+                            >
+                                Add Change
+                            </button>
+                        </div>
+                    </form>
+                </div>
+            )}
+
+            <Modal
+                isOpen={isModalOpen}
+                onClose={() => setIsModalOpen(false)}
+                title={modalTitle}
+                message={modalMessage}
+            />
+        </div>
+    );
+};
+
+
+// --- Component: Dashboard (Consolidated) ---
+const Dashboard: React.FC<DashboardComponentProps> = ({ incomes, expenses, recurringExpenses, recurringIncomes, accounts, transfers, userProfile, updateUserProfile }) => {
+    const [showProjectedDetails, setShowProjectedDetails] = useState(false);
+    const [showExpenseDetails, setShowExpenseDetails] = useState(false);
+    const [forecastAccountId, setForecastAccountId] = useState<string>('all');
+    const [hiddenScenarioIds, setHiddenScenarioIds] = useState<string[]>([]);
+
+    // The projection covers consolidated cash unless a single account is picked; statement cards only count through their due payments
+    const defaultAccountId = getDefaultAccountId(userProfile, accounts);
+    const selectedAccount = accounts.find(account => account.id === forecastAccountId) || null;
+    const statementCardIds = accounts.filter(isStatementCard).map(account => account.id);
+    const isInSelectedAccount = (accountId?: string) => selectedAccount
+        ? (accountId || defaultAccountId) === selectedAccount.id
+        : !statementCardIds.includes(accountId || defaultAccountId || '');
+
+    // Totals, charts and the forecast are in the base currency, converted at the rate for each record's date
+    const baseCurrency = getBaseCurrency(userProfile);
+    const toBase = (item: { amount: number; currency?: string }, date: Date) => toBaseAmount(item.amount, item.currency, date, userProfile);
+    const missingRateCurrencies = getMissingRateCurrencies([...incomes, ...expenses, ...recurringExpenses, ...recurringIncomes, ...accounts, ...transfers], userProfile);
+
+    // Calculate current cash balance (simplified: total income - total expenses)
+    const calculatedCashBalance = incomes.reduce((sum: number, item: IncomeItem) => sum + toBase(item, item.dueDate), 0) -
+                                  expenses.reduce((sum: number, item: ExpenseItem) => sum + toBase(item, item.date), 0);
+
+    const currentCashBalance = getCurrentCashBalance(accounts, userProfile, incomes, expenses, transfers, selectedAccount?.id || null) ?? userProfile?.currentBalance ?? calculatedCashBalance;
+
+    // Simulate AI Cash Flow Forecast - now returns projectedSalaryPayments as well. The projection and, above all,
+    // the simulation are slow, so they only rerun when the data behind them changes rather than on every render.
+    const selectedAccountId = selectedAccount?.id || null;
+    const forecastAccountContext = useMemo<ForecastAccountContext>(() => ({ accounts, transfers, defaultAccountId, selectedAccountId }),
+        [accounts, transfers, defaultAccountId, selectedAccountId]);
+    const forecast = useMemo(() => generateMockForecast(currentCashBalance, incomes, expenses, userProfile, recurringExpenses, recurringIncomes, forecastAccountContext),
+        [currentCashBalance, incomes, expenses, userProfile, recurringExpenses, recurringIncomes, forecastAccountContext]);
+    const simulation = useMemo(() => simulateForecast(forecast.simulationInput), [forecast]);
+    const { forecastData, potentialShortfallDate, spendingBaseline, projectedSalaryPayments, projectedRecurringIncomes, projectedCardStatements, projectedGoalContributions, projectedBaselineSpending } = forecast;
+    const paymentRecordCount = getIncomePaymentRecords(incomes).length;
+    const formatChance = (probability: number) => probability > 0 && probability < 0.01 ? 'under 1%' : `${Math.round(probability * 100)}%`;
+
+    // Each what-if scenario is projected for the same accounts from the same opening balance
+    const forecastEndDate = forecastData[forecastData.length - 1].date;
+    const scenarioForecasts = useMemo(() => (userProfile?.scenarios || []).map((scenario: ForecastScenario, index: number) => {
+        const inputs = applyForecastScenario(scenario, { incomes, certainIncomes: [], expenses, recurringExpenses, userProfile }, forecastEndDate);
+        const scenarioForecast = generateMockForecast(currentCashBalance, inputs.incomes, inputs.expenses, inputs.userProfile, inputs.recurringExpenses, recurringIncomes, forecastAccountContext, inputs.certainIncomes);
+        return {
+            scenario,
+            color: scenarioColors[index % scenarioColors.length],
+            forecastData: scenarioForecast.forecastData,
+            shortfallDate: scenarioForecast.potentialShortfallDate,
+            simulationInput: scenarioForecast.simulationInput,
+        };
+    }), [currentCashBalance, incomes, expenses, userProfile, recurringExpenses, recurringIncomes, forecastAccountContext, forecastEndDate]);
+
+    // A scenario's shortfall odds take a simulation of their own, so they are worked out once per change after the
+    // lines are drawn. Odds left from earlier scenario data are not shown.
+    const [scenarioSimulations, setScenarioSimulations] = useState<{ forecasts: typeof scenarioForecasts; probabilities: number[] } | null>(null);
+    useEffect(() => {
+        const timer = setTimeout(() => setScenarioSimulations({
+            forecasts: scenarioForecasts,
+            probabilities: scenarioForecasts.map(scenarioForecast => simulateForecast(scenarioForecast.simulationInput).shortfallProbability),
+        }), 0);
+        return () => clearTimeout(timer);
+    }, [scenarioForecasts]);
+    const scenarioShortfallProbabilities = scenarioSimulations?.forecasts === scenarioForecasts ? scenarioSimulations.probabilities : null;
+    const visibleScenarioForecasts = scenarioForecasts.filter(scenarioForecast => !hiddenScenarioIds.includes(scenarioForecast.scenario.id));
+    const toggleScenario = (id: string) =>
+        setHiddenScenarioIds(prev => prev.includes(id) ? prev.filter(hiddenId => hiddenId !== id) : [...prev, id]);
+
+    // Every projection starts today with one point per day, so the longest one supplies the chart's labels
+    const chartPoints = visibleScenarioForecasts.reduce((longest, scenarioForecast) =>
+        scenarioForecast.forecastData.length > longest.length ? scenarioForecast.forecastData : longest, forecastData);
+    const forecastComparison = [
+        { id: 'current', name: 'Current forecast', color: '#F97316', points: forecastData, shortfallDate: potentialShortfallDate, shortfallProbability: simulation.shortfallProbability },
+        ...scenarioForecasts.map(({ scenario, color, forecastData: points, shortfallDate }, index) =>
+            ({ id: scenario.id, name: scenario.name, color, points, shortfallDate, shortfallProbability: scenarioShortfallProbabilities?.[index] ?? null })),
+    ].map(row => ({ ...row, lowest: getLowestPoint(row.points), ending: row.points[row.points.length - 1] }));
+    const currentLowestBalance = forecastComparison[0].lowest?.balance ?? 0;
+
+    const thirtyDaysFromNow = new Date();
+    thirtyDaysFromNow.setDate(thirtyDaysFromNow.getDate() + 30);
+
+    // Combine actual incomes with projected salary payments for Dashboard display
+    const combinedUpcomingIncomes: IncomeItem[] = [ // Changed to const
+        ...incomes.filter((inc: IncomeItem) => inc.status === 'Outstanding' && isInSelectedAccount(inc.accountId) && inc.dueDate.getTime() <= thirtyDaysFromNow.getTime()),
+        ...projectedSalaryPayments.filter((sal: IncomeItem) => sal.dueDate.getTime() <= thirtyDaysFromNow.getTime()),
+        ...projectedRecurringIncomes.filter((ret: IncomeItem) => ret.dueDate.getTime() <= thirtyDaysFromNow.getTime())
+    ];
+
+    // Sort combined upcoming incomes by due date
+    combinedUpcomingIncomes.sort((a: IncomeItem, b: IncomeItem) => a.dueDate.getTime() - b.dueDate.getTime());
+
+    // Update upcomingIncomesForDisplay and totalUpcomingIncomesAmount
+    const upcomingIncomesForDisplay = combinedUpcomingIncomes.slice(0, 3); // Still show top 3 for brevity on card
+    const totalUpcomingIncomesAmount = combinedUpcomingIncomes.reduce((sum: number, item: IncomeItem) => sum + toBase(item, item.dueDate), 0); // Explicitly typed
+
+    const currentMonthExpenses = expenses.filter(exp => {
+        const expDate = new Date(exp.date);
+        const now = new Date();
+        return expDate.getMonth() === now.getMonth() && expDate.getFullYear() === now.getFullYear();
+    });
+
+    const totalCurrentMonthExpenses = currentMonthExpenses.reduce((sum: number, exp: ExpenseItem) => sum + toBase(exp, exp.date), 0); // Explicitly typed
+
+    const totalUpcomingExpensesAmount = expenses
+        .filter((exp: ExpenseItem) => isInSelectedAccount(exp.accountId) && exp.date.getTime() >= new Date().setHours(0,0,0,0) && exp.date.getTime() <= thirtyDaysFromNow.getTime())
+        .concat(getUpcomingRecurringExpenses(recurringExpenses.filter(rec => isInSelectedAccount(rec.accountId)), new Date(), thirtyDaysFromNow))
+        .concat(isInSelectedAccount(undefined) ? getForecastLoanPayments(userProfile, new Date(), thirtyDaysFromNow, baseCurrency, getProfileHolidaySet(userProfile, new Date(), thirtyDaysFromNow)) : [])
+        .reduce((sum: number, item: ExpenseItem) => sum + toBase(item, item.date), 0); // Explicitly typed
+
+    // Transfers between two accounts in view cancel out
+    const upcomingNetTransfers = transfers
+        .filter((transfer: TransferItem) => transfer.date.getTime() >= new Date().setHours(0,0,0,0) && transfer.date.getTime() <= thirtyDaysFromNow.getTime())
+        .reduce((sum: number, transfer: TransferItem) => sum +
+            (isInSelectedAccount(transfer.toAccountId) ? toBase(transfer, transfer.date) : 0) - (isInSelectedAccount(transfer.fromAccountId) ? toBase(transfer, transfer.date) : 0), 0);
+
+    // Statement payments leave the paying account and reach the card itself
+    const upcomingStatementPayments = projectedCardStatements
+        .filter((statement: CardStatement) => statement.dueDate.getTime() <= thirtyDaysFromNow.getTime())
+        .reduce((sum: number, statement: CardStatement) => {
+            const amount = toBaseAmount(statement.amountDue, accounts.find(account => account.id === statement.accountId)?.currency, statement.dueDate, userProfile);
+            return sum + (statement.accountId === selectedAccount?.id ? amount : -amount);
+        }, 0);
+
+    // Savings goal contributions are set aside and no longer free to spend
+    const upcomingGoalContributions = projectedGoalContributions
+        .filter(contribution => contribution.date.getTime() <= thirtyDaysFromNow.getTime())
+        .reduce((sum, contribution) => sum + contribution.amount, 0);
+
+    // Typical everyday spending, projected the same way as on the chart (negative)
+    const upcomingBaselineSpending = projectedBaselineSpending
+        .filter(event => event.date.getTime() <= thirtyDaysFromNow.getTime())
+        .reduce((sum, event) => sum + event.amount, 0);
+
+    const projectedOverallBalance = currentCashBalance + totalUpcomingIncomesAmount - totalUpcomingExpensesAmount + upcomingNetTransfers + upcomingStatementPayments + upcomingGoalContributions + upcomingBaselineSpending;
+
+    // Utilization and the next statement of each active statement card
+    const endOfToday = new Date();
+    endOfToday.setHours(24, 0, 0, 0);
+    const statementWindowEnd = new Date();
+    statementWindowEnd.setMonth(statementWindowEnd.getMonth() + 2);
+    const creditCardSummaries = accounts.filter(account => isStatementCard(account) && !account.archived).map(card => {
+        const cardRecurringExpenses = recurringExpenses.filter(rec => (rec.accountId || defaultAccountId) === card.id);
+        const cardExpenses = expenses.concat(getUpcomingRecurringExpenses(cardRecurringExpenses, new Date(), statementWindowEnd));
+        const balance = getAccountBalance(card, defaultAccountId, incomes, expenses, transfers, endOfToday, userProfile?.exchangeRates || []);
+        const nextStatement = getCardStatements(card, defaultAccountId, incomes, cardExpenses, transfers, new Date(), statementWindowEnd, userProfile?.exchangeRates || [])[0] || null;
+        return { card, balance, utilization: getCardUtilization(card, balance), nextStatement };
+    });
+
+
+    const chartData = {
+        labels: chartPoints.map(data => data.date.toLocaleDateString('en-US', { month: 'short', day: 'numeric' })),
+        datasets: [
+            {
+                label: `Projected Cash Balance (${baseCurrency})`,
+                data: forecastData.map(data => data.balance),
+                borderColor: '#F97316',
+                backgroundColor: 'rgba(249, 115, 22, 0.2)',
+                tension: 0.1,
+                pointRadius: 3,
+                pointBackgroundColor: '#F97316',
+            },
+            // Eight runs in ten stay between these two lines
+            {
+                label: 'Likely high (P90)',
+                data: simulation.bands.map(band => band.p90),
+                borderColor: 'rgba(249, 115, 22, 0.35)',
+                backgroundColor: 'rgba(249, 115, 22, 0.35)',
+                borderWidth: 1,
+                tension: 0.1,
+                pointRadius: 0,
+            },
+            {
+                label: 'Likely low (P10)',
+                data: simulation.bands.map(band => band.p10),
+                borderColor: 'rgba(249, 115, 22, 0.35)',
+                backgroundColor: 'rgba(249, 115, 22, 0.12)',
+                borderWidth: 1,
+                fill: '-1',
+                tension: 0.1,
+                pointRadius: 0,
+            },
+            {
+                label: 'Median (P50)',
+                data: simulation.bands.map(band => band.p50),
+                borderColor: '#9A3412',
+                backgroundColor: '#9A3412',
+                borderDash: [2, 3],
+                borderWidth: 1.5,
+                tension: 0.1,
+                pointRadius: 0,
+            },
+            ...visibleScenarioForecasts.map(({ scenario, color, forecastData: points }) => ({
+                label: scenario.name,
+                data: points.map(data => data.balance),
+                borderColor: color,
+                backgroundColor: color,
+                borderDash: [6, 4],
+                tension: 0.1,
+                pointRadius: 0,
+            })),
+        ],
+    };
+
+    const chartOptions: ChartOptions<'line'> = {
+        responsive: true,
+        maintainAspectRatio: false,
+        plugins: {
+            legend: {
+                position: 'top' as const,
+            },
+            title: {
+                display: true,
+                text: 'AI-Powered Cash Flow Projection (Next ' + chartPoints.length + ' Days)',
+                font: {
+                    size: 16,
+                },
+                color: '#374151',
+            },
+            tooltip: {
+                callbacks: {
+                    label: function(context: TooltipItem<'line'>) { // Explicitly typed context
+                        let label = context.dataset.label || '';
+                        if (label) {
+                            label += ': ';
+                        }
+                        if (context.parsed.y !== null) {
+                            label += new Intl.NumberFormat('en-US', { style: 'currency', currency: baseCurrency }).format(context.parsed.y);
+                        }
+                        return label;
+                    }
+                }
+            },
+        },
+        scales: {
+            x: {
+                title: {
+                    display: true,
+                    text: 'Date',
+                    color: '#4B5563',
+                },
+                grid: {
+                    display: false,
+                },
+                ticks: {
+                    color: '#6B7280',
+                }
+            },
+            y: {
+                title: {
+                    display: true,
+                    text: `Cash Balance (${baseCurrency})`,
+                    color: '#4B5563',
+                },
+                grid: {
+                    color: '#E5E7EB',
+                },
+                ticks: {
+                    callback: function(tickValue: string | number) { // Explicitly typed tickValue
+                        const numericValue = typeof tickValue === 'string' ? parseFloat(tickValue) : tickValue;
+                        return new Intl.NumberFormat('en-US', { style: 'currency', currency: baseCurrency }).format(numericValue);
+                    }
+                }
+            },
+        },
+    };
+
+    // Subcategory spending rolls up into its top-level category, drawn in that category's color
+    const categoryList = getExpenseCategories(userProfile, expenses);
+    const expenseCategories = expenses.reduce((acc: { [key: string]: number }, expense: ExpenseItem) => { // Explicitly typed acc and expense
+        const rootName = getRootExpenseCategory(categoryList, expense.category)?.name || expense.category;
+        acc[rootName] = (acc[rootName] || 0) + toBase(expense, expense.date);
+        return acc;
+    }, {});
+
+    const pieChartCategories = Object.keys(expenseCategories).map(name => categoryList.find(c => c.name === name));
+    const pieChartLabels = Object.keys(expenseCategories).map((name, index) => [pieChartCategories[index]?.icon, name].filter(Boolean).join(' '));
+    const pieChartDataValues = Object.values(expenseCategories);
+    const pieChartColors = pieChartCategories.map((category, index) => category?.color || categoryColorPalette[index % categoryColorPalette.length]);
+
+    const pieChartData = {
+        labels: pieChartLabels,
+        datasets: [
+            {
+                data: pieChartDataValues,
+                backgroundColor: pieChartColors,
+                hoverBackgroundColor: pieChartColors,
+                borderColor: '#ffffff',
+                borderWidth: 2,
+            },
+        ],
+    };
+
+    const pieChartOptions: ChartOptions<'pie'> = {
+        responsive: true,
+        maintainAspectRatio: false,
+        plugins: {
+            legend: {
+                position: 'right' as const,
+                align: 'start',
+                labels: {
+                    font: {
+                        size: 14,
+                    },
+                    color: '#4B5563',
+                },
+            },
+            title: {
+                display: true,
+                text: 'Expense Categories Breakdown',
+                font: {
+                    size: 16,
+                },
+                color: '#374151',
+            },
+            tooltip: {
+                callbacks: {
+                    label: function(context: TooltipItem<'pie'>) { // Explicitly typed context
+                        const label = context.label || '';
+                        const value = context.parsed;
+                        const total = context.dataset.data.reduce((sum: number, current: number) => sum + current, 0); // Explicitly typed sum and current
+                        const percentage = total > 0 ? ((value / total) * 100).toFixed(2) + '%' : '0.00%';
+                        return `${label}: ${baseCurrency} ${value.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })} (${percentage})`;
+                    },
+                },
+            },
+        },
+    };
+
+    const monthlyExpensesByCategory = expenses
+        .filter(exp => exp.date.getMonth() === new Date().getMonth() && exp.date.getFullYear() === new Date().getFullYear())
+        .reduce((acc: { [key: string]: number }, expense: ExpenseItem) => { // Explicitly typed acc and expense
+            acc[expense.category] = (acc[expense.category] || 0) + toBase(expense, expense.date);
+            return acc;
+        }, {});
+
+    const sortedMonthlyCategories = Object.entries(monthlyExpensesByCategory).sort(([, a], [, b]) => (b as number) - (a as number));
+
+    const budgetAlerts = getBudgetStatuses(userProfile, expenses, new Date())
+        .filter(status => status.alertThreshold !== null)
+        .sort((a, b) => b.percentUsed - a.percentUsed);
+
+
+    return (
+        <div className="max-w-full mx-auto p-4 md:p-8">
+            <div className="flex flex-wrap justify-between items-center gap-4 mb-6">
+                <h1 className="text-3xl font-bold text-gray-800">Dashboard</h1>
+                {accounts.length > 0 && (
+                    <select
+                        value={selectedAccount?.id || 'all'}
+                        onChange={(e: React.ChangeEvent<HTMLSelectElement>) => setForecastAccountId(e.target.value)}
+                        className="shadow appearance-none border rounded-md py-2 px-3 text-gray-700 leading-tight focus:outline-none focus:shadow-outline focus:ring-2 focus:ring-orange-500 focus:border-transparent"
+                        aria-label="Account to project"
+                    >
+                        <option value="all">All accounts (consolidated)</option>
+                        <AccountOptions accounts={accounts} selectedId={selectedAccount?.id} />
+                    </select>
+                )}
+            </div>
+
+            <div className="lg:grid lg:grid-cols-3 lg:gap-8 flex flex-col items-stretch">
+                {/* Left Column: New Combined Cards */}
+                <div className="lg:col-span-1 flex flex-col gap-6 mb-8 lg:mb-0">
+                    {/* Projected Balance Card */}
+                    <div
+                        className="bg-white rounded-lg shadow-md p-6 border-b-4 border-orange-500 cursor-pointer hover:shadow-lg transition-shadow duration-200"
+                        onClick={() => setShowProjectedDetails(!showProjectedDetails)}
+                    >
+                        <h2 className="text-lg font-semibold text-gray-700 mb-2">Projected Balance{selectedAccount && ` · ${selectedAccount.name}`}</h2>
+                        <p className="text-4xl font-bold text-orange-600">
+                            {baseCurrency} {projectedOverallBalance.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
+                        </p>
+                        <h3 className="text-md font-semibold text-gray-700 mt-4 mb-2">Upcoming Income:</h3>
+                        {upcomingIncomesForDisplay.length === 0 ? (
+                            <p className="text-sm text-gray-600">No upcoming income listed.</p>
+                        ) : (
+                            <ul className="list-disc list-inside text-sm text-gray-800 space-y-1">
+                                {upcomingIncomesForDisplay.map((income: IncomeItem) => (
+                                    <li key={income.id}>
+                                        {income.client} ({getRecordCurrency(income)} {income.amount.toLocaleString()}) - {income.dueDate.toLocaleDateString()}
+                                    </li>
+                                ))}
+                            </ul>
+                        )}
+                        <p className="text-xs text-gray-500 mt-4">Click to {showProjectedDetails ? 'hide' : 'show'} details</p>
+
+                        {showProjectedDetails && (
+                            <div className="mt-6 pt-4 border-t border-gray-200 animate-slide-down">
+                                <h4 className="font-medium text-gray-800 mb-2">Detailed Projection:</h4>
+                                <div className="space-y-2 text-gray-700">
+                                    <p><strong className="font-medium">Current Cash Balance:</strong> {baseCurrency} {currentCashBalance.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</p>
+                                    {userProfile?.salaryIncome && userProfile.salaryIncome > 0 && (
+                                        <p><strong className="font-medium">Estimated Salary Income:</strong> {baseCurrency} {userProfile.salaryIncome.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })} ({describePaySchedule(getPaySchedule(userProfile))})</p>
+                                    )}
+                                    {combinedUpcomingIncomes.length > 0 && (
+                                        <div>
+                                            <h5 className="font-medium text-gray-800 mt-4 mb-2">All Upcoming Incomes:</h5>
+                                            <ul className="list-disc list-inside text-sm pl-4 space-y-1">
+                                                {combinedUpcomingIncomes.map(item => (
+                                                    <li key={item.id}>
+                                                        {item.client}: {getRecordCurrency(item)} {item.amount.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })} (Due: {item.dueDate.toLocaleDateString()})
+                                                    </li>
+                                                ))}
+                                            </ul>
+                                        </div>
+                                    )}
+                                    {combinedUpcomingIncomes.length === 0 && userProfile?.salaryIncome === 0 && (
+                                        <p className="text-sm text-gray-500">No specific upcoming income details available.</p>
+                                    )}
+                                    {upcomingBaselineSpending !== 0 && (
+                                        <p>
+                                            <strong className="font-medium">Typical Everyday Spending:</strong>{' '}
+                                            {baseCurrency} {Math.abs(upcomingBaselineSpending).toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
+                                        </p>
+                                    )}
+                                    {upcomingGoalContributions !== 0 && (
+                                        <p>
+                                            <strong className="font-medium">{upcomingGoalContributions < 0 ? 'Reserved for Savings Goals' : 'Savings Goal Contributions In'}:</strong>{' '}
+                                            {baseCurrency} {Math.abs(upcomingGoalContributions).toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
+                                        </p>
+                                    )}
+                                </div>
+                            </div>
+                        )}
+                    </div>
+
+                    {/* Credit Cards Card */}
+                    {creditCardSummaries.length > 0 && (
+                        <div className="bg-white rounded-lg shadow-md p-6 border-b-4 border-blue-600">
+                            <h2 className="text-lg font-semibold text-gray-700 mb-2">Credit Cards</h2>
+                            <ul className="space-y-4 text-sm">
+                                {creditCardSummaries.map(({ card, balance, utilization, nextStatement }) => (
+                                    <li key={card.id}>
+                                        <div className="flex justify-between items-baseline">
+                                            <span className="font-semibold text-gray-900">{card.name}</span>
+                                            <span className="text-gray-700">{getRecordCurrency(card)} {Math.max(0, -balance).toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })} owed</span>
+                                        </div>
+                                        {utilization !== null && (
+                                            <>
+                                                <div className="w-full bg-gray-200 rounded-full h-2 mt-1">
+                                                    <div
+                                                        className={`h-2 rounded-full ${utilization >= 70 ? 'bg-red-600' : utilization >= 30 ? 'bg-amber-500' : 'bg-emerald-500'}`}
+                                                        style={{ width: `${Math.min(utilization, 100)}%` }}
+                                                    />
+                                                </div>
+                                                <p className="text-xs text-gray-500 mt-1">
+                                                    {Math.round(utilization)}% of the {getRecordCurrency(card)} {(card.creditLimit as number).toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })} limit used
+                                                </p>
+                                            </>
+                                        )}
+                                        {nextStatement && (
+                                            <p className="text-xs text-gray-500">
+                                                Statement {nextStatement.closingDate.getTime() < endOfToday.getTime() ? 'closed' : 'closes'} {nextStatement.closingDate.toLocaleDateString()}:{' '}
+                                                {getRecordCurrency(card)} {nextStatement.amountDue.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })} due {nextStatement.dueDate.toLocaleDateString()}
+                                                {nextStatement.minimumPayment < nextStatement.amountDue && ` (minimum ${getRecordCurrency(card)} ${nextStatement.minimumPayment.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })})`}
+                                            </p>
+                                        )}
+                                    </li>
+                                ))}
+                            </ul>
+                        </div>
+                    )}
+
+                    {/* Budget Alerts Card */}
+                    {budgetAlerts.length > 0 && (
+                        <div className="bg-white rounded-lg shadow-md p-6 border-b-4 border-red-600">
+                            <h2 className="text-lg font-semibold text-gray-700 mb-2">Budget Alerts</h2>
+                            <ul className="space-y-2 text-sm">
+                                {budgetAlerts.map(status => (
+                                    <li
+                                        key={status.category}
+                                        className={`px-3 py-2 rounded-md border ${status.percentUsed >= 100 ? 'bg-red-100 border-red-400 text-red-700' : 'bg-amber-100 border-amber-400 text-amber-800'}`}
+                                    >
+                                        <strong className="font-bold">{status.category}:</strong>{' '}
+                                        {status.remaining < 0
+                                            ? `over budget by ${baseCurrency} ${(-status.remaining).toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`
+                                            : `${Math.round(status.percentUsed)}% used (crossed ${status.alertThreshold}%), ${baseCurrency} ${status.remaining.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })} left`}
                                     </li>
                                 ))}
-                            </ul>
+                            </ul>
+                        </div>
+                    )}
+
+                    {/* Expenses Card (Current Month) */}
+                    <div
+                        className="bg-white rounded-lg shadow-md p-6 border-b-4 border-amber-700 cursor-pointer hover:shadow-lg transition-shadow duration-200"
+                        onClick={() => setShowExpenseDetails(!showExpenseDetails)}
+                    >
+                        <h2 className="text-lg font-semibold text-gray-700 mb-2">Current Month Expenses</h2>
+                        <p className="text-4xl font-bold text-amber-800">
+                            {baseCurrency} {totalCurrentMonthExpenses.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
+                        </p>
+                        <p className="text-sm text-gray-500 mt-2">
+                            Total expenses for {new Date().toLocaleString('default', { month: 'long', year: 'numeric' })}
+                        </p>
+                        <p className="text-xs text-gray-500 mt-4">Click to {showExpenseDetails ? 'hide' : 'show'} breakdown</p>
+
+                        {showExpenseDetails && (
+                            <div className="mt-6 pt-4 border-t border-gray-200 animate-slide-down">
+                                <h4 className="font-medium text-gray-800 mb-2">Detailed Breakdown:</h4>
+                                {sortedMonthlyCategories.length === 0 ? (
+                                    <p className="text-gray-600">No expenses recorded for the current month.</p>
+                                ) : (
+                                    <div className="space-y-2">
+                                        {sortedMonthlyCategories.map(([category, amount]) => (
+                                            <div key={category} className="flex justify-between items-center border-b border-gray-100 py-1">
+                                                <span className="text-gray-700 font-medium">{category}:</span>
+                                                <span className="text-gray-900 font-semibold">{baseCurrency} {amount.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</span>
+                                            </div>
+                                        ))}
+                                        <div className="pt-2 font-bold flex justify-between items-center text-lg text-gray-800">
+                                            <span>Total:</span>
+                                            <span>{baseCurrency} {Object.values(monthlyExpensesByCategory).reduce((sum: number, val: number) => sum + val, 0).toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</span> {/* Explicitly typed */}
+                                        </div>
+                                    </div>
+                                )}
+                            </div>
+                        )}
+                    </div>
+                </div>
+
+                {/* Middle Column: AI-Powered Cash Flow Projection Chart */}
+                <div className="lg:col-span-1 bg-white rounded-lg shadow-md p-6 mb-8 lg:mb-0 flex flex-col justify-between">
+                    <div>
+                        <h2 className="text-xl font-semibold text-gray-700 mb-2">AI-Powered Cash Flow Projection</h2>
+                        {simulation.shortfallProbability >= 0.1 ? (
+                            <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded-md relative text-sm mb-4">
+                                <strong className="font-bold">AI Alert!</strong>{' '}
+                                <span className="block sm:inline">
+                                    {formatChance(simulation.shortfallProbability)} chance of a cash shortfall in the projected period
+                                    {simulation.riskDate && <>, with the risk starting around {simulation.riskDate.toLocaleDateString()}</>}. Consider reviewing your finances.
+                                </span>
+                            </div>
+                        ) : simulation.shortfallProbability > 0 ? (
+                            <div className="bg-amber-100 border border-amber-400 text-amber-800 px-4 py-3 rounded-md relative text-sm mb-4">
+                                <strong className="font-bold">Low risk:</strong>{' '}
+                                <span className="block sm:inline">
+                                    {formatChance(simulation.shortfallProbability)} chance of a cash shortfall if payments arrive late or spending runs high.
+                                </span>
+                            </div>
+                        ) : (
+                            <div className="bg-emerald-100 border border-emerald-400 text-emerald-700 px-4 py-3 rounded-md relative text-sm mb-4">
+                                <strong className="font-bold">Good News!</strong>{' '}
+                                <span className="block sm:inline">Cash flow looks healthy for the projected period.</span>
+                            </div>
+                        )}
+                        {missingRateCurrencies.length > 0 && (
+                            <div className="bg-amber-100 border border-amber-400 text-amber-800 px-4 py-3 rounded-md relative text-sm mb-4">
+                                <strong className="font-bold">Missing exchange rates:</strong>{' '}
+                                <span className="block sm:inline">
+                                    {missingRateCurrencies.join(', ')} amounts are counted one-to-one in {baseCurrency}. Add rates under Data Management.
+                                </span>
+                            </div>
+                        )}
+                    </div>
+                    <div className="flex-grow flex items-center justify-center">
+                        <div className="h-full w-full min-h-[300px]">
+                            <Line data={chartData} options={chartOptions} />
+                        </div>
+                    </div>
+                    <p className="text-xs text-gray-500 mt-4 text-center">
+                        *This projection is based on your recorded income and expenses, and a simplified trend analysis for the MVP. More advanced AI models will be added in future updates.
+                        {' '}The shaded range comes from {DEFAULT_SIMULATION_RUNS} simulations of your recent day-to-day spending and of when clients pay,
+                        {paymentRecordCount > 0 ? ` learned from ${paymentRecordCount} paid invoice${paymentRecordCount === 1 ? '' : 's'}.` : ' assumed on time until invoices are marked paid.'}
+                    </p>
+                </div>
+
+                {/* Right Column: Expense Categories Breakdown Chart */}
+                <div className="lg:col-span-1 bg-white rounded-lg shadow-md p-6 flex flex-col justify-between">
+                    <div>
+                        <h2 className="text-xl font-semibold text-gray-700 mb-4">Expense Categories Breakdown (Overall)</h2>
+                    </div>
+                    {pieChartDataValues.length === 0 ? (
+                        <p className="text-gray-600 text-center py-4">No expense data to display for categories yet. Add some expenses!</p>
+                    ) : (
+                        <div className="flex-grow flex items-center justify-center">
+                            <div className="h-full w-full min-h-[300px]">
+                                <Pie data={pieChartData} options={pieChartOptions} />
+                            </div>
+                        </div>
+                    )}
+                    <p className="text-xs text-gray-500 mt-4 text-center">
+                        *This chart visualizes the distribution of your recorded expenses by category.
+                    </p>
+                </div>
+            </div>
+
+            {/* Typical Spending */}
+            <div className="bg-white rounded-lg shadow-md p-6 mt-8">
+                <h2 className="text-xl font-semibold text-gray-700 mb-2">Typical Spending</h2>
+                <p className="text-sm text-gray-600 mb-4">
+                    Everyday spending you don't enter ahead of time is projected from the last {DEFAULT_BASELINE_HISTORY_DAYS} days of expenses in each category,
+                    following the days of the week and the months you usually spend more. Adjust a category's monthly run-rate if it is about to change,
+                    or set it to zero if a recurring expense already covers it.
+                </p>
+                <SpendingBaselineEditor
+                    userProfile={userProfile}
+                    updateUserProfile={updateUserProfile}
+                    spendingBaseline={spendingBaseline}
+                    expenseCategories={categoryList}
+                />
+            </div>
+
+            {/* What-If Scenarios */}
+            <div className="bg-white rounded-lg shadow-md p-6 mt-8">
+                <h2 className="text-xl font-semibold text-gray-700 mb-2">What-If Scenarios</h2>
+                <p className="text-sm text-gray-600 mb-4">
+                    Try out changes before you make them. Each scenario is your real data plus its changes, drawn as a dashed line on the projection.
+                </p>
+                {scenarioForecasts.length > 0 && (
+                    <div className="overflow-x-auto">
+                        <table className="min-w-full divide-y divide-gray-200">
+                            <thead>
+                                <tr className="bg-gray-50">
+                                    <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Show</th>
+                                    <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Scenario</th>
+                                    <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Lowest Balance</th>
+                                    <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Compared to Now</th>
+                                    <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">First Shortfall</th>
+                                    <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Chance of Shortfall</th>
+                                    <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Ending Balance</th>
+                                </tr>
+                            </thead>
+                            <tbody className="bg-white divide-y divide-gray-200">
+                                {forecastComparison.map(row => (
+                                    <tr key={row.id}>
+                                        <td className="px-3 py-2 whitespace-nowrap text-sm text-gray-900">
+                                            {row.id !== 'current' && (
+                                                <input
+                                                    type="checkbox"
+                                                    checked={!hiddenScenarioIds.includes(row.id)}
+                                                    onChange={() => toggleScenario(row.id)}
+                                                    className="accent-orange-500"
+                                                    aria-label={`Show ${row.name} on the chart`}
+                                                />
+                                            )}
+                                        </td>
+                                        <td className="px-3 py-2 whitespace-nowrap text-sm text-gray-900">
+                                            <span className="inline-block w-3 h-3 rounded-full mr-2 align-middle" style={{ backgroundColor: row.color }} />
+                                            {row.name}
+                                        </td>
+                                        <td className={`px-3 py-2 whitespace-nowrap text-sm ${row.lowest && row.lowest.balance < 0 ? 'text-red-700 font-semibold' : 'text-gray-900'}`}>
+                                            {row.lowest && `${baseCurrency} ${row.lowest.balance.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })} on ${row.lowest.date.toLocaleDateString()}`}
+                                        </td>
+                                        <td className="px-3 py-2 whitespace-nowrap text-sm text-gray-900">
+                                            {row.id === 'current' || !row.lowest ? '—' : `${row.lowest.balance >= currentLowestBalance ? '+' : '-'}${baseCurrency} ${Math.abs(row.lowest.balance - currentLowestBalance).toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`}
+                                        </td>
+                                        <td className={`px-3 py-2 whitespace-nowrap text-sm ${row.shortfallDate ? 'text-red-700 font-semibold' : 'text-emerald-700'}`}>
+                                            {row.shortfallDate ? row.shortfallDate.toLocaleDateString() : 'None'}
+                                        </td>
+                                        <td className={`px-3 py-2 whitespace-nowrap text-sm ${row.shortfallProbability !== null && row.shortfallProbability >= 0.1 ? 'text-red-700 font-semibold' : 'text-gray-900'}`}>
+                                            {row.shortfallProbability === null ? 'Calculating...' : formatChance(row.shortfallProbability)}
+                                        </td>
+                                        <td className="px-3 py-2 whitespace-nowrap text-sm text-gray-900">{baseCurrency} {row.ending.balance.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })} on {row.ending.date.toLocaleDateString()}</td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+                )}
+                <ScenarioPlanner
+                    userProfile={userProfile}
+                    updateUserProfile={updateUserProfile}
+                    recurringExpenses={recurringExpenses}
+                />
+            </div>
+        </div>
+    );
+};
+
+
+// --- Component: CsvImport (Consolidated) ---
+const CsvImport: React.FC<CsvImportComponentProps> = ({ baseCurrency, incomes, expenses, addIncome, addExpense, expenseCategories, accounts, defaultAccountId }) => {
+    const [step, setStep] = useState<'upload' | 'map' | 'preview'>('upload');
+    const [fileName, setFileName] = useState<string>('');
+    const [rows, setRows] = useState<string[][]>([]);
+    const [hasHeader, setHasHeader] = useState<boolean>(true);
+    const [dateColumn, setDateColumn] = useState<number>(0);
+    const [descriptionColumn, setDescriptionColumn] = useState<number>(1);
+    const [amountMode, setAmountMode] = useState<'single' | 'debit-credit'>('single');
+    const [amountColumn, setAmountColumn] = useState<number>(2);
+    const [debitColumn, setDebitColumn] = useState<number>(2);
+    const [creditColumn, setCreditColumn] = useState<number>(3);
+    const [signConvention, setSignConvention] = useState<'negative-is-expense' | 'positive-is-expense'>('negative-is-expense');
+    const [dateFormat, setDateFormat] = useState<StatementDateFormat>('YYYY-MM-DD');
+    const [decimalSeparator, setDecimalSeparator] = useState<DecimalSeparator>('.');
+    const [defaultCategory, setDefaultCategory] = useState<string>(expenseCategories.find(c => c.name === 'Other')?.name || expenseCategories[0]?.name || '');
+    const [importAccountId, setImportAccountId] = useState<string>(defaultAccountId || ''); // The account the statement belongs to
+    // Statement amounts are in the account's currency, or the base currency before accounts are set up
+    const importAccount = accounts.find(account => account.id === importAccountId);
+    const importCurrency = importAccount ? getRecordCurrency(importAccount) : baseCurrency;
+    const [previewRows, setPreviewRows] = useState<CsvImportRow[]>([]);
+    const [isImporting, setIsImporting] = useState<boolean>(false);
+    const [isModalOpen, setIsModalOpen] = useState<boolean>(false);
+    const [modalMessage, setModalMessage] = useState<string>('');
+    const [modalTitle, setModalTitle] = useState<string>('');
+
+    const headerCells = rows[0] || [];
+    const columnOptions = headerCells.map((cell, index) => ({
+        index,
+        label: hasHeader && cell ? cell : `Column ${index + 1}`,
+    }));
+    const dataRows = hasHeader ? rows.slice(1) : rows;
+
+    const resetWizard = () => {
+        setStep('upload');
+        setFileName('');
+        setRows([]);
+        setPreviewRows([]);
+    };
+
+    const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = ''; // Allow re-selecting the same file
+        if (!file) return;
+
+        try {
+            const parsedRows = parseCsv(await file.text());
+            if (parsedRows.length === 0) {
+                setModalTitle("Import Error");
+                setModalMessage("The selected file does not contain any rows.");
+                setIsModalOpen(true);
+                return;
+            }
+
+            // Guess the column mapping from common bank export headers
+            const headers = parsedRows[0].map(cell => cell.toLowerCase());
+            const findColumn = (pattern: RegExp, fallback: number) => {
+                const index = headers.findIndex(header => pattern.test(header));
+                return index >= 0 ? index : fallback;
+            };
+            setDateColumn(findColumn(/date/, 0));
+            setDescriptionColumn(findColumn(/desc|particular|detail|narration|memo|payee/, 1));
+            setAmountColumn(findColumn(/amount/, 2));
+            setDebitColumn(findColumn(/debit|withdraw/, 2));
+            setCreditColumn(findColumn(/credit|deposit/, 3));
+            const detectedMode = headers.some(header => /debit|withdraw/.test(header)) && headers.some(header => /credit|deposit/.test(header)) ? 'debit-credit' : 'single';
+            setAmountMode(detectedMode);
+            const amountColumns = detectedMode === 'single' ? [findColumn(/amount/, 2)] : [findColumn(/debit|withdraw/, 2), findColumn(/credit|deposit/, 3)];
+            setDecimalSeparator(detectDecimalSeparator(parsedRows.slice(1).flatMap(row => amountColumns.map(column => row[column] || ''))));
+
+            setFileName(file.name);
+            setRows(parsedRows);
+            setStep('map');
+        } catch (error: unknown) {
+            setModalTitle("Import Error");
+            setModalMessage(`Failed to read file: ${(error as Error).message}`);
+            setIsModalOpen(true);
+        }
+    };
+
+    const buildPreview = () => {
+        const seenInFile = new Set<string>();
+        const dayKey = toDateKey;
+        const sameAmount = (a: number, b: number) => Math.abs(a - b) < 0.005;
+
+        const preview = dataRows.map((cells, index): CsvImportRow => {
+            const date = parseStatementDate(cells[dateColumn] || '', dateFormat);
+            const description = cells[descriptionColumn] || '';
+
+            let signedAmount: number | null;
+            if (amountMode === 'single') {
+                const parsed = parseStatementAmount(cells[amountColumn] || '', decimalSeparator);
+                signedAmount = parsed === null ? null : (signConvention === 'negative-is-expense' ? parsed : -parsed);
+            } else {
+                const debit = parseStatementAmount(cells[debitColumn] || '', decimalSeparator);
+                const credit = parseStatementAmount(cells[creditColumn] || '', decimalSeparator);
+                signedAmount = debit === null && credit === null ? null : (credit ? Math.abs(credit) : 0) - (debit ? Math.abs(debit) : 0);
+            }
+
+            let error: string | null = null;
+            if (!date) error = `Unrecognized date "${cells[dateColumn] || ''}"`;
+            else if (signedAmount === null || signedAmount === 0) error = 'Missing or zero amount';
+
+            const type: 'expense' | 'income' = (signedAmount || 0) < 0 ? 'expense' : 'income';
+            const amount = Math.abs(signedAmount || 0);
+
+            // A row is a likely duplicate if a record of the same type already exists on that day for the same amount,
+            // or if the same line appears earlier in this file.
+            let duplicate = false;
+            if (date && !error) {
+                const key = `${dayKey(date)}|${amount.toFixed(2)}|${normalizeDescription(description)}`;
+                duplicate = seenInFile.has(key) || (type === 'expense'
+                    ? expenses.some(exp => dayKey(exp.date) === dayKey(date) && sameAmount(exp.amount, amount))
+                    : incomes.some(inc => dayKey(inc.dueDate) === dayKey(date) && sameAmount(inc.amount, amount)));
+                seenInFile.add(key);
+            }
+
+            return {
+                key: index,
+                date,
+                description,
+                amount,
+                type,
+                category: defaultCategory,
+                include: !error && !duplicate,
+                duplicate,
+                error,
+            };
+        });
+
+        setPreviewRows(preview);
+        setStep('preview');
+    };
+
+    const updatePreviewRow = (key: number, changes: Partial<CsvImportRow>) => {
+        setPreviewRows(prev => prev.map(row => (row.key === key ? { ...row, ...changes } : row)));
+    };
+
+    const handleImport = async () => {
+        const rowsToImport = previewRows.filter(row => row.include && !row.error && row.date);
+        if (rowsToImport.length === 0) {
+            setModalTitle("Nothing to Import");
+            setModalMessage("Select at least one valid row to import.");
+            setIsModalOpen(true);
+            return;
+        }
+
+        setIsImporting(true);
+        let importedCount = 0;
+        try {
+            for (const row of rowsToImport) {
+                const description = row.description || 'Imported transaction';
+                if (row.type === 'expense') {
+                    await addExpense({
+                        vendor: description,
+                        amount: row.amount,
+                        category: row.category,
+                        date: row.date as Date,
+                        description: `Imported from ${fileName}`,
+                        currency: importCurrency,
+                        ...(importAccountId ? { accountId: importAccountId } : {}),
+                    });
+                } else {
+                    // Credits on a bank statement have already been received
+                    await addIncome({
+                        client: description,
+                        amount: row.amount,
+                        dueDate: row.date as Date,
+                        status: 'Paid',
+                        currency: importCurrency,
+                        ...(importAccountId ? { accountId: importAccountId } : {}),
+                    });
+                }
+                importedCount++;
+            }
+            setModalTitle("Import Complete");
+            setModalMessage(`Imported ${importedCount} transaction${importedCount === 1 ? '' : 's'} from ${fileName}.`);
+            setIsModalOpen(true);
+            resetWizard();
+        } catch (error: unknown) {
+            setModalTitle("Import Error");
+            setModalMessage(`Imported ${importedCount} of ${rowsToImport.length} transactions before failing: ${(error as Error).message}`);
+            setIsModalOpen(true);
+        } finally {
+            setIsImporting(false);
+        }
+    };
+
+    const selectClassName = "shadow appearance-none border rounded-md w-full py-2 px-3 text-gray-700 leading-tight focus:outline-none focus:shadow-outline focus:ring-2 focus:ring-orange-500 focus:border-transparent";
+    const renderColumnSelect = (id: string, label: string, value: number, onChange: (value: number) => void) => (
+        <div>
+            <label htmlFor={id} className="block text-gray-700 text-sm font-bold mb-2">{label}</label>
+            <select
+                id={id}
+                value={value}
+                onChange={(e: React.ChangeEvent<HTMLSelectElement>) => onChange(parseInt(e.target.value))}
+                className={selectClassName}
+            >
+                {columnOptions.map(option => (
+                    <option key={option.index} value={option.index}>{option.label}</option>
+                ))}
+            </select>
+        </div>
+    );
+
+    const includedRows = previewRows.filter(row => row.include && !row.error);
+
+    return (
+        <div className="bg-white rounded-lg shadow-md p-6 mb-8">
+            <h2 className="text-xl font-semibold text-gray-700 mb-4">Import Bank Statement (CSV)</h2>
+
+            {step === 'upload' && (
+                <div>
+                    <p className="text-sm text-gray-600 mb-4">
+                        Upload a CSV export from your bank. You'll map its columns, review the parsed transactions and skip any duplicates before anything is saved.
+                    </p>
+                    <label className="inline-block bg-orange-500 hover:bg-orange-600 text-white font-bold py-2 px-4 rounded-md transition duration-200 shadow-sm cursor-pointer">
+                        Choose CSV File
+                        <input type="file" accept=".csv,text/csv" onChange={handleFileChange} className="hidden" />
+                    </label>
+                </div>
+            )}
+
+            {step === 'map' && (
+                <div>
+                    <p className="text-sm text-gray-600 mb-4">
+                        <strong>{fileName}</strong> - {dataRows.length} row{dataRows.length === 1 ? '' : 's'} found. Map the columns below.
+                    </p>
+                    <div className="grid grid-cols-1 gap-4 md:grid-cols-3">
+                        <div className="col-span-full">
+                            <label className="inline-flex items-center text-gray-700 text-sm font-bold cursor-pointer">
+                                <input
+                                    type="checkbox"
+                                    checked={hasHeader}
+                                    onChange={(e: React.ChangeEvent<HTMLInputElement>) => setHasHeader(e.target.checked)}
+                                    className="mr-2 accent-orange-500"
+                                />
+                                First row contains column headers
+                            </label>
+                        </div>
+                        {renderColumnSelect('importDateColumn', 'Date Column', dateColumn, setDateColumn)}
+                        <div>
+                            <label htmlFor="importDateFormat" className="block text-gray-700 text-sm font-bold mb-2">Date Format</label>
+                            <select
+                                id="importDateFormat"
+                                value={dateFormat}
+                                onChange={(e: React.ChangeEvent<HTMLSelectElement>) => setDateFormat(e.target.value as StatementDateFormat)}
+                                className={selectClassName}
+                            >
+                                <option value="YYYY-MM-DD">YYYY-MM-DD</option>
+                                <option value="MM/DD/YYYY">MM/DD/YYYY</option>
+                                <option value="DD/MM/YYYY">DD/MM/YYYY</option>
+                            </select>
+                        </div>
+                        {renderColumnSelect('importDescriptionColumn', 'Description Column', descriptionColumn, setDescriptionColumn)}
+                        <div>
+                            <label htmlFor="importAmountMode" className="block text-gray-700 text-sm font-bold mb-2">Amount Layout</label>
+                            <select
+                                id="importAmountMode"
+                                value={amountMode}
+                                onChange={(e: React.ChangeEvent<HTMLSelectElement>) => setAmountMode(e.target.value as 'single' | 'debit-credit')}
+                                className={selectClassName}
+                            >
+                                <option value="single">Single signed amount column</option>
+                                <option value="debit-credit">Separate debit and credit columns</option>
+                            </select>
+                        </div>
+                        {amountMode === 'single' ? (
+                            <>
+                                {renderColumnSelect('importAmountColumn', 'Amount Column', amountColumn, setAmountColumn)}
+                                <div>
+                                    <label htmlFor="importSignConvention" className="block text-gray-700 text-sm font-bold mb-2">Expenses Are</label>
+                                    <select
+                                        id="importSignConvention"
+                                        value={signConvention}
+                                        onChange={(e: React.ChangeEvent<HTMLSelectElement>) => setSignConvention(e.target.value as 'negative-is-expense' | 'positive-is-expense')}
+                                        className={selectClassName}
+                                    >
+                                        <option value="negative-is-expense">Negative amounts</option>
+                                        <option value="positive-is-expense">Positive amounts</option>
+                                    </select>
+                                </div>
+                            </>
+                        ) : (
+                            <>
+                                {renderColumnSelect('importDebitColumn', 'Debit (Money Out) Column', debitColumn, setDebitColumn)}
+                                {renderColumnSelect('importCreditColumn', 'Credit (Money In) Column', creditColumn, setCreditColumn)}
+                            </>
+                        )}
+                        <div>
+                            <label htmlFor="importDecimalSeparator" className="block text-gray-700 text-sm font-bold mb-2">Decimal Separator</label>
+                            <select
+                                id="importDecimalSeparator"
+                                value={decimalSeparator}
+                                onChange={(e: React.ChangeEvent<HTMLSelectElement>) => setDecimalSeparator(e.target.value as DecimalSeparator)}
+                                className={selectClassName}
+                            >
+                                <option value=".">Period (1,234.50)</option>
+                                <option value=",">Comma (1.234,50)</option>
+                            </select>
+                        </div>
+                        <div>
+                            <label htmlFor="importDefaultCategory" className="block text-gray-700 text-sm font-bold mb-2">Default Expense Category</label>
+                            <select
+                                id="importDefaultCategory"
+                                value={defaultCategory}
+                                onChange={(e: React.ChangeEvent<HTMLSelectElement>) => setDefaultCategory(e.target.value)}
+                                className={selectClassName}
+                            >
+                                <ExpenseCategoryOptions categories={expenseCategories} />
+                            </select>
+                        </div>
+                        {accounts.length > 0 && (
+                            <div>
+                                <label htmlFor="importAccount" className="block text-gray-700 text-sm font-bold mb-2">Statement Account</label>
+                                <select
+                                    id="importAccount"
+                                    value={importAccountId}
+                                    onChange={(e: React.ChangeEvent<HTMLSelectElement>) => setImportAccountId(e.target.value)}
+                                    className={selectClassName}
+                                >
+                                    <AccountOptions accounts={accounts} selectedId={importAccountId} />
+                                </select>
+                            </div>
                         )}
                     </div>
+                    <div className="flex justify-end space-x-3 mt-6">
+                        <button
+                            onClick={resetWizard}
+                            className="px-4 py-2 bg-gray-200 text-gray-800 rounded-md hover:bg-gray-300 transition duration-200"
+                        >
+                            Cancel
+                        </button>
+                        <button
+                            onClick={buildPreview}
+                            className="bg-orange-500 hover:bg-orange-600 text-white font-bold py-2 px-4 rounded-md transition duration-200 shadow-sm cursor-pointer"
+                        >
+                            Preview Transactions
+                        </button>
+                    </div>
+                </div>
+            )}
+
+            {step === 'preview' && (
+                <div>
+                    <p className="text-sm text-gray-600 mb-4">
+                        {includedRows.length} of {previewRows.length} rows selected. Likely duplicates of existing records and rows that could not be parsed are unselected.
+                    </p>
+                    <div className="overflow-x-auto max-h-[28rem] overflow-y-auto">
+                        <table className="min-w-full divide-y divide-gray-200">
+                            <thead>
+                                <tr className="bg-gray-50">
+                                    <th className="px-3 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider rounded-tl-lg">Import</th>
+                                    <th className="px-3 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Date</th>
+                                    <th className="px-3 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Description</th>
+                                    <th className="px-3 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Amount</th>
+                                    <th className="px-3 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Type</th>
+                                    <th className="px-3 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider rounded-tr-lg">Category / Notes</th>
+                                </tr>
+                            </thead>
+                            <tbody className="bg-white divide-y divide-gray-200">
+                                {previewRows.map((row: CsvImportRow) => (
+                                    <tr key={row.key} className={row.error ? 'bg-red-50' : row.duplicate ? 'bg-amber-50' : ''}>
+                                        <td className="px-3 py-2 text-sm">
+                                            <input
+                                                type="checkbox"
+                                                checked={row.include}
+                                                disabled={!!row.error}
+                                                onChange={(e: React.ChangeEvent<HTMLInputElement>) => updatePreviewRow(row.key, { include: e.target.checked })}
+                                                className="accent-orange-500"
+                                            />
+                                        </td>
+                                        <td className="px-3 py-2 whitespace-nowrap text-sm text-gray-900">{row.date ? row.date.toLocaleDateString() : '-'}</td>
+                                        <td className="px-3 py-2 text-sm text-gray-900">{row.description || '-'}</td>
+                                        <td className="px-3 py-2 whitespace-nowrap text-sm text-gray-900">{importCurrency} {row.amount.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</td>
+                                        <td className="px-3 py-2 text-sm">
+                                            <select
+                                                value={row.type}
+                                                disabled={!!row.error}
+                                                onChange={(e: React.ChangeEvent<HTMLSelectElement>) => updatePreviewRow(row.key, { type: e.target.value as 'expense' | 'income' })}
+                                                className="border rounded-md py-1 px-2 text-gray-700"
+                                            >
+                                                <option value="expense">Expense</option>
+                                                <option value="income">Income</option>
+                                            </select>
+                                        </td>
+                                        <td className="px-3 py-2 text-sm">
+                                            {row.error ? (
+                                                <span className="text-red-700">{row.error}</span>
+                                            ) : (
+                                                <div className="flex items-center space-x-2">
+                                                    {row.type === 'expense' && (
+                                                        <select
+                                                            value={row.category}
+                                                            onChange={(e: React.ChangeEvent<HTMLSelectElement>) => updatePreviewRow(row.key, { category: e.target.value })}
+                                                            className="border rounded-md py-1 px-2 text-gray-700"
+                                                        >
+                                                            <ExpenseCategoryOptions categories={expenseCategories} />
+                                                        </select>
+                                                    )}
+                                                    {row.duplicate && (
+                                                        <span className="inline-flex px-2 py-0.5 text-xs leading-5 font-semibold rounded-full bg-amber-100 text-amber-800">Possible duplicate</span>
+                                                    )}
+                                                </div>
+                                            )}
+                                        </td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+                    <div className="flex justify-end space-x-3 mt-6">
+                        <button
+                            onClick={() => setStep('map')}
+                            className="px-4 py-2 bg-gray-200 text-gray-800 rounded-md hover:bg-gray-300 transition duration-200"
+                            disabled={isImporting}
+                        >
+                            Back
+                        </button>
+                        <button
+                            onClick={handleImport}
+                            className="bg-orange-500 hover:bg-orange-600 text-white font-bold py-2 px-4 rounded-md transition duration-200 shadow-sm cursor-pointer disabled:opacity-70 disabled:cursor-not-allowed"
+                            disabled={isImporting}
+                        >
+                            {isImporting ? 'Importing...' : `Import ${includedRows.length} Transaction${includedRows.length === 1 ? '' : 's'}`}
+                        </button>
+                    </div>
+                </div>
+            )}
+
+            <Modal
+                isOpen={isModalOpen}
+                title={modalTitle}
+                message={modalMessage}
+                onClose={() => setIsModalOpen(false)}
+            />
+        </div>
+    );
+};
+
+
+// --- Component: CurrencySettings (Consolidated) ---
+const CurrencySettings: React.FC<CurrencySettingsComponentProps> = ({ userProfile, updateUserProfile }) => {
+    const savedBaseCurrency = getBaseCurrency(userProfile);
+    const exchangeRates = userProfile?.exchangeRates || [];
+    const [baseCurrency, setBaseCurrency] = useState<string>(savedBaseCurrency);
+    const [rateCurrency, setRateCurrency] = useState<string>('USD');
+    const [rate, setRate] = useState<string>('');
+    const [rateDate, setRateDate] = useState<string>(toDateInputValue(new Date()));
+    const [isSaving, setIsSaving] = useState<boolean>(false);
+    const [isModalOpen, setIsModalOpen] = useState<boolean>(false);
+    const [modalMessage, setModalMessage] = useState<string>('');
+    const [modalTitle, setModalTitle] = useState<string>('');
+
+    useEffect(() => {
+        setBaseCurrency(savedBaseCurrency);
+    }, [savedBaseCurrency]);
+
+    const currencyOptions = getCurrencyOptions(userProfile);
+
+    const showMessage = (title: string, message: string) => {
+        setModalTitle(title);
+        setModalMessage(message);
+        setIsModalOpen(true);
+    };
+
+    const saveRates = async (rates: ExchangeRate[], successMessage: string) => {
+        setIsSaving(true);
+        try {
+            await updateUserProfile({ exchangeRates: rates });
+            showMessage("Success!", successMessage);
+        } catch (error: unknown) {
+            showMessage("Error", `Failed to save exchange rates: ${(error as Error).message}`);
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    // Changing the base currency changes how totals are reported; stored amounts are never rewritten
+    const handleSaveBaseCurrency = async () => {
+        setIsSaving(true);
+        try {
+            await updateUserProfile({ baseCurrency });
+            showMessage("Success!", `Totals are now reported in ${baseCurrency}. Salary, deductions, loans and budgets are read as ${baseCurrency} amounts.`);
+        } catch (error: unknown) {
+            showMessage("Error", `Failed to save base currency: ${(error as Error).message}`);
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const handleAddRate = async (e: React.FormEvent) => {
+        e.preventDefault();
+        const parsedRate = parseFloat(rate);
+        if (rateCurrency === savedBaseCurrency) {
+            showMessage("Input Error", `Choose a currency other than your base currency, ${savedBaseCurrency}.`);
+            return;
+        }
+        if (isNaN(parsedRate) || parsedRate <= 0 || !rateDate) {
+            showMessage("Input Error", "Enter a positive rate and the date it applies from.");
+            return;
+        }
+        await saveRates(
+            mergeExchangeRates(exchangeRates, [{ base: savedBaseCurrency, currency: rateCurrency, rate: parsedRate, date: parseDateInput(rateDate) }]),
+            `Rate for ${rateCurrency} saved.`
+        );
+        setRate('');
+    };
+
+    const handleRatesFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = ''; // Allow re-selecting the same file
+        if (!file) return;
+        try {
+            const imported = parseExchangeRatesCsv(await file.text(), savedBaseCurrency);
+            await saveRates(mergeExchangeRates(exchangeRates, imported), `Imported ${imported.length} rate${imported.length === 1 ? '' : 's'} from ${file.name}.`);
+        } catch (error: unknown) {
+            showMessage("Invalid Rate File", `${file.name} could not be imported: ${(error as Error).message}`);
+        }
+    };
+
+    const handleDeleteRate = (target: ExchangeRate) =>
+        saveRates(exchangeRates.filter(entry => entry !== target), `Rate for ${target.currency} on ${target.date.toLocaleDateString()} deleted.`);
+
+    return (
+        <div className="bg-white rounded-lg shadow-md p-6 mb-8">
+            <h2 className="text-xl font-semibold text-gray-700 mb-4">Currencies & Exchange Rates</h2>
+
+            <div className="grid grid-cols-1 gap-8 md:grid-cols-2">
+                <div>
+                    <h3 className="text-lg font-semibold text-gray-700 mb-2">Base Currency</h3>
+                    <p className="text-sm text-gray-600 mb-4">
+                        Totals, budgets, charts and the forecast are shown in this currency. Each income and expense keeps the currency it was entered in
+                        and is converted using the rate in effect on its date.
+                    </p>
+                    <div className="flex gap-2">
+                        <select
+                            id="baseCurrency"
+                            value={baseCurrency}
+                            onChange={(e: React.ChangeEvent<HTMLSelectElement>) => setBaseCurrency(e.target.value)}
+                            className="shadow appearance-none border rounded-md w-full py-2 px-3 text-gray-700 leading-tight focus:outline-none focus:shadow-outline focus:ring-2 focus:ring-orange-500 focus:border-transparent"
+                            aria-label="Base currency"
+                        >
+                            <CurrencyOptions currencies={currencyOptions} />
+                        </select>
+                        <button
+                            onClick={handleSaveBaseCurrency}
+                            className="bg-orange-500 hover:bg-orange-600 text-white font-bold py-2 px-4 rounded-md transition duration-200 shadow-sm cursor-pointer disabled:opacity-70 disabled:cursor-not-allowed"
+                            disabled={isSaving || baseCurrency === savedBaseCurrency}
+                        >
+                            Save
+                        </button>
+                    </div>
+
+                    <h3 className="text-lg font-semibold text-gray-700 mt-6 mb-2">Add a Rate</h3>
+                    <form onSubmit={handleAddRate} className="grid grid-cols-1 gap-4 sm:grid-cols-3">
+                        <div>
+                            <label htmlFor="rateCurrency" className="block text-gray-700 text-sm font-bold mb-2">1 unit of</label>
+                            <select
+                                id="rateCurrency"
+                                value={rateCurrency}
+                                onChange={(e: React.ChangeEvent<HTMLSelectElement>) => setRateCurrency(e.target.value)}
+                                className="shadow appearance-none border rounded-md w-full py-2 px-3 text-gray-700 leading-tight focus:outline-none focus:shadow-outline focus:ring-2 focus:ring-orange-500 focus:border-transparent"
+                            >
+                                <CurrencyOptions currencies={currencyOptions.filter(code => code !== savedBaseCurrency)} />
+                            </select>
+                        </div>
+                        <div>
+                            <label htmlFor="rate" className="block text-gray-700 text-sm font-bold mb-2">Equals ({savedBaseCurrency})</label>
+                            <input
+                                type="number"
+                                id="rate"
+                                value={rate}
+                                onChange={(e: React.ChangeEvent<HTMLInputElement>) => setRate(e.target.value)}
+                                className="shadow appearance-none border rounded-md w-full py-2 px-3 text-gray-700 leading-tight focus:outline-none focus:shadow-outline focus:ring-2 focus:ring-orange-500 focus:border-transparent"
+                                placeholder="e.g., 56.25"
+                                step="any"
+                                required
+                            />
+                        </div>
+                        <div>
+                            <label htmlFor="rateDate" className="block text-gray-700 text-sm font-bold mb-2">From</label>
+                            <input
+                                type="date"
+                                id="rateDate"
+                                value={rateDate}
+                                onChange={(e: React.ChangeEvent<HTMLInputElement>) => setRateDate(e.target.value)}
+                                className="shadow appearance-none border rounded-md w-full py-2 px-3 text-gray-700 leading-tight focus:outline-none focus:shadow-outline focus:ring-2 focus:ring-orange-500 focus:border-transparent"
+                                required
+                            />
+                        </div>
+                        <div className="sm:col-span-3 flex justify-end">
+                            <button
+                                type="submit"
+                                className="bg-orange-500 hover:bg-orange-600 text-white font-bold py-2 px-4 rounded-md transition duration-200 shadow-sm cursor-pointer disabled:opacity-70 disabled:cursor-not-allowed"
+                                disabled={isSaving}
+                            >
+                                Add Rate
+                            </button>
+                        </div>
+                    </form>
+
+                    <h3 className="text-lg font-semibold text-gray-700 mt-6 mb-2">Import Rates</h3>
+                    <p className="text-sm text-gray-600 mb-4">
+                        A CSV file with a header row naming <code>Date</code> (YYYY-MM-DD), <code>Currency</code> and <code>Rate</code> columns, plus an optional <code>Base</code> column
+                        (defaults to {savedBaseCurrency}). Rates for the same pair and day replace the stored ones.
+                    </p>
+                    <label className="inline-block bg-gray-200 hover:bg-gray-300 text-gray-800 font-bold py-2 px-4 rounded-md transition duration-200 cursor-pointer">
+                        Choose Rate File
+                        <input type="file" accept=".csv,text/csv" onChange={handleRatesFileChange} className="hidden" />
+                    </label>
                 </div>
-            </div>
 
-            {/* Salary Breakdown Section */}
-            <div className="bg-white rounded-lg shadow-md p-6 mt-8">
-                <h2 className="text-xl font-semibold text-gray-700 mb-4">Salary Breakdown</h2>
-                <div className="grid grid-cols-1 md:grid-cols-2 gap-4 text-gray-800">
-                    <div className="flex justify-between py-1 border-b border-gray-100">
-                        <span className="font-medium">Gross Monthly Salary:</span>
-                        <span>PHP {grossMonthlySalary.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</span>
-                    </div>
-                    <div className="flex justify-between py-1 border-b border-gray-100">
-                        <span className="font-medium">Total Monthly Deductions:</span>
-                        <span>- PHP {totalMonthlyDeductions.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</span>
-                    </div>
-                    <div className="flex justify-between py-1 border-b border-gray-100 font-bold text-lg">
-                        <span>Net Monthly Salary:</span>
-                        <span>PHP {netMonthlySalary.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</span>
-                    </div>
-                    <div className="flex justify-between py-1 border-b border-gray-100">
-                        <span className="font-medium">Monthly Working Days:</span>
-                        <span>{monthlyWorkingDays} days</span>
-                    </div>
-                    <div className="flex justify-between py-1 font-bold text-xl text-orange-600">
-                        <span>Daily Income (Net):</span>
-                        <span>PHP {dailyIncome.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</span>
-                    </div>
+                <div>
+                    <h3 className="text-lg font-semibold text-gray-700 mb-2">Stored Rates</h3>
+                    {exchangeRates.length === 0 ? (
+                        <p className="text-sm text-gray-600">
+                            No exchange rates yet. Amounts in other currencies are counted one-to-one until a rate is added.
+                        </p>
+                    ) : (
+                        <div className="overflow-x-auto max-h-96 overflow-y-auto">
+                            <table className="min-w-full divide-y divide-gray-200">
+                                <thead>
+                                    <tr className="bg-gray-50">
+                                        <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Effective From</th>
+                                        <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Rate</th>
+                                        <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
+                                    </tr>
+                                </thead>
+                                <tbody className="bg-white divide-y divide-gray-200">
+                                    {exchangeRates.map((entry: ExchangeRate) => (
+                                        <tr key={`${entry.base}-${entry.currency}-${entry.date.getTime()}`}>
+                                            <td className="px-3 py-2 whitespace-nowrap text-sm text-gray-900">{entry.date.toLocaleDateString()}</td>
+                                            <td className="px-3 py-2 whitespace-nowrap text-sm text-gray-900">1 {entry.currency} = {entry.rate} {entry.base}</td>
+                                            <td className="px-3 py-2 whitespace-nowrap text-sm text-gray-900">
+                                                <button
+                                                    onClick={() => handleDeleteRate(entry)}
+                                                    className="px-2 py-1 text-sm font-medium text-orange-700 hover:text-orange-900 transition duration-200"
+                                                    disabled={isSaving}
+                                                >
+                                                    Delete
+                                                </button>
+                                            </td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        </div>
+                    )}
                 </div>
             </div>
 
-            {/* Modals for alerts and confirmations */}
             <Modal
                 isOpen={isModalOpen}
-                title={modalTitle}
-                message={modalMessage}
                 onClose={() => setIsModalOpen(false)}
-            />
-            <Modal
-                isOpen={isResetSalaryConfirmOpen}
                 title={modalTitle}
                 message={modalMessage}
-                onClose={() => setIsResetSalaryConfirmOpen(false)}
-                onConfirm={confirmResetSalary}
-                showConfirmButton={true}
             />
         </div>
     );
 };
 
 
-// --- Component: Dashboard (Consolidated) ---
-const Dashboard: React.FC<DashboardComponentProps> = ({ incomes, expenses, userProfile }) => {
-    const [showProjectedDetails, setShowProjectedDetails] = useState(false);
-    const [showExpenseDetails, setShowExpenseDetails] = useState(false);
-
-    // Calculate current cash balance (simplified: total income - total expenses)
-    const calculatedCashBalance = incomes.reduce((sum: number, item: IncomeItem) => sum + item.amount, 0) -
-                                  expenses.reduce((sum: number, item: ExpenseItem) => sum + item.amount, 0);
-
-    const currentCashBalance = userProfile?.currentBalance ?? calculatedCashBalance;
-
-    // Simulate AI Cash Flow Forecast - now returns projectedSalaryPayments as well
-    const { forecastData, potentialShortfallDate, projectedSalaryPayments } = generateMockForecast(currentCashBalance, incomes, expenses, userProfile);
-
-    const thirtyDaysFromNow = new Date();
-    thirtyDaysFromNow.setDate(thirtyDaysFromNow.getDate() + 30);
-
-    // Combine actual incomes with projected salary payments for Dashboard display
-    const combinedUpcomingIncomes: IncomeItem[] = [ // Changed to const
-        ...incomes.filter((inc: IncomeItem) => inc.status === 'Outstanding' && inc.dueDate.getTime() <= thirtyDaysFromNow.getTime()),
-        ...projectedSalaryPayments.filter((sal: IncomeItem) => sal.dueDate.getTime() <= thirtyDaysFromNow.getTime())
-    ];
-
-    // Sort combined upcoming incomes by due date
-    combinedUpcomingIncomes.sort((a: IncomeItem, b: IncomeItem) => a.dueDate.getTime() - b.dueDate.getTime());
-
-    // Update upcomingIncomesForDisplay and totalUpcomingIncomesAmount
-    const upcomingIncomesForDisplay = combinedUpcomingIncomes.slice(0, 3); // Still show top 3 for brevity on card
-    const totalUpcomingIncomesAmount = combinedUpcomingIncomes.reduce((sum: number, item: IncomeItem) => sum + item.amount, 0); // Explicitly typed
-
-    const currentMonthExpenses = expenses.filter(exp => {
-        const expDate = new Date(exp.date);
-        const now = new Date();
-        return expDate.getMonth() === now.getMonth() && expDate.getFullYear() === now.getFullYear();
-    });
-
-    const totalCurrentMonthExpenses = currentMonthExpenses.reduce((sum: number, exp: ExpenseItem) => sum + exp.amount, 0); // Explicitly typed
-
-    const totalUpcomingExpensesAmount = expenses
-        .filter((exp: ExpenseItem) => exp.date.getTime() >= new Date().setHours(0,0,0,0) && exp.date.getTime() <= thirtyDaysFromNow.getTime())
-        .concat(
-            (userProfile?.loans || []).filter(loan => loan.nextPaymentDate.getTime() >= new Date().setHours(0,0,0,0) && loan.nextPaymentDate.getTime() <= thirtyDaysFromNow.getTime()).map(loan => ({
-                id: loan.id,
-                vendor: loan.loanName,
-                amount: loan.amount,
-                category: 'Loan Payment',
-                date: loan.nextPaymentDate,
-                description: `Loan payment for ${loan.loanName} (${loan.paymentFrequency})`,
-                createdAt: new Date(),
-            }))
-        )
-        .reduce((sum: number, item: ExpenseItem) => sum + item.amount, 0); // Explicitly typed
-
-    const projectedOverallBalance = currentCashBalance + totalUpcomingIncomesAmount - totalUpcomingExpensesAmount;
+// --- Component: HolidayCalendarSettings (Consolidated) ---
+const HolidayCalendarSettings: React.FC<HolidayCalendarSettingsComponentProps> = ({ userProfile, updateUserProfile }) => {
+    const currentYear = new Date().getFullYear();
+    const edits: HolidayCalendarEdits = userProfile?.holidayCalendar || { added: [], removed: [] };
+    const [year, setYear] = useState<number>(currentYear);
+    const [holidayDate, setHolidayDate] = useState<string>('');
+    const [holidayName, setHolidayName] = useState<string>('');
+    const [holidayType, setHolidayType] = useState<HolidayType>('special-non-working');
+    const [isSaving, setIsSaving] = useState<boolean>(false);
+    const [isModalOpen, setIsModalOpen] = useState<boolean>(false);
+    const [modalMessage, setModalMessage] = useState<string>('');
+    const [modalTitle, setModalTitle] = useState<string>('');
 
+    const yearOptions = Array.from(new Set([...bundledHolidayYears, currentYear - 1, currentYear, currentYear + 1])).sort((a, b) => a - b);
+    const holidays = getHolidays(year, edits);
+    const dataSource = getHolidayDataSource(year);
+    const removedThisYear = getBundledHolidays(year).filter(holiday => edits.removed.includes(holiday.date));
+    const isAdded = (holiday: Holiday) => edits.added.some(added => added.date === holiday.date);
 
-    const chartData = {
-        labels: forecastData.map(data => data.date.toLocaleDateString('en-US', { month: 'short', day: 'numeric' })),
-        datasets: [
-            {
-                label: 'Projected Cash Balance (PHP)',
-                data: forecastData.map(data => data.balance),
-                borderColor: '#F97316',
-                backgroundColor: 'rgba(249, 115, 22, 0.2)',
-                tension: 0.1,
-                pointRadius: 3,
-                pointBackgroundColor: '#F97316',
-            },
-        ],
+    const showMessage = (title: string, message: string) => {
+        setModalTitle(title);
+        setModalMessage(message);
+        setIsModalOpen(true);
     };
 
-    const chartOptions: ChartOptions<'line'> = {
-        responsive: true,
-        maintainAspectRatio: false,
-        plugins: {
-            legend: {
-                position: 'top' as const,
-            },
-            title: {
-                display: true,
-                text: 'AI-Powered Cash Flow Projection (Next ' + forecastData.length + ' Days)',
-                font: {
-                    size: 16,
-                },
-                color: '#374151',
-            },
-            tooltip: {
-                callbacks: {
-                    label: function(context: TooltipItem<'line'>) { // Explicitly typed context
-                        let label = context.dataset.label || '';
-                        if (label) {
-                            label += ': ';
-                        }
-                        if (context.parsed.y !== null) {
-                            label += new Intl.NumberFormat('en-US', { style: 'currency', currency: 'PHP' }).format(context.parsed.y);
-                        }
-                        return label;
-                    }
-                }
-            },
-        },
-        scales: {
-            x: {
-                title: {
-                    display: true,
-                    text: 'Date',
-                    color: '#4B5563',
-                },
-                grid: {
-                    display: false,
-                },
-                ticks: {
-                    color: '#6B7280',
-                }
-            },
-            y: {
-                title: {
-                    display: true,
-                    text: 'Cash Balance (PHP)',
-                    color: '#4B5563',
-                },
-                grid: {
-                    color: '#E5E7EB',
-                },
-                ticks: {
-                    callback: function(tickValue: string | number) { // Explicitly typed tickValue
-                        const numericValue = typeof tickValue === 'string' ? parseFloat(tickValue) : tickValue;
-                        return new Intl.NumberFormat('en-US', { style: 'currency', currency: 'PHP' }).format(numericValue);
-                    }
-                }
-            },
-        },
+    const saveEdits = async (holidayCalendar: HolidayCalendarEdits, successMessage: string) => {
+        setIsSaving(true);
+        try {
+            await updateUserProfile({ holidayCalendar });
+            showMessage("Success!", successMessage);
+        } catch (error: unknown) {
+            showMessage("Error", `Failed to save holiday calendar: ${(error as Error).message}`);
+        } finally {
+            setIsSaving(false);
+        }
     };
 
-    const expenseCategories = expenses.reduce((acc: { [key: string]: number }, expense: ExpenseItem) => { // Explicitly typed acc and expense
-        acc[expense.category] = (acc[expense.category] || 0) + expense.amount;
-        return acc;
-    }, {});
+    const handleAddHoliday = async (e: React.FormEvent) => {
+        e.preventDefault();
+        const date = parseDateInput(holidayDate);
+        if (isNaN(date.getTime()) || !holidayName.trim()) {
+            showMessage("Input Error", "Enter the holiday's date and name.");
+            return;
+        }
+        const dateKey = toDateKey(date);
+        const existing = getHolidays(date.getFullYear(), edits).find(holiday => holiday.date === dateKey);
+        if (existing) {
+            showMessage("Input Error", `${date.toLocaleDateString()} is already on the calendar as ${existing.name}.`);
+            return;
+        }
+        await saveEdits(
+            { added: [...edits.added, { date: dateKey, name: holidayName.trim(), type: holidayType }], removed: edits.removed },
+            `${holidayName.trim()} added on ${date.toLocaleDateString()}.`
+        );
+        setYear(date.getFullYear());
+        setHolidayDate('');
+        setHolidayName('');
+    };
 
-    const pieChartLabels = Object.keys(expenseCategories);
-    const pieChartDataValues = Object.values(expenseCategories);
+    // Added holidays are dropped; bundled ones are remembered as removed so a later data update doesn't bring them back
+    const handleRemoveHoliday = (holiday: Holiday) =>
+        saveEdits(
+            isAdded(holiday)
+                ? { added: edits.added.filter(added => added.date !== holiday.date), removed: edits.removed }
+                : { added: edits.added, removed: [...edits.removed, holiday.date] },
+            `${holiday.name} removed from the calendar.`
+        );
 
-    const backgroundColors = [
-        '#F97316', '#1F2937', '#374151', '#FBBF24', '#4B5563',
-        '#6B7280', '#D97706', '#9CA3AF', '#DC2626', '#1E3A8A',
-        '#059669', '#78716C', '#A16207', '#0F766E', '#475569',
-        '#8B5CF6'
-    ];
+    const handleRestoreRemoved = () =>
+        saveEdits(
+            { added: edits.added, removed: edits.removed.filter(date => !removedThisYear.some(holiday => holiday.date === date)) },
+            `Restored ${removedThisYear.length} holiday${removedThisYear.length === 1 ? '' : 's'} for ${year}.`
+        );
 
-    const pieChartData = {
-        labels: pieChartLabels,
-        datasets: [
-            {
-                data: pieChartDataValues,
-                backgroundColor: pieChartLabels.map((_, index) => backgroundColors[index % backgroundColors.length]),
-                hoverBackgroundColor: pieChartLabels.map((_, index) => backgroundColors[index % backgroundColors.length]),
-                borderColor: '#ffffff',
-                borderWidth: 2,
-            },
-        ],
-    };
+    return (
+        <div className="bg-white rounded-lg shadow-md p-6 mb-8">
+            <h2 className="text-xl font-semibold text-gray-700 mb-4">Holiday Calendar</h2>
+            <p className="text-sm text-gray-600 mb-4">
+                Philippine regular holidays and special non-working days. Paydays, income due dates and loan payments that fall on these days or on a weekend
+                move to a business day, and working days in your salary breakdown leave them out.
+            </p>
+
+            <div className="grid grid-cols-1 gap-8 md:grid-cols-2">
+                <div>
+                    <div className="flex items-center gap-2 mb-2">
+                        <label htmlFor="holidayYear" className="text-gray-700 text-sm font-bold">Year</label>
+                        <select
+                            id="holidayYear"
+                            value={year}
+                            onChange={(e: React.ChangeEvent<HTMLSelectElement>) => setYear(parseInt(e.target.value))}
+                            className="shadow appearance-none border rounded-md py-2 px-3 text-gray-700 leading-tight focus:outline-none focus:shadow-outline focus:ring-2 focus:ring-orange-500 focus:border-transparent"
+                        >
+                            {yearOptions.map(option => <option key={option} value={option}>{option}</option>)}
+                        </select>
+                    </div>
+                    <p className="text-xs text-gray-500 mb-4">
+                        {dataSource || `No holiday list is bundled for ${year}; only the regular holidays fixed by law are shown. Add special non-working days and Eid holidays once they are proclaimed.`}
+                    </p>
+                    <div className="overflow-x-auto max-h-96 overflow-y-auto">
+                        <table className="min-w-full divide-y divide-gray-200">
+                            <thead>
+                                <tr className="bg-gray-50">
+                                    <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Date</th>
+                                    <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Name</th>
+                                    <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Type</th>
+                                    <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Source</th>
+                                    <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
+                                </tr>
+                            </thead>
+                            <tbody className="bg-white divide-y divide-gray-200">
+                                {holidays.map((holiday: Holiday) => (
+                                    <tr key={holiday.date}>
+                                        <td className="px-3 py-2 whitespace-nowrap text-sm text-gray-900">{parseDateInput(holiday.date).toLocaleDateString()}</td>
+                                        <td className="px-3 py-2 text-sm text-gray-900">{holiday.name}</td>
+                                        <td className="px-3 py-2 whitespace-nowrap text-sm text-gray-900">{holidayTypeLabels[holiday.type]}</td>
+                                        <td className="px-3 py-2 whitespace-nowrap text-sm text-gray-900">{isAdded(holiday) ? 'Added' : 'Bundled'}</td>
+                                        <td className="px-3 py-2 whitespace-nowrap text-sm text-gray-900">
+                                            <button
+                                                onClick={() => handleRemoveHoliday(holiday)}
+                                                className="px-2 py-1 text-sm font-medium text-orange-700 hover:text-orange-900 transition duration-200"
+                                                disabled={isSaving}
+                                            >
+                                                Remove
+                                            </button>
+                                        </td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+                    {removedThisYear.length > 0 && (
+                        <button
+                            onClick={handleRestoreRemoved}
+                            className="mt-2 px-2 py-1 text-sm font-medium text-orange-700 hover:text-orange-900 transition duration-200"
+                            disabled={isSaving}
+                        >
+                            Restore {removedThisYear.length} removed holiday{removedThisYear.length === 1 ? '' : 's'}
+                        </button>
+                    )}
+                </div>
 
-    const pieChartOptions: ChartOptions<'pie'> = {
-        responsive: true,
-        maintainAspectRatio: false,
-        plugins: {
-            legend: {
-                position: 'right' as const,
-                align: 'start',
-                labels: {
-                    font: {
-                        size: 14,
-                    },
-                    color: '#4B5563',
-                },
-            },
-            title: {
-                display: true,
-                text: 'Expense Categories Breakdown',
-                font: {
-                    size: 16,
-                },
-                color: '#374151',
-            },
-            tooltip: {
-                callbacks: {
-                    label: function(context: TooltipItem<'pie'>) { // Explicitly typed context
-                        const label = context.label || '';
-                        const value = context.parsed;
-                        const total = context.dataset.data.reduce((sum: number, current: number) => sum + current, 0); // Explicitly typed sum and current
-                        const percentage = total > 0 ? ((value / total) * 100).toFixed(2) + '%' : '0.00%';
-                        return `${label}: PHP ${value.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })} (${percentage})`;
-                    },
-                },
-            },
-        },
-    };
+                <div>
+                    <h3 className="text-lg font-semibold text-gray-700 mb-2">Add a Holiday</h3>
+                    <form onSubmit={handleAddHoliday} className="grid grid-cols-1 gap-4">
+                        <div>
+                            <label htmlFor="holidayDate" className="block text-gray-700 text-sm font-bold mb-2">Date</label>
+                            <input
+                                type="date"
+                                id="holidayDate"
+                                value={holidayDate}
+                                onChange={(e: React.ChangeEvent<HTMLInputElement>) => setHolidayDate(e.target.value)}
+                                className="shadow appearance-none border rounded-md w-full py-2 px-3 text-gray-700 leading-tight focus:outline-none focus:shadow-outline focus:ring-2 focus:ring-orange-500 focus:border-transparent"
+                                required
+                            />
+                        </div>
+                        <div>
+                            <label htmlFor="holidayName" className="block text-gray-700 text-sm font-bold mb-2">Name</label>
+                            <input
+                                type="text"
+                                id="holidayName"
+                                value={holidayName}
+                                onChange={(e: React.ChangeEvent<HTMLInputElement>) => setHolidayName(e.target.value)}
+                                className="shadow appearance-none border rounded-md w-full py-2 px-3 text-gray-700 leading-tight focus:outline-none focus:shadow-outline focus:ring-2 focus:ring-orange-500 focus:border-transparent"
+                                placeholder="e.g., Eid'l Fitr"
+                                required
+                            />
+                        </div>
+                        <div>
+                            <label htmlFor="holidayType" className="block text-gray-700 text-sm font-bold mb-2">Type</label>
+                            <select
+                                id="holidayType"
+                                value={holidayType}
+                                onChange={(e: React.ChangeEvent<HTMLSelectElement>) => setHolidayType(e.target.value as HolidayType)}
+                                className="shadow appearance-none border rounded-md w-full py-2 px-3 text-gray-700 leading-tight focus:outline-none focus:shadow-outline focus:ring-2 focus:ring-orange-500 focus:border-transparent"
+                            >
+                                {(Object.keys(holidayTypeLabels) as HolidayType[]).map(type => (
+                                    <option key={type} value={type}>{holidayTypeLabels[type]}</option>
+                                ))}
+                            </select>
+                        </div>
+                        <div className="flex justify-end">
+                            <button
+                                type="submit"
+                                className="bg-orange-500 hover:bg-orange-600 text-white font-bold py-2 px-4 rounded-md transition duration-200 shadow-sm cursor-pointer disabled:opacity-70 disabled:cursor-not-allowed"
+                                disabled={isSaving}
+                            >
+                                Add Holiday
+                            </button>
+                        </div>
+                    </form>
+                </div>
+            </div>
 
-    const monthlyExpensesByCategory = expenses
-        .filter(exp => exp.date.getMonth() === new Date().getMonth() && exp.date.getFullYear() === new Date().getFullYear())
-        .reduce((acc: { [key: string]: number }, expense: ExpenseItem) => { // Explicitly typed acc and expense
-            acc[expense.category] = (acc[expense.category] || 0) + expense.amount;
-            return acc;
-        }, {});
+            <Modal
+                isOpen={isModalOpen}
+                onClose={() => setIsModalOpen(false)}
+                title={modalTitle}
+                message={modalMessage}
+            />
+        </div>
+    );
+};
 
-    const sortedMonthlyCategories = Object.entries(monthlyExpensesByCategory).sort(([, a], [, b]) => (b as number) - (a as number));
 
+// --- Component: DataBackup (Consolidated) ---
+const DataBackup: React.FC<DataBackupComponentProps> = ({ userProfile, clients, incomes, expenses, recurringExpenses, recurringIncomes, accounts, transfers, restoreData, getExpenseAttachment }) => {
+    const [isExporting, setIsExporting] = useState<boolean>(false);
+    const [pendingBackup, setPendingBackup] = useState<BackupData | null>(null);
+    const [pendingFileName, setPendingFileName] = useState<string>('');
+    const [restoreMode, setRestoreMode] = useState<'merge' | 'replace'>('merge');
+    const [isRestoring, setIsRestoring] = useState<boolean>(false);
+    const [isConfirmModalOpen, setIsConfirmModalOpen] = useState<boolean>(false);
+    const [isModalOpen, setIsModalOpen] = useState<boolean>(false);
+    const [modalMessage, setModalMessage] = useState<string>('');
+    const [modalTitle, setModalTitle] = useState<string>('');
 
-    return (
-        <div className="max-w-full mx-auto p-4 md:p-8">
-            <h1 className="text-3xl font-bold text-gray-800 mb-6">Dashboard</h1>
+    const fileDate = toDateKey(new Date());
+    const defaultAccountId = getDefaultAccountId(userProfile, accounts);
+
+    // Receipt files are copied into the backup, so it restores on a device that never had them
+    const handleExportJson = async () => {
+        const collections: Record<StorageCollection, StorageRecord[]> = {
+            incomes: incomes as unknown as StorageRecord[],
+            expenses: expenses as unknown as StorageRecord[],
+            recurringExpenses: recurringExpenses as unknown as StorageRecord[],
+            recurringIncomes: recurringIncomes as unknown as StorageRecord[],
+            accounts: accounts as unknown as StorageRecord[],
+            transfers: transfers as unknown as StorageRecord[],
+            clients: clients as unknown as StorageRecord[],
+        };
+        setIsExporting(true);
+        try {
+            const attachments: Record<string, string> = {};
+            const missingFiles: string[] = [];
+            for (const attachment of expenses.flatMap(exp => exp.attachments || [])) {
+                const blob = await getExpenseAttachment(attachment);
+                if (blob) attachments[attachment.storageKey] = await blobToDataUrl(blob);
+                else missingFiles.push(attachment.fileName);
+            }
+            downloadFile(`spenditure-backup-${fileDate}.json`, buildBackupJson(userProfile, collections, attachments), 'application/json');
+            if (missingFiles.length > 0) {
+                setModalTitle("Receipts Missing");
+                setModalMessage(`The backup was downloaded without these receipts, which could not be found: ${missingFiles.join(', ')}.`);
+                setIsModalOpen(true);
+            }
+        } catch (error: unknown) {
+            setModalTitle("Error");
+            setModalMessage(`Failed to export the backup: ${(error as Error).message}`);
+            setIsModalOpen(true);
+        } finally {
+            setIsExporting(false);
+        }
+    };
 
-            <div className="lg:grid lg:grid-cols-3 lg:gap-8 flex flex-col items-stretch">
-                {/* Left Column: New Combined Cards */}
-                <div className="lg:col-span-1 flex flex-col gap-6 mb-8 lg:mb-0">
-                    {/* Projected Balance Card */}
-                    <div
-                        className="bg-white rounded-lg shadow-md p-6 border-b-4 border-orange-500 cursor-pointer hover:shadow-lg transition-shadow duration-200"
-                        onClick={() => setShowProjectedDetails(!showProjectedDetails)}
-                    >
-                        <h2 className="text-lg font-semibold text-gray-700 mb-2">Projected Balance</h2>
-                        <p className="text-4xl font-bold text-orange-600">
-                            PHP {projectedOverallBalance.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
-                        </p>
-                        <h3 className="text-md font-semibold text-gray-700 mt-4 mb-2">Upcoming Income:</h3>
-                        {upcomingIncomesForDisplay.length === 0 ? (
-                            <p className="text-sm text-gray-600">No upcoming income listed.</p>
-                        ) : (
-                            <ul className="list-disc list-inside text-sm text-gray-800 space-y-1">
-                                {upcomingIncomesForDisplay.map((income: IncomeItem) => (
-                                    <li key={income.id}>
-                                        {income.client} (PHP {income.amount.toLocaleString()}) - {income.dueDate.toLocaleDateString()}
-                                    </li>
-                                ))}
-                            </ul>
-                        )}
-                        <p className="text-xs text-gray-500 mt-4">Click to {showProjectedDetails ? 'hide' : 'show'} details</p>
+    const csvExports: { label: string; fileName: string; count: number; build: () => string }[] = [
+        {
+            label: 'Incomes',
+            fileName: 'incomes',
+            count: incomes.length,
+            build: () => toCsv(['Client', 'Amount', 'Currency', 'Due Date', 'Status', 'Paid On', 'Account', 'Invoice Number', 'Invoice Status', 'In Directory', 'Created At'],
+                incomes.map(inc => [
+                    inc.client, inc.amount, getRecordCurrency(inc), inc.dueDate, inc.status, getIncomePaidDate(inc) || '', getAccountName(accounts, inc.accountId, defaultAccountId),
+                    inc.invoice?.number, inc.invoice ? invoiceStatusLabels[inc.invoice.status] : '', inc.clientId ? 'Yes' : 'No', inc.createdAt.toISOString(),
+                ])),
+        },
+        {
+            label: 'Expenses',
+            fileName: 'expenses',
+            count: expenses.length,
+            build: () => toCsv(['Date', 'Vendor', 'Category', 'Amount', 'Currency', 'Description', 'Account', 'Receipts', 'Created At'],
+                expenses.map(exp => [
+                    exp.date, exp.vendor, exp.category, exp.amount, getRecordCurrency(exp), exp.description, getAccountName(accounts, exp.accountId, defaultAccountId),
+                    (exp.attachments || []).map(attachment => attachment.fileName).join('; '), exp.createdAt.toISOString(),
+                ])),
+        },
+        {
+            label: 'Recurring Expenses',
+            fileName: 'recurring-expenses',
+            count: recurringExpenses.length,
+            build: () => toCsv(['Vendor', 'Category', 'Amount', 'Currency', 'Frequency', 'Start Date', 'End Date', 'Day of Month Rule', 'Day of Month'],
+                recurringExpenses.map(rec => [rec.vendor, rec.category, rec.amount, getRecordCurrency(rec), rec.frequency, rec.startDate, rec.endDate, rec.dayOfMonthRule, rec.dayOfMonth])),
+        },
+        {
+            label: 'Recurring Incomes',
+            fileName: 'recurring-incomes',
+            count: recurringIncomes.length,
+            build: () => toCsv(['Client', 'Amount', 'Currency', 'Frequency', 'Start Date', 'End Date', 'Day of Month Rule', 'Day of Month', 'Last Generated'],
+                recurringIncomes.map(rec => [rec.client, rec.amount, getRecordCurrency(rec), rec.frequency, rec.startDate, rec.endDate, rec.dayOfMonthRule, rec.dayOfMonth, rec.lastGeneratedDate])),
+        },
+        {
+            label: 'Accounts',
+            fileName: 'accounts',
+            count: accounts.length,
+            build: () => toCsv(['Name', 'Type', 'Currency', 'Opening Balance', 'Opening Date', 'Balance', 'Archived', 'Credit Limit', 'Statement Closing Day', 'Payment Due Day'],
+                getAccountBalances(accounts, userProfile, incomes, expenses, transfers, new Date()).map(({ account, balance }) => [
+                    account.name, accountTypeLabels[account.type], getRecordCurrency(account), account.openingBalance, account.openingDate, balance, account.archived ? 'Yes' : 'No',
+                    account.creditLimit, account.statementClosingDay, account.paymentDueDay,
+                ])),
+        },
+        {
+            label: 'Clients',
+            fileName: 'clients',
+            count: clients.length,
+            build: () => toCsv(['Name', 'Contact Person', 'Email', 'Phone', 'Address', 'TIN', 'Payment Terms (Days)'],
+                clients.map(client => [client.name, client.contactName, client.email, client.phone, client.address, client.taxId, client.defaultPaymentTermsDays])),
+        },
+        {
+            label: 'Transfers',
+            fileName: 'transfers',
+            count: transfers.length,
+            build: () => toCsv(['Date', 'From', 'To', 'Amount', 'Currency', 'Description'],
+                transfers.map(transfer => [
+                    transfer.date, getAccountName(accounts, transfer.fromAccountId, null), getAccountName(accounts, transfer.toAccountId, null), transfer.amount, getRecordCurrency(transfer), transfer.description,
+                ])),
+        },
+        {
+            // Same columns the exchange-rate import reads, so the file can be edited and imported back
+            label: 'Exchange Rates',
+            fileName: 'exchange-rates',
+            count: userProfile?.exchangeRates?.length || 0,
+            build: () => toCsv(['Date', 'Currency', 'Rate', 'Base'],
+                (userProfile?.exchangeRates || []).map(rate => [rate.date, rate.currency, rate.rate, rate.base])),
+        },
+        {
+            label: 'Deductions',
+            fileName: 'deductions',
+            count: userProfile?.deductions.length || 0,
+            build: () => toCsv(['Name', 'Amount'], (userProfile?.deductions || []).map(ded => [ded.name, ded.amount])),
+        },
+        {
+            label: 'Loans',
+            fileName: 'loans',
+            count: userProfile?.loans.length || 0,
+            build: () => toCsv(['Loan Name', 'Payment', 'Payment Frequency', 'Next Payment Date', 'Principal', 'Annual Interest Rate', 'Interest Method', 'Term (Payments)', 'Remaining Balance'],
+                (userProfile?.loans || []).map(loan => [
+                    loan.loanName, loan.amount, loan.paymentFrequency, loan.nextPaymentDate,
+                    loan.principal, loan.annualInterestRate, loan.interestMethod, loan.termPayments, getLoanBalance(loan, new Date()),
+                ])),
+        },
+    ];
 
-                        {showProjectedDetails && (
-                            <div className="mt-6 pt-4 border-t border-gray-200 animate-slide-down">
-                                <h4 className="font-medium text-gray-800 mb-2">Detailed Projection:</h4>
-                                <div className="space-y-2 text-gray-700">
-                                    <p><strong className="font-medium">Current Cash Balance:</strong> PHP {currentCashBalance.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</p>
-                                    {userProfile?.salaryIncome && userProfile.salaryIncome > 0 && (
-                                        <p><strong className="font-medium">Estimated Salary Income:</strong> PHP {userProfile.salaryIncome.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })} ({userProfile.salaryFrequency})</p>
-                                    )}
-                                    {combinedUpcomingIncomes.length > 0 && (
-                                        <div>
-                                            <h5 className="font-medium text-gray-800 mt-4 mb-2">All Upcoming Incomes:</h5>
-                                            <ul className="list-disc list-inside text-sm pl-4 space-y-1">
-                                                {combinedUpcomingIncomes.map(item => (
-                                                    <li key={item.id}>
-                                                        {item.client}: PHP {item.amount.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })} (Due: {item.dueDate.toLocaleDateString()})
-                                                    </li>
-                                                ))}
-                                            </ul>
-                                        </div>
-                                    )}
-                                    {combinedUpcomingIncomes.length === 0 && userProfile?.salaryIncome === 0 && (
-                                        <p className="text-sm text-gray-500">No specific upcoming income details available.</p>
-                                    )}
-                                </div>
-                            </div>
-                        )}
-                    </div>
+    const handleBackupFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = ''; // Allow re-selecting the same file
+        if (!file) return;
+        try {
+            setPendingBackup(parseBackupJson(await file.text()));
+            setPendingFileName(file.name);
+        } catch (error: unknown) {
+            setPendingBackup(null);
+            setModalTitle("Invalid Backup");
+            setModalMessage(`${file.name} could not be restored: ${(error as Error).message}`);
+            setIsModalOpen(true);
+        }
+    };
 
-                    {/* Expenses Card (Current Month) */}
-                    <div
-                        className="bg-white rounded-lg shadow-md p-6 border-b-4 border-amber-700 cursor-pointer hover:shadow-lg transition-shadow duration-200"
-                        onClick={() => setShowExpenseDetails(!showExpenseDetails)}
-                    >
-                        <h2 className="text-lg font-semibold text-gray-700 mb-2">Current Month Expenses</h2>
-                        <p className="text-4xl font-bold text-amber-800">
-                            PHP {totalCurrentMonthExpenses.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
-                        </p>
-                        <p className="text-sm text-gray-500 mt-2">
-                            Total expenses for {new Date().toLocaleString('default', { month: 'long', year: 'numeric' })}
-                        </p>
-                        <p className="text-xs text-gray-500 mt-4">Click to {showExpenseDetails ? 'hide' : 'show'} breakdown</p>
+    const handleRestoreClick = () => {
+        setModalTitle("Confirm Restore");
+        setModalMessage(restoreMode === 'replace'
+            ? "Replacing will delete any incomes, expenses and schedules that are not in the backup and overwrite your profile. This cannot be undone."
+            : "Records from the backup will be added, and records with the same id will be overwritten by the backup version.");
+        setIsConfirmModalOpen(true);
+    };
 
-                        {showExpenseDetails && (
-                            <div className="mt-6 pt-4 border-t border-gray-200 animate-slide-down">
-                                <h4 className="font-medium text-gray-800 mb-2">Detailed Breakdown:</h4>
-                                {sortedMonthlyCategories.length === 0 ? (
-                                    <p className="text-gray-600">No expenses recorded for the current month.</p>
-                                ) : (
-                                    <div className="space-y-2">
-                                        {sortedMonthlyCategories.map(([category, amount]) => (
-                                            <div key={category} className="flex justify-between items-center border-b border-gray-100 py-1">
-                                                <span className="text-gray-700 font-medium">{category}:</span>
-                                                <span className="text-gray-900 font-semibold">PHP {amount.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</span>
-                                            </div>
-                                        ))}
-                                        <div className="pt-2 font-bold flex justify-between items-center text-lg text-gray-800">
-                                            <span>Total:</span>
-                                            <span>PHP {Object.values(monthlyExpensesByCategory).reduce((sum: number, val: number) => sum + val, 0).toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</span> {/* Explicitly typed */}
-                                        </div>
-                                    </div>
-                                )}
-                            </div>
-                        )}
-                    </div>
-                </div>
+    const confirmRestore = async () => {
+        if (!pendingBackup) return;
+        setIsConfirmModalOpen(false);
+        setIsRestoring(true);
+        try {
+            await restoreData(pendingBackup, restoreMode);
+            setModalTitle("Success!");
+            setModalMessage(`Data restored from ${pendingFileName}.`);
+            setPendingBackup(null);
+            setPendingFileName('');
+        } catch (error: unknown) {
+            setModalTitle("Error");
+            setModalMessage(`Failed to restore data: ${(error as Error).message}`);
+        } finally {
+            setIsRestoring(false);
+            setIsModalOpen(true);
+        }
+    };
 
-                {/* Middle Column: AI-Powered Cash Flow Projection Chart */}
-                <div className="lg:col-span-1 bg-white rounded-lg shadow-md p-6 mb-8 lg:mb-0 flex flex-col justify-between">
-                    <div>
-                        <h2 className="text-xl font-semibold text-gray-700 mb-2">AI-Powered Cash Flow Projection</h2>
-                        {potentialShortfallDate ? (
-                            <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded-md relative text-sm mb-4">
-                                <strong className="font-bold">AI Alert!</strong>{' '}
-                                <span className="block sm:inline">Potential cash shortfall predicted around {potentialShortfallDate.toLocaleDateString()}. Consider reviewing your finances.</span>
-                            </div>
-                        ) : (
-                            <div className="bg-emerald-100 border border-emerald-400 text-emerald-700 px-4 py-3 rounded-md relative text-sm mb-4">
-                                <strong className="font-bold">Good News!</strong>{' '}
-                                <span className="block sm:inline">Cash flow looks healthy for the projected period.</span>
-                            </div>
-                        )}
-                    </div>
-                    <div className="flex-grow flex items-center justify-center">
-                        <div className="h-full w-full min-h-[300px]">
-                            <Line data={chartData} options={chartOptions} />
-                        </div>
-                    </div>
-                    <p className="text-xs text-gray-500 mt-4 text-center">
-                        *This projection is based on your recorded income and expenses, and a simplified trend analysis for the MVP. More advanced AI models will be added in future updates.
+    return (
+        <div className="bg-white rounded-lg shadow-md p-6 mb-8">
+            <h2 className="text-xl font-semibold text-gray-700 mb-2">Backup & Restore</h2>
+            <p className="text-sm text-gray-600 mb-4">
+                {storageBackend === 'local'
+                    ? 'Your data is stored offline in this browser (localStorage). Download a backup to move it to another device.'
+                    : 'Your data is stored in Firestore and syncs across your signed-in devices.'}
+            </p>
+
+            <div className="grid grid-cols-1 gap-8 md:grid-cols-2">
+                <div>
+                    <h3 className="text-lg font-semibold text-gray-700 mb-2">Export</h3>
+                    <p className="text-sm text-gray-600 mb-4">
+                        The JSON backup contains everything, including your profile, deductions, loans and receipts, and can be restored later. CSV files are for spreadsheets.
                     </p>
+                    <button
+                        onClick={handleExportJson}
+                        className="bg-orange-500 hover:bg-orange-600 text-white font-bold py-2 px-4 rounded-md transition duration-200 shadow-sm cursor-pointer mb-4 disabled:opacity-70 disabled:cursor-not-allowed"
+                        disabled={isExporting}
+                    >
+                        {isExporting ? 'Preparing Backup...' : 'Download Full Backup (JSON)'}
+                    </button>
+                    <ul className="space-y-2">
+                        {csvExports.map(csvExport => (
+                            <li key={csvExport.fileName} className="flex justify-between items-center text-sm text-gray-800 border-b border-gray-100 py-1">
+                                <span>{csvExport.label} ({csvExport.count})</span>
+                                <button
+                                    onClick={() => downloadFile(`spenditure-${csvExport.fileName}-${fileDate}.csv`, csvExport.build(), 'text/csv')}
+                                    className="px-2 py-1 text-sm font-medium text-blue-700 hover:text-blue-900 transition duration-200"
+                                >
+                                    Download CSV
+                                </button>
+                            </li>
+                        ))}
+                    </ul>
                 </div>
 
-                {/* Right Column: Expense Categories Breakdown Chart */}
-                <div className="lg:col-span-1 bg-white rounded-lg shadow-md p-6 flex flex-col justify-between">
-                    <div>
-                        <h2 className="text-xl font-semibold text-gray-700 mb-4">Expense Categories Breakdown (Overall)</h2>
-                    </div>
-                    {pieChartDataValues.length === 0 ? (
-                        <p className="text-gray-600 text-center py-4">No expense data to display for categories yet. Add some expenses!</p>
-                    ) : (
-                        <div className="flex-grow flex items-center justify-center">
-                            <div className="h-full w-full min-h-[300px]">
-                                <Pie data={pieChartData} options={pieChartOptions} />
+                <div>
+                    <h3 className="text-lg font-semibold text-gray-700 mb-2">Restore</h3>
+                    <p className="text-sm text-gray-600 mb-4">Restore from a Spenditure JSON backup. The file is checked before anything is written.</p>
+                    <label className="inline-block bg-gray-200 hover:bg-gray-300 text-gray-800 font-bold py-2 px-4 rounded-md transition duration-200 cursor-pointer">
+                        Choose Backup File
+                        <input type="file" accept=".json,application/json" onChange={handleBackupFileChange} className="hidden" />
+                    </label>
+
+                    {pendingBackup && (
+                        <div className="mt-4 bg-gray-50 p-4 rounded-lg border border-gray-200 text-sm text-gray-800">
+                            <p className="font-semibold mb-2">{pendingFileName}</p>
+                            <p className="text-xs text-gray-500 mb-2">Exported {pendingBackup.exportedAt.toLocaleString()}</p>
+                            <ul className="mb-4 space-y-1">
+                                {backupCollectionNames.map(name => (
+                                    <li key={name}>{name}: {pendingBackup.collections[name].length} record{pendingBackup.collections[name].length === 1 ? '' : 's'}</li>
+                                ))}
+                                <li>Profile: {pendingBackup.profile ? 'included' : 'not included'}</li>
+                                <li>Receipts: {Object.keys(pendingBackup.attachments).length} file{Object.keys(pendingBackup.attachments).length === 1 ? '' : 's'}</li>
+                            </ul>
+                            <div className="space-y-2 mb-4">
+                                <label className="flex items-center cursor-pointer">
+                                    <input
+                                        type="radio"
+                                        name="restoreMode"
+                                        checked={restoreMode === 'merge'}
+                                        onChange={() => setRestoreMode('merge')}
+                                        className="mr-2 accent-orange-500"
+                                    />
+                                    Merge with my current data
+                                </label>
+                                <label className="flex items-center cursor-pointer">
+                                    <input
+                                        type="radio"
+                                        name="restoreMode"
+                                        checked={restoreMode === 'replace'}
+                                        onChange={() => setRestoreMode('replace')}
+                                        className="mr-2 accent-orange-500"
+                                    />
+                                    Replace my current data
+                                </label>
                             </div>
+                            <button
+                                onClick={handleRestoreClick}
+                                className="bg-orange-500 hover:bg-orange-600 text-white font-bold py-2 px-4 rounded-md transition duration-200 shadow-sm cursor-pointer disabled:opacity-70 disabled:cursor-not-allowed"
+                                disabled={isRestoring}
+                            >
+                                {isRestoring ? 'Restoring...' : 'Restore Backup'}
+                            </button>
                         </div>
                     )}
-                    <p className="text-xs text-gray-500 mt-4 text-center">
-                        *This chart visualizes the distribution of your recorded expenses by category.
-                    </p>
                 </div>
             </div>
+
+            <Modal
+                isOpen={isModalOpen}
+                title={modalTitle}
+                message={modalMessage}
+                onClose={() => setIsModalOpen(false)}
+            />
+            <Modal
+                isOpen={isConfirmModalOpen}
+                title={modalTitle}
+                message={modalMessage}
+                onClose={() => setIsConfirmModalOpen(false)}
+                onConfirm={confirmRestore}
+                showConfirmButton={true}
+            />
         </div>
     );
 };
 
 
+// --- Component: DataManagement (Consolidated) ---
+const DataManagement: React.FC<DataManagementComponentProps> = ({ baseCurrency, incomes, expenses, addIncome, addExpense, expenseCategories, accounts, defaultAccountId, userProfile, updateUserProfile, recurringExpenses, recurringIncomes, transfers, clients, restoreData, getExpenseAttachment }) => (
+    <div className="max-w-6xl mx-auto p-4 md:p-8">
+        <h1 className="text-3xl font-bold text-gray-800 mb-6">Data Management</h1>
+        <CsvImport
+            baseCurrency={baseCurrency}
+            incomes={incomes}
+            expenses={expenses}
+            addIncome={addIncome}
+            addExpense={addExpense}
+            expenseCategories={expenseCategories}
+            accounts={accounts}
+            defaultAccountId={defaultAccountId}
+        />
+        <CurrencySettings
+            userProfile={userProfile}
+            updateUserProfile={updateUserProfile}
+        />
+        <HolidayCalendarSettings
+            userProfile={userProfile}
+            updateUserProfile={updateUserProfile}
+        />
+        <DataBackup
+            userProfile={userProfile}
+            incomes={incomes}
+            expenses={expenses}
+            recurringExpenses={recurringExpenses}
+            recurringIncomes={recurringIncomes}
+            accounts={accounts}
+            transfers={transfers}
+            clients={clients}
+            restoreData={restoreData}
+            getExpenseAttachment={getExpenseAttachment}
+        />
+    </div>
+);
+
+
 // --- Main App Component ---
 export default function App() {
     const {
-        userId, userName, isAuthReady, incomes, expenses, userProfile,
+        userId, userName, isAuthReady, incomes, expenses, recurringExpenses, recurringIncomes, accounts, transfers, clients, userProfile,
         login, signup, logout,
-        addIncome, updateIncomeStatus, deleteIncome,
-        addExpense, deleteExpense,
-        updateUserProfile,
+        addIncome, updateIncomeStatus, updateIncome, saveInvoice, deleteIncome,
+        addRecurringIncome, deleteRecurringIncome,
+        addExpense, updateExpense, deleteExpense, addExpenseAttachments, removeExpenseAttachment, getExpenseAttachment,
+        addRecurringExpense, deleteRecurringExpense,
+        addAccount, updateAccount, deleteAccount, addTransfer, deleteTransfer,
+        addClient, updateClient, deleteClient, mergeClientNames,
+        updateUserProfile, restoreData,
+        saveExpenseCategories, updateExpenseCategory, mergeExpenseCategories,
         modalInfo, closeModal,
-        firebaseInitialized
+        firebaseInitialized, storageBackend
     } = useFirebaseData();
 
     const [currentPage, setCurrentPage] = useState<string>('dashboard');
+    const expenseCategories = getExpenseCategories(userProfile, expenses);
+    const defaultAccountId = getDefaultAccountId(userProfile, accounts);
+    const baseCurrency = getBaseCurrency(userProfile);
+    const currencyOptions = getCurrencyOptions(userProfile);
 
-    if (!firebaseInitialized) {
+    if (storageBackend === 'firestore' && !firebaseInitialized) {
         return (
             <>
                 <Modal
@@ -2431,25 +11350,126 @@ export default function App() {
             <Navbar
                 userId={userId}
                 userName={userName}
-                onLogout={logout}
+                onLogout={storageBackend === 'firestore' ? logout : undefined}
                 currentPage={currentPage}
                 setCurrentPage={setCurrentPage}
             />
             <main className="pb-8 w-full">
-                {currentPage === 'dashboard' && <Dashboard incomes={incomes} expenses={expenses} userProfile={userProfile} />}
+                {currentPage === 'dashboard' && (
+                    <Dashboard
+                        incomes={incomes}
+                        expenses={expenses}
+                        recurringExpenses={recurringExpenses}
+                        recurringIncomes={recurringIncomes}
+                        accounts={accounts}
+                        transfers={transfers}
+                        userProfile={userProfile}
+                        updateUserProfile={updateUserProfile}
+                    />
+                )}
                 {currentPage === 'income' && (
                     <Income
+                        userProfile={userProfile}
+                        updateUserProfile={updateUserProfile}
+                        clients={clients}
                         addIncome={addIncome}
+                        saveInvoice={saveInvoice}
                         incomes={incomes}
+                        accounts={accounts}
+                        defaultAccountId={defaultAccountId}
                         updateIncomeStatus={updateIncomeStatus}
+                        updateIncome={updateIncome}
                         deleteIncome={deleteIncome}
+                        baseCurrency={baseCurrency}
+                        currencyOptions={currencyOptions}
+                        recurringIncomes={recurringIncomes}
+                        addRecurringIncome={addRecurringIncome}
+                        deleteRecurringIncome={deleteRecurringIncome}
+                    />
+                )}
+                {currentPage === 'clients' && (
+                    <Clients
+                        clients={clients}
+                        incomes={incomes}
+                        recurringIncomes={recurringIncomes}
+                        userProfile={userProfile}
+                        addClient={addClient}
+                        updateClient={updateClient}
+                        deleteClient={deleteClient}
+                        mergeClientNames={mergeClientNames}
                     />
                 )}
                 {currentPage === 'expenses' && (
                     <Expense
                         addExpense={addExpense}
                         expenses={expenses}
+                        accounts={accounts}
+                        defaultAccountId={defaultAccountId}
+                        updateExpense={updateExpense}
                         deleteExpense={deleteExpense}
+                        addExpenseAttachments={addExpenseAttachments}
+                        removeExpenseAttachment={removeExpenseAttachment}
+                        getExpenseAttachment={getExpenseAttachment}
+                        baseCurrency={baseCurrency}
+                        currencyOptions={currencyOptions}
+                        recurringExpenses={recurringExpenses}
+                        addRecurringExpense={addRecurringExpense}
+                        deleteRecurringExpense={deleteRecurringExpense}
+                        expenseCategories={expenseCategories}
+                        saveExpenseCategories={saveExpenseCategories}
+                        updateExpenseCategory={updateExpenseCategory}
+                        mergeExpenseCategories={mergeExpenseCategories}
+                    />
+                )}
+                {currentPage === 'budgets' && (
+                    <Budgets
+                        userProfile={userProfile}
+                        updateUserProfile={updateUserProfile}
+                        expenses={expenses}
+                    />
+                )}
+                {currentPage === 'goals' && (
+                    <SavingsGoals
+                        userProfile={userProfile}
+                        updateUserProfile={updateUserProfile}
+                        accounts={accounts}
+                    />
+                )}
+                {currentPage === 'accounts' && (
+                    <Accounts
+                        accounts={accounts}
+                        transfers={transfers}
+                        incomes={incomes}
+                        expenses={expenses}
+                        recurringExpenses={recurringExpenses}
+                        recurringIncomes={recurringIncomes}
+                        userProfile={userProfile}
+                        addAccount={addAccount}
+                        updateAccount={updateAccount}
+                        deleteAccount={deleteAccount}
+                        addTransfer={addTransfer}
+                        deleteTransfer={deleteTransfer}
+                        updateUserProfile={updateUserProfile}
+                    />
+                )}
+                {currentPage === 'data' && (
+                    <DataManagement
+                        baseCurrency={baseCurrency}
+                        incomes={incomes}
+                        expenses={expenses}
+                        addIncome={addIncome}
+                        addExpense={addExpense}
+                        expenseCategories={expenseCategories}
+                        accounts={accounts}
+                        defaultAccountId={defaultAccountId}
+                        userProfile={userProfile}
+                        updateUserProfile={updateUserProfile}
+                        recurringExpenses={recurringExpenses}
+                        recurringIncomes={recurringIncomes}
+                        transfers={transfers}
+                        clients={clients}
+                        restoreData={restoreData}
+                        getExpenseAttachment={getExpenseAttachment}
                     />
                 )}
                 {currentPage === 'profile' && (
@@ -2458,6 +11478,10 @@ export default function App() {
                         updateUserProfile={updateUserProfile}
                         incomes={incomes}
                         expenses={expenses}
+                        recurringExpenses={recurringExpenses}
+                        recurringIncomes={recurringIncomes}
+                        accounts={accounts}
+                        transfers={transfers}
                     />
                 )}
             </main>
@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+import { addDays, toDateKey } from './dates';
+import { applySpendingRunRates, describeSpendingPattern, estimateSpendingBaseline, getBaselineAmount, getBaselineEvents, getMonthlyRunRate, type SpendingRecord } from './baseline';
+
+// One record per day from `from` for `days` days
+const daily = (category: string, from: Date, days: number, amountOn: (date: Date) => number): SpendingRecord[] =>
+    Array.from({ length: days }, (_, index) => addDays(from, index))
+        .map(date => ({ category, date, amount: amountOn(date) }))
+        .filter(record => record.amount > 0);
+
+describe('estimateSpendingBaseline', () => {
+    it('averages each category over the recent history, counting days without spending', () => {
+        const records = [
+            ...daily('Groceries', new Date(2025, 0, 1), 30, () => 100),
+            ...daily('Transport', new Date(2025, 0, 1), 30, date => (date.getDate() % 2 === 0 ? 50 : 0)),
+            { category: 'Groceries', date: new Date(2025, 0, 31), amount: 5000 }, // Today does not count yet
+        ];
+        const baselines = estimateSpendingBaseline(records, new Date(2025, 0, 31));
+        expect(baselines.map(baseline => [baseline.category, baseline.dailyAmount])).toEqual([['Groceries', 100], ['Transport', 25]]);
+        expect(getMonthlyRunRate(baselines[0])).toBe(3041.67);
+        expect(baselines[0].weekdayFactors).toEqual([1, 1, 1, 1, 1, 1, 1]);
+        expect(baselines[0].monthFactors).toEqual([1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1]);
+        expect(describeSpendingPattern(baselines[0])).toBe('Steady');
+    });
+
+    it('needs two weeks of history', () => {
+        expect(estimateSpendingBaseline(daily('Groceries', new Date(2025, 0, 20), 10, () => 100), new Date(2025, 0, 31))).toEqual([]);
+        expect(estimateSpendingBaseline([], new Date(2025, 0, 31))).toEqual([]);
+    });
+
+    it('learns which days of the week the money is spent', () => {
+        const saturdays = daily('Dining Out', new Date(2025, 0, 4), 28, date => (date.getDay() === 6 ? 700 : 0));
+        const [baseline] = estimateSpendingBaseline(saturdays, new Date(2025, 1, 1));
+        expect(baseline.dailyAmount).toBe(100);
+        expect(baseline.weekdayFactors).toEqual([0, 0, 0, 0, 0, 0, 7]);
+        expect(getBaselineAmount(baseline, new Date(2025, 1, 8))).toBe(700);
+        expect(getBaselineAmount(baseline, new Date(2025, 1, 9))).toBe(0);
+        expect(describeSpendingPattern(baseline)).toBe('Mostly Saturdays');
+    });
+
+    it('learns seasonality from a full year, taking it out of the recent average', () => {
+        const shopping = daily('Shopping', new Date(2024, 0, 1), 366, date => (date.getMonth() === 11 ? 300 : 100));
+        const [baseline] = estimateSpendingBaseline(shopping, new Date(2025, 0, 1));
+        expect(baseline.monthFactors[11] / baseline.monthFactors[1]).toBeCloseTo(3);
+        // The recent 90 days include December, yet the daily amount is the year's average
+        expect(baseline.dailyAmount).toBeCloseTo((334 * 100 + 31 * 300) / 365, 1);
+        expect(baseline.dailyAmount * baseline.monthFactors[11]).toBeCloseTo(300, 0);
+        expect(baseline.dailyAmount * baseline.monthFactors[1]).toBeCloseTo(100, 0);
+        expect(describeSpendingPattern(baseline)).toBe('Peaks in December');
+    });
+});
+
+describe('applySpendingRunRates', () => {
+    it('replaces estimates with the user\'s run-rates and adds categories without history', () => {
+        const saturdays = daily('Dining Out', new Date(2025, 0, 4), 28, date => (date.getDay() === 6 ? 700 : 0));
+        const adjusted = applySpendingRunRates(estimateSpendingBaseline(saturdays, new Date(2025, 1, 1)), [
+            { category: 'Dining Out', monthlyAmount: 365 / 12 * 50 },
+            { category: 'Pets', monthlyAmount: 365 / 12 * 20 },
+        ]);
+        expect(adjusted.map(baseline => [baseline.category, Math.round(baseline.dailyAmount)])).toEqual([['Dining Out', 50], ['Pets', 20]]);
+        expect(adjusted[0].weekdayFactors[6]).toBe(7); // The shape of the week is kept
+        expect(getBaselineAmount(adjusted[1], new Date(2025, 1, 9))).toBeCloseTo(20);
+    });
+});
+
+describe('getBaselineEvents', () => {
+    it('projects each category daily, less what is already scheduled', () => {
+        const [groceries] = estimateSpendingBaseline(daily('Groceries', new Date(2025, 0, 1), 30, () => 100), new Date(2025, 0, 31));
+        const events = getBaselineEvents([groceries], new Date(2025, 0, 31), new Date(2025, 1, 2), [
+            { category: 'Groceries', date: new Date(2025, 1, 1), amount: 40 },
+            { category: 'Groceries', date: new Date(2025, 1, 2), amount: 150 },
+            { category: 'Rent', date: new Date(2025, 1, 2), amount: 20000 },
+        ]);
+        expect(events.map(event => [event.kind, toDateKey(event.date), event.amount])).toEqual([
+            ['baseline', '2025-01-31', -100],
+            ['baseline', '2025-02-01', -60],
+        ]);
+        expect(events[0].label).toBe('Typical Groceries spending');
+    });
+});
@@ -0,0 +1,141 @@
+import { addDays, daysBetween, startOfDay, toDateKey } from './dates';
+import type { ForecastEvent } from './engine';
+import { monthNames } from './extraPay';
+import { weekdayNames } from './payday';
+
+export const DEFAULT_BASELINE_HISTORY_DAYS = 90;
+export const MIN_BASELINE_HISTORY_DAYS = 14;
+// Seasonality is only learned once there is a full year of history to compare the months with
+export const SEASONAL_HISTORY_DAYS = 365;
+export const DAYS_PER_MONTH = 365 / 12;
+
+// A past expense, already converted to the currency being projected
+export interface SpendingRecord {
+    category: string;
+    date: Date;
+    amount: number;
+}
+
+// What a category typically costs: a daily amount, shaped by the day of the week and the month of the year
+export interface CategoryBaseline {
+    category: string;
+    dailyAmount: number; // On an average day of an average month
+    weekdayFactors: number[]; // 0 (Sunday) to 6; averages 1
+    monthFactors: number[]; // 0 (January) to 11; all 1 without a year of history
+}
+
+// A monthly amount the user has set for a category, used instead of the estimate
+export interface SpendingRunRate {
+    category: string;
+    monthlyAmount: number;
+}
+
+export interface BaselineOptions {
+    historyDays?: number;
+    minHistoryDays?: number;
+}
+
+const flatFactors = (count: number): number[] => Array.from({ length: count }, () => 1);
+
+// Each bucket's average daily amount relative to the average over all days; 1 where a bucket has no days
+const getFactors = (days: { date: Date; amount: number }[], count: number, bucketOf: (date: Date) => number): number[] => {
+    const average = days.reduce((sum, day) => sum + day.amount, 0) / days.length;
+    if (!(average > 0)) return flatFactors(count);
+    const totals = flatFactors(count).map(() => ({ amount: 0, days: 0 }));
+    days.forEach(day => {
+        const bucket = totals[bucketOf(day.date)];
+        bucket.amount += day.amount;
+        bucket.days++;
+    });
+    return totals.map(bucket => (bucket.days > 0 ? bucket.amount / bucket.days / average : 1));
+};
+
+// Every day from `from` up to (not including) `to`, with the category's spending on it, zero on days without any
+const getDailyTotals = (records: SpendingRecord[], from: Date, to: Date): { date: Date; amount: number }[] => {
+    const totals = new Map<string, number>();
+    records.forEach(record => totals.set(toDateKey(record.date), (totals.get(toDateKey(record.date)) || 0) + record.amount));
+    const days: { date: Date; amount: number }[] = [];
+    for (let date = from; date.getTime() < to.getTime(); date = addDays(date, 1)) {
+        days.push({ date, amount: totals.get(toDateKey(date)) || 0 });
+    }
+    return days;
+};
+
+// Estimates each category's typical spending from the `historyDays` before today, or from the first record when the
+// history is shorter. Returns nothing with less than `minHistoryDays` of history. The day-of-week pattern comes from
+// the same window; the month-of-year pattern (more spent in December) from the past year, once there is one. Since
+// the recent window has its own season, its average is divided by its months' factors before they are applied again.
+export const estimateSpendingBaseline = (records: SpendingRecord[], today: Date, options: BaselineOptions = {}): CategoryBaseline[] => {
+    const end = startOfDay(today);
+    const past = records.filter(record => record.date.getTime() < end.getTime() && record.amount > 0);
+    if (past.length === 0) return [];
+    const firstDate = startOfDay(past.reduce((first, record) => (record.date.getTime() < first.getTime() ? record.date : first), past[0].date));
+    const windowStart = addDays(end, -(options.historyDays ?? DEFAULT_BASELINE_HISTORY_DAYS));
+    const start = firstDate.getTime() > windowStart.getTime() ? firstDate : windowStart;
+    if (daysBetween(start, end) < (options.minHistoryDays ?? MIN_BASELINE_HISTORY_DAYS)) return [];
+    const yearStart = addDays(end, -SEASONAL_HISTORY_DAYS);
+    const hasYear = firstDate.getTime() <= yearStart.getTime();
+
+    const categories = [...new Set(past.filter(record => record.date.getTime() >= start.getTime()).map(record => record.category))].sort();
+    return categories.map(category => {
+        const categoryRecords = past.filter(record => record.category === category);
+        const recentDays = getDailyTotals(categoryRecords, start, end);
+        const recentAverage = recentDays.reduce((sum, day) => sum + day.amount, 0) / recentDays.length;
+        const weekdayFactors = getFactors(recentDays, 7, date => date.getDay());
+        let monthFactors = hasYear ? getFactors(getDailyTotals(categoryRecords, yearStart, end), 12, date => date.getMonth()) : flatFactors(12);
+        const recentSeason = recentDays.reduce((sum, day) => sum + monthFactors[day.date.getMonth()], 0) / recentDays.length;
+        // A category new this season has no past-year pattern to go by
+        if (!(recentSeason > 0)) monthFactors = flatFactors(12);
+        const dailyAmount = recentSeason > 0 ? recentAverage / recentSeason : recentAverage;
+        return { category, dailyAmount: Math.round(dailyAmount * 100) / 100, weekdayFactors, monthFactors };
+    });
+};
+
+// A category's typical monthly spending, before seasonality
+export const getMonthlyRunRate = (baseline: CategoryBaseline): number => Math.round(baseline.dailyAmount * DAYS_PER_MONTH * 100) / 100;
+
+// The day of the week and the month the spending clusters on, e.g. "Mostly Saturdays · Peaks in December"; only a day
+// with at least half again the average, or a month with a fifth more, is worth mentioning
+export const describeSpendingPattern = (baseline: CategoryBaseline): string => {
+    const busiestDay = baseline.weekdayFactors.indexOf(Math.max(...baseline.weekdayFactors));
+    const peakMonth = baseline.monthFactors.indexOf(Math.max(...baseline.monthFactors));
+    return [
+        baseline.weekdayFactors[busiestDay] >= 1.5 ? `Mostly ${weekdayNames[busiestDay]}s` : '',
+        baseline.monthFactors[peakMonth] >= 1.2 ? `Peaks in ${monthNames[peakMonth]}` : '',
+    ].filter(Boolean).join(' · ') || 'Steady';
+};
+
+// The baselines with the user's run-rates in place of the estimates. The learned weekly and seasonal shape is kept;
+// a run-rate for a category without history spends the same every day.
+export const applySpendingRunRates = (baselines: CategoryBaseline[], runRates: SpendingRunRate[]): CategoryBaseline[] => {
+    const adjusted = baselines.map(baseline => {
+        const runRate = runRates.find(rate => rate.category === baseline.category);
+        return runRate ? { ...baseline, dailyAmount: runRate.monthlyAmount / DAYS_PER_MONTH } : baseline;
+    });
+    runRates.filter(rate => !baselines.some(baseline => baseline.category === rate.category)).forEach(rate => {
+        adjusted.push({ category: rate.category, dailyAmount: rate.monthlyAmount / DAYS_PER_MONTH, weekdayFactors: flatFactors(7), monthFactors: flatFactors(12) });
+    });
+    return adjusted;
+};
+
+// A category's expected spending on `date`
+export const getBaselineAmount = (baseline: CategoryBaseline, date: Date): number =>
+    baseline.dailyAmount * baseline.weekdayFactors[date.getDay()] * baseline.monthFactors[date.getMonth()];
+
+// One expense event per category per day from `from` through `to`. Spending already `scheduled` for a category on a
+// day (recorded or recurring expenses) counts towards that day's typical amount, so it is not projected twice.
+export const getBaselineEvents = (baselines: CategoryBaseline[], from: Date, to: Date, scheduled: SpendingRecord[] = []): ForecastEvent[] => {
+    const scheduledByDay = new Map<string, number>();
+    scheduled.forEach(record => {
+        const key = `${record.category}|${toDateKey(record.date)}`;
+        scheduledByDay.set(key, (scheduledByDay.get(key) || 0) + record.amount);
+    });
+    const events: ForecastEvent[] = [];
+    for (let date = startOfDay(from); date.getTime() <= startOfDay(to).getTime(); date = addDays(date, 1)) {
+        baselines.forEach(baseline => {
+            const amount = getBaselineAmount(baseline, date) - (scheduledByDay.get(`${baseline.category}|${toDateKey(date)}`) || 0);
+            if (amount >= 0.005) events.push({ kind: 'baseline', date, amount: -Math.round(amount * 100) / 100, label: `Typical ${baseline.category} spending` });
+        });
+    }
+    return events;
+};
@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+import { adjustToBusinessDay, getLastBusinessDay, isBusinessDay } from './businessDays';
+import { toDateKey } from './dates';
+
+describe('isBusinessDay', () => {
+    it('excludes weekends and holidays', () => {
+        expect(isBusinessDay(new Date(2025, 5, 13))).toBe(true); // Friday
+        expect(isBusinessDay(new Date(2025, 5, 14))).toBe(false); // Saturday
+        expect(isBusinessDay(new Date(2025, 5, 12), new Set(['2025-06-12']))).toBe(false);
+    });
+});
+
+describe('adjustToBusinessDay', () => {
+    const holidays = new Set(['2025-12-30', '2025-12-31']);
+
+    it('keeps business days and dates with no rule', () => {
+        expect(toDateKey(adjustToBusinessDay(new Date(2025, 11, 29), 'previous', holidays))).toBe('2025-12-29');
+        expect(toDateKey(adjustToBusinessDay(new Date(2025, 11, 27), 'none', holidays))).toBe('2025-12-27');
+    });
+
+    it('skips runs of weekends and holidays in either direction', () => {
+        expect(toDateKey(adjustToBusinessDay(new Date(2025, 11, 31), 'previous', holidays))).toBe('2025-12-29');
+        expect(toDateKey(adjustToBusinessDay(new Date(2025, 11, 27), 'next', holidays))).toBe('2025-12-29');
+        expect(toDateKey(adjustToBusinessDay(new Date(2025, 11, 30), 'next', holidays))).toBe('2026-01-01');
+    });
+});
+
+describe('getLastBusinessDay', () => {
+    it('steps back from month ends on weekends', () => {
+        expect(toDateKey(getLastBusinessDay(2025, 7))).toBe('2025-08-29'); // 31 August 2025 is a Sunday
+        expect(toDateKey(getLastBusinessDay(2024, 1))).toBe('2024-02-29');
+        expect(toDateKey(getLastBusinessDay(2026, 1))).toBe('2026-02-27');
+    });
+});
@@ -0,0 +1,25 @@
+import { addDays, getClampedDate, toDateKey } from './dates';
+
+// What to do with a scheduled date that lands on a weekend or holiday: keep it, or move it to the nearest business
+// day before or after it
+export type BusinessDayRule = 'none' | 'previous' | 'next';
+
+// Holidays are looked up by local date key (YYYY-MM-DD)
+export type HolidaySet = ReadonlySet<string>;
+
+export const isWeekend = (date: Date): boolean => date.getDay() === 0 || date.getDay() === 6;
+
+export const isBusinessDay = (date: Date, holidays: HolidaySet = new Set()): boolean =>
+    !isWeekend(date) && !holidays.has(toDateKey(date));
+
+export const adjustToBusinessDay = (date: Date, rule: BusinessDayRule, holidays: HolidaySet = new Set()): Date => {
+    if (rule === 'none') return date;
+    const step = rule === 'previous' ? -1 : 1;
+    let adjusted = date;
+    while (!isBusinessDay(adjusted, holidays)) adjusted = addDays(adjusted, step);
+    return adjusted;
+};
+
+// The last business day of a month. Months outside 0-11 roll over.
+export const getLastBusinessDay = (year: number, month: number, holidays: HolidaySet = new Set()): Date =>
+    adjustToBusinessDay(getClampedDate(year, month, 31), 'previous', holidays);
@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+import { bundledHolidayYears, getHolidays, getHolidaySet, getRuleBasedHolidays, getWorkingDaysInMonth } from './calendar';
+
+const dates = (holidays: { date: string }[]) => holidays.map(holiday => holiday.date);
+
+describe('bundled holiday files', () => {
+    it('are loaded for each year, in date order and within that year', () => {
+        expect(bundledHolidayYears).toEqual(expect.arrayContaining([2025, 2026]));
+        bundledHolidayYears.forEach(year => {
+            const holidays = getHolidays(year);
+            expect(holidays.length).toBeGreaterThan(0);
+            expect(holidays.every(holiday => holiday.date.startsWith(`${year}-`))).toBe(true);
+            expect(dates(holidays)).toEqual([...dates(holidays)].sort());
+        });
+    });
+
+    it('include every rule-based regular holiday of their year', () => {
+        bundledHolidayYears.forEach(year => {
+            expect(dates(getHolidays(year))).toEqual(expect.arrayContaining(dates(getRuleBasedHolidays(year))));
+        });
+    });
+
+    it('include special non-working days', () => {
+        expect(getHolidays(2025).find(holiday => holiday.date === '2025-08-21')).toEqual({ date: '2025-08-21', name: 'Ninoy Aquino Day', type: 'special-non-working' });
+    });
+});
+
+describe('getRuleBasedHolidays', () => {
+    it('places Holy Week and National Heroes Day, which move every year', () => {
+        expect(dates(getRuleBasedHolidays(2024))).toEqual(expect.arrayContaining(['2024-03-28', '2024-03-29', '2024-08-26']));
+        expect(dates(getRuleBasedHolidays(2027))).toEqual(expect.arrayContaining(['2027-03-25', '2027-03-26', '2027-08-30']));
+    });
+
+    it('is used for years without a data file', () => {
+        expect(getHolidays(2030)).toEqual(getRuleBasedHolidays(2030));
+    });
+});
+
+describe('getHolidays with edits', () => {
+    it('adds the user\'s holidays to their own year and drops removed ones', () => {
+        const edits = {
+            added: [
+                { date: '2025-09-08', name: 'Local town fiesta', type: 'special-non-working' as const },
+                { date: '2026-03-20', name: "Eid'l Fitr", type: 'regular' as const },
+            ],
+            removed: ['2025-10-31'],
+        };
+        const holidays = dates(getHolidays(2025, edits));
+        expect(holidays).toContain('2025-09-08');
+        expect(holidays).not.toContain('2026-03-20');
+        expect(holidays).not.toContain('2025-10-31');
+        expect(holidays.indexOf('2025-09-08')).toBeLessThan(holidays.indexOf('2025-11-01'));
+    });
+});
+
+describe('getHolidaySet', () => {
+    it('covers every year the range touches', () => {
+        const holidays = getHolidaySet(new Date(2025, 11, 1), new Date(2026, 0, 31));
+        expect(holidays.has('2025-12-25')).toBe(true);
+        expect(holidays.has('2026-01-01')).toBe(true);
+    });
+});
+
+describe('getWorkingDaysInMonth', () => {
+    it('leaves out weekends and holidays', () => {
+        // June 2025 has 21 weekdays, and Eid'l Adha (Friday the 6th) and Independence Day (Thursday the 12th) fall on two
+        expect(getWorkingDaysInMonth(2025, 5, getHolidaySet(new Date(2025, 0, 1), new Date(2025, 11, 31)))).toBe(19);
+        expect(getWorkingDaysInMonth(2025, 5, new Set())).toBe(21);
+    });
+
+    it('uses the given rest days', () => {
+        expect(getWorkingDaysInMonth(2025, 5, new Set(), [0])).toBe(25);
+    });
+
+    it('counts February 29 in leap years', () => {
+        expect(getWorkingDaysInMonth(2024, 1, new Set(), [])).toBe(29);
+        expect(getWorkingDaysInMonth(2025, 1, new Set(), [])).toBe(28);
+    });
+});
@@ -0,0 +1,102 @@
+import type { HolidaySet } from './businessDays';
+import { addDays, getClampedDate, parseDateInput, toDateKey } from './dates';
+
+// Regular holidays carry double pay; special non-working days are paid only when worked. Both close banks and offices.
+export type HolidayType = 'regular' | 'special-non-working';
+
+export interface Holiday {
+    date: string; // YYYY-MM-DD; a calendar day rather than a Date, so it is the same day in every timezone
+    name: string;
+    type: HolidayType;
+}
+
+// The user's changes to the bundled calendar: holidays they added, and dates of bundled holidays they removed
+export interface HolidayCalendarEdits {
+    added: Holiday[];
+    removed: string[];
+}
+
+// One file per year under ./holidays, following that year's proclamation. Add a file to cover a new year.
+interface HolidayDataFile {
+    year: number;
+    source: string;
+    holidays: Holiday[];
+}
+
+const holidayDataFiles = Object.values(import.meta.glob<HolidayDataFile>('./holidays/ph-*.json', { eager: true, import: 'default' }));
+
+export const bundledHolidayYears = holidayDataFiles.map(file => file.year).sort((a, b) => a - b);
+
+export const getHolidayDataSource = (year: number): string | null =>
+    holidayDataFiles.find(file => file.year === year)?.source || null;
+
+// Easter Sunday (Gregorian calendar, anonymous algorithm)
+const getEasterSunday = (year: number): Date => {
+    const a = year % 19;
+    const b = Math.floor(year / 100);
+    const c = year % 100;
+    const d = Math.floor(b / 4);
+    const e = b % 4;
+    const f = Math.floor((b + 8) / 25);
+    const g = Math.floor((b - f + 1) / 3);
+    const h = (19 * a + b - d - g + 15) % 30;
+    const i = Math.floor(c / 4);
+    const k = c % 4;
+    const l = (32 + 2 * e + 2 * i - h - k) % 7;
+    const m = Math.floor((a + 11 * h + 22 * l) / 451);
+    const month = Math.floor((h + l - 7 * m + 114) / 31);
+    const day = ((h + l - 7 * m + 114) % 31) + 1;
+    return new Date(year, month - 1, day);
+};
+
+// Regular holidays that follow a fixed rule (Republic Act 9492 and its amendments), used for years without a data
+// file. Eid'l Fitr, Eid'l Adha and special non-working days are proclaimed each year, so they are not included.
+export const getRuleBasedHolidays = (year: number): Holiday[] => {
+    const easter = getEasterSunday(year);
+    const endOfAugust = getClampedDate(year, 7, 31);
+    const regular = (date: Date, name: string): Holiday => ({ date: toDateKey(date), name, type: 'regular' });
+    return [
+        regular(new Date(year, 0, 1), "New Year's Day"),
+        regular(addDays(easter, -3), 'Maundy Thursday'),
+        regular(addDays(easter, -2), 'Good Friday'),
+        regular(new Date(year, 3, 9), 'Araw ng Kagitingan'),
+        regular(new Date(year, 4, 1), 'Labor Day'),
+        regular(new Date(year, 5, 12), 'Independence Day'),
+        regular(addDays(endOfAugust, -((endOfAugust.getDay() + 6) % 7)), 'National Heroes Day'), // Last Monday of August
+        regular(new Date(year, 10, 30), 'Bonifacio Day'),
+        regular(new Date(year, 11, 25), 'Christmas Day'),
+        regular(new Date(year, 11, 30), 'Rizal Day'),
+    ].sort((a, b) => a.date.localeCompare(b.date));
+};
+
+// The bundled holidays of a year, or the rule-based ones when no file covers it
+export const getBundledHolidays = (year: number): Holiday[] =>
+    holidayDataFiles.find(file => file.year === year)?.holidays || getRuleBasedHolidays(year);
+
+// A year's holidays after the user's edits, in date order
+export const getHolidays = (year: number, edits?: HolidayCalendarEdits | null): Holiday[] => {
+    const removed = new Set(edits?.removed || []);
+    return getBundledHolidays(year)
+        .filter(holiday => !removed.has(holiday.date))
+        .concat((edits?.added || []).filter(holiday => parseDateInput(holiday.date).getFullYear() === year))
+        .sort((a, b) => a.date.localeCompare(b.date));
+};
+
+// Dates of every holiday in the years touched by `from` through `to`, for the business-day helpers
+export const getHolidaySet = (from: Date, to: Date, edits?: HolidayCalendarEdits | null): HolidaySet => {
+    const dates = new Set<string>();
+    for (let year = from.getFullYear(); year <= to.getFullYear(); year++) {
+        getHolidays(year, edits).forEach(holiday => dates.add(holiday.date));
+    }
+    return dates;
+};
+
+// Days in a month that are neither rest days (weekdays, 0 = Sunday) nor holidays
+export const getWorkingDaysInMonth = (year: number, month: number, holidays: HolidaySet, restDays: number[] = [0, 6]): number => {
+    const firstDay = new Date(year, month, 1);
+    let workingDays = 0;
+    for (let date = firstDay; date.getMonth() === firstDay.getMonth(); date = addDays(date, 1)) {
+        if (!restDays.includes(date.getDay()) && !holidays.has(toDateKey(date))) workingDays++;
+    }
+    return workingDays;
+};
@@ -0,0 +1,94 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { addDays, daysBetween, getClampedDate, parseDateInput, startOfDay, toDateInputValue, toDateKey } from './dates';
+
+describe('getClampedDate', () => {
+    it('keeps a day that exists in the month', () => {
+        expect(toDateKey(getClampedDate(2025, 0, 31))).toBe('2025-01-31');
+    });
+
+    it('moves a day past the end of the month back to its last day', () => {
+        expect(toDateKey(getClampedDate(2025, 3, 31))).toBe('2025-04-30');
+        expect(toDateKey(getClampedDate(2025, 1, 30))).toBe('2025-02-28');
+    });
+
+    it('keeps February 29 in leap years only', () => {
+        expect(toDateKey(getClampedDate(2024, 1, 29))).toBe('2024-02-29');
+        expect(toDateKey(getClampedDate(2025, 1, 29))).toBe('2025-02-28');
+        expect(toDateKey(getClampedDate(2000, 1, 29))).toBe('2000-02-29');
+        expect(toDateKey(getClampedDate(2100, 1, 29))).toBe('2100-02-28');
+    });
+
+    it('rolls months outside 0-11 into the neighbouring years', () => {
+        expect(toDateKey(getClampedDate(2025, 12, 31))).toBe('2026-01-31');
+        expect(toDateKey(getClampedDate(2025, -1, 31))).toBe('2024-12-31');
+        expect(toDateKey(getClampedDate(2023, 13, 31))).toBe('2024-02-29');
+    });
+});
+
+describe('addDays', () => {
+    it('crosses month and year ends', () => {
+        expect(toDateKey(addDays(new Date(2025, 0, 31), 1))).toBe('2025-02-01');
+        expect(toDateKey(addDays(new Date(2024, 1, 28), 1))).toBe('2024-02-29');
+        expect(toDateKey(addDays(new Date(2025, 11, 31), 1))).toBe('2026-01-01');
+        expect(toDateKey(addDays(new Date(2025, 2, 1), -1))).toBe('2025-02-28');
+    });
+
+    it('drops the time of day', () => {
+        expect(addDays(new Date(2025, 5, 10, 18, 45), 0)).toEqual(new Date(2025, 5, 10));
+    });
+});
+
+describe('daysBetween', () => {
+    it('counts calendar days, ignoring the time of day', () => {
+        expect(daysBetween(new Date(2025, 0, 1, 23), new Date(2025, 0, 2, 1))).toBe(1);
+        expect(daysBetween(new Date(2024, 1, 1), new Date(2024, 2, 1))).toBe(29);
+        expect(daysBetween(new Date(2025, 2, 1), new Date(2025, 1, 1))).toBe(-28);
+    });
+});
+
+describe('parseDateInput', () => {
+    it('rejects values that are not real calendar dates', () => {
+        expect(parseDateInput('2025-02-29').getTime()).toBeNaN();
+        expect(parseDateInput('2025-13-01').getTime()).toBeNaN();
+        expect(parseDateInput('15/03/2025').getTime()).toBeNaN();
+        expect(parseDateInput('').getTime()).toBeNaN();
+    });
+
+    it('accepts February 29 in a leap year', () => {
+        expect(parseDateInput('2024-02-29')).toEqual(new Date(2024, 1, 29));
+    });
+});
+
+// Day keys and date inputs have to name the same calendar day whichever side of UTC the user is on, including
+// across a daylight saving change
+describe.each(['UTC', 'America/Los_Angeles', 'Asia/Manila', 'Pacific/Kiritimati', 'Pacific/Pago_Pago', 'Europe/London'])('in %s', timeZone => {
+    const originalTimeZone = process.env.TZ;
+    beforeEach(() => {
+        process.env.TZ = timeZone;
+    });
+    afterEach(() => {
+        process.env.TZ = originalTimeZone;
+    });
+
+    it('reads a date input as local midnight of that day', () => {
+        const date = parseDateInput('2025-03-15');
+        expect([date.getFullYear(), date.getMonth(), date.getDate(), date.getHours()]).toEqual([2025, 2, 15, 0]);
+    });
+
+    it('round-trips date input values', () => {
+        ['2024-02-29', '2025-01-01', '2025-03-09', '2025-03-30', '2025-11-02', '2025-12-31'].forEach(value => {
+            expect(toDateInputValue(parseDateInput(value))).toBe(value);
+        });
+    });
+
+    it('keys a late-evening time by its local day', () => {
+        expect(toDateKey(new Date(2025, 11, 31, 23, 30))).toBe('2025-12-31');
+        expect(toDateKey(startOfDay(new Date(2025, 0, 1, 0, 30)))).toBe('2025-01-01');
+    });
+
+    it('steps over daylight saving changes one calendar day at a time', () => {
+        const keys = [0, 1, 2].map(days => toDateKey(addDays(new Date(2025, 2, 8), days)));
+        expect(keys).toEqual(['2025-03-08', '2025-03-09', '2025-03-10']);
+        expect(daysBetween(new Date(2025, 10, 1), new Date(2025, 10, 3))).toBe(2);
+    });
+});
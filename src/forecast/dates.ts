@@ -0,0 +1,37 @@
+// Calendar-day helpers for the forecast. Every date here is a local midnight: a day is identified by its local year,
+// month and day, never by its UTC instant, so a record saved for the 15th stays on the 15th in every timezone.
+
+// Local midnight at the start of `date`'s day
+export const startOfDay = (date: Date): Date =>
+    new Date(date.getFullYear(), date.getMonth(), date.getDate());
+
+// Local midnight `days` calendar days after `date` (negative to go back). Counts days rather than milliseconds, so it
+// is not thrown off by daylight saving changes.
+export const addDays = (date: Date, days: number): Date =>
+    new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+
+// Day `day` of a month, moved back to the month's last day when the month is shorter. Months outside 0-11 roll over.
+export const getClampedDate = (year: number, month: number, day: number): Date =>
+    new Date(year, month, Math.min(day, new Date(year, month + 1, 0).getDate()));
+
+// Whole calendar days from `from` to `to`; negative when `to` is earlier
+export const daysBetween = (from: Date, to: Date): number =>
+    Math.round((Date.UTC(to.getFullYear(), to.getMonth(), to.getDate()) - Date.UTC(from.getFullYear(), from.getMonth(), from.getDate())) / 86400000);
+
+const pad = (value: number): string => String(value).padStart(2, '0');
+
+// Local YYYY-MM-DD, used to bucket events by day and as the value of date inputs
+export const toDateKey = (date: Date): string =>
+    `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+
+export const toDateInputValue = toDateKey;
+
+// Reads a YYYY-MM-DD date input as local midnight. `new Date('2025-03-15')` would be UTC midnight instead, which is
+// the 14th anywhere west of Greenwich. Returns an invalid date when the value is not a real calendar date.
+export const parseDateInput = (value: string): Date => {
+    const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value.trim());
+    if (!match) return new Date(NaN);
+    const [year, month, day] = [Number(match[1]), Number(match[2]) - 1, Number(match[3])];
+    const date = new Date(year, month, day);
+    return date.getFullYear() === year && date.getMonth() === month && date.getDate() === day ? date : new Date(NaN);
+};
@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import { toDateKey } from './dates';
+import { getPayoffOrder, planDebtPayoff, type PayoffDebt } from './debtPayoff';
+
+const creditCard: PayoffDebt = { id: 'card', name: 'Credit Card', balance: 30000, annualInterestRate: 36, minimumPayment: 1500, nextPaymentDate: new Date(2025, 0, 15) };
+const salaryLoan: PayoffDebt = { id: 'salary', name: 'Salary Loan', balance: 10000, annualInterestRate: 12, minimumPayment: 1000, nextPaymentDate: new Date(2025, 0, 31) };
+const carLoan: PayoffDebt = { id: 'car', name: 'Car Loan', balance: 200000, annualInterestRate: 9, minimumPayment: 8000, nextPaymentDate: new Date(2025, 0, 5) };
+const debts = [creditCard, salaryLoan, carLoan];
+
+describe('getPayoffOrder', () => {
+    it('orders by smallest balance, highest rate or the given order', () => {
+        expect(getPayoffOrder(debts, 'snowball')).toEqual(['salary', 'card', 'car']);
+        expect(getPayoffOrder(debts, 'avalanche')).toEqual(['card', 'salary', 'car']);
+        expect(getPayoffOrder(debts, 'custom', ['car', 'gone'])).toEqual(['car', 'salary', 'card']);
+    });
+});
+
+describe('planDebtPayoff', () => {
+    it('pays only the minimums without an extra budget', () => {
+        const plan = planDebtPayoff([salaryLoan], 'snowball', 0);
+        expect(plan.months[0].interest).toEqual([100]);
+        expect(plan.months[0].balances).toEqual([9100]);
+        expect(plan.months.length).toBe(11);
+        expect(plan.months[10].payments[0]).toBeLessThan(1000); // The last payment only clears what is left
+        expect(plan.debtFreeDate && toDateKey(plan.debtFreeDate)).toBe('2025-11-30');
+        expect(plan.totalPaid).toBeCloseTo(10000 + plan.totalInterest, 2);
+    });
+
+    it('sends the extra budget down the order and rolls freed-up minimums over', () => {
+        const plan = planDebtPayoff(debts, 'snowball', 4000);
+        expect(plan.months[0].payments).toEqual([1500, 5000, 8000]);
+        const salaryPayoff = plan.debts[1].payoffDate as Date;
+        expect(toDateKey(salaryPayoff)).toBe('2025-03-31');
+        // What the last salary loan payment leaves over goes to the card that month, and all of it from April
+        expect(plan.months[2].payments[1]).toBe(152.51);
+        expect(plan.months[2].payments[0]).toBe(1500 + 5000 - 152.51);
+        expect(plan.months[3].payments[0]).toBe(1500 + 1000 + 4000);
+        expect(plan.months.every(month => month.payments.reduce((sum, payment) => sum + payment, 0) <= 1500 + 1000 + 8000 + 4000 + 0.001)).toBe(true);
+    });
+
+    it('saves interest with the avalanche over the snowball', () => {
+        const snowball = planDebtPayoff(debts, 'snowball', 4000);
+        const avalanche = planDebtPayoff(debts, 'avalanche', 4000);
+        expect(avalanche.totalInterest).toBeLessThan(snowball.totalInterest);
+        expect(avalanche.months[0].payments).toEqual([5500, 1000, 8000]);
+        expect(planDebtPayoff(debts, 'avalanche', 0).totalInterest).toBeGreaterThan(avalanche.totalInterest);
+    });
+
+    it('charges add-on interest however much is left', () => {
+        const addOn: PayoffDebt = { ...salaryLoan, fixedMonthlyInterest: 100 };
+        const plan = planDebtPayoff([addOn], 'snowball', 5000);
+        expect(plan.months.map(month => month.interest[0])).toEqual([100, 100]);
+        expect(plan.months.map(month => month.balances[0])).toEqual([4100, 0]);
+    });
+
+    it('never pays off a debt whose interest outgrows its payments', () => {
+        const plan = planDebtPayoff([{ ...creditCard, minimumPayment: 500 }], 'avalanche', 0);
+        expect(plan.debts[0].payoffDate).toBeNull();
+        expect(plan.debtFreeDate).toBeNull();
+    });
+});
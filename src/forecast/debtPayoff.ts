@@ -0,0 +1,114 @@
+import { getClampedDate, startOfDay } from './dates';
+
+// 'snowball' pays the smallest balance off first, 'avalanche' the highest interest rate, 'custom' follows a given order
+export type PayoffStrategy = 'snowball' | 'avalanche' | 'custom';
+
+// Planning stops after this many months; a plan still paying by then never pays the debts off
+export const MAX_PAYOFF_MONTHS = 600;
+
+// A debt paid monthly, as it stands today. Amounts are in the currency being planned.
+export interface PayoffDebt {
+    id: string;
+    name: string;
+    balance: number;
+    annualInterestRate: number; // Percent, charged on the remaining balance
+    fixedMonthlyInterest?: number; // Add-on loans charge this each month instead, however much is left
+    minimumPayment: number;
+    nextPaymentDate: Date; // Payments fall on this day of every following month
+}
+
+export interface PayoffMonth {
+    // One entry per debt, in the debts' order
+    paymentDates: Date[];
+    payments: number[];
+    interest: number[];
+    balances: number[]; // After this month's payment
+}
+
+export interface DebtPayoffSummary {
+    debtId: string;
+    payoffDate: Date | null; // Null when the debt is still owed after MAX_PAYOFF_MONTHS
+    totalInterest: number;
+    totalPaid: number;
+}
+
+export interface DebtPayoffPlan {
+    strategy: PayoffStrategy;
+    order: string[]; // Debt ids, in the order extra money goes to them
+    months: PayoffMonth[];
+    debts: DebtPayoffSummary[];
+    totalInterest: number;
+    totalPaid: number;
+    debtFreeDate: Date | null;
+}
+
+const roundToCents = (value: number): number => Math.round(value * 100) / 100;
+
+// The order extra payments go in. Custom orders may leave debts out; those follow, smallest balance first.
+export const getPayoffOrder = (debts: PayoffDebt[], strategy: PayoffStrategy, customOrder: string[] = []): string[] => {
+    const bySmallestBalance = [...debts].sort((a, b) => a.balance - b.balance || b.annualInterestRate - a.annualInterestRate);
+    if (strategy === 'avalanche') {
+        return [...debts].sort((a, b) => b.annualInterestRate - a.annualInterestRate || a.balance - b.balance).map(debt => debt.id);
+    }
+    if (strategy === 'custom') {
+        const listed = customOrder.filter(id => debts.some(debt => debt.id === id));
+        return [...listed, ...bySmallestBalance.map(debt => debt.id).filter(id => !listed.includes(id))];
+    }
+    return bySmallestBalance.map(debt => debt.id);
+};
+
+// Runs the debts forward a month at a time. Every month each debt accrues interest and gets its minimum payment;
+// `extraMonthlyPayment`, plus the minimums of debts already paid off, goes to the first unpaid debt in the
+// strategy's order, and whatever that debt does not need rolls on to the next.
+export const planDebtPayoff = (
+    debts: PayoffDebt[],
+    strategy: PayoffStrategy,
+    extraMonthlyPayment: number,
+    customOrder: string[] = []
+): DebtPayoffPlan => {
+    const order = getPayoffOrder(debts, strategy, customOrder);
+    const orderIndexes = order.map(id => debts.findIndex(debt => debt.id === id));
+    const balances = debts.map(debt => Math.max(roundToCents(debt.balance), 0));
+    const totalMinimum = debts.reduce((sum, debt) => sum + debt.minimumPayment, 0);
+    const summaries: DebtPayoffSummary[] = debts.map((debt, index) =>
+        ({ debtId: debt.id, payoffDate: balances[index] === 0 ? startOfDay(debt.nextPaymentDate) : null, totalInterest: 0, totalPaid: 0 }));
+    const months: PayoffMonth[] = [];
+
+    for (let month = 0; month < MAX_PAYOFF_MONTHS && balances.some(balance => balance > 0); month++) {
+        const paymentDates = debts.map(debt => getClampedDate(debt.nextPaymentDate.getFullYear(), debt.nextPaymentDate.getMonth() + month, debt.nextPaymentDate.getDate()));
+        const interest = debts.map((debt, index) =>
+            balances[index] > 0 ? roundToCents(debt.fixedMonthlyInterest ?? balances[index] * debt.annualInterestRate / 1200) : 0);
+        const owed = balances.map((balance, index) => roundToCents(balance + interest[index]));
+        const payments = debts.map((debt, index) => Math.min(owed[index], debt.minimumPayment));
+
+        // Everything budgeted for debts that is not needed for the minimums goes down the order
+        let available = roundToCents(totalMinimum + Math.max(extraMonthlyPayment, 0) - payments.reduce((sum, payment) => sum + payment, 0));
+        orderIndexes.forEach(index => {
+            const extra = Math.min(available, roundToCents(owed[index] - payments[index]));
+            if (extra <= 0) return;
+            payments[index] = roundToCents(payments[index] + extra);
+            available = roundToCents(available - extra);
+        });
+
+        debts.forEach((_, index) => {
+            const wasOwed = balances[index] > 0;
+            balances[index] = Math.max(roundToCents(owed[index] - payments[index]), 0);
+            summaries[index].totalInterest = roundToCents(summaries[index].totalInterest + interest[index]);
+            summaries[index].totalPaid = roundToCents(summaries[index].totalPaid + payments[index]);
+            if (wasOwed && balances[index] === 0) summaries[index].payoffDate = paymentDates[index];
+        });
+        months.push({ paymentDates, payments, interest, balances: [...balances] });
+    }
+
+    const payoffDates = summaries.map(summary => summary.payoffDate).filter((date): date is Date => date !== null);
+    return {
+        strategy,
+        order,
+        months,
+        debts: summaries,
+        totalInterest: roundToCents(summaries.reduce((sum, summary) => sum + summary.totalInterest, 0)),
+        totalPaid: roundToCents(summaries.reduce((sum, summary) => sum + summary.totalPaid, 0)),
+        debtFreeDate: payoffDates.length < summaries.length ? null
+            : payoffDates.reduce<Date | null>((latest, date) => (!latest || date.getTime() > latest.getTime() ? date : latest), null),
+    };
+};
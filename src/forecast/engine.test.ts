@@ -0,0 +1,94 @@
+import { describe, expect, it } from 'vitest';
+import { toDateKey } from './dates';
+import { getLowestPoint, getProjectionEndDate, groupEventsByDay, projectCashFlow, type ForecastEvent } from './engine';
+
+const event = (kind: ForecastEvent['kind'], date: Date, amount: number): ForecastEvent => ({ kind, date, amount, label: kind });
+
+describe('getProjectionEndDate', () => {
+    const today = new Date(2025, 0, 10, 9, 30);
+
+    it('covers at least the minimum number of days', () => {
+        expect(toDateKey(getProjectionEndDate(today, []))).toBe('2025-02-09');
+        expect(toDateKey(getProjectionEndDate(today, [new Date(2025, 0, 20)], 7))).toBe('2025-01-20');
+    });
+
+    it('extends to the latest date, ignoring dates in the past', () => {
+        expect(toDateKey(getProjectionEndDate(today, [new Date(2024, 5, 1), new Date(2025, 3, 1), new Date(2025, 1, 1)]))).toBe('2025-04-01');
+    });
+});
+
+describe('groupEventsByDay', () => {
+    it('nets events on the same local day regardless of their time', () => {
+        const totals = groupEventsByDay([
+            event('income', new Date(2025, 0, 15), 1000),
+            event('expense', new Date(2025, 0, 15, 23, 59), -250),
+            event('loan', new Date(2025, 0, 16, 0, 1), -100),
+        ]);
+        expect(Object.fromEntries(totals)).toEqual({ '2025-01-15': 750, '2025-01-16': -100 });
+    });
+});
+
+describe('projectCashFlow', () => {
+    const today = new Date(2025, 0, 30, 15, 0);
+
+    it('starts from the opening balance on the injected today and adds one point per day', () => {
+        const { points } = projectCashFlow([], { today, openingBalance: 500, minDays: 3 });
+        expect(points.map(point => [toDateKey(point.date), point.balance])).toEqual([
+            ['2025-01-30', 500], ['2025-01-30', 500], ['2025-01-31', 500], ['2025-02-01', 500], ['2025-02-02', 500],
+        ]);
+    });
+
+    it('applies each day\'s events to that day\'s closing balance', () => {
+        const { points } = projectCashFlow([
+            event('expense', new Date(2025, 0, 30), -200),
+            event('salary', new Date(2025, 1, 1), 1000),
+            event('card-statement', new Date(2025, 1, 1), -300),
+        ], { today, openingBalance: 500, minDays: 2 });
+        expect(points.map(point => point.balance)).toEqual([500, 300, 300, 1000]);
+    });
+
+    it('ignores events before today and after the end date', () => {
+        const { points } = projectCashFlow([
+            event('expense', new Date(2025, 0, 29), -200),
+            event('income', new Date(2025, 1, 5), 200),
+        ], { today, openingBalance: 100, endDate: new Date(2025, 1, 4) });
+        expect(points).toHaveLength(7);
+        expect(points.every(point => point.balance === 100)).toBe(true);
+    });
+
+    it('reports the first day the balance drops below zero', () => {
+        const { shortfallDate } = projectCashFlow([
+            event('loan', new Date(2025, 1, 3), -150),
+            event('salary', new Date(2025, 1, 5), 500),
+            event('expense', new Date(2025, 1, 10), -800),
+        ], { today, openingBalance: 100, minDays: 30 });
+        expect(shortfallDate && toDateKey(shortfallDate)).toBe('2025-02-03');
+    });
+
+    it('does not report a shortfall when the balance only reaches zero', () => {
+        const { shortfallDate } = projectCashFlow([event('expense', new Date(2025, 1, 1), -100)], { today, openingBalance: 100 });
+        expect(shortfallDate).toBeNull();
+    });
+
+    it('covers February 29 in a leap year', () => {
+        const { points } = projectCashFlow([event('income', new Date(2024, 1, 29), 50)], { today: new Date(2024, 1, 27), openingBalance: 0, minDays: 3 });
+        expect(points.map(point => toDateKey(point.date)).slice(1)).toEqual(['2024-02-27', '2024-02-28', '2024-02-29', '2024-03-01']);
+        expect(points[points.length - 1].balance).toBe(50);
+    });
+});
+
+describe('getLowestPoint', () => {
+    it('finds the earliest day with the lowest balance', () => {
+        const { points } = projectCashFlow([
+            event('expense', new Date(2025, 1, 3), -300),
+            event('salary', new Date(2025, 1, 5), 500),
+            event('expense', new Date(2025, 1, 8), -500),
+        ], { today: new Date(2025, 1, 1), openingBalance: 100, minDays: 10 });
+        const lowest = getLowestPoint(points);
+        expect(lowest && [toDateKey(lowest.date), lowest.balance]).toEqual(['2025-02-03', -200]);
+    });
+
+    it('returns null for an empty projection', () => {
+        expect(getLowestPoint([])).toBeNull();
+    });
+});
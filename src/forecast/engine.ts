@@ -0,0 +1,73 @@
+import { addDays, daysBetween, startOfDay, toDateKey } from './dates';
+
+export type ForecastEventKind = 'income' | 'expense' | 'baseline' | 'salary' | 'loan' | 'transfer' | 'card-statement' | 'savings';
+
+// A single movement of cash on a day. `amount` is signed (money in is positive, money out negative) and already in
+// the currency being projected; `label` says where it came from for display and debugging.
+export interface ForecastEvent {
+    kind: ForecastEventKind;
+    date: Date;
+    amount: number;
+    label: string;
+}
+
+export interface ForecastPoint {
+    date: Date;
+    balance: number;
+}
+
+export interface ForecastOptions {
+    // Injected so a projection is reproducible; only its calendar day is used
+    today: Date;
+    openingBalance: number;
+    // Last day to project, inclusive; defaults to `minDays` after today
+    endDate?: Date;
+    minDays?: number;
+}
+
+export interface CashFlowProjection {
+    // The opening balance on today, followed by the closing balance of every day from today through the end date
+    points: ForecastPoint[];
+    // The first day whose closing balance is below zero
+    shortfallDate: Date | null;
+}
+
+export const DEFAULT_FORECAST_DAYS = 30;
+
+// The last day a projection should cover: the latest of `dates` that is today or later, but at least `minDays` away
+export const getProjectionEndDate = (today: Date, dates: Date[], minDays: number = DEFAULT_FORECAST_DAYS): Date => {
+    const start = startOfDay(today);
+    const latest = dates.reduce((max, date) => Math.max(max, daysBetween(start, date)), 0);
+    return addDays(start, Math.max(latest, minDays));
+};
+
+// Net amount of the events on each day, keyed by local date
+export const groupEventsByDay = (events: ForecastEvent[]): Map<string, number> => {
+    const totals = new Map<string, number>();
+    events.forEach(event => {
+        const dateKey = toDateKey(event.date);
+        totals.set(dateKey, (totals.get(dateKey) || 0) + event.amount);
+    });
+    return totals;
+};
+
+// Runs the balance forward one day at a time. Events before today or after the end date are ignored.
+export const projectCashFlow = (events: ForecastEvent[], options: ForecastOptions): CashFlowProjection => {
+    const today = startOfDay(options.today);
+    const endDate = options.endDate ? startOfDay(options.endDate) : addDays(today, options.minDays ?? DEFAULT_FORECAST_DAYS);
+    const totalsByDay = groupEventsByDay(events);
+
+    let balance = options.openingBalance;
+    let shortfallDate: Date | null = null;
+    const points: ForecastPoint[] = [{ date: today, balance }];
+    for (let date = today; date.getTime() <= endDate.getTime(); date = addDays(date, 1)) {
+        balance += totalsByDay.get(toDateKey(date)) || 0;
+        points.push({ date, balance });
+        if (balance < 0 && !shortfallDate) shortfallDate = date;
+    }
+    return { points, shortfallDate };
+};
+
+// The point with the lowest balance, the earliest one on a tie; null for an empty projection
+export const getLowestPoint = (points: ForecastPoint[]): ForecastPoint | null =>
+    points.reduce<ForecastPoint | null>((lowest, point) => (!lowest || point.balance < lowest.balance ? point : lowest), null);
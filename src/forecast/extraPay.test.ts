@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import { toDateKey } from './dates';
+import { describeExtraPayDate, getExtraPayGrossAmount, getExtraPayments, getTaxableExtraPayAmounts, type ExtraPayComponent } from './extraPay';
+
+const thirteenthMonth: ExtraPayComponent = {
+    id: 'thirteenth', name: '13th-Month Pay', month: 11, day: 24, basis: 'percent-of-basic', amount: 100, taxable: false, businessDayRule: 'previous',
+};
+const midYearBonus: ExtraPayComponent = {
+    id: 'mid-year', name: 'Mid-Year Bonus', month: 4, day: 31, basis: 'fixed', amount: 15000, taxable: true, businessDayRule: 'none',
+};
+
+describe('getExtraPayGrossAmount', () => {
+    it('pays a percentage of the basic salary or a fixed amount', () => {
+        expect(getExtraPayGrossAmount(thirteenthMonth, 30000)).toBe(30000);
+        expect(getExtraPayGrossAmount({ ...thirteenthMonth, amount: 50 }, 25000.25)).toBe(12500.13);
+        expect(getExtraPayGrossAmount(midYearBonus, 30000)).toBe(15000);
+    });
+});
+
+describe('getTaxableExtraPayAmounts', () => {
+    const christmasBonus: ExtraPayComponent = { ...thirteenthMonth, id: 'christmas', name: 'Christmas Bonus', basis: 'fixed', amount: 20000 };
+
+    it('leaves non-taxable pay within the yearly exemption untaxed', () => {
+        expect(getTaxableExtraPayAmounts([thirteenthMonth, christmasBonus, midYearBonus], 70000)).toEqual([0, 0, 15000]);
+    });
+
+    it('taxes non-taxable pay beyond the exemption, shared by amount', () => {
+        // 80,000 + 20,000 is 10,000 over the PHP 90,000 exemption
+        expect(getTaxableExtraPayAmounts([thirteenthMonth, christmasBonus, midYearBonus], 80000)).toEqual([8000, 2000, 15000]);
+        expect(getTaxableExtraPayAmounts([thirteenthMonth], 120000)).toEqual([30000]);
+    });
+});
+
+describe('getExtraPayments', () => {
+    it('pays each component once a year, in date order', () => {
+        const payments = getExtraPayments([thirteenthMonth, midYearBonus], 30000, new Date(2025, 0, 1), new Date(2026, 11, 31));
+        expect(payments.map(payment => [toDateKey(payment.date), payment.component.id, payment.grossAmount])).toEqual([
+            ['2025-05-31', 'mid-year', 15000],
+            ['2025-12-24', 'thirteenth', 30000],
+            ['2026-05-31', 'mid-year', 15000],
+            ['2026-12-24', 'thirteenth', 30000],
+        ]);
+    });
+
+    it('moves payments off weekends and holidays', () => {
+        expect(getExtraPayments([thirteenthMonth], 30000, new Date(2028, 11, 1), new Date(2028, 11, 31)).map(payment => toDateKey(payment.date)))
+            .toEqual(['2028-12-22']); // The 24th is a Sunday
+        expect(getExtraPayments([thirteenthMonth], 30000, new Date(2025, 11, 1), new Date(2025, 11, 31), new Set(['2025-12-24'])).map(payment => toDateKey(payment.date)))
+            .toEqual(['2025-12-23']);
+    });
+
+    it('includes a payment moved into the range from the next year', () => {
+        const newYearBonus: ExtraPayComponent = { ...midYearBonus, month: 0, day: 1, businessDayRule: 'previous' };
+        expect(getExtraPayments([newYearBonus], 30000, new Date(2026, 11, 1), new Date(2026, 11, 31), new Set(['2027-01-01'])).map(payment => toDateKey(payment.date)))
+            .toEqual(['2026-12-31']);
+    });
+
+    it('falls on the last day of a shorter month', () => {
+        const endOfFebruary: ExtraPayComponent = { ...midYearBonus, month: 1, day: 30 };
+        expect(getExtraPayments([endOfFebruary], 0, new Date(2024, 0, 1), new Date(2025, 11, 31)).map(payment => toDateKey(payment.date)))
+            .toEqual(['2024-02-29', '2025-02-28']);
+        expect(describeExtraPayDate(endOfFebruary)).toBe('February 29');
+        expect(describeExtraPayDate(thirteenthMonth)).toBe('December 24');
+    });
+});
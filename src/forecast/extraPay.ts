@@ -0,0 +1,77 @@
+import { adjustToBusinessDay, type BusinessDayRule, type HolidaySet } from './businessDays';
+import { getClampedDate, startOfDay } from './dates';
+
+// 'percent-of-basic' pays a share of the basic monthly salary (100 for the 13th-month pay); 'fixed' pays the amount as is
+export type ExtraPayBasis = 'percent-of-basic' | 'fixed';
+
+// Pay on top of the regular salary, once a year on a fixed date: the 13th-month pay, mid-year bonuses, annual allowances
+export interface ExtraPayComponent {
+    id: string;
+    name: string;
+    month: number; // 0 (January) to 11
+    day: number; // A day past the end of the month falls on its last day
+    basis: ExtraPayBasis;
+    amount: number; // Percent of the basic monthly salary, or the gross amount for 'fixed'
+    taxable: boolean;
+    businessDayRule: BusinessDayRule; // Applied when the date falls on a weekend or holiday
+}
+
+export interface ExtraPayment {
+    component: ExtraPayComponent;
+    date: Date;
+    grossAmount: number;
+}
+
+export const monthNames = ['January', 'February', 'March', 'April', 'May', 'June', 'July', 'August', 'September', 'October', 'November', 'December'];
+
+// The yearly date before any business-day adjustment, e.g. "December 24"
+export const describeExtraPayDate = (component: ExtraPayComponent): string =>
+    `${monthNames[component.month]} ${Math.min(component.day, getClampedDate(2024, component.month, 31).getDate())}`;
+
+// The gross amount of one payment, rounded to cents
+export const getExtraPayGrossAmount = (component: ExtraPayComponent, basicMonthlySalary: number): number => {
+    const amount = component.basis === 'percent-of-basic' ? basicMonthlySalary * component.amount / 100 : component.amount;
+    return Math.round(Math.max(amount, 0) * 100) / 100;
+};
+
+// The combined yearly amount of the 13th-month pay and other benefits that is exempt from income tax (TRAIN law)
+export const EXTRA_PAY_TAX_EXEMPTION = 90000;
+
+// The taxable part of each component's yearly gross amount, in the order given. Taxable components are taxed in full.
+// Non-taxable ones share the exemption by amount, and whatever they pay beyond it together is taxable.
+export const getTaxableExtraPayAmounts = (
+    components: ExtraPayComponent[],
+    basicMonthlySalary: number,
+    exemption: number = EXTRA_PAY_TAX_EXEMPTION
+): number[] => {
+    const grossAmounts = components.map(component => getExtraPayGrossAmount(component, basicMonthlySalary));
+    const exemptTotal = components.reduce((sum, component, index) => sum + (component.taxable ? 0 : grossAmounts[index]), 0);
+    const excess = Math.max(0, exemptTotal - exemption);
+    return components.map((component, index) => {
+        if (component.taxable) return grossAmounts[index];
+        return excess > 0 ? Math.round(excess * grossAmounts[index] / exemptTotal * 100) / 100 : 0;
+    });
+};
+
+// Every extra payment from `from` through `to`, both inclusive, in date order and after moving payments off weekends
+// and `holidays`. A payment moved into the range from the year before or after is included.
+export const getExtraPayments = (
+    components: ExtraPayComponent[],
+    basicMonthlySalary: number,
+    from: Date,
+    to: Date,
+    holidays: HolidaySet = new Set()
+): ExtraPayment[] => {
+    const start = startOfDay(from);
+    const end = startOfDay(to);
+    const payments: ExtraPayment[] = [];
+    components.forEach(component => {
+        for (let year = start.getFullYear() - 1; year <= end.getFullYear() + 1; year++) {
+            const date = adjustToBusinessDay(getClampedDate(year, component.month, component.day), component.businessDayRule, holidays);
+            if (date.getTime() >= start.getTime() && date.getTime() <= end.getTime()) {
+                payments.push({ component, date, grossAmount: getExtraPayGrossAmount(component, basicMonthlySalary) });
+            }
+        }
+    });
+    return payments.sort((a, b) => a.date.getTime() - b.date.getTime());
+};
@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { toDateKey } from './dates';
+import { planGoalContributions, type GoalPlanInput } from './goals';
+
+const today = new Date(2025, 0, 10);
+// The 15th and the last day of each month, January to June
+const paydays = [0, 1, 2, 3, 4, 5].flatMap(month => [new Date(2025, month, 15), new Date(2025, month + 1, 0)]);
+
+const tuition: GoalPlanInput = { id: 'tuition', targetAmount: 60000, savedAmount: 12000, targetDate: new Date(2025, 5, 15), priority: 'high' };
+const trip: GoalPlanInput = { id: 'trip', targetAmount: 10000, savedAmount: 0, targetDate: new Date(2025, 1, 28), priority: 'low' };
+
+describe('planGoalContributions', () => {
+    it('spreads what is left over the paydays up to the target date', () => {
+        const [plan] = planGoalContributions([tuition], paydays, today);
+        expect(plan.remaining).toBe(48000);
+        expect(plan.paydays.map(toDateKey)).toEqual([
+            '2025-01-15', '2025-01-31', '2025-02-15', '2025-02-28', '2025-03-15', '2025-03-31',
+            '2025-04-15', '2025-04-30', '2025-05-15', '2025-05-31', '2025-06-15',
+        ]);
+        expect(plan.requiredPerPayday).toBe(4363.64); // Rounded up, so the target is reached
+        expect(plan.plannedPerPayday).toBe(4363.64);
+        expect(plan.projectedShortfall).toBe(0);
+    });
+
+    it('funds higher priorities first when the pay runs out', () => {
+        const [tripPlan, tuitionPlan] = planGoalContributions([trip, tuition], paydays, today, 5000);
+        expect(tuitionPlan.plannedPerPayday).toBe(4363.64);
+        expect(tripPlan.requiredPerPayday).toBe(2500);
+        expect(tripPlan.plannedPerPayday).toBe(636.36);
+        expect(tripPlan.projectedShortfall).toBe(7454.56);
+    });
+
+    it('plans nothing for a reached goal and reports a goal past its date as missing', () => {
+        const [reached, late] = planGoalContributions([
+            { ...trip, savedAmount: 12000 },
+            { ...tuition, targetDate: new Date(2025, 0, 5) },
+        ], paydays, today);
+        expect([reached.remaining, reached.plannedPerPayday, reached.projectedShortfall]).toEqual([0, 0, 0]);
+        expect([late.paydays.length, late.plannedPerPayday, late.projectedShortfall]).toEqual([0, 0, 48000]);
+    });
+});
@@ -0,0 +1,58 @@
+import { startOfDay } from './dates';
+
+// When the pay cannot cover every goal, higher priorities are funded first
+export type GoalPriority = 'high' | 'medium' | 'low';
+
+export const goalPriorityOrder: Record<GoalPriority, number> = { high: 0, medium: 1, low: 2 };
+
+export interface GoalPlanInput {
+    id: string;
+    targetAmount: number;
+    savedAmount: number;
+    targetDate: Date;
+    priority: GoalPriority;
+}
+
+export interface GoalContributionPlan {
+    goalId: string;
+    remaining: number; // Still to save
+    paydays: Date[]; // Paydays from today through the target date, when contributions are set aside
+    requiredPerPayday: number; // What reaches the target on time
+    plannedPerPayday: number; // What the pay allows once higher-priority goals are funded
+    projectedShortfall: number; // Still missing at the target date on the planned contributions
+}
+
+const roundUpToCents = (amount: number): number => Math.ceil(Math.round(amount * 1e6) / 1e4) / 100;
+const roundDownToCents = (amount: number): number => Math.floor(Math.round(amount * 1e6) / 1e4) / 100;
+
+// Spreads what is left of each goal evenly over the paydays up to its target date. When `availablePerPayday` is set,
+// the contributions of all goals together stay within it: goals are funded by priority, then by the earliest target
+// date, and a goal that gets less than it needs shows what will be missing. Plans are returned in the goals' order.
+export const planGoalContributions = (
+    goals: GoalPlanInput[],
+    paydays: Date[],
+    today: Date,
+    availablePerPayday: number = Infinity
+): GoalContributionPlan[] => {
+    const start = startOfDay(today);
+    const byPriority = [...goals].sort((a, b) =>
+        goalPriorityOrder[a.priority] - goalPriorityOrder[b.priority] || a.targetDate.getTime() - b.targetDate.getTime());
+    let unallocated = Math.max(availablePerPayday, 0);
+    const plans = new Map<string, GoalContributionPlan>();
+    byPriority.forEach(goal => {
+        const remaining = Math.max(Math.round((goal.targetAmount - goal.savedAmount) * 100) / 100, 0);
+        const goalPaydays = paydays.filter(payday => payday.getTime() >= start.getTime() && payday.getTime() <= startOfDay(goal.targetDate).getTime());
+        const requiredPerPayday = goalPaydays.length > 0 ? roundUpToCents(remaining / goalPaydays.length) : 0;
+        const plannedPerPayday = Math.min(requiredPerPayday, roundDownToCents(unallocated));
+        unallocated -= plannedPerPayday;
+        plans.set(goal.id, {
+            goalId: goal.id,
+            remaining,
+            paydays: goalPaydays,
+            requiredPerPayday,
+            plannedPerPayday,
+            projectedShortfall: Math.max(Math.round((remaining - plannedPerPayday * goalPaydays.length) * 100) / 100, 0),
+        });
+    });
+    return goals.map(goal => plans.get(goal.id) as GoalContributionPlan);
+};
@@ -0,0 +1,12 @@
+export * from './dates';
+export * from './businessDays';
+export * from './calendar';
+export * from './payday';
+export * from './extraPay';
+export * from './engine';
+export * from './baseline';
+export * from './goals';
+export * from './debtPayoff';
+export * from './simulation';
+export * from './receivables';
+export * from './statements';
@@ -0,0 +1,139 @@
+import { describe, expect, it } from 'vitest';
+import { toDateKey } from './dates';
+import { describePaySchedule, getDefaultPaySchedule, getNextPayday, getPaydays, getSalaryPerPayday, getScheduleFrequency, type PaySchedule } from './payday';
+
+const keys = (dates: Date[]) => dates.map(toDateKey);
+const nextPayday = (schedule: PaySchedule, from: Date) => {
+    const payday = getNextPayday(schedule, from);
+    return payday && toDateKey(payday);
+};
+
+describe('getNextPayday with the default schedules', () => {
+    const monthly = getDefaultPaySchedule('monthly');
+    const fortnightly = getDefaultPaySchedule('fortnightly');
+    const weekly = getDefaultPaySchedule('weekly');
+
+    it('pays monthly salary on the 15th, counting the 15th itself', () => {
+        expect(nextPayday(monthly, new Date(2025, 0, 10))).toBe('2025-01-15');
+        expect(nextPayday(monthly, new Date(2025, 0, 15, 14, 30))).toBe('2025-01-15');
+        expect(nextPayday(monthly, new Date(2025, 0, 16))).toBe('2025-02-15');
+        expect(nextPayday(monthly, new Date(2025, 11, 20))).toBe('2026-01-15');
+    });
+
+    it('pays fortnightly salary on the 1st and 15th', () => {
+        expect(nextPayday(fortnightly, new Date(2025, 0, 1))).toBe('2025-01-01');
+        expect(nextPayday(fortnightly, new Date(2025, 0, 2))).toBe('2025-01-15');
+        expect(nextPayday(fortnightly, new Date(2025, 0, 31))).toBe('2025-02-01');
+        expect(nextPayday(fortnightly, new Date(2024, 1, 29))).toBe('2024-03-01');
+    });
+
+    it('pays weekly salary on Mondays, counting today when it is a Monday', () => {
+        expect(nextPayday(weekly, new Date(2025, 5, 2))).toBe('2025-06-02'); // Monday
+        expect(nextPayday(weekly, new Date(2025, 5, 3))).toBe('2025-06-09');
+        expect(nextPayday(weekly, new Date(2025, 5, 1))).toBe('2025-06-02'); // Sunday
+        expect(nextPayday(weekly, new Date(2025, 11, 30))).toBe('2026-01-05');
+    });
+
+    it('returns null for a schedule without paydays', () => {
+        expect(getNextPayday({ type: 'days-of-month', daysOfMonth: [], businessDayRule: 'none' }, new Date(2025, 0, 1))).toBeNull();
+    });
+});
+
+describe('getPaydays', () => {
+    it('lists every payday in the range, both ends included', () => {
+        expect(keys(getPaydays(getDefaultPaySchedule('fortnightly'), new Date(2025, 0, 1), new Date(2025, 2, 1)))).toEqual([
+            '2025-01-01', '2025-01-15', '2025-02-01', '2025-02-15', '2025-03-01',
+        ]);
+        expect(keys(getPaydays(getDefaultPaySchedule('monthly'), new Date(2024, 10, 16), new Date(2025, 1, 15)))).toEqual([
+            '2024-12-15', '2025-01-15', '2025-02-15',
+        ]);
+    });
+
+    it('moves the 30th to the end of February, in leap years and otherwise', () => {
+        const schedule: PaySchedule = { type: 'days-of-month', daysOfMonth: [15, 30], businessDayRule: 'none' };
+        expect(keys(getPaydays(schedule, new Date(2024, 1, 1), new Date(2024, 2, 31)))).toEqual(['2024-02-15', '2024-02-29', '2024-03-15', '2024-03-30']);
+        expect(keys(getPaydays(schedule, new Date(2025, 1, 1), new Date(2025, 1, 28)))).toEqual(['2025-02-15', '2025-02-28']);
+    });
+
+    it('pays once when two scheduled days fall on the same date', () => {
+        const schedule: PaySchedule = { type: 'days-of-month', daysOfMonth: [30, 31], businessDayRule: 'none' };
+        expect(keys(getPaydays(schedule, new Date(2025, 1, 1), new Date(2025, 2, 31)))).toEqual(['2025-02-28', '2025-03-30', '2025-03-31']);
+    });
+
+    it('moves weekend paydays to the business day before or after', () => {
+        // 15 March 2025 is a Saturday and 30 March 2025 a Sunday
+        const earlier: PaySchedule = { type: 'days-of-month', daysOfMonth: [15, 30], businessDayRule: 'previous' };
+        const later: PaySchedule = { ...earlier, businessDayRule: 'next' };
+        expect(keys(getPaydays(earlier, new Date(2025, 2, 1), new Date(2025, 2, 31)))).toEqual(['2025-03-14', '2025-03-28']);
+        expect(keys(getPaydays(later, new Date(2025, 2, 1), new Date(2025, 2, 31)))).toEqual(['2025-03-17', '2025-03-31']);
+    });
+
+    it('moves paydays off holidays', () => {
+        // 12 June 2025 (Independence Day) is a Thursday
+        const schedule: PaySchedule = { type: 'days-of-month', daysOfMonth: [12], businessDayRule: 'previous' };
+        expect(keys(getPaydays(schedule, new Date(2025, 5, 1), new Date(2025, 5, 30), new Set(['2025-06-12'])))).toEqual(['2025-06-11']);
+    });
+
+    it('includes a payday moved into the range from just outside it', () => {
+        // 1 June 2025 is a Sunday, so it is paid on Friday 30 May
+        const schedule: PaySchedule = { type: 'days-of-month', daysOfMonth: [1], businessDayRule: 'previous' };
+        expect(keys(getPaydays(schedule, new Date(2025, 4, 20), new Date(2025, 4, 31)))).toEqual(['2025-05-30']);
+        expect(getPaydays(schedule, new Date(2025, 5, 1), new Date(2025, 5, 25))).toEqual([]);
+    });
+
+    it('pays on the last business day of each month', () => {
+        const schedule: PaySchedule = { type: 'last-business-day', businessDayRule: 'none' };
+        // 31 May 2025 is a Saturday, and the 30th and 31st of December are holidays
+        expect(keys(getPaydays(schedule, new Date(2025, 4, 1), new Date(2025, 5, 30)))).toEqual(['2025-05-30', '2025-06-30']);
+        expect(keys(getPaydays(schedule, new Date(2025, 11, 1), new Date(2025, 11, 31), new Set(['2025-12-30', '2025-12-31'])))).toEqual(['2025-12-29']);
+    });
+
+    it('pays every other week counted from the anchor date, before or after it', () => {
+        const schedule: PaySchedule = { type: 'biweekly', anchorDate: new Date(2025, 0, 10), businessDayRule: 'none' }; // a Friday
+        expect(keys(getPaydays(schedule, new Date(2025, 1, 1), new Date(2025, 2, 10)))).toEqual(['2025-02-07', '2025-02-21', '2025-03-07']);
+        expect(keys(getPaydays(schedule, new Date(2024, 11, 1), new Date(2024, 11, 31)))).toEqual(['2024-12-13', '2024-12-27']);
+    });
+
+    it('pays weekly on the chosen weekday', () => {
+        const schedule: PaySchedule = { type: 'weekly', weekday: 5, businessDayRule: 'none' };
+        expect(keys(getPaydays(schedule, new Date(2024, 1, 20), new Date(2024, 2, 12)))).toEqual(['2024-02-23', '2024-03-01', '2024-03-08']);
+    });
+
+    it('returns nothing when no payday falls in the range', () => {
+        expect(getPaydays(getDefaultPaySchedule('monthly'), new Date(2025, 0, 16), new Date(2025, 1, 14))).toEqual([]);
+        expect(getPaydays(getDefaultPaySchedule('weekly'), new Date(2025, 5, 10), new Date(2025, 5, 3))).toEqual([]);
+    });
+
+    it('finds the same paydays from any time on the first day', () => {
+        expect(getPaydays(getDefaultPaySchedule('monthly'), new Date(2025, 0, 15, 23, 59), new Date(2025, 0, 31))).toEqual([new Date(2025, 0, 15)]);
+    });
+});
+
+describe('getSalaryPerPayday', () => {
+    it('spreads the monthly net salary over the year\'s paydays', () => {
+        expect(getSalaryPerPayday(40000, getDefaultPaySchedule('monthly'))).toBe(40000);
+        expect(getSalaryPerPayday(40000, { type: 'days-of-month', daysOfMonth: [15, 30], businessDayRule: 'none' })).toBe(20000);
+        expect(getSalaryPerPayday(40000, { type: 'last-business-day', businessDayRule: 'none' })).toBe(40000);
+        expect(getSalaryPerPayday(52000, getDefaultPaySchedule('weekly'))).toBe(12000);
+        expect(getSalaryPerPayday(26000, { type: 'biweekly', anchorDate: new Date(2025, 0, 10), businessDayRule: 'none' })).toBe(12000);
+    });
+
+    it('uses the exact amount per payday when one is set', () => {
+        expect(getSalaryPerPayday(40000, { type: 'biweekly', anchorDate: new Date(2025, 0, 10), businessDayRule: 'none', netPayPerPayday: 18250.5 })).toBe(18250.5);
+    });
+});
+
+describe('describePaySchedule', () => {
+    it('names the schedule', () => {
+        expect(describePaySchedule({ type: 'days-of-month', daysOfMonth: [30, 15], businessDayRule: 'none' })).toBe('15th and 30th of the month');
+        expect(describePaySchedule({ type: 'days-of-month', daysOfMonth: [1, 11, 22], businessDayRule: 'none' })).toBe('1st, 11th and 22nd of the month');
+        expect(describePaySchedule({ type: 'biweekly', anchorDate: new Date(2025, 0, 10), businessDayRule: 'none' })).toBe('every other Friday');
+        expect(describePaySchedule(getDefaultPaySchedule('weekly'))).toBe('weekly on Monday');
+    });
+
+    it('maps back to the closest salary frequency', () => {
+        expect(getScheduleFrequency({ type: 'last-business-day', businessDayRule: 'none' })).toBe('monthly');
+        expect(getScheduleFrequency({ type: 'days-of-month', daysOfMonth: [15, 30], businessDayRule: 'none' })).toBe('fortnightly');
+        expect(getScheduleFrequency({ type: 'biweekly', anchorDate: new Date(2025, 0, 10), businessDayRule: 'none' })).toBe('fortnightly');
+    });
+});
@@ -0,0 +1,116 @@
+import { adjustToBusinessDay, type BusinessDayRule, type HolidaySet } from './businessDays';
+import { addDays, daysBetween, getClampedDate, startOfDay, toDateKey } from './dates';
+
+export type SalaryFrequency = 'weekly' | 'fortnightly' | 'monthly';
+
+// 'days-of-month' pays on fixed days such as the 15th and 30th, 'last-business-day' on the last weekday of each month
+// that is not a holiday, 'weekly' on one weekday and 'biweekly' every 14 days counted from a known payday
+export type PayScheduleType = 'days-of-month' | 'last-business-day' | 'weekly' | 'biweekly';
+
+export interface PaySchedule {
+    type: PayScheduleType;
+    daysOfMonth?: number[]; // 'days-of-month'; a day past the end of a short month falls on its last day
+    weekday?: number; // 'weekly'; 0 (Sunday) to 6 (Saturday)
+    anchorDate?: Date; // 'biweekly'; any past or future payday
+    businessDayRule: BusinessDayRule; // Applied to paydays on weekends and holidays; ignored for 'last-business-day'
+    netPayPerPayday?: number | null; // Exact take-home pay per payday, when it differs from the computed share
+}
+
+export const weekdayNames = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+// The schedule implied by a profile saved before pay schedules existed: monthly pay on the 15th, fortnightly pay on
+// the 1st and 15th, weekly pay on Mondays, none of them moved for weekends
+export const getDefaultPaySchedule = (frequency: SalaryFrequency): PaySchedule => frequency === 'weekly'
+    ? { type: 'weekly', weekday: 1, businessDayRule: 'none' }
+    : { type: 'days-of-month', daysOfMonth: frequency === 'monthly' ? [15] : [1, 15], businessDayRule: 'none' };
+
+// The closest legacy frequency, kept on the profile for anything that only needs a rough cadence
+export const getScheduleFrequency = (schedule: PaySchedule): SalaryFrequency => {
+    if (schedule.type === 'weekly') return 'weekly';
+    if (schedule.type === 'biweekly' || (schedule.daysOfMonth || []).length > 1) return 'fortnightly';
+    return 'monthly';
+};
+
+const ordinal = (day: number): string => {
+    const suffix = day % 10 === 1 && day !== 11 ? 'st' : day % 10 === 2 && day !== 12 ? 'nd' : day % 10 === 3 && day !== 13 ? 'rd' : 'th';
+    return `${day}${suffix}`;
+};
+
+// A short description for labels, e.g. "15th and 30th of the month" or "every other Friday"
+export const describePaySchedule = (schedule: PaySchedule): string => {
+    switch (schedule.type) {
+        case 'days-of-month': {
+            const days = [...new Set(schedule.daysOfMonth || [])].sort((a, b) => a - b).map(ordinal);
+            return `${days.length > 1 ? `${days.slice(0, -1).join(', ')} and ${days[days.length - 1]}` : days[0] || 'no days'} of the month`;
+        }
+        case 'last-business-day':
+            return 'last business day of the month';
+        case 'weekly':
+            return `weekly on ${weekdayNames[schedule.weekday ?? 1]}`;
+        case 'biweekly':
+            return `every other ${weekdayNames[(schedule.anchorDate || new Date()).getDay()]}`;
+    }
+};
+
+// How many paydays a schedule has in a year
+export const getPaydaysPerYear = (schedule: PaySchedule): number => {
+    switch (schedule.type) {
+        case 'days-of-month':
+            return 12 * new Set(schedule.daysOfMonth || []).size;
+        case 'last-business-day':
+            return 12;
+        case 'weekly':
+            return 52;
+        case 'biweekly':
+            return 26;
+    }
+};
+
+// Scheduled dates from `from` through `to` before any business-day adjustment
+const getScheduledDates = (schedule: PaySchedule, from: Date, to: Date): Date[] => {
+    const dates: Date[] = [];
+    if (schedule.type === 'days-of-month' || schedule.type === 'last-business-day') {
+        const days = schedule.type === 'last-business-day' ? [31] : schedule.daysOfMonth || [];
+        for (let month = from.getMonth(), year = from.getFullYear(); new Date(year, month, 1).getTime() <= to.getTime(); month++) {
+            days.forEach(day => dates.push(getClampedDate(year, month, day)));
+        }
+    } else {
+        const anchor = schedule.type === 'biweekly' && schedule.anchorDate
+            ? startOfDay(schedule.anchorDate)
+            : addDays(from, ((schedule.weekday ?? 1) - from.getDay() + 7) % 7);
+        const interval = schedule.type === 'biweekly' ? 14 : 7;
+        for (let date = addDays(anchor, Math.ceil(daysBetween(anchor, from) / interval) * interval); date.getTime() <= to.getTime(); date = addDays(date, interval)) {
+            dates.push(date);
+        }
+    }
+    return dates.filter(date => date.getTime() >= from.getTime() && date.getTime() <= to.getTime());
+};
+
+// Every payday from `from` through `to`, both inclusive, in date order and after moving paydays off weekends and
+// `holidays` as the schedule says. A payday moved into the range from just outside it is included.
+export const getPaydays = (schedule: PaySchedule, from: Date, to: Date, holidays: HolidaySet = new Set()): Date[] => {
+    const start = startOfDay(from);
+    const end = startOfDay(to);
+    if (end.getTime() < start.getTime()) return [];
+    const rule: BusinessDayRule = schedule.type === 'last-business-day' ? 'previous' : schedule.businessDayRule;
+
+    // Look a little beyond the range, since moving a payday can carry it across either end
+    const paydays = new Map<string, Date>();
+    getScheduledDates(schedule, addDays(start, -14), addDays(end, 14))
+        .map(date => adjustToBusinessDay(date, rule, holidays))
+        .filter(date => date.getTime() >= start.getTime() && date.getTime() <= end.getTime())
+        .forEach(date => paydays.set(toDateKey(date), date));
+    return [...paydays.values()].sort((a, b) => a.getTime() - b.getTime());
+};
+
+// The first payday on or after `from`; null when the schedule has no paydays
+export const getNextPayday = (schedule: PaySchedule, from: Date, holidays: HolidaySet = new Set()): Date | null =>
+    getPaydays(schedule, from, addDays(from, 62), holidays)[0] || null;
+
+// The take-home pay on each payday: the schedule's own figure when set, otherwise the monthly net salary spread
+// over the year's paydays (so weekly pay is 12/52 of a month rather than a quarter)
+export const getSalaryPerPayday = (netMonthlySalary: number, schedule: PaySchedule): number => {
+    if (schedule.netPayPerPayday != null) return schedule.netPayPerPayday;
+    const paydaysPerYear = getPaydaysPerYear(schedule);
+    return paydaysPerYear > 0 ? Math.round(netMonthlySalary * 12 / paydaysPerYear * 100) / 100 : 0;
+};
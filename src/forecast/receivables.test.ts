@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+import { buildAgingReport, getAgingBucket, sumReceivedPayments, summarizePaymentHistory } from './receivables';
+
+const today = new Date(2025, 5, 30);
+
+describe('getAgingBucket', () => {
+    it('puts each day past due in its bucket', () => {
+        expect([-5, 0, 1, 30, 31, 60, 61, 90, 91].map(getAgingBucket))
+            .toEqual(['current', 'current', '1-30', '1-30', '31-60', '31-60', '61-90', '61-90', '90+']);
+    });
+});
+
+describe('buildAgingReport', () => {
+    it('totals what is owed per payer and bucket, largest balance first', () => {
+        const report = buildAgingReport([
+            { payer: 'Acme Corp', amount: 1000, dueDate: new Date(2025, 6, 15) },
+            { payer: ' acme corp', amount: 2500.5, dueDate: new Date(2025, 5, 10) },
+            { payer: 'Globex', amount: 8000, dueDate: new Date(2025, 1, 1) },
+            { payer: 'Acme Corp', amount: 300, dueDate: new Date(2025, 3, 15) },
+        ], today);
+        expect(report.rows.map(row => row.payer)).toEqual(['Globex', 'Acme Corp']);
+        expect(report.rows[1].amounts).toEqual({ 'current': 1000, '1-30': 2500.5, '31-60': 0, '61-90': 300, '90+': 0 });
+        expect(report.rows[1].total).toBe(3800.5);
+        expect(report.rows[1].oldestDaysOverdue).toBe(76);
+        expect(report.rows[0].amounts['90+']).toBe(8000);
+        expect(report.totals).toEqual({ 'current': 1000, '1-30': 2500.5, '31-60': 0, '61-90': 300, '90+': 8000 });
+        expect(report.total).toBe(11800.5);
+    });
+
+    it('reports nothing owed as an empty report', () => {
+        expect(buildAgingReport([], today)).toEqual({ rows: [], totals: { 'current': 0, '1-30': 0, '31-60': 0, '61-90': 0, '90+': 0 }, total: 0 });
+    });
+});
+
+describe('summarizePaymentHistory', () => {
+    it('averages the days from due date to payment per payer', () => {
+        const summaries = summarizePaymentHistory([
+            { payer: 'Acme Corp', dueDate: new Date(2025, 0, 31), paidDate: new Date(2025, 1, 10) },
+            { payer: 'ACME CORP', dueDate: new Date(2025, 1, 28), paidDate: new Date(2025, 1, 25) },
+            { payer: 'Acme Corp', dueDate: new Date(2025, 2, 31), paidDate: new Date(2025, 3, 1) },
+            { payer: 'Globex', dueDate: new Date(2025, 2, 15), paidDate: new Date(2025, 2, 15) },
+        ]);
+        expect(summaries).toEqual([
+            { payer: 'Acme Corp', paidCount: 3, averageDaysToPay: 2.7, onTimeCount: 1 },
+            { payer: 'Globex', paidCount: 1, averageDaysToPay: 0, onTimeCount: 1 },
+        ]);
+    });
+});
+
+describe('sumReceivedPayments', () => {
+    const from = new Date(2025, 5, 1);
+    const paidOn = (payment: { paidDate: Date | null }) => payment.paidDate;
+    const byAmount = (payment: { amount: number }) => payment.amount;
+
+    it('counts a payment received before its due date from the day it arrived', () => {
+        const payments = [{ amount: 500, dueDate: new Date(2025, 6, 15), paidDate: new Date(2025, 5, 20) }];
+        expect(sumReceivedPayments(payments, paidOn, from, new Date(2025, 5, 20), byAmount)).toBe(0);
+        expect(sumReceivedPayments(payments, paidOn, from, new Date(2025, 5, 21), byAmount)).toBe(500);
+    });
+
+    it('counts a payment received after its due date only from the day it arrived', () => {
+        const payments = [{ amount: 750, dueDate: new Date(2025, 5, 10), paidDate: new Date(2025, 5, 25) }];
+        expect(sumReceivedPayments(payments, paidOn, from, new Date(2025, 5, 20), byAmount)).toBe(0);
+        expect(sumReceivedPayments(payments, paidOn, from, new Date(2025, 5, 26), byAmount)).toBe(750);
+    });
+
+    it('falls back to the due date and passes the day received to getAmount', () => {
+        const payments = [
+            { amount: 100, dueDate: new Date(2025, 5, 5), paidDate: null },
+            { amount: 200, dueDate: new Date(2025, 4, 31), paidDate: null }, // Before `from`
+        ];
+        const days: number[] = [];
+        expect(sumReceivedPayments(payments, paidOn, from, new Date(2025, 6, 1), (payment, receivedOn) => {
+            days.push(receivedOn.getDate());
+            return payment.amount * 2;
+        })).toBe(200);
+        expect(days).toEqual([5]);
+    });
+});
@@ -0,0 +1,99 @@
+import { daysBetween } from './dates';
+import { normalizePayer, type PaymentRecord } from './simulation';
+
+// How long past its due date an unpaid amount is; 'current' is not yet due or due today
+export type AgingBucket = 'current' | '1-30' | '31-60' | '61-90' | '90+';
+
+export const agingBuckets: AgingBucket[] = ['current', '1-30', '31-60', '61-90', '90+'];
+
+// An amount still to be collected, in the currency the report is in
+export interface OpenReceivable {
+    payer: string;
+    amount: number;
+    dueDate: Date;
+}
+
+export interface AgingRow {
+    payer: string; // As first seen; payers are matched like normalizePayer does
+    amounts: Record<AgingBucket, number>;
+    total: number;
+    oldestDaysOverdue: number; // 0 when nothing is overdue
+}
+
+export interface AgingReport {
+    rows: AgingRow[]; // Largest total first
+    totals: Record<AgingBucket, number>;
+    total: number;
+}
+
+export interface PaymentHistorySummary {
+    payer: string; // As first seen
+    paidCount: number;
+    averageDaysToPay: number; // Days after the due date, to one decimal; negative when paid early on average
+    onTimeCount: number; // Paid on or before the due date
+}
+
+const roundToCents = (value: number): number => Math.round(value * 100) / 100;
+
+const emptyBuckets = (): Record<AgingBucket, number> => ({ 'current': 0, '1-30': 0, '31-60': 0, '61-90': 0, '90+': 0 });
+
+export const getAgingBucket = (daysOverdue: number): AgingBucket => {
+    if (daysOverdue <= 0) return 'current';
+    if (daysOverdue <= 30) return '1-30';
+    if (daysOverdue <= 60) return '31-60';
+    if (daysOverdue <= 90) return '61-90';
+    return '90+';
+};
+
+// Sorts what is still owed into aging buckets by how many days past due it is today, per payer
+export const buildAgingReport = (receivables: OpenReceivable[], today: Date): AgingReport => {
+    const rows = new Map<string, AgingRow>();
+    const totals = emptyBuckets();
+    receivables.forEach(receivable => {
+        const key = normalizePayer(receivable.payer);
+        const row = rows.get(key) || { payer: receivable.payer.trim(), amounts: emptyBuckets(), total: 0, oldestDaysOverdue: 0 };
+        const daysOverdue = Math.max(daysBetween(receivable.dueDate, today), 0);
+        const bucket = getAgingBucket(daysOverdue);
+        row.amounts[bucket] = roundToCents(row.amounts[bucket] + receivable.amount);
+        row.total = roundToCents(row.total + receivable.amount);
+        row.oldestDaysOverdue = Math.max(row.oldestDaysOverdue, daysOverdue);
+        totals[bucket] = roundToCents(totals[bucket] + receivable.amount);
+        rows.set(key, row);
+    });
+    return {
+        rows: [...rows.values()].sort((a, b) => b.total - a.total),
+        totals,
+        total: roundToCents(agingBuckets.reduce((sum, bucket) => sum + totals[bucket], 0)),
+    };
+};
+
+// The total of payments received from `from` up to (but not including) `to`. Each counts on the day it arrived, or on
+// its due date when that is unknown; `getAmount` is given that day, e.g. to convert it at the rate on the day.
+export const sumReceivedPayments = <T extends { dueDate: Date }>(
+    payments: T[],
+    getPaidDate: (payment: T) => Date | null,
+    from: Date,
+    to: Date,
+    getAmount: (payment: T, receivedOn: Date) => number
+): number => payments.reduce((sum, payment) => {
+    const receivedOn = getPaidDate(payment) ?? payment.dueDate;
+    const isInPeriod = receivedOn.getTime() >= from.getTime() && receivedOn.getTime() < to.getTime();
+    return isInPeriod ? sum + getAmount(payment, receivedOn) : sum;
+}, 0);
+
+// How many days after the due date each payer has paid, on average, in the order payers first appear
+export const summarizePaymentHistory = (records: PaymentRecord[]): PaymentHistorySummary[] => {
+    const latenessByPayer = new Map<string, { payer: string; lateness: number[] }>();
+    records.forEach(record => {
+        const key = normalizePayer(record.payer);
+        const entry = latenessByPayer.get(key) || { payer: record.payer.trim(), lateness: [] };
+        entry.lateness.push(daysBetween(record.dueDate, record.paidDate));
+        latenessByPayer.set(key, entry);
+    });
+    return [...latenessByPayer.values()].map(({ payer, lateness }) => ({
+        payer,
+        paidCount: lateness.length,
+        averageDaysToPay: Math.round(lateness.reduce((sum, days) => sum + days, 0) / lateness.length * 10) / 10,
+        onTimeCount: lateness.filter(days => days <= 0).length,
+    }));
+};
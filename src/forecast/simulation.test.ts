@@ -0,0 +1,92 @@
+import { describe, expect, it } from 'vitest';
+import { toDateKey } from './dates';
+import { projectCashFlow, type ForecastEvent } from './engine';
+import { createSeededRandom, getLatenessByPayer, getLatenessSamples, getSpendingVariation, simulateCashFlow } from './simulation';
+
+const today = new Date(2025, 1, 1);
+const event = (kind: ForecastEvent['kind'], date: Date, amount: number): ForecastEvent => ({ kind, date, amount, label: kind });
+
+describe('getLatenessByPayer', () => {
+    it('measures days late per payer, matching names loosely', () => {
+        const lateness = getLatenessByPayer([
+            { payer: 'Acme Corp', dueDate: new Date(2024, 9, 1), paidDate: new Date(2024, 9, 11) },
+            { payer: ' acme corp ', dueDate: new Date(2024, 10, 1), paidDate: new Date(2024, 9, 30) },
+            { payer: 'Globex', dueDate: new Date(2024, 10, 15), paidDate: new Date(2024, 10, 15, 17, 0) },
+        ]);
+        expect(lateness.get('acme corp')).toEqual([10, -2]);
+        expect(lateness.get('globex')).toEqual([0]);
+    });
+
+    it('falls back to every payer\'s history for a new payer', () => {
+        const lateness = getLatenessByPayer([
+            { payer: 'Acme Corp', dueDate: new Date(2024, 9, 1), paidDate: new Date(2024, 9, 11) },
+            { payer: 'Globex', dueDate: new Date(2024, 10, 15), paidDate: new Date(2024, 10, 18) },
+        ]);
+        expect(getLatenessSamples(lateness, 'ACME CORP')).toEqual([10]);
+        expect(getLatenessSamples(lateness, 'Initech')).toEqual([10, 3]);
+        expect(getLatenessSamples(new Map(), 'Initech')).toEqual([]);
+    });
+});
+
+describe('getSpendingVariation', () => {
+    it('recentres daily spending on its mean, as balance changes', () => {
+        expect(getSpendingVariation([100, 0, 200])).toEqual([0, 100, -100]);
+        expect(getSpendingVariation([])).toEqual([]);
+    });
+});
+
+describe('createSeededRandom', () => {
+    it('repeats the same sequence for the same seed', () => {
+        const first = createSeededRandom(42);
+        const second = createSeededRandom(42);
+        const values = Array.from({ length: 5 }, () => first());
+        expect(Array.from({ length: 5 }, () => second())).toEqual(values);
+        expect(values.every(value => value >= 0 && value < 1)).toBe(true);
+    });
+});
+
+describe('simulateCashFlow', () => {
+    const endDate = new Date(2025, 1, 28);
+
+    it('matches the projection when nothing is uncertain', () => {
+        const events = [event('salary', new Date(2025, 1, 15), 500), event('expense', new Date(2025, 1, 20), -800)];
+        const projection = projectCashFlow(events, { today, openingBalance: 100, endDate });
+        const simulation = simulateCashFlow(events, [], { today, openingBalance: 100, endDate, runs: 20 });
+        expect(simulation.bands.map(band => band.p50)).toEqual(projection.points.map(point => point.balance));
+        expect(simulation.bands.map(band => toDateKey(band.date))).toEqual(projection.points.map(point => toDateKey(point.date)));
+        expect(simulation.shortfallProbability).toBe(1);
+        expect(simulation.riskDate && toDateKey(simulation.riskDate)).toBe('2025-02-20');
+    });
+
+    it('spreads a late payer\'s income over its past delays', () => {
+        const rent = event('expense', new Date(2025, 1, 12), -1000);
+        const invoice = { event: event('income', new Date(2025, 1, 10), 1000), latenessSamples: [0, 5] };
+        const simulation = simulateCashFlow([rent], [invoice], { today, openingBalance: 500, endDate, runs: 400 });
+        expect(simulation.shortfallProbability).toBeGreaterThan(0.3);
+        expect(simulation.shortfallProbability).toBeLessThan(0.7);
+        const onTheTwelfth = simulation.bands.find(band => toDateKey(band.date) === '2025-02-12' && band !== simulation.bands[0]);
+        expect(onTheTwelfth && [onTheTwelfth.p10, onTheTwelfth.p90]).toEqual([-500, 500]);
+        expect(simulation.bands[simulation.bands.length - 1].p10).toBe(500); // Paid by the end either way
+    });
+
+    it('never brings an early payment before today', () => {
+        const invoice = { event: event('income', new Date(2025, 1, 2), 300), latenessSamples: [-10] };
+        const simulation = simulateCashFlow([], [invoice], { today, openingBalance: 0, endDate, runs: 5 });
+        expect(simulation.bands[1].p50).toBe(300);
+    });
+
+    it('drops a payment pushed past the end of the projection', () => {
+        const invoice = { event: event('income', new Date(2025, 1, 25), 300), latenessSamples: [10] };
+        const simulation = simulateCashFlow([], [invoice], { today, openingBalance: 0, endDate, runs: 5 });
+        expect(simulation.bands[simulation.bands.length - 1].p90).toBe(0);
+    });
+
+    it('widens the bands with variable spending and gives the same result every time', () => {
+        const options = { today, openingBalance: 1000, endDate, runs: 200, dailySpendingVariation: getSpendingVariation([0, 50, 100]) };
+        const simulation = simulateCashFlow([], [], options);
+        const last = simulation.bands[simulation.bands.length - 1];
+        expect(last.p10).toBeLessThan(1000);
+        expect(last.p90).toBeGreaterThan(1000);
+        expect(simulateCashFlow([], [], options)).toEqual(simulation);
+    });
+});
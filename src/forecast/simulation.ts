@@ -0,0 +1,129 @@
+import { addDays, daysBetween, startOfDay } from './dates';
+import { projectCashFlow, type ForecastEvent } from './engine';
+
+export const DEFAULT_SIMULATION_RUNS = 500;
+
+// A settled payment: when it was due and when it actually arrived
+export interface PaymentRecord {
+    payer: string;
+    dueDate: Date;
+    paidDate: Date;
+}
+
+// An expected payment whose arrival is uncertain. Each run shifts it by one of `latenessSamples`, in days (negative
+// is early); an empty list means it arrives as scheduled.
+export interface UncertainIncome {
+    event: ForecastEvent;
+    latenessSamples: number[];
+}
+
+export interface SimulationOptions {
+    today: Date;
+    openingBalance: number;
+    endDate: Date;
+    runs?: number;
+    // Amounts added to each simulated day's balance, drawn with replacement; see getSpendingVariation
+    dailySpendingVariation?: number[];
+    // Fixed by default so the same inputs always give the same bands
+    seed?: number;
+}
+
+export interface ForecastBand {
+    date: Date;
+    p10: number;
+    p50: number;
+    p90: number;
+}
+
+export interface SimulationResult {
+    // Percentiles of the balance across runs, one per point of the matching projectCashFlow projection
+    bands: ForecastBand[];
+    // Share of runs in which the balance dropped below zero on any day, from 0 to 1
+    shortfallProbability: number;
+    // The first day on which at least one run in ten is below zero
+    riskDate: Date | null;
+}
+
+// Payers are matched by name, ignoring case and surrounding spaces
+export const normalizePayer = (payer: string): string => payer.trim().toLowerCase();
+
+// Days each payer has paid after the due date (negative when early), keyed by normalized payer name
+export const getLatenessByPayer = (records: PaymentRecord[]): Map<string, number[]> => {
+    const latenessByPayer = new Map<string, number[]>();
+    records.forEach(record => {
+        const payer = normalizePayer(record.payer);
+        latenessByPayer.set(payer, [...(latenessByPayer.get(payer) || []), daysBetween(record.dueDate, record.paidDate)]);
+    });
+    return latenessByPayer;
+};
+
+// A payer's own history, or everyone's when the payer has never paid before
+export const getLatenessSamples = (latenessByPayer: Map<string, number[]>, payer: string): number[] =>
+    latenessByPayer.get(normalizePayer(payer)) || [...latenessByPayer.values()].flat();
+
+// Daily spending totals recentred on their mean: how much more (negative) or less (positive) than usual was spent
+// each day. Sampling these leaves the expected balance where it was and spreads the bands around it.
+export const getSpendingVariation = (dailySpending: number[]): number[] => {
+    if (dailySpending.length === 0) return [];
+    const mean = dailySpending.reduce((sum, amount) => sum + amount, 0) / dailySpending.length;
+    return dailySpending.map(amount => mean - amount);
+};
+
+// mulberry32: small, fast and good enough to draw samples from
+export const createSeededRandom = (seed: number): (() => number) => {
+    let state = seed >>> 0;
+    return () => {
+        state = (state + 0x6D2B79F5) >>> 0;
+        let t = state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+};
+
+// The value below which a share `p` of the sorted values fall (nearest rank)
+const percentile = (sortedValues: number[], p: number): number =>
+    sortedValues[Math.min(sortedValues.length - 1, Math.max(0, Math.ceil(p * sortedValues.length) - 1))];
+
+// Monte Carlo projection: every run moves each uncertain income by a sampled lateness (never before today, and out
+// of the projection when pushed past its end) and adds a sampled spending variation to every day, then runs the
+// balance forward like projectCashFlow. `events` are certain and always land on their dates.
+export const simulateCashFlow = (events: ForecastEvent[], uncertainIncomes: UncertainIncome[], options: SimulationOptions): SimulationResult => {
+    const today = startOfDay(options.today);
+    const runs = Math.max(1, options.runs ?? DEFAULT_SIMULATION_RUNS);
+    const variation = options.dailySpendingVariation || [];
+    const random = createSeededRandom(options.seed ?? 1);
+    const pick = (values: number[]) => values[Math.floor(random() * values.length)];
+    const days = daysBetween(today, options.endDate) + 1;
+
+    const balancesByPoint: number[][] = [];
+    let runsWithShortfall = 0;
+    for (let run = 0; run < runs; run++) {
+        const runEvents = [...events];
+        uncertainIncomes.forEach(({ event, latenessSamples }) => {
+            const shifted = latenessSamples.length > 0 ? addDays(event.date, pick(latenessSamples)) : event.date;
+            runEvents.push({ ...event, date: shifted.getTime() < today.getTime() ? today : shifted });
+        });
+        if (variation.length > 0) {
+            for (let day = 0; day < days; day++) {
+                runEvents.push({ kind: 'expense', date: addDays(today, day), amount: pick(variation), label: 'Spending variation' });
+            }
+        }
+        const { points, shortfallDate } = projectCashFlow(runEvents, { today, openingBalance: options.openingBalance, endDate: options.endDate });
+        points.forEach((point, index) => {
+            if (!balancesByPoint[index]) balancesByPoint[index] = [];
+            balancesByPoint[index].push(point.balance);
+        });
+        if (shortfallDate) runsWithShortfall++;
+    }
+
+    const bands = balancesByPoint.map((balances, index) => {
+        const sorted = [...balances].sort((a, b) => a - b);
+        return { date: index === 0 ? today : addDays(today, index - 1), p10: percentile(sorted, 0.1), p50: percentile(sorted, 0.5), p90: percentile(sorted, 0.9) };
+    });
+    return {
+        bands,
+        shortfallProbability: runsWithShortfall / runs,
+        riskDate: bands.slice(1).find(band => band.p10 < 0)?.date || null,
+    };
+};
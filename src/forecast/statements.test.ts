@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { detectDecimalSeparator, parseStatementAmount } from './statements';
+
+describe('parseStatementAmount', () => {
+    it('reads plain, grouped and currency-prefixed amounts', () => {
+        expect(parseStatementAmount('1,234.50')).toBe(1234.5);
+        expect(parseStatementAmount('PHP 250')).toBe(250);
+        expect(parseStatementAmount('₱ 1 000.25')).toBe(1000.25);
+        expect(parseStatementAmount('.75')).toBe(0.75);
+    });
+
+    it('treats only a leading or trailing minus or parentheses as negative', () => {
+        expect(parseStatementAmount('-250.00')).toBe(-250);
+        expect(parseStatementAmount('PHP -250.00')).toBe(-250);
+        expect(parseStatementAmount('-PHP 250.00')).toBe(-250);
+        expect(parseStatementAmount('250.00-')).toBe(-250);
+        expect(parseStatementAmount('(1,250.00)')).toBe(-1250);
+        expect(parseStatementAmount('250.00 PHP')).toBe(250);
+    });
+
+    it('rejects a hyphen inside the number instead of reading it as negative', () => {
+        expect(parseStatementAmount('2025-06-30')).toBeNull();
+        expect(parseStatementAmount('12-34')).toBeNull();
+    });
+
+    it('reads decimal-comma amounts when told the separator', () => {
+        expect(parseStatementAmount('1.234,50', ',')).toBe(1234.5);
+        expect(parseStatementAmount('-1.234,50 EUR', ',')).toBe(-1234.5);
+        expect(parseStatementAmount("1'234,5", ',')).toBe(1234.5);
+        expect(parseStatementAmount('1,234.50', ',')).toBeNull();
+    });
+
+    it('returns null for blank or non-numeric cells', () => {
+        expect(parseStatementAmount('')).toBeNull();
+        expect(parseStatementAmount('  ')).toBeNull();
+        expect(parseStatementAmount('n/a')).toBeNull();
+        expect(parseStatementAmount('-')).toBeNull();
+    });
+});
+
+describe('detectDecimalSeparator', () => {
+    it('recognizes decimal-comma columns', () => {
+        expect(detectDecimalSeparator(['1.234,50', '-12,00', ''])).toBe(',');
+        expect(detectDecimalSeparator(['1.234.567', '250'])).toBe(',');
+    });
+
+    it('recognizes decimal-point columns', () => {
+        expect(detectDecimalSeparator(['1,234.50', '-12.00'])).toBe('.');
+        expect(detectDecimalSeparator(['1,234,567'])).toBe('.');
+    });
+
+    it('defaults to a decimal point when every amount is ambiguous', () => {
+        expect(detectDecimalSeparator(['1,234', '250', 'n/a'])).toBe('.');
+    });
+});
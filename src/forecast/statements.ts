@@ -0,0 +1,45 @@
+// The character that separates whole units from cents in a statement amount; the other one groups thousands
+export type DecimalSeparator = '.' | ',';
+
+// Parses amounts such as "1,234.50", "PHP -250.00", "250.00-" or "(250.00)". Only a minus sign before or after
+// the number, or enclosing parentheses, make it negative; "1.234,50" needs ',' as the decimal separator.
+export const parseStatementAmount = (value: string, decimalSeparator: DecimalSeparator = '.'): number | null => {
+    let text = value.trim();
+    const isParenthesized = /^\(.*\)$/.test(text);
+    if (isParenthesized) text = text.slice(1, -1).trim();
+
+    const start = text.search(/[\d.,]/);
+    const end = text.search(/\d[^\d]*$/);
+    if (start < 0 || end < 0) return null;
+    const prefix = text.slice(0, start); // Currency code or symbol and sign
+    const suffix = text.slice(end + 1);
+    const groupSeparator = decimalSeparator === '.' ? ',' : '.';
+    const number = text.slice(start, end + 1).replace(/[\s']/g, '');
+    const decimalIndex = number.indexOf(decimalSeparator);
+    if (decimalIndex >= 0 && number.lastIndexOf(groupSeparator) > decimalIndex) return null;
+    const digits = number.split(groupSeparator).join('').replace(decimalSeparator, '.');
+    if (!/^\d*\.?\d+$/.test(digits)) return null;
+
+    const isNegative = isParenthesized || prefix.includes('-') || suffix.includes('-');
+    const numeric = parseFloat(digits);
+    return isNegative ? -numeric : numeric;
+};
+
+// Guesses the decimal separator a statement column uses. A separator followed by other than three digits
+// at the end of a number is a decimal one; amounts like "1,234" could be either and are ignored.
+export const detectDecimalSeparator = (values: string[]): DecimalSeparator => {
+    let commaVotes = 0;
+    let periodVotes = 0;
+    values.forEach(value => {
+        const match = /^(.*?)([.,])(\d+)\D*$/.exec(value.trim());
+        if (!match) return;
+        const [, before, separator, decimals] = match;
+        const other = separator === '.' ? ',' : '.';
+        let decimal: string | null = null;
+        if (decimals.length !== 3 || before.includes(other)) decimal = separator;
+        else if (before.includes(separator)) decimal = other;
+        if (decimal === ',') commaVotes++;
+        else if (decimal === '.') periodVotes++;
+    });
+    return commaVotes > periodVotes ? ',' : '.';
+};